@@ -0,0 +1,165 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2, RotateCcw, LogOut } from "lucide-react";
+
+import { MagicCard } from "@/components/ui/magic-card";
+import { AnimatedGradientText } from "@/components/ui/animated-gradient-text";
+import { Button } from "@/components/ui/button";
+import { BlurFade } from "@/components/ui/blur-fade";
+
+import { createClient } from "@/lib/supabase/client";
+import { useAuth } from "@/lib/auth/auth-context";
+import { useProfileStore } from "@/lib/stores/profile-store";
+
+interface PendingDeletion {
+  username: string;
+  deletion_scheduled_for: string | null;
+}
+
+/**
+ * Restore Account Page
+ * Signed-in owners of an account pending deletion land here (see proxy)
+ * and can restore it until the grace period ends
+ */
+export default function RestoreAccountPage() {
+  const router = useRouter();
+  const supabase = createClient();
+  const { user, signOut } = useAuth();
+  const { setProfile } = useProfileStore();
+  const [account, setAccount] = useState<PendingDeletion | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchAccount = async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("username, is_active, deletion_scheduled_for")
+        .eq("id", user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching account:", error);
+        toast.error("Failed to load your account");
+        return;
+      }
+
+      if (!data) {
+        router.push("/onboarding");
+      } else if (data.is_active) {
+        router.push("/dashboard");
+      } else {
+        setAccount(data);
+      }
+    };
+
+    fetchAccount();
+  }, [user, router, supabase]);
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+
+    try {
+      const response = await fetch("/api/profile/restore", { method: "POST" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || "Failed to restore account");
+        return;
+      }
+
+      setProfile(data.profile);
+      toast.success("Welcome back! Your account has been restored");
+      router.push("/dashboard");
+    } catch (error) {
+      console.error("Error restoring account:", error);
+      toast.error("An error occurred. Please try again.");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!account) {
+    return (
+      <div className="container max-w-md mx-auto px-4 py-8">
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Loader2 className="w-8 h-8 animate-spin text-purple-500" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <BlurFade delay={0.1} inView>
+      <div className="container max-w-md mx-auto px-4 py-8">
+        <div className="text-center mb-8">
+          <AnimatedGradientText className="text-4xl font-bold mb-4">
+            Restore Account
+          </AnimatedGradientText>
+          <p className="text-muted-foreground">
+            @{account.username} is scheduled for deletion
+          </p>
+        </div>
+
+        <MagicCard
+          className="p-8 backdrop-blur-xl bg-[#1A1A1A]/50 border border-white/10"
+          gradientColor="#8B5CF6"
+        >
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Your profile is hidden and isn&apos;t taking messages.
+              {account.deletion_scheduled_for && (
+                <>
+                  {" "}
+                  On{" "}
+                  <span className="text-white font-medium">
+                    {new Date(account.deletion_scheduled_for).toLocaleDateString("en-US", {
+                      year: "numeric",
+                      month: "long",
+                      day: "numeric",
+                    })}
+                  </span>{" "}
+                  it will be permanently deleted with all your messages,
+                  analytics and uploaded files.
+                </>
+              )}{" "}
+              Restore it to pick up where you left off.
+            </p>
+
+            <Button
+              onClick={handleRestore}
+              disabled={isRestoring}
+              className="w-full bg-linear-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
+            >
+              {isRestoring ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Restoring...
+                </>
+              ) : (
+                <>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Restore Account
+                </>
+              )}
+            </Button>
+
+            <Button
+              variant="outline"
+              onClick={signOut}
+              disabled={isRestoring}
+              className="w-full"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Keep Deleted and Sign Out
+            </Button>
+          </div>
+        </MagicCard>
+      </div>
+    </BlurFade>
+  );
+}
@@ -0,0 +1,72 @@
+import Link from "next/link";
+import { AnimatedGradientText } from "@/components/ui/animated-gradient-text";
+import { BlurFade } from "@/components/ui/blur-fade";
+import { MagicCard } from "@/components/ui/magic-card";
+import { EmailUnsubscribe } from "@/components/notifications/email-unsubscribe";
+import {
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+} from "@/lib/utils/unsubscribe-token";
+import { EMAIL_UNSUBSCRIBE_KINDS } from "@/lib/constants/email-notifications";
+
+export const metadata = {
+  title: "Unsubscribe - NGLFS",
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+/**
+ * Unsubscribe Page - Turn off notification emails from an email link,
+ * without signing in. The signed token says which account and emails
+ * URL: /unsubscribe?token=<token>
+ */
+export default async function UnsubscribePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const unsubscribe = token ? verifyUnsubscribeToken(token) : null;
+
+  return (
+    <BlurFade delay={0.1} inView>
+      <div className="container max-w-md mx-auto px-4 py-8">
+        <div className="text-center mb-8">
+          <AnimatedGradientText className="text-4xl font-bold mb-4">
+            Unsubscribe
+          </AnimatedGradientText>
+        </div>
+
+        {token && unsubscribe ? (
+          <EmailUnsubscribe
+            token={token}
+            kind={unsubscribe.kind}
+            allToken={createUnsubscribeToken(
+              unsubscribe.userId,
+              EMAIL_UNSUBSCRIBE_KINDS.ALL
+            )}
+          />
+        ) : (
+          <MagicCard
+            className="p-8 backdrop-blur-xl bg-[#1A1A1A]/50 border border-white/10"
+            gradientColor="#8B5CF6"
+          >
+            <p className="text-sm text-muted-foreground">
+              This unsubscribe link is invalid or incomplete. You can turn
+              emails off in your{" "}
+              <Link
+                href="/dashboard/settings"
+                className="text-purple-400 hover:text-purple-300"
+              >
+                notification settings
+              </Link>
+              .
+            </p>
+          </MagicCard>
+        )}
+      </div>
+    </BlurFade>
+  );
+}
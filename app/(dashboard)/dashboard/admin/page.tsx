@@ -0,0 +1,34 @@
+import { notFound } from "next/navigation";
+import { AnimatedGradientText } from "@/components/ui/animated-gradient-text";
+import { AdminConsole } from "@/components/admin/admin-console";
+import { getCurrentAdminId } from "@/lib/db/admins";
+
+/**
+ * Admin Console Page
+ *
+ * Platform admins search profiles and suspend, rename or take down content
+ * from them. Everyone else is turned away by the proxy (and gets a 404 here)
+ * Route: /dashboard/admin
+ */
+export default async function AdminConsolePage() {
+  if (!(await getCurrentAdminId())) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <AnimatedGradientText className="text-3xl font-bold mb-2">
+          Admin Console
+        </AnimatedGradientText>
+        <p className="text-gray-400">
+          Find a profile to suspend it, rename an impersonating username or
+          remove its avatar or bio. Every action is recorded in the audit log.
+        </p>
+      </div>
+
+      <AdminConsole />
+    </div>
+  );
+}
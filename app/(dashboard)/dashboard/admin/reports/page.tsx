@@ -0,0 +1,34 @@
+import { notFound } from "next/navigation";
+import { AnimatedGradientText } from "@/components/ui/animated-gradient-text";
+import { ReportQueue } from "@/components/admin/report-queue";
+import { getCurrentAdminId } from "@/lib/db/admins";
+
+/**
+ * Moderation Queue Page
+ *
+ * Platform admins triage reported messages here. Everyone else is turned
+ * away by the proxy (and gets a 404 here)
+ * Route: /dashboard/admin/reports
+ */
+export default async function ModerationQueuePage() {
+  if (!(await getCurrentAdminId())) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <AnimatedGradientText className="text-3xl font-bold mb-2">
+          Moderation Queue
+        </AnimatedGradientText>
+        <p className="text-gray-400">
+          Reports from recipients, oldest first. Review the message, leave
+          notes for other reviewers, then action or dismiss the report.
+        </p>
+      </div>
+
+      <ReportQueue />
+    </div>
+  );
+}
@@ -1,7 +1,15 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Loader2, MessageSquare, Eye, TrendingUp, Calendar } from "lucide-react";
+import {
+  Loader2,
+  MessageSquare,
+  Eye,
+  TrendingUp,
+  Calendar,
+  Link2,
+  Globe,
+} from "lucide-react";
 import { MagicCard } from "@/components/ui/magic-card";
 import { AnimatedGradientText } from "@/components/ui/animated-gradient-text";
 import { AnalyticsDashboardSkeleton } from "@/components/skeletons/analytics-skeleton";
@@ -24,9 +32,37 @@ interface AnalyticsData {
   }[];
 }
 
+interface LinkStatsData {
+  links: {
+    linkId: string | null;
+    name: string;
+    slug: string | null;
+    isOpen: boolean;
+    visits: number;
+    messages: number;
+    conversionRate: number;
+  }[];
+  topReferrers: {
+    referrer: string;
+    count: number;
+  }[];
+}
+
+/**
+ * Shorten a referrer URL to its host for display
+ */
+function formatReferrer(referrer: string): string {
+  try {
+    return new URL(referrer).host;
+  } catch {
+    return referrer;
+  }
+}
+
 export default function AnalyticsPage() {
   const { user } = useAuth();
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
+  const [linkStats, setLinkStats] = useState<LinkStatsData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   // Fetch analytics data
@@ -35,7 +71,10 @@ export default function AnalyticsPage() {
 
     setIsLoading(true);
     try {
-      const response = await fetch("/api/analytics/overview");
+      const [response, linksResponse] = await Promise.all([
+        fetch("/api/analytics/overview"),
+        fetch("/api/analytics/links"),
+      ]);
       const data = await response.json();
 
       if (response.ok) {
@@ -43,6 +82,10 @@ export default function AnalyticsPage() {
       } else {
         toast.error(data.error || "Failed to load analytics");
       }
+
+      if (linksResponse.ok) {
+        setLinkStats(await linksResponse.json());
+      }
     } catch (error) {
       console.error("Error fetching analytics:", error);
       toast.error("Failed to load analytics");
@@ -205,6 +248,73 @@ export default function AnalyticsPage() {
         </MagicCard>
       </div>
 
+      {/* Links & Referrers */}
+      {linkStats && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-8">
+          <MagicCard className="p-6 lg:col-span-2">
+            <h3 className="text-lg font-semibold text-white mb-4">Links</h3>
+            <div className="space-y-3">
+              <div className="grid grid-cols-[1fr_auto_auto_auto] gap-4 px-4 text-xs text-gray-500 uppercase tracking-wide">
+                <span>Link</span>
+                <span className="w-14 text-right">Visits</span>
+                <span className="w-14 text-right">Msgs</span>
+                <span className="w-14 text-right">Conv.</span>
+              </div>
+              {linkStats.links.map((link) => (
+                <div
+                  key={link.linkId || "main"}
+                  className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-4 p-4 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Link2 className="w-4 h-4 text-purple-500 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-white font-medium truncate">
+                        {link.name}
+                      </p>
+                      {link.slug && (
+                        <p className="text-xs text-gray-500 truncate">
+                          /q/{link.slug}
+                          {!link.isOpen && " · closed"}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <span className="w-14 text-right text-white">{link.visits}</span>
+                  <span className="w-14 text-right text-white">{link.messages}</span>
+                  <span className="w-14 text-right text-gray-300">
+                    {link.conversionRate}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          </MagicCard>
+
+          <MagicCard className="p-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Top Referrers</h3>
+            <div className="space-y-3">
+              {linkStats.topReferrers.length === 0 ? (
+                <p className="text-gray-400 text-center py-4">No referrers yet</p>
+              ) : (
+                linkStats.topReferrers.map((item) => (
+                  <div
+                    key={item.referrer}
+                    className="flex items-center justify-between gap-4 p-4 rounded-lg bg-white/5"
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Globe className="w-4 h-4 text-blue-500 shrink-0" />
+                      <span className="text-gray-300 truncate">
+                        {formatReferrer(item.referrer)}
+                      </span>
+                    </div>
+                    <span className="text-white font-medium">{item.count}</span>
+                  </div>
+                ))
+              )}
+            </div>
+          </MagicCard>
+        </div>
+      )}
+
       {/* Recent Activity */}
       <MagicCard className="p-6">
         <h3 className="text-lg font-semibold text-white mb-4">Recent Activity (Last 7 Days)</h3>
@@ -0,0 +1,402 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Loader2,
+  Plus,
+  Copy,
+  Lock,
+  LockOpen,
+  Trash2,
+  Link2,
+} from "lucide-react";
+import { MagicCard } from "@/components/ui/magic-card";
+import { AnimatedGradientText } from "@/components/ui/animated-gradient-text";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { useAuth } from "@/lib/auth/auth-context";
+import { useProfileStore } from "@/lib/stores/profile-store";
+import { cn } from "@/lib/utils";
+
+interface CampaignLink {
+  id: string;
+  slug: string;
+  name: string;
+  prompt: string | null;
+  is_open: boolean;
+  expires_at: string | null;
+  created_at: string;
+}
+
+const MAX_NAME_LENGTH = 50;
+const MAX_PROMPT_LENGTH = 100;
+const MAX_SLUG_LENGTH = 40;
+
+/**
+ * Turn a link name into a URL slug ("Monday Story!" -> "monday-story")
+ */
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_SLUG_LENGTH);
+}
+
+function isExpired(link: CampaignLink): boolean {
+  return !!link.expires_at && new Date(link.expires_at).getTime() <= Date.now();
+}
+
+export default function LinksPage() {
+  const { user } = useAuth();
+  const { profile } = useProfileStore();
+  const [links, setLinks] = useState<CampaignLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [slug, setSlug] = useState("");
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [prompt, setPrompt] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+
+  // Fetch links
+  const fetchLinks = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/campaign-links");
+      const data = await response.json();
+
+      if (response.ok) {
+        setLinks(data.links || []);
+      } else {
+        toast.error(data.error || "Failed to load links");
+      }
+    } catch (error) {
+      console.error("Error fetching links:", error);
+      toast.error("Failed to load links");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  const getLinkUrl = (link: CampaignLink) =>
+    `${typeof window !== "undefined" ? window.location.origin : ""}/${profile?.username}/q/${link.slug}`;
+
+  // Create link
+  const createLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !slug) return;
+
+    setIsCreating(true);
+    try {
+      const response = await fetch("/api/campaign-links", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          slug,
+          prompt: prompt.trim() || null,
+          expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setLinks((prev) => [data.link, ...prev]);
+        setName("");
+        setSlug("");
+        setSlugEdited(false);
+        setPrompt("");
+        setExpiresAt("");
+        toast.success("Link created");
+      } else {
+        toast.error(data.error || "Failed to create link");
+      }
+    } catch (error) {
+      console.error("Error creating link:", error);
+      toast.error("Failed to create link");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Open or close a link
+  const toggleLink = async (link: CampaignLink) => {
+    setBusyId(link.id);
+    try {
+      const response = await fetch(`/api/campaign-links/${link.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_open: !link.is_open }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setLinks((prev) =>
+          prev.map((item) => (item.id === link.id ? data.link : item))
+        );
+        toast.success(data.link.is_open ? "Link reopened" : "Link closed");
+      } else {
+        toast.error(data.error || "Failed to update link");
+      }
+    } catch (error) {
+      console.error("Error updating link:", error);
+      toast.error("Failed to update link");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Delete link
+  const deleteLink = async (linkId: string) => {
+    if (
+      !confirm(
+        "Delete this link? Visits and messages are kept but no longer attributed to it."
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(linkId);
+    try {
+      const response = await fetch(`/api/campaign-links/${linkId}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setLinks((prev) => prev.filter((link) => link.id !== linkId));
+        toast.success("Link deleted");
+      } else {
+        toast.error("Failed to delete link");
+      }
+    } catch (error) {
+      console.error("Error deleting link:", error);
+      toast.error("Failed to delete link");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Copy link URL
+  const copyLink = async (link: CampaignLink) => {
+    try {
+      await navigator.clipboard.writeText(getLinkUrl(link));
+      toast.success("Link copied to clipboard!");
+    } catch {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <AnimatedGradientText className="text-3xl font-bold mb-2">
+          Links
+        </AnimatedGradientText>
+        <p className="text-gray-400">
+          Share a separate link per story or post to see which one brings in
+          messages. Each link can have its own prompt and expiry.
+        </p>
+      </div>
+
+      {/* Create Link */}
+      <MagicCard className="p-6 mb-6">
+        <form onSubmit={createLink} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="link-name" className="text-white">
+                Name
+              </Label>
+              <Input
+                id="link-name"
+                value={name}
+                onChange={(e) => {
+                  setName(e.target.value);
+                  if (!slugEdited) setSlug(slugify(e.target.value));
+                }}
+                placeholder="e.g. Monday story"
+                maxLength={MAX_NAME_LENGTH}
+                disabled={isCreating}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="link-slug" className="text-white">
+                URL
+              </Label>
+              <div className="flex items-center gap-1">
+                <span className="text-sm text-gray-500 shrink-0">
+                  /{profile?.username}/q/
+                </span>
+                <Input
+                  id="link-slug"
+                  value={slug}
+                  onChange={(e) => {
+                    setSlug(slugify(e.target.value));
+                    setSlugEdited(true);
+                  }}
+                  placeholder="monday-story"
+                  maxLength={MAX_SLUG_LENGTH}
+                  disabled={isCreating}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="link-prompt" className="text-white">
+              Prompt (optional)
+            </Label>
+            <Input
+              id="link-prompt"
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              placeholder='e.g. "ask me about my trip"'
+              maxLength={MAX_PROMPT_LENGTH}
+              disabled={isCreating}
+            />
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="link-expires" className="text-white">
+                Expires (optional)
+              </Label>
+              <Input
+                id="link-expires"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                disabled={isCreating}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              disabled={isCreating || !name.trim() || !slug}
+              className="bg-linear-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
+            >
+              {isCreating ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create link
+                </>
+              )}
+            </Button>
+          </div>
+        </form>
+      </MagicCard>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-purple-500" />
+        </div>
+      ) : links.length === 0 ? (
+        <MagicCard className="p-12 text-center">
+          <Link2 className="w-16 h-16 mx-auto mb-4 text-gray-600" />
+          <h3 className="text-xl font-semibold text-white mb-2">
+            No links yet
+          </h3>
+          <p className="text-gray-400">
+            Create a link for your next story to track where messages come from
+          </p>
+        </MagicCard>
+      ) : (
+        <div className="space-y-3">
+          {links.map((link) => {
+            const isBusy = busyId === link.id;
+            const expired = isExpired(link);
+            const isLive = link.is_open && !expired;
+
+            return (
+              <MagicCard
+                key={link.id}
+                className={cn("p-4", !isLive && "opacity-60")}
+              >
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-white font-medium truncate">
+                        {link.name}
+                      </p>
+                      {!isLive && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-gray-500/20 text-gray-400">
+                          {expired ? "Expired" : "Closed"}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-purple-400 truncate">
+                      /{profile?.username}/q/{link.slug}
+                    </p>
+                    {link.prompt && (
+                      <p className="text-sm text-gray-400 truncate mt-1">
+                        {link.prompt}
+                      </p>
+                    )}
+                    {link.expires_at && !expired && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Expires {new Date(link.expires_at).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-1 shrink-0">
+                    {isBusy && (
+                      <Loader2 className="w-4 h-4 animate-spin text-purple-500" />
+                    )}
+
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => copyLink(link)}
+                      title="Copy link"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => toggleLink(link)}
+                      disabled={isBusy}
+                      title={link.is_open ? "Close link" : "Reopen link"}
+                    >
+                      {link.is_open ? (
+                        <Lock className="w-4 h-4" />
+                      ) : (
+                        <LockOpen className="w-4 h-4" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteLink(link.id)}
+                      disabled={isBusy}
+                      className="text-red-500 hover:text-red-600 hover:bg-red-500/10"
+                      title="Delete link"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </MagicCard>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
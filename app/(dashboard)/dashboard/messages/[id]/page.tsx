@@ -3,8 +3,15 @@
 import { use, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, Trash2, Flag, Ban, Clock, Check } from 'lucide-react';
+import { ArrowLeft, Trash2, Flag, Ban, Clock, Check, Share2, ShieldAlert, ShieldCheck } from 'lucide-react';
 import { MessageTrackingCards, MessageWithTracking, MessageMetadata } from '@/components/messages/message-tracking-cards';
+import { AnswerEditor } from '@/components/messages/answer-editor';
+import { MessageThread } from '@/components/messages/message-thread';
+import { MessageAttachments } from '@/components/messages/message-attachments';
+import { ShareImageDialog } from '@/components/messages/share-image-dialog';
+import { BlockSenderDialog } from '@/components/messages/block-sender-dialog';
+import { ReportMessageDialog } from '@/components/messages/report-message-dialog';
+import { useProfileStore } from '@/lib/stores/profile-store';
 import { toast } from 'sonner';
 
 interface MessageDetailPageProps {
@@ -22,11 +29,13 @@ interface MessageDetailPageProps {
 export default function MessageDetailPage({ params }: MessageDetailPageProps) {
   const resolvedParams = use(params);
   const router = useRouter();
+  const { profile } = useProfileStore();
   const [message, setMessage] = useState<MessageWithTracking | null>(null);
   const [metadata, setMetadata] = useState<MessageMetadata | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [releasing, setReleasing] = useState(false);
 
   // Fetch message data
   useEffect(() => {
@@ -77,50 +86,32 @@ export default function MessageDetailPage({ params }: MessageDetailPageProps) {
     }
   }
 
-  // Report message
-  async function handleReport() {
+  // Release a message held by moderation into the inbox
+  async function handleRelease() {
+    setReleasing(true);
     try {
-      const response = await fetch('/api/messages/report', {
+      const response = await fetch('/api/messages/bulk', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messageId: resolvedParams.id }),
+        body: JSON.stringify({ action: 'release', message_ids: [resolvedParams.id] }),
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to report message');
+      const data = await response.json();
+      if (!response.ok || data.failed > 0) {
+        throw new Error('Failed to release message');
       }
 
-      toast.success('Message reported');
+      setMessage((prev) => (prev ? { ...prev, moderation_verdict: 'deliver' } : prev));
+      toast.success('Message released to your inbox');
     } catch (err) {
-      toast.error('Failed to report message');
-    }
-  }
-
-  // Block sender
-  async function handleBlock() {
-    if (!message || !confirm('Block this sender? They will no longer be able to send you messages.')) {
-      return;
-    }
-
-    try {
-      const response = await fetch('/api/messages/block', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ipHash: message.sender_ip_hash }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to block sender');
-      }
-
-      toast.success('Sender blocked');
-      // Refresh to show blocked status
-      window.location.reload();
-    } catch (err) {
-      toast.error('Failed to block sender');
+      console.error('Error releasing message:', err);
+      toast.error('Failed to release message');
+    } finally {
+      setReleasing(false);
     }
   }
 
+  // Report message
   if (loading) {
     return (
       <div className="min-h-screen p-4 sm:p-6 md:p-8 flex items-center justify-center">
@@ -202,6 +193,34 @@ export default function MessageDetailPage({ params }: MessageDetailPageProps) {
             )}
           </div>
 
+          {message.moderation_verdict === 'hold' && (
+            <div className="mt-4 p-3 sm:p-4 bg-orange-500/10 border border-orange-500/20 rounded-lg">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="flex items-start gap-2">
+                  <ShieldAlert className="w-4 h-4 text-orange-400 mt-0.5 shrink-0" />
+                  <div>
+                    <p className="text-sm font-medium text-orange-300">Filtered</p>
+                    <p className="text-xs text-orange-300/70">
+                      Matched:{' '}
+                      {(message.moderation_matches || [])
+                        .map((match) => match.rule.replace(/_/g, ' '))
+                        .filter((rule, index, rules) => rules.indexOf(rule) === index)
+                        .join(', ') || 'moderation rules'}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={handleRelease}
+                  disabled={releasing}
+                  className="inline-flex items-center justify-center gap-2 px-3 py-1.5 bg-orange-500/10 hover:bg-orange-500/20 text-orange-300 rounded-lg transition-colors disabled:opacity-50 text-sm shrink-0"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  <span>{releasing ? 'Releasing...' : 'Release to inbox'}</span>
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="mt-4 sm:mt-6 p-4 sm:p-6 bg-[#0A0A0A]/50 rounded-lg border border-white/5">
             <p className="text-white text-base sm:text-lg leading-relaxed whitespace-pre-wrap break-words">
               {message.content}
@@ -219,22 +238,44 @@ export default function MessageDetailPage({ params }: MessageDetailPageProps) {
               <span>Delete</span>
             </button>
 
-            <button
-              onClick={handleReport}
-              className="inline-flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-yellow-500/10 hover:bg-yellow-500/20 text-yellow-400 rounded-lg transition-colors text-sm"
-            >
-              <Flag className="w-4 h-4" />
-              <span>Report</span>
-            </button>
+            <ReportMessageDialog
+              messageId={message.id}
+              trigger={
+                <button className="inline-flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-yellow-500/10 hover:bg-yellow-500/20 text-yellow-400 rounded-lg transition-colors text-sm">
+                  <Flag className="w-4 h-4" />
+                  <span>Report</span>
+                </button>
+              }
+            />
+
+            <ShareImageDialog
+              messageId={message.id}
+              trigger={
+                <button className="inline-flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-purple-500/10 hover:bg-purple-500/20 text-purple-400 rounded-lg transition-colors text-sm">
+                  <Share2 className="w-4 h-4" />
+                  <span>Share Image</span>
+                </button>
+              }
+            />
 
             {!metadata.is_sender_blocked && (
-              <button
-                onClick={handleBlock}
-                className="inline-flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-gray-500/10 hover:bg-gray-500/20 text-gray-400 rounded-lg transition-colors text-sm"
-              >
-                <Ban className="w-4 h-4" />
-                <span>Block Sender</span>
-              </button>
+              <BlockSenderDialog
+                messageId={message.id}
+                onBlocked={(deletedCount) => {
+                  if (deletedCount > 0) {
+                    // This message was deleted along with the rest
+                    router.push('/dashboard/messages');
+                    return;
+                  }
+                  setMetadata({ ...metadata, is_sender_blocked: true });
+                }}
+                trigger={
+                  <button className="inline-flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-gray-500/10 hover:bg-gray-500/20 text-gray-400 rounded-lg transition-colors text-sm">
+                    <Ban className="w-4 h-4" />
+                    <span>Block Sender</span>
+                  </button>
+                }
+              />
             )}
 
             {metadata.is_sender_blocked && (
@@ -246,6 +287,15 @@ export default function MessageDetailPage({ params }: MessageDetailPageProps) {
           </div>
         </div>
 
+        {/* Attached Images */}
+        <MessageAttachments messageId={message.id} />
+
+        {/* Private Thread */}
+        <MessageThread messageId={message.id} />
+
+        {/* Public Answer */}
+        <AnswerEditor messageId={message.id} username={profile?.username} />
+
         {/* Sender Tracking Analytics */}
         <div>
           <h2 className="text-lg sm:text-xl font-bold text-white mb-3 sm:mb-4">Sender Analytics</h2>
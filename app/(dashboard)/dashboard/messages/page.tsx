@@ -1,22 +1,43 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import Link from "next/link";
-import { Loader2, MessageSquare, Trash2, Eye, Search, Shield, AlertTriangle, ExternalLink } from "lucide-react";
+import { Loader2, MessageSquare, Trash2, Eye, Search, Shield, AlertTriangle, ExternalLink, Layers, SlidersHorizontal, Flag, X, Archive, ArchiveRestore, CheckSquare, EyeOff, Tag, ShieldCheck } from "lucide-react";
 import { MagicCard } from "@/components/ui/magic-card";
 import { AnimatedGradientText } from "@/components/ui/animated-gradient-text";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { BlockSenderDialog } from "@/components/messages/block-sender-dialog";
 import { ReportMessageDialog } from "@/components/messages/report-message-dialog";
+import { MessageLabelsDialog } from "@/components/messages/message-labels-dialog";
 import { SuspiciousActivityAlert } from "@/components/dashboard/suspicious-activity-alert";
 import { MessageListSkeleton } from "@/components/skeletons/message-skeleton";
 import { toast } from "sonner";
 import { useAuth } from "@/lib/auth/auth-context";
 import { useProfileStore } from "@/lib/stores/profile-store";
+import {
+  useMessageFoldersStore,
+  fetchMessageFolders,
+} from "@/lib/stores/message-folders-store";
+import { getLabelColorClasses, getLabelDotClass } from "@/lib/constants/message-labels";
 import { cn } from "@/lib/utils";
 import { NotificationPrompt, useNotificationPrompt } from "@/components/notifications/notification-prompt";
 import { shouldShowPrompt } from "@/lib/notifications/client";
+import {
+  MESSAGE_READ_FILTERS,
+  MESSAGE_SORTS,
+  NO_PROMPT_FILTER,
+  getMessageSortText,
+  type MessageReadFilter,
+  type MessageSort,
+} from "@/lib/constants/message-filters";
 
 interface Message {
   id: string;
@@ -24,40 +45,159 @@ interface Message {
   is_read: boolean;
   is_flagged?: boolean;
   created_at: string;
-  sender_ip_hash: string;
+  prompt_id?: string | null;
+  sender_key: string;
   sender_device_type?: string | null;
   sender_browser?: string | null;
   sender_os?: string | null;
   sender_referrer_platform?: string | null;
   sender_utm_source?: string | null;
+  labels?: Array<{ label_id: string }>;
+  attachments?: Array<{ count: number }>;
 }
 
+interface Prompt {
+  id: string;
+  text: string;
+  is_active: boolean;
+}
+
+interface FilterOption {
+  value: string;
+  count: number;
+}
+
+interface FilterOptions {
+  deviceTypes: FilterOption[];
+  referrerPlatforms: FilterOption[];
+  utmSources: FilterOption[];
+}
+
+// Sentinel values for the filter selects (Radix Select can't use "")
+const ALL_PROMPTS = "all";
+const NO_PROMPT = NO_PROMPT_FILTER;
+const ANY_VALUE = "any";
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+type BulkAction =
+  | "mark_read"
+  | "mark_unread"
+  | "flag"
+  | "unflag"
+  | "archive"
+  | "unarchive"
+  | "release"
+  | "delete"
+  | "block_sender"
+  | "add_label"
+  | "remove_label";
+
 export default function MessagesPage() {
   const { user } = useAuth();
   const { updateProfile } = useProfileStore();
   const { isOpen, show, hide } = useNotificationPrompt();
+  const { labels, activeFolder, activeLabelId, openFolder, openLabel } =
+    useMessageFoldersStore();
+  const showArchived = activeFolder === "archived";
+  const showHeld = activeFolder === "held";
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [filter, setFilter] = useState<"all" | "unread" | "read">("all");
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [counts, setCounts] = useState({ total: 0, unread: 0 });
+  const [filter, setFilter] = useState<MessageReadFilter>(MESSAGE_READ_FILTERS.ALL);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [hasShownPrompt, setHasShownPrompt] = useState(false);
+  const [prompts, setPrompts] = useState<Prompt[]>([]);
+  const [promptFilter, setPromptFilter] = useState<string>(ALL_PROMPTS);
+  const [groupByPrompt, setGroupByPrompt] = useState(false);
+  const [showMoreFilters, setShowMoreFilters] = useState(false);
+  const [filterOptions, setFilterOptions] = useState<FilterOptions>({
+    deviceTypes: [],
+    referrerPlatforms: [],
+    utmSources: [],
+  });
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [deviceFilter, setDeviceFilter] = useState(ANY_VALUE);
+  const [platformFilter, setPlatformFilter] = useState(ANY_VALUE);
+  const [utmFilter, setUtmFilter] = useState(ANY_VALUE);
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [sort, setSort] = useState<MessageSort>(MESSAGE_SORTS.NEWEST);
+  const [matchingCount, setMatchingCount] = useState(0);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+  const [isBulkProcessing, setIsBulkProcessing] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const requestIdRef = useRef(0);
+
+  // Build list API query from the current filters
+  const buildQuery = useCallback((cursor?: string) => {
+    const params = new URLSearchParams({ status: filter, sort });
+
+    if (debouncedSearch.trim()) params.set("q", debouncedSearch.trim());
+    if (flaggedOnly) params.set("flagged", "1");
+    if (showArchived) params.set("archived", "1");
+    if (showHeld) params.set("held", "1");
+    if (activeLabelId) params.set("label", activeLabelId);
+    if (deviceFilter !== ANY_VALUE) params.set("device", deviceFilter);
+    if (platformFilter !== ANY_VALUE) params.set("platform", platformFilter);
+    if (utmFilter !== ANY_VALUE) params.set("utm_source", utmFilter);
+    if (promptFilter !== ALL_PROMPTS) params.set("prompt", promptFilter);
+    // Date inputs are local days - send the full day as an ISO range
+    if (dateFrom) params.set("from", new Date(`${dateFrom}T00:00:00`).toISOString());
+    if (dateTo) params.set("to", new Date(`${dateTo}T23:59:59.999`).toISOString());
+    if (cursor) params.set("cursor", cursor);
 
-  // Fetch messages
+    return params.toString();
+  }, [
+    filter,
+    sort,
+    debouncedSearch,
+    flaggedOnly,
+    showArchived,
+    showHeld,
+    activeLabelId,
+    deviceFilter,
+    platformFilter,
+    utmFilter,
+    promptFilter,
+    dateFrom,
+    dateTo,
+  ]);
+
+  // Fetch the first page for the current filters
   const fetchMessages = async () => {
     if (!user) return;
 
+    const requestId = ++requestIdRef.current;
     setIsLoading(true);
+    // Selection only applies to the filters it was made under
+    setSelectedIds(new Set());
+    setSelectAllMatching(false);
     try {
-      const response = await fetch("/api/messages/list");
+      const response = await fetch(`/api/messages/list?${buildQuery()}`);
       const data = await response.json();
 
+      // Ignore responses for filters that have since changed
+      if (requestId !== requestIdRef.current) return;
+
       if (response.ok) {
         const fetchedMessages = data.messages || [];
         setMessages(fetchedMessages);
+        setNextCursor(data.nextCursor);
+        setMatchingCount(data.matchingCount ?? fetchedMessages.length);
 
-        // Update profile store with unread count
-        const unreadCount = fetchedMessages.filter((msg: Message) => !msg.is_read).length;
-        updateProfile({ message_count: unreadCount });
+        if (data.counts) {
+          setCounts(data.counts);
+          // Update profile store with unread count
+          updateProfile({ message_count: data.counts.unread });
+        }
 
         // Show notification prompt if they have messages and we should prompt
         if (
@@ -78,13 +218,145 @@ export default function MessagesPage() {
       console.error("Error fetching messages:", error);
       toast.error("Failed to load messages");
     } finally {
-      setIsLoading(false);
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+        setHasLoaded(true);
+      }
     }
   };
 
+  // Append the next page (infinite scroll)
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+    try {
+      const response = await fetch(`/api/messages/list?${buildQuery(nextCursor)}`);
+      const data = await response.json();
+
+      if (requestId !== requestIdRef.current) return;
+
+      if (response.ok) {
+        setMessages((prev) => [...prev, ...(data.messages || [])]);
+        setNextCursor(data.nextCursor);
+      } else {
+        toast.error(data.error || "Failed to load more messages");
+      }
+    } catch (error) {
+      console.error("Error loading more messages:", error);
+      toast.error("Failed to load more messages");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, buildQuery]);
+
+  // Fetch prompts (used to label, filter and group messages)
+  const fetchPrompts = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const response = await fetch("/api/prompts");
+      const data = await response.json();
+
+      if (response.ok) {
+        setPrompts(data.prompts || []);
+      }
+    } catch (error) {
+      console.error("Error fetching prompts:", error);
+    }
+  }, [user]);
+
+  // Fetch filter values present in the inbox (devices, platforms, UTM sources)
+  const fetchFilterOptions = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const response = await fetch("/api/messages/filter-options");
+      const data = await response.json();
+
+      if (response.ok) {
+        setFilterOptions(data);
+      }
+    } catch (error) {
+      console.error("Error fetching filter options:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchPrompts();
+    fetchFilterOptions();
+  }, [fetchPrompts, fetchFilterOptions]);
+
+  // Debounce search input
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Reload from the first page whenever filters change
   useEffect(() => {
     fetchMessages();
-  }, [user]);
+  }, [
+    user,
+    filter,
+    debouncedSearch,
+    promptFilter,
+    flaggedOnly,
+    deviceFilter,
+    platformFilter,
+    utmFilter,
+    dateFrom,
+    dateTo,
+    sort,
+    showArchived,
+    showHeld,
+    activeLabelId,
+  ]);
+
+  // Load the next page when the sentinel scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  const hasActiveFilters =
+    filter !== MESSAGE_READ_FILTERS.ALL ||
+    debouncedSearch.trim() !== "" ||
+    promptFilter !== ALL_PROMPTS ||
+    flaggedOnly ||
+    deviceFilter !== ANY_VALUE ||
+    platformFilter !== ANY_VALUE ||
+    utmFilter !== ANY_VALUE ||
+    dateFrom !== "" ||
+    dateTo !== "" ||
+    activeLabelId !== null;
+
+  const clearFilters = () => {
+    setFilter(MESSAGE_READ_FILTERS.ALL);
+    setSearchQuery("");
+    setDebouncedSearch("");
+    setPromptFilter(ALL_PROMPTS);
+    setFlaggedOnly(false);
+    setDeviceFilter(ANY_VALUE);
+    setPlatformFilter(ANY_VALUE);
+    setUtmFilter(ANY_VALUE);
+    setDateFrom("");
+    setDateTo("");
+    openLabel(null);
+  };
 
   // Mark message as read
   const markAsRead = async (messageId: string) => {
@@ -94,17 +366,16 @@ export default function MessagesPage() {
       });
 
       if (response.ok) {
-        setMessages((prev) => {
-          const updated = prev.map((msg) =>
+        setMessages((prev) =>
+          prev.map((msg) =>
             msg.id === messageId ? { ...msg, is_read: true } : msg
-          );
+          )
+        );
 
-          // Update unread count in profile store
-          const unreadCount = updated.filter((msg) => !msg.is_read).length;
-          updateProfile({ message_count: unreadCount });
-
-          return updated;
-        });
+        // Update unread count in profile store
+        const unread = Math.max(counts.unread - 1, 0);
+        setCounts((prev) => ({ ...prev, unread }));
+        updateProfile({ message_count: unread });
       }
     } catch (error) {
       console.error("Error marking message as read:", error);
@@ -121,15 +392,15 @@ export default function MessagesPage() {
       });
 
       if (response.ok) {
-        setMessages((prev) => {
-          const updated = prev.filter((msg) => msg.id !== messageId);
-
-          // Update unread count in profile store
-          const unreadCount = updated.filter((msg) => !msg.is_read).length;
-          updateProfile({ message_count: unreadCount });
+        const deleted = messages.find((msg) => msg.id === messageId);
+        setMessages((prev) => prev.filter((msg) => msg.id !== messageId));
 
-          return updated;
-        });
+        // Update counts and unread count in profile store
+        const unread =
+          deleted && !deleted.is_read ? Math.max(counts.unread - 1, 0) : counts.unread;
+        setCounts((prev) => ({ total: Math.max(prev.total - 1, 0), unread }));
+        updateProfile({ message_count: unread });
+        fetchMessageFolders();
         toast.success("Message deleted");
       } else {
         toast.error("Failed to delete message");
@@ -140,23 +411,269 @@ export default function MessagesPage() {
     }
   };
 
-  // Filter messages
-  const filteredMessages = messages.filter((msg) => {
-    const matchesFilter =
-      filter === "all" ||
-      (filter === "unread" && !msg.is_read) ||
-      (filter === "read" && msg.is_read);
+  const toggleSelected = (messageId: string) => {
+    setSelectAllMatching(false);
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(messageId)) {
+        next.delete(messageId);
+      } else {
+        next.add(messageId);
+      }
+      return next;
+    });
+  };
 
-    const matchesSearch =
-      searchQuery === "" ||
-      msg.content.toLowerCase().includes(searchQuery.toLowerCase());
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+    setSelectAllMatching(false);
+  };
 
-    return matchesFilter && matchesSearch;
-  });
+  const selectedCount = selectAllMatching ? matchingCount : selectedIds.size;
+
+  // Apply an action to the selected messages (or everything matching the filters)
+  const runBulkAction = async (action: BulkAction, labelId?: string) => {
+    if (selectedCount === 0) return;
+
+    if (
+      action === "delete" &&
+      !confirm(`Are you sure you want to delete ${selectedCount} messages?`)
+    ) {
+      return;
+    }
+    if (
+      action === "block_sender" &&
+      !confirm(`Block the senders of ${selectedCount} messages?`)
+    ) {
+      return;
+    }
 
-  const unreadCount = messages.filter((msg) => !msg.is_read).length;
+    setIsBulkProcessing(true);
+    try {
+      const response = await fetch("/api/messages/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          selectAllMatching
+            ? {
+                action,
+                label_id: labelId,
+                filters: Object.fromEntries(new URLSearchParams(buildQuery())),
+              }
+            : { action, label_id: labelId, message_ids: Array.from(selectedIds) }
+        ),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || "Failed to update messages");
+        return;
+      }
+
+      if (data.failed > 0) {
+        toast.error(`${data.succeeded} updated, ${data.failed} failed`);
+      } else {
+        toast.success(`${data.succeeded} messages updated`);
+      }
+      if (data.truncated) {
+        toast.info("Only the first 1000 matching messages were updated");
+      }
+
+      exitSelectionMode();
+      fetchMessages();
+      fetchMessageFolders();
+    } catch (error) {
+      console.error("Error running bulk action:", error);
+      toast.error("Failed to update messages");
+    } finally {
+      setIsBulkProcessing(false);
+    }
+  };
+
+  const getLabel = (labelId: string) =>
+    labels.find((label) => label.id === labelId);
+
+  const getPromptText = (promptId?: string | null) =>
+    prompts.find((prompt) => prompt.id === promptId)?.text;
+
+  // Group loaded messages by prompt, keeping sort order within groups
+  const promptGroups = messages.reduce<
+    { key: string; label: string; messages: Message[] }[]
+  >((groups, msg) => {
+    const key = msg.prompt_id || NO_PROMPT;
+    let group = groups.find((g) => g.key === key);
+    if (!group) {
+      group = {
+        key,
+        label: msg.prompt_id
+          ? getPromptText(msg.prompt_id) || "Deleted prompt"
+          : "No prompt",
+        messages: [],
+      };
+      groups.push(group);
+    }
+    group.messages.push(msg);
+    return groups;
+  }, []);
+
+  const unreadCount = counts.unread;
+
+  const renderMessage = (message: Message) => (
+    <MagicCard
+      key={message.id}
+      className={cn(
+        "p-6 transition-all",
+        !message.is_read && "border-l-4 border-l-purple-500"
+      )}
+    >
+      <div className="space-y-4">
+        <div className="flex items-start gap-4">
+          {selectionMode && (
+            <input
+              type="checkbox"
+              checked={selectAllMatching || selectedIds.has(message.id)}
+              onChange={() => toggleSelected(message.id)}
+              aria-label="Select message"
+              className="mt-2 w-4 h-4 accent-purple-500 cursor-pointer"
+            />
+          )}
+          {/* Message content */}
+          <div className="flex-1 min-w-0">
+            <p className="text-white text-lg mb-2">{message.content}</p>
+            <div className="flex items-center gap-3 flex-wrap">
+              <p className="text-sm text-gray-500">
+                {new Date(message.created_at).toLocaleString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                  year: "numeric",
+                  hour: "numeric",
+                  minute: "2-digit",
+                })}
+              </p>
+              {/* Prompt badge */}
+              {message.prompt_id && getPromptText(message.prompt_id) && (
+                <span className="text-xs text-pink-300 bg-pink-500/10 px-2 py-1 rounded-full">
+                  💬 {getPromptText(message.prompt_id)}
+                </span>
+              )}
+              {/* Quick tracking info badges */}
+              {message.sender_device_type && (
+                <span className="text-xs text-gray-400 bg-gray-800/50 px-2 py-1 rounded-full capitalize">
+                  📱 {message.sender_device_type}
+                </span>
+              )}
+              {message.sender_referrer_platform && message.sender_referrer_platform !== 'direct' && (
+                <span className="text-xs text-gray-400 bg-purple-500/10 px-2 py-1 rounded-full capitalize">
+                  🔗 {message.sender_referrer_platform}
+                </span>
+              )}
+              {/* Attached images */}
+              {(message.attachments?.[0]?.count || 0) > 0 && (
+                <span className="text-xs text-gray-400 bg-gray-800/50 px-2 py-1 rounded-full">
+                  🖼️ {message.attachments![0].count}
+                </span>
+              )}
+              {/* Labels */}
+              {message.labels?.map(({ label_id }) => {
+                const label = getLabel(label_id);
+                if (!label) return null;
+
+                return (
+                  <button
+                    key={label_id}
+                    onClick={() => openLabel(label_id)}
+                    className={cn(
+                      "text-xs px-2 py-0.5 rounded-full border",
+                      getLabelColorClasses(label.color)
+                    )}
+                    title={`Show "${label.name}" messages`}
+                  >
+                    {label.name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Quick Actions */}
+          <div className="flex items-center gap-2">
+            <Link href={`/dashboard/messages/${message.id}`}>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="View details & tracking"
+                className="text-purple-400 hover:text-purple-300 hover:bg-purple-500/10"
+              >
+                <ExternalLink className="w-4 h-4" />
+              </Button>
+            </Link>
+            {!message.is_read && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => markAsRead(message.id)}
+                title="Mark as read"
+              >
+                <Eye className="w-4 h-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => deleteMessage(message.id)}
+              className="text-red-500 hover:text-red-600 hover:bg-red-500/10"
+              title="Delete message"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Block and Report Actions */}
+        <div className="flex items-center gap-3 pt-2 border-t border-gray-800">
+          <MessageLabelsDialog
+            messageId={message.id}
+            labelIds={(message.labels || []).map(({ label_id }) => label_id)}
+            onChange={(labelIds) =>
+              setMessages((prev) =>
+                prev.map((msg) =>
+                  msg.id === message.id
+                    ? { ...msg, labels: labelIds.map((label_id) => ({ label_id })) }
+                    : msg
+                )
+              )
+            }
+          />
+          <ReportMessageDialog
+            messageId={message.id}
+            trigger={
+              <Button variant="ghost" size="sm" className="gap-2 text-orange-500 hover:text-orange-600 hover:bg-orange-500/10">
+                <AlertTriangle className="w-4 h-4" />
+                Report
+              </Button>
+            }
+          />
+          <BlockSenderDialog
+            messageId={message.id}
+            onBlocked={() => {
+              // Drops the sender's messages if they were deleted too
+              fetchMessages();
+            }}
+            trigger={
+              <Button variant="ghost" size="sm" className="gap-2 text-gray-400 hover:text-white hover:bg-gray-800">
+                <Shield className="w-4 h-4" />
+                Block Sender
+              </Button>
+            }
+          />
+        </div>
+      </div>
+    </MagicCard>
+  );
 
-  if (isLoading) {
+  if (isLoading && !hasLoaded) {
     return (
       <div className="max-w-4xl mx-auto">
         <div className="mb-8">
@@ -175,10 +692,27 @@ export default function MessagesPage() {
       {/* Header */}
       <div className="mb-8">
         <AnimatedGradientText className="text-3xl font-bold mb-2">
-          Messages
+          {showHeld
+            ? "Filtered Messages"
+            : showArchived
+            ? "Archived Messages"
+            : "Messages"}
         </AnimatedGradientText>
+        {activeLabelId && getLabel(activeLabelId) && (
+          <button
+            onClick={() => openLabel(null)}
+            className={cn(
+              "inline-flex items-center gap-1 text-xs px-2 py-0.5 mb-2 rounded-full border",
+              getLabelColorClasses(getLabel(activeLabelId)!.color)
+            )}
+            title="Clear label filter"
+          >
+            {getLabel(activeLabelId)!.name}
+            <X className="w-3 h-3" />
+          </button>
+        )}
         <p className="text-gray-400">
-          {messages.length} total messages
+          {counts.total} total messages
           {unreadCount > 0 && ` • ${unreadCount} unread`}
         </p>
       </div>
@@ -188,28 +722,58 @@ export default function MessagesPage() {
         {/* Filter buttons */}
         <div className="flex gap-2">
           <Button
-            variant={filter === "all" ? "default" : "outline"}
-            onClick={() => setFilter("all")}
-            className={filter === "all" ? "bg-linear-to-r from-purple-600 to-pink-600" : ""}
+            variant={filter === MESSAGE_READ_FILTERS.ALL ? "default" : "outline"}
+            onClick={() => setFilter(MESSAGE_READ_FILTERS.ALL)}
+            className={filter === MESSAGE_READ_FILTERS.ALL ? "bg-linear-to-r from-purple-600 to-pink-600" : ""}
           >
             All
           </Button>
           <Button
-            variant={filter === "unread" ? "default" : "outline"}
-            onClick={() => setFilter("unread")}
-            className={filter === "unread" ? "bg-linear-to-r from-purple-600 to-pink-600" : ""}
+            variant={filter === MESSAGE_READ_FILTERS.UNREAD ? "default" : "outline"}
+            onClick={() => setFilter(MESSAGE_READ_FILTERS.UNREAD)}
+            className={filter === MESSAGE_READ_FILTERS.UNREAD ? "bg-linear-to-r from-purple-600 to-pink-600" : ""}
           >
             Unread{unreadCount > 0 && ` (${unreadCount})`}
           </Button>
           <Button
-            variant={filter === "read" ? "default" : "outline"}
-            onClick={() => setFilter("read")}
-            className={filter === "read" ? "bg-linear-to-r from-purple-600 to-pink-600" : ""}
+            variant={filter === MESSAGE_READ_FILTERS.READ ? "default" : "outline"}
+            onClick={() => setFilter(MESSAGE_READ_FILTERS.READ)}
+            className={filter === MESSAGE_READ_FILTERS.READ ? "bg-linear-to-r from-purple-600 to-pink-600" : ""}
           >
             Read
           </Button>
         </div>
 
+        {/* Prompt filter */}
+        {prompts.length > 0 && (
+          <div className="flex gap-2">
+            <Select value={promptFilter} onValueChange={setPromptFilter}>
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue placeholder="All prompts" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROMPTS}>All prompts</SelectItem>
+                <SelectItem value={NO_PROMPT}>No prompt</SelectItem>
+                {prompts.map((prompt) => (
+                  <SelectItem key={prompt.id} value={prompt.id}>
+                    {prompt.text}
+                    {!prompt.is_active && " (retired)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant={groupByPrompt ? "default" : "outline"}
+              size="icon"
+              onClick={() => setGroupByPrompt((prev) => !prev)}
+              title="Group by prompt"
+              className={groupByPrompt ? "bg-linear-to-r from-purple-600 to-pink-600" : ""}
+            >
+              <Layers className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
         {/* Search */}
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
@@ -220,130 +784,378 @@ export default function MessagesPage() {
             className="pl-10"
           />
         </div>
+
+        <Button
+          variant={showMoreFilters ? "default" : "outline"}
+          size="icon"
+          onClick={() => setShowMoreFilters((prev) => !prev)}
+          title="More filters"
+          className={showMoreFilters ? "bg-linear-to-r from-purple-600 to-pink-600" : ""}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </Button>
+
+        <Button
+          variant={showArchived ? "default" : "outline"}
+          size="icon"
+          onClick={() => openFolder(showArchived ? "inbox" : "archived")}
+          title={showArchived ? "Back to inbox" : "Archived messages"}
+          className={showArchived ? "bg-linear-to-r from-purple-600 to-pink-600" : ""}
+        >
+          <Archive className="w-4 h-4" />
+        </Button>
+
+        <Button
+          variant={selectionMode ? "default" : "outline"}
+          size="icon"
+          onClick={() => (selectionMode ? exitSelectionMode() : setSelectionMode(true))}
+          title="Select messages"
+          className={selectionMode ? "bg-linear-to-r from-purple-600 to-pink-600" : ""}
+        >
+          <CheckSquare className="w-4 h-4" />
+        </Button>
       </div>
 
+      {/* Bulk Actions */}
+      {selectionMode && (
+        <MagicCard className="p-4 mb-6 sticky top-4 z-10">
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center gap-3 flex-wrap text-sm">
+              <span className="text-white font-medium">
+                {selectedCount} selected
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setSelectAllMatching(false);
+                  setSelectedIds(new Set(messages.map((msg) => msg.id)));
+                }}
+                disabled={messages.length === 0}
+              >
+                Select all loaded ({messages.length})
+              </Button>
+              {matchingCount > messages.length && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectAllMatching(true)}
+                  className={cn(selectAllMatching && "text-purple-400")}
+                >
+                  Select all {matchingCount} matching
+                </Button>
+              )}
+              {selectedCount > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setSelectAllMatching(false);
+                    setSelectedIds(new Set());
+                  }}
+                  className="text-gray-400"
+                >
+                  Clear
+                </Button>
+              )}
+              {isBulkProcessing && (
+                <Loader2 className="w-4 h-4 animate-spin text-purple-500" />
+              )}
+            </div>
+
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runBulkAction("mark_read")}
+                disabled={selectedCount === 0 || isBulkProcessing}
+                className="gap-2"
+              >
+                <Eye className="w-4 h-4" />
+                Mark read
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runBulkAction("mark_unread")}
+                disabled={selectedCount === 0 || isBulkProcessing}
+                className="gap-2"
+              >
+                <EyeOff className="w-4 h-4" />
+                Mark unread
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runBulkAction("flag")}
+                disabled={selectedCount === 0 || isBulkProcessing}
+                className="gap-2"
+              >
+                <Flag className="w-4 h-4" />
+                Flag
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runBulkAction("unflag")}
+                disabled={selectedCount === 0 || isBulkProcessing}
+                className="gap-2"
+              >
+                <Flag className="w-4 h-4 opacity-50" />
+                Unflag
+              </Button>
+              {showHeld ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => runBulkAction("release")}
+                  disabled={selectedCount === 0 || isBulkProcessing}
+                  className="gap-2"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  Release to inbox
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => runBulkAction(showArchived ? "unarchive" : "archive")}
+                  disabled={selectedCount === 0 || isBulkProcessing}
+                  className="gap-2"
+                >
+                  {showArchived ? (
+                    <ArchiveRestore className="w-4 h-4" />
+                  ) : (
+                    <Archive className="w-4 h-4" />
+                  )}
+                  {showArchived ? "Unarchive" : "Archive"}
+                </Button>
+              )}
+              {labels.length > 0 && (
+                <Select
+                  value=""
+                  onValueChange={(labelId) => runBulkAction("add_label", labelId)}
+                  disabled={selectedCount === 0 || isBulkProcessing}
+                >
+                  <SelectTrigger size="sm" className="w-auto gap-2">
+                    <Tag className="w-4 h-4" />
+                    <SelectValue placeholder="Add label" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {labels.map((label) => (
+                      <SelectItem key={label.id} value={label.id}>
+                        {label.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {activeLabelId && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => runBulkAction("remove_label", activeLabelId)}
+                  disabled={selectedCount === 0 || isBulkProcessing}
+                  className="gap-2"
+                >
+                  <X className="w-4 h-4" />
+                  Remove label
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runBulkAction("block_sender")}
+                disabled={selectedCount === 0 || isBulkProcessing}
+                className="gap-2"
+              >
+                <Shield className="w-4 h-4" />
+                Block senders
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runBulkAction("delete")}
+                disabled={selectedCount === 0 || isBulkProcessing}
+                className="gap-2 text-red-500 hover:text-red-600 hover:bg-red-500/10"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </Button>
+            </div>
+          </div>
+        </MagicCard>
+      )}
+
+      {/* More Filters */}
+      {showMoreFilters && (
+        <MagicCard className="p-4 mb-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            <Select value={deviceFilter} onValueChange={setDeviceFilter}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Any device" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_VALUE}>Any device</SelectItem>
+                {filterOptions.deviceTypes.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    <span className="capitalize">{option.value}</span> ({option.count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={platformFilter} onValueChange={setPlatformFilter}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Any source" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_VALUE}>Any source</SelectItem>
+                {filterOptions.referrerPlatforms.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    <span className="capitalize">{option.value}</span> ({option.count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={utmFilter} onValueChange={setUtmFilter}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Any UTM source" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_VALUE}>Any UTM source</SelectItem>
+                {filterOptions.utmSources.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.value} ({option.count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={activeLabelId || ANY_VALUE}
+              onValueChange={(value) => openLabel(value === ANY_VALUE ? null : value)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Any label" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_VALUE}>Any label</SelectItem>
+                {labels.map((label) => (
+                  <SelectItem key={label.id} value={label.id}>
+                    <span
+                      className={cn(
+                        "inline-block w-2 h-2 rounded-full mr-2",
+                        getLabelDotClass(label.color)
+                      )}
+                    />
+                    {label.name} ({label.messageCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={sort} onValueChange={(value) => setSort(value as MessageSort)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(MESSAGE_SORTS).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {getMessageSortText(value)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Input
+              type="date"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => setDateFrom(e.target.value)}
+              title="From date"
+            />
+
+            <Input
+              type="date"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => setDateTo(e.target.value)}
+              title="To date"
+            />
+
+            <Button
+              variant={flaggedOnly ? "default" : "outline"}
+              onClick={() => setFlaggedOnly((prev) => !prev)}
+              className={cn("gap-2", flaggedOnly && "bg-linear-to-r from-purple-600 to-pink-600")}
+            >
+              <Flag className="w-4 h-4" />
+              Flagged only
+            </Button>
+
+            <Button
+              variant="ghost"
+              onClick={clearFilters}
+              disabled={!hasActiveFilters}
+              className="gap-2 text-gray-400"
+            >
+              <X className="w-4 h-4" />
+              Clear filters
+            </Button>
+          </div>
+        </MagicCard>
+      )}
+
       {/* Suspicious Activity Alerts */}
       {messages.length > 0 && (
         <SuspiciousActivityAlert messages={messages} />
       )}
 
       {/* Messages List */}
-      {filteredMessages.length === 0 ? (
+      {isLoading ? (
+        <MessageListSkeleton count={3} />
+      ) : messages.length === 0 ? (
         <MagicCard className="p-12 text-center">
           <MessageSquare className="w-16 h-16 mx-auto mb-4 text-gray-600" />
           <h3 className="text-xl font-semibold text-white mb-2">
-            {messages.length === 0
+            {showHeld && !hasActiveFilters
+              ? "No filtered messages"
+              : showArchived && !hasActiveFilters
+              ? "No archived messages"
+              : !hasActiveFilters
               ? "No messages yet"
               : "No messages match your filters"}
           </h3>
           <p className="text-gray-400">
-            {messages.length === 0
+            {showHeld && !hasActiveFilters
+              ? "Messages caught by moderation or your muted words wait here until you release them"
+              : showArchived && !hasActiveFilters
+              ? "Archived messages will show up here"
+              : !hasActiveFilters
               ? "Share your profile link to start receiving anonymous messages"
               : "Try adjusting your filters or search query"}
           </p>
         </MagicCard>
       ) : (
         <div className="space-y-4">
-          {filteredMessages.map((message) => (
-            <MagicCard
-              key={message.id}
-              className={cn(
-                "p-6 transition-all",
-                !message.is_read && "border-l-4 border-l-purple-500"
-              )}
-            >
-              <div className="space-y-4">
-                <div className="flex items-start gap-4">
-                  {/* Message content */}
-                  <div className="flex-1 min-w-0">
-                    <p className="text-white text-lg mb-2">{message.content}</p>
-                    <div className="flex items-center gap-3 flex-wrap">
-                      <p className="text-sm text-gray-500">
-                        {new Date(message.created_at).toLocaleString("en-US", {
-                          month: "short",
-                          day: "numeric",
-                          year: "numeric",
-                          hour: "numeric",
-                          minute: "2-digit",
-                        })}
-                      </p>
-                      {/* Quick tracking info badges */}
-                      {message.sender_device_type && (
-                        <span className="text-xs text-gray-400 bg-gray-800/50 px-2 py-1 rounded-full capitalize">
-                          📱 {message.sender_device_type}
-                        </span>
-                      )}
-                      {message.sender_referrer_platform && message.sender_referrer_platform !== 'direct' && (
-                        <span className="text-xs text-gray-400 bg-purple-500/10 px-2 py-1 rounded-full capitalize">
-                          🔗 {message.sender_referrer_platform}
-                        </span>
-                      )}
-                    </div>
-                  </div>
-
-                  {/* Quick Actions */}
-                  <div className="flex items-center gap-2">
-                    <Link href={`/dashboard/messages/${message.id}`}>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        title="View details & tracking"
-                        className="text-purple-400 hover:text-purple-300 hover:bg-purple-500/10"
-                      >
-                        <ExternalLink className="w-4 h-4" />
-                      </Button>
-                    </Link>
-                    {!message.is_read && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => markAsRead(message.id)}
-                        title="Mark as read"
-                      >
-                        <Eye className="w-4 h-4" />
-                      </Button>
-                    )}
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => deleteMessage(message.id)}
-                      className="text-red-500 hover:text-red-600 hover:bg-red-500/10"
-                      title="Delete message"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  </div>
+          {groupByPrompt
+            ? promptGroups.map((group) => (
+                <div key={group.key} className="space-y-4">
+                  <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wide pt-2">
+                    {group.label} ({group.messages.length})
+                  </h3>
+                  {group.messages.map(renderMessage)}
                 </div>
+              ))
+            : messages.map(renderMessage)}
 
-                {/* Block and Report Actions */}
-                <div className="flex items-center gap-3 pt-2 border-t border-gray-800">
-                  <ReportMessageDialog
-                    messageId={message.id}
-                    trigger={
-                      <Button variant="ghost" size="sm" className="gap-2 text-orange-500 hover:text-orange-600 hover:bg-orange-500/10">
-                        <AlertTriangle className="w-4 h-4" />
-                        Report
-                      </Button>
-                    }
-                  />
-                  <BlockSenderDialog
-                    messageId={message.id}
-                    senderIpHash={message.sender_ip_hash}
-                    onBlocked={() => {
-                      // Optionally remove messages from this sender
-                      fetchMessages();
-                    }}
-                    trigger={
-                      <Button variant="ghost" size="sm" className="gap-2 text-gray-400 hover:text-white hover:bg-gray-800">
-                        <Shield className="w-4 h-4" />
-                        Block Sender
-                      </Button>
-                    }
-                  />
-                </div>
-              </div>
-            </MagicCard>
-          ))}
+          {/* Infinite scroll sentinel */}
+          <div ref={loadMoreRef} className="flex justify-center py-4">
+            {isLoadingMore && (
+              <Loader2 className="w-6 h-6 animate-spin text-purple-500" />
+            )}
+          </div>
         </div>
       )}
 
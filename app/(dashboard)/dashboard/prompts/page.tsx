@@ -0,0 +1,417 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Loader2,
+  Plus,
+  ArrowUp,
+  ArrowDown,
+  Archive,
+  RotateCcw,
+  Trash2,
+  Pencil,
+  Check,
+  X,
+  Sparkles,
+} from "lucide-react";
+import { MagicCard } from "@/components/ui/magic-card";
+import { AnimatedGradientText } from "@/components/ui/animated-gradient-text";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { useAuth } from "@/lib/auth/auth-context";
+import { cn } from "@/lib/utils";
+
+interface Prompt {
+  id: string;
+  text: string;
+  position: number;
+  is_active: boolean;
+  retired_at: string | null;
+  created_at: string;
+}
+
+const MAX_PROMPT_LENGTH = 100;
+
+export default function PromptsPage() {
+  const { user } = useAuth();
+  const [prompts, setPrompts] = useState<Prompt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newPrompt, setNewPrompt] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+
+  // Fetch prompts
+  const fetchPrompts = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/prompts");
+      const data = await response.json();
+
+      if (response.ok) {
+        setPrompts(data.prompts || []);
+      } else {
+        toast.error(data.error || "Failed to load prompts");
+      }
+    } catch (error) {
+      console.error("Error fetching prompts:", error);
+      toast.error("Failed to load prompts");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchPrompts();
+  }, [fetchPrompts]);
+
+  const activePrompts = prompts.filter((prompt) => prompt.is_active);
+  const retiredPrompts = prompts.filter((prompt) => !prompt.is_active);
+
+  // Create prompt
+  const createPrompt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newPrompt.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const response = await fetch("/api/prompts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: newPrompt }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setPrompts((prev) => [...prev, data.prompt]);
+        setNewPrompt("");
+        toast.success("Prompt added");
+      } else {
+        toast.error(data.error || "Failed to add prompt");
+      }
+    } catch (error) {
+      console.error("Error creating prompt:", error);
+      toast.error("Failed to add prompt");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Update prompt text or active state
+  const updatePrompt = async (
+    promptId: string,
+    updates: { text?: string; is_active?: boolean }
+  ) => {
+    setBusyId(promptId);
+    try {
+      const response = await fetch(`/api/prompts/${promptId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setPrompts((prev) =>
+          prev.map((prompt) => (prompt.id === promptId ? data.prompt : prompt))
+        );
+        return true;
+      }
+
+      toast.error(data.error || "Failed to update prompt");
+      return false;
+    } catch (error) {
+      console.error("Error updating prompt:", error);
+      toast.error("Failed to update prompt");
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Save inline edit
+  const saveEdit = async (promptId: string) => {
+    if (!editText.trim()) return;
+
+    const success = await updatePrompt(promptId, { text: editText });
+    if (success) {
+      setEditingId(null);
+      toast.success("Prompt updated");
+    }
+  };
+
+  // Move an active prompt up or down
+  const movePrompt = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= activePrompts.length) return;
+
+    const reordered = [...activePrompts];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    const previous = prompts;
+    setPrompts([
+      ...reordered.map((prompt, position) => ({ ...prompt, position })),
+      ...retiredPrompts,
+    ]);
+
+    try {
+      const response = await fetch("/api/prompts/reorder", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prompt_ids: reordered.map((prompt) => prompt.id),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to reorder prompts");
+      }
+    } catch (error) {
+      console.error("Error reordering prompts:", error);
+      toast.error("Failed to reorder prompts");
+      setPrompts(previous);
+    }
+  };
+
+  // Delete prompt
+  const deletePrompt = async (promptId: string) => {
+    if (
+      !confirm(
+        "Delete this prompt? Messages sent to it will be kept but no longer grouped under it."
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(promptId);
+    try {
+      const response = await fetch(`/api/prompts/${promptId}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setPrompts((prev) => prev.filter((prompt) => prompt.id !== promptId));
+        toast.success("Prompt deleted");
+      } else {
+        toast.error("Failed to delete prompt");
+      }
+    } catch (error) {
+      console.error("Error deleting prompt:", error);
+      toast.error("Failed to delete prompt");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderPrompt = (prompt: Prompt, index: number) => {
+    const isBusy = busyId === prompt.id;
+    const isEditing = editingId === prompt.id;
+
+    return (
+      <MagicCard
+        key={prompt.id}
+        className={cn("p-4", !prompt.is_active && "opacity-60")}
+      >
+        <div className="flex items-center gap-3">
+          {isEditing ? (
+            <Input
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              maxLength={MAX_PROMPT_LENGTH}
+              className="flex-1"
+              autoFocus
+            />
+          ) : (
+            <div className="flex-1 min-w-0">
+              <p className="text-white break-words">{prompt.text}</p>
+              {index === 0 && prompt.is_active && (
+                <p className="text-xs text-purple-400 mt-1">
+                  Shown first on your profile
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center gap-1 shrink-0">
+            {isBusy && <Loader2 className="w-4 h-4 animate-spin text-purple-500" />}
+
+            {isEditing ? (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => saveEdit(prompt.id)}
+                  disabled={isBusy || !editText.trim()}
+                  title="Save"
+                >
+                  <Check className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setEditingId(null)}
+                  title="Cancel"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </>
+            ) : prompt.is_active ? (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => movePrompt(index, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => movePrompt(index, 1)}
+                  disabled={index === activePrompts.length - 1}
+                  title="Move down"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    setEditingId(prompt.id);
+                    setEditText(prompt.text);
+                  }}
+                  title="Edit prompt"
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => updatePrompt(prompt.id, { is_active: false })}
+                  disabled={isBusy}
+                  title="Retire prompt"
+                >
+                  <Archive className="w-4 h-4" />
+                </Button>
+              </>
+            ) : (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => updatePrompt(prompt.id, { is_active: true })}
+                disabled={isBusy}
+                title="Reactivate prompt"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            )}
+
+            {!isEditing && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deletePrompt(prompt.id)}
+                disabled={isBusy}
+                className="text-red-500 hover:text-red-600 hover:bg-red-500/10"
+                title="Delete prompt"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </MagicCard>
+    );
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <AnimatedGradientText className="text-3xl font-bold mb-2">
+          Prompts
+        </AnimatedGradientText>
+        <p className="text-gray-400">
+          Give visitors something to answer. Your first active prompt is shown
+          above the message form on your profile.
+        </p>
+      </div>
+
+      {/* Create Prompt */}
+      <MagicCard className="p-6 mb-6">
+        <form onSubmit={createPrompt} className="flex gap-3">
+          <Input
+            value={newPrompt}
+            onChange={(e) => setNewPrompt(e.target.value)}
+            placeholder='e.g. "rate my outfit" or "confess something"'
+            maxLength={MAX_PROMPT_LENGTH}
+            disabled={isCreating}
+            className="flex-1"
+          />
+          <Button
+            type="submit"
+            disabled={isCreating || !newPrompt.trim()}
+            className="bg-linear-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
+          >
+            {isCreating ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <>
+                <Plus className="w-4 h-4 mr-2" />
+                Add
+              </>
+            )}
+          </Button>
+        </form>
+      </MagicCard>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-purple-500" />
+        </div>
+      ) : prompts.length === 0 ? (
+        <MagicCard className="p-12 text-center">
+          <Sparkles className="w-16 h-16 mx-auto mb-4 text-gray-600" />
+          <h3 className="text-xl font-semibold text-white mb-2">
+            No prompts yet
+          </h3>
+          <p className="text-gray-400">
+            Add a prompt to get more specific anonymous messages
+          </p>
+        </MagicCard>
+      ) : (
+        <div className="space-y-8">
+          <div className="space-y-3">
+            <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wide">
+              Active ({activePrompts.length})
+            </h2>
+            {activePrompts.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No active prompts - visitors see the regular message form.
+              </p>
+            ) : (
+              activePrompts.map(renderPrompt)
+            )}
+          </div>
+
+          {retiredPrompts.length > 0 && (
+            <div className="space-y-3">
+              <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                Retired ({retiredPrompts.length})
+              </h2>
+              {retiredPrompts.map(renderPrompt)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
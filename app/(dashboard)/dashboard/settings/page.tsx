@@ -16,9 +16,12 @@ import { AvatarUpload } from "@/components/profile/avatar-upload";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PasswordChangeForm } from "@/components/settings/password-change-form";
 import { AccountDeletion } from "@/components/settings/account-deletion";
+import { DataExport } from "@/components/settings/data-export";
 import { ThemeToggle } from "@/components/settings/theme-toggle";
 import { PrivacySettings } from "@/components/settings/privacy-settings";
 import { NotificationSettings } from "@/components/settings/notification-settings";
+import { EmailNotificationSettings } from "@/components/settings/email-notification-settings";
+import { WebhookSettings } from "@/components/settings/webhook-settings";
 import { useProfileStore } from "@/lib/stores/profile-store";
 import { validateUsername, sanitizeUsername } from "@/lib/validations/username";
 import { toast } from "sonner";
@@ -356,6 +359,7 @@ export default function ProfileSettingsPage() {
                 id="username"
                 {...register("username")}
                 className="pr-10"
+                disabled={profile?.username_locked}
                 onChange={(e) => {
                   const sanitized = sanitizeUsername(e.target.value);
                   e.target.value = sanitized;
@@ -375,6 +379,13 @@ export default function ProfileSettingsPage() {
               )}
             </div>
 
+            {profile?.username_locked && (
+              <p className="text-sm text-gray-400">
+                Your username was changed by a moderator and can&apos;t be
+                changed.
+              </p>
+            )}
+
             {/* Validation message */}
             {errors.username && (
               <p className="text-sm text-red-500">{errors.username.message}</p>
@@ -508,9 +519,19 @@ export default function ProfileSettingsPage() {
 
         {/* Notifications Tab */}
         <TabsContent value="notifications">
-          <MagicCard className="p-8">
+          <MagicCard className="p-8 mb-6">
             <NotificationSettings />
           </MagicCard>
+
+          {/* Email Notifications */}
+          <MagicCard className="p-8 mb-6">
+            <EmailNotificationSettings />
+          </MagicCard>
+
+          {/* Webhooks */}
+          <MagicCard className="p-8">
+            <WebhookSettings />
+          </MagicCard>
         </TabsContent>
 
         {/* Privacy Tab */}
@@ -574,6 +595,9 @@ export default function ProfileSettingsPage() {
             </div>
           </MagicCard>
 
+          {/* Data Export */}
+          <DataExport />
+
           {/* Account Deletion */}
           <AccountDeletion />
         </TabsContent>
@@ -2,6 +2,7 @@ import { ReactNode } from "react";
 import { AppSidebar } from "@/components/dashboard/app-sidebar";
 import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar";
 import { RealtimeNotificationProvider } from "@/components/notifications/realtime-notification-provider";
+import { SuspensionNotice } from "@/components/dashboard/suspension-notice";
 
 export default function DashboardLayout({
   children,
@@ -15,6 +16,7 @@ export default function DashboardLayout({
         <SidebarInset>
           <main id="main-content" className="min-h-screen pb-24 lg:pb-0" role="main">
             <div className="container mx-auto px-4 py-8 lg:px-8">
+              <SuspensionNotice />
               {children}
             </div>
           </main>
@@ -2,15 +2,27 @@ import Link from "next/link";
 import Image from "next/image";
 import { notFound } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
+import {
+  isUsernameDeactivated,
+  isUsernameSuspended,
+} from "@/lib/db/profiles";
 import { MessageForm } from "@/components/profile/message-form";
 import { ShareProfile } from "@/components/profile/share-profile";
 import { User } from "lucide-react";
 import { ClientTracker } from "@/components/tracking/client-tracker";
+import { PublicAnswers } from "@/components/profile/public-answers";
+import { getActivePrompts } from "@/lib/db/prompts";
+import { InboxClosed } from "@/components/profile/inbox-closed";
+import { AccountUnavailable } from "@/components/profile/account-unavailable";
+import { getInboxStatus } from "@/lib/utils/inbox-availability";
 
 interface PublicProfilePageProps {
   params: Promise<{
     username: string;
   }>;
+  searchParams?: Promise<{
+    page?: string;
+  }>;
 }
 
 /**
@@ -20,8 +32,11 @@ interface PublicProfilePageProps {
  */
 export default async function PublicProfilePage({
   params,
+  searchParams,
 }: PublicProfilePageProps) {
   const { username } = await params;
+  const { page } = (await searchParams) ?? {};
+  const answersPage = Math.max(parseInt(page || "1", 10) || 1, 1);
 
   // Fetch profile by username
   const supabase = await createClient();
@@ -30,13 +45,27 @@ export default async function PublicProfilePage({
     .from("profiles")
     .select("*")
     .eq("username", username.toLowerCase())
+    .eq("is_active", true)
+    .is("suspended_at", null)
     .single();
 
+  // Suspended and deactivated accounts (e.g. pending deletion) are
+  // unavailable, not missing
+  if ((error || !profile) && (await isUsernameSuspended(username))) {
+    return <AccountUnavailable username={username} suspended />;
+  }
+  if ((error || !profile) && (await isUsernameDeactivated(username))) {
+    return <AccountUnavailable username={username} />;
+  }
+
   // Show 404 if profile doesn't exist
   if (error || !profile) {
     notFound();
   }
 
+  const prompts = await getActivePrompts(profile.id);
+  const inboxStatus = getInboxStatus(profile);
+
   return (
     <div className="relative min-h-screen flex items-center justify-center p-4 sm:p-6 bg-gradient-to-br from-[#FF006E] via-[#FF4B7A] to-[#FF8C42] overflow-hidden">
       {/* Enhanced Tracking - Invisible component that tracks visits */}
@@ -79,20 +108,39 @@ export default async function PublicProfilePage({
 
         {/* Message Form Card */}
         <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
-          <div className="space-y-4">
-            <div className="text-center space-y-2">
-              <h2 className="text-xl font-bold text-black">
-                send an anonymous message
-              </h2>
-              <p className="text-gray-600 text-sm">
-                say something nice... or not. they&apos;ll never know it&apos;s you!
-              </p>
+          {inboxStatus.open ? (
+            <div className="space-y-4">
+              <div className="text-center space-y-2">
+                <h2 className="text-xl font-bold text-black">
+                  send an anonymous message
+                </h2>
+                <p className="text-gray-600 text-sm">
+                  say something nice... or not. they&apos;ll never know it&apos;s you!
+                </p>
+              </div>
+
+              <MessageForm
+                recipientUsername={profile.username}
+                prompts={prompts}
+                allowImages={profile.allow_image_attachments}
+              />
             </div>
-
-            <MessageForm recipientUsername={profile.username} />
-          </div>
+          ) : (
+            <InboxClosed
+              username={profile.username}
+              closedMessage={profile.inbox_closed_message}
+              reopensAt={inboxStatus.reopensAt}
+            />
+          )}
         </div>
 
+        {/* Public Q&A Wall */}
+        <PublicAnswers
+          profileId={profile.id}
+          username={profile.username}
+          page={answersPage}
+        />
+
         {/* Footer */}
         <div className="text-center space-y-4">
           <Link
@@ -128,6 +176,8 @@ export async function generateMetadata({ params }: PublicProfilePageProps) {
     .from("profiles")
     .select("*")
     .eq("username", username.toLowerCase())
+    .eq("is_active", true)
+    .is("suspended_at", null)
     .single();
 
   if (!profile) {
@@ -0,0 +1,210 @@
+import Link from "next/link";
+import Image from "next/image";
+import { notFound } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import {
+  isUsernameDeactivated,
+  isUsernameSuspended,
+} from "@/lib/db/profiles";
+import { MessageForm } from "@/components/profile/message-form";
+import { User } from "lucide-react";
+import { ClientTracker } from "@/components/tracking/client-tracker";
+import {
+  getCampaignLinkBySlug,
+  isCampaignLinkAccepting,
+} from "@/lib/db/campaign-links";
+import { InboxClosed } from "@/components/profile/inbox-closed";
+import { AccountUnavailable } from "@/components/profile/account-unavailable";
+import { getInboxStatus } from "@/lib/utils/inbox-availability";
+
+interface CampaignLinkPageProps {
+  params: Promise<{
+    username: string;
+    slug: string;
+  }>;
+}
+
+/**
+ * Campaign Link Page - Named inbox link for a specific story or post
+ * Accessible without authentication
+ * URL: /[username]/q/[slug]
+ */
+export default async function CampaignLinkPage({ params }: CampaignLinkPageProps) {
+  const { username, slug } = await params;
+
+  // Fetch profile by username
+  const supabase = await createClient();
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("username", username.toLowerCase())
+    .eq("is_active", true)
+    .is("suspended_at", null)
+    .single();
+
+  // Suspended and deactivated accounts (e.g. pending deletion) are
+  // unavailable, not missing
+  if ((error || !profile) && (await isUsernameSuspended(username))) {
+    return <AccountUnavailable username={username} suspended />;
+  }
+  if ((error || !profile) && (await isUsernameDeactivated(username))) {
+    return <AccountUnavailable username={username} />;
+  }
+
+  // Show 404 if profile or link doesn't exist
+  if (error || !profile) {
+    notFound();
+  }
+
+  const link = await getCampaignLinkBySlug(profile.id, slug);
+
+  if (!link) {
+    notFound();
+  }
+
+  const isAccepting = isCampaignLinkAccepting(link);
+  const inboxStatus = getInboxStatus(profile);
+
+  return (
+    <div className="relative min-h-screen flex items-center justify-center p-4 sm:p-6 bg-gradient-to-br from-[#FF006E] via-[#FF4B7A] to-[#FF8C42] overflow-hidden">
+      {/* Enhanced Tracking - attributes the visit to this link */}
+      <ClientTracker profileId={profile.id} linkId={link.id} />
+
+      {/* Main Content */}
+      <div className="relative z-10 w-full max-w-md">
+        {/* Profile Card */}
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+          <div className="flex items-center gap-4">
+            {/* Avatar */}
+            <div className="relative w-16 h-16 rounded-full overflow-hidden flex-shrink-0 bg-gradient-to-br from-gray-700 to-gray-900">
+              {profile.avatar_url ? (
+                <Image
+                  src={profile.avatar_url}
+                  alt={profile.display_name || profile.username}
+                  fill
+                  className="object-cover"
+                  sizes="64px"
+                  unoptimized
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                  <User className="w-8 h-8 text-white" />
+                </div>
+              )}
+            </div>
+
+            {/* Profile Info */}
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold text-black truncate">
+                @{profile.username}
+              </h1>
+              <p className="text-gray-600 text-sm">
+                send me anonymous messages!
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Message Form Card */}
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+          {!inboxStatus.open ? (
+            <InboxClosed
+              username={profile.username}
+              closedMessage={profile.inbox_closed_message}
+              reopensAt={inboxStatus.reopensAt}
+            />
+          ) : isAccepting ? (
+            <div className="space-y-4">
+              <div className="text-center space-y-2">
+                <h2 className="text-xl font-bold text-black">
+                  send an anonymous message
+                </h2>
+                <p className="text-gray-600 text-sm">
+                  say something nice... or not. they&apos;ll never know it&apos;s you!
+                </p>
+              </div>
+
+              <MessageForm
+                recipientUsername={profile.username}
+                linkId={link.id}
+                linkPrompt={link.prompt}
+                allowImages={profile.allow_image_attachments}
+              />
+            </div>
+          ) : (
+            <div className="text-center space-y-3 py-4">
+              <h2 className="text-xl font-bold text-black">
+                this link is closed
+              </h2>
+              <p className="text-gray-600 text-sm">
+                @{profile.username} isn&apos;t taking messages here anymore.
+              </p>
+              <Link
+                href={`/${profile.username}`}
+                className="inline-block text-sm font-semibold text-[#FF006E] hover:underline"
+              >
+                send one on their profile instead
+              </Link>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="text-center space-y-4">
+          <Link
+            href="/"
+            className="block w-full bg-secondary text-white text-xl font-bold py-2 rounded-full hover:bg-gray-900 transition-colors"
+          >
+            get your own messages!
+          </Link>
+
+          <div className="flex justify-center gap-3 text-sm text-white/90">
+            <Link href="/terms" className="hover:text-white">
+              terms
+            </Link>
+            <span>·</span>
+            <Link href="/privacy" className="hover:text-white">
+              privacy
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Generate metadata for SEO
+ */
+export async function generateMetadata({ params }: CampaignLinkPageProps) {
+  const { username, slug } = await params;
+  const supabase = await createClient();
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("username", username.toLowerCase())
+    .eq("is_active", true)
+    .is("suspended_at", null)
+    .single();
+
+  if (!profile) {
+    return {
+      title: "Profile Not Found",
+    };
+  }
+
+  const link = await getCampaignLinkBySlug(profile.id, slug);
+  const name = profile.display_name || profile.username;
+
+  return {
+    title: `${name} - Send Anonymous Message`,
+    description: link?.prompt || `Send an anonymous message to ${name}`,
+    openGraph: {
+      title: link?.prompt || `Send ${name} an anonymous message`,
+      description: "Say something anonymously!",
+      images: profile.avatar_url ? [profile.avatar_url] : [],
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getAdminAuditLog, isPlatformAdmin } from "@/lib/db/admins";
+import { ADMIN_AUDIT_LOG_PAGE_SIZE } from "@/lib/constants/admin";
+
+/**
+ * GET /api/admin/audit-log
+ * List admin actions, newest first (admins only)
+ *
+ * Query params:
+ * - user_id: Only actions on this account (all if omitted)
+ * - page: 1-based page number (default 1)
+ *
+ * Response: { entries, total, page, page_size } or { error: string }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isPlatformAdmin(user.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1") || 1);
+
+    const result = await getAdminAuditLog(
+      page,
+      searchParams.get("user_id") || null
+    );
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Failed to fetch audit log" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { ...result, page, page_size: ADMIN_AUDIT_LOG_PAGE_SIZE },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error in admin audit log API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
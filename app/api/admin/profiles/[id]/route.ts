@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { isPlatformAdmin, moderateProfile } from "@/lib/db/admins";
+import { getProfileById, isUsernameAvailable } from "@/lib/db/profiles";
+import { usernameSchema } from "@/lib/validations/username";
+import {
+  ADMIN_ACTIONS,
+  MAX_SUSPENSION_REASON_LENGTH,
+} from "@/lib/constants/admin";
+
+/**
+ * Profile admin action validation schema
+ */
+const profileActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal(ADMIN_ACTIONS.SUSPEND),
+    reason: z.string().trim().min(1).max(MAX_SUSPENSION_REASON_LENGTH),
+  }),
+  z.object({ action: z.literal(ADMIN_ACTIONS.UNSUSPEND) }),
+  z.object({
+    action: z.literal(ADMIN_ACTIONS.RENAME_USERNAME),
+    username: usernameSchema,
+  }),
+  z.object({ action: z.literal(ADMIN_ACTIONS.REMOVE_AVATAR) }),
+  z.object({ action: z.literal(ADMIN_ACTIONS.REMOVE_BIO) }),
+]);
+
+/**
+ * POST /api/admin/profiles/[id]
+ * Take an admin action on a profile (admins only). Every action is recorded
+ * in the admin audit log
+ *
+ * Request body (one of):
+ * { "action": "suspend", "reason": string (max 500 chars) }
+ * { "action": "unsuspend" }
+ * { "action": "rename_username", "username": string }
+ * { "action": "remove_avatar" }
+ * { "action": "remove_bio" }
+ *
+ * Response: { profile: Profile } or { error: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isPlatformAdmin(user.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = profileActionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid admin action",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const target = await getProfileById(id);
+
+    if (!target) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const input = validationResult.data;
+
+    switch (input.action) {
+      case ADMIN_ACTIONS.SUSPEND:
+        if (id === user.id) {
+          return NextResponse.json(
+            { error: "You can't suspend your own account" },
+            { status: 409 }
+          );
+        }
+        if (target.suspended_at) {
+          return NextResponse.json(
+            { error: "This account is already suspended" },
+            { status: 409 }
+          );
+        }
+        break;
+
+      case ADMIN_ACTIONS.UNSUSPEND:
+        if (!target.suspended_at) {
+          return NextResponse.json(
+            { error: "This account isn't suspended" },
+            { status: 409 }
+          );
+        }
+        break;
+
+      case ADMIN_ACTIONS.RENAME_USERNAME:
+        if (input.username.toLowerCase() === target.username) {
+          return NextResponse.json(
+            { error: "This account already has that username" },
+            { status: 409 }
+          );
+        }
+        if (!(await isUsernameAvailable(input.username.toLowerCase()))) {
+          return NextResponse.json(
+            { error: "This username is already taken" },
+            { status: 409 }
+          );
+        }
+        break;
+    }
+
+    // The action and its audit log entry are written together
+    const profile = await moderateProfile(id, input.action, {
+      reason: "reason" in input ? input.reason : undefined,
+      username: "username" in input ? input.username : undefined,
+    });
+
+    if (profile === "duplicate") {
+      return NextResponse.json(
+        { error: "This username is already taken" },
+        { status: 409 }
+      );
+    }
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Failed to update profile" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ profile }, { status: 200 });
+  } catch (error) {
+    console.error("Error in admin profile action API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { isPlatformAdmin } from "@/lib/db/admins";
+import { searchProfiles } from "@/lib/db/profiles";
+import { ADMIN_PROFILE_SEARCH_LIMIT } from "@/lib/constants/admin";
+
+/**
+ * GET /api/admin/profiles
+ * Search profiles by username, including deactivated and suspended ones
+ * (admins only)
+ *
+ * Query params:
+ * - q: Username search term (required)
+ *
+ * Response: { profiles: Profile[] } or { error: string }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isPlatformAdmin(user.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const searchTerm = request.nextUrl.searchParams.get("q")?.trim();
+
+    if (!searchTerm) {
+      return NextResponse.json(
+        { error: "Search term is required" },
+        { status: 400 }
+      );
+    }
+
+    const profiles = await searchProfiles(
+      searchTerm,
+      ADMIN_PROFILE_SEARCH_LIMIT,
+      true
+    );
+
+    return NextResponse.json({ profiles }, { status: 200 });
+  } catch (error) {
+    console.error("Error in admin profiles API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { isPlatformAdmin } from "@/lib/db/admins";
+import {
+  getReportDetail,
+  takeReportAction,
+  updateReport,
+} from "@/lib/db/reports";
+import {
+  MAX_REVIEWER_NOTES_LENGTH,
+  REPORT_ACTIONS,
+  REPORT_STATUSES,
+  canTransitionReport,
+  type ReportAction,
+  type ReportStatus,
+} from "@/lib/constants/reports";
+
+/**
+ * Report triage validation schema
+ */
+const reportUpdateSchema = z
+  .object({
+    status: z
+      .enum(Object.values(REPORT_STATUSES) as [string, ...string[]])
+      .optional(),
+    reviewer_notes: z
+      .string()
+      .trim()
+      .max(MAX_REVIEWER_NOTES_LENGTH)
+      .nullable()
+      .optional(),
+    action: z
+      .enum(Object.values(REPORT_ACTIONS) as [string, ...string[]])
+      .optional(),
+  })
+  .refine(
+    (data) => data.status !== undefined || data.reviewer_notes !== undefined,
+    { message: "Nothing to update" }
+  )
+  .refine(
+    (data) =>
+      data.action === undefined || data.status === REPORT_STATUSES.ACTIONED,
+    { message: "An action can only be taken when actioning a report" }
+  );
+
+/**
+ * Check the signed-in user is a platform admin
+ * @returns The admin's user ID, or an error response
+ */
+async function requireAdmin(): Promise<string | NextResponse> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: "Unauthorized - Please log in" },
+      { status: 401 }
+    );
+  }
+
+  if (!(await isPlatformAdmin(user.id))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return user.id;
+}
+
+/**
+ * GET /api/admin/reports/[id]
+ * Get a report with the reported message (admins only)
+ *
+ * Response: { report: ReportDetail } or { error: string }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const adminId = await requireAdmin();
+    if (adminId instanceof NextResponse) return adminId;
+
+    const report = await getReportDetail(id);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: "Report not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ report }, { status: 200 });
+  } catch (error) {
+    console.error("Error in admin report GET API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/reports/[id]
+ * Triage a report (admins only). Actioning a report can also act on the
+ * reported message. Recorded in the admin audit log
+ *
+ * Request body:
+ * {
+ *   "status"?: "open" | "under_review" | "actioned" | "dismissed",
+ *   "reviewer_notes"?: string | null (max 2000 chars),
+ *   "action"?: "delete_message" | "block_sender" (with status "actioned")
+ * }
+ *
+ * Response: { report: ReportDetail } or { error: string }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const adminId = await requireAdmin();
+    if (adminId instanceof NextResponse) return adminId;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = reportUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid report update",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = await getReportDetail(id);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: "Report not found" },
+        { status: 404 }
+      );
+    }
+
+    const status = validationResult.data.status as ReportStatus | undefined;
+    const action = validationResult.data.action as ReportAction | undefined;
+
+    if (
+      status &&
+      status !== report.status &&
+      !canTransitionReport(report.status as ReportStatus, status)
+    ) {
+      return NextResponse.json(
+        { error: `A ${report.status} report can't be moved to ${status}` },
+        { status: 409 }
+      );
+    }
+
+    if (action && !(await takeReportAction(report, action))) {
+      return NextResponse.json(
+        { error: "Failed to take action on the reported message" },
+        { status: 500 }
+      );
+    }
+
+    // The update and its audit log entry are written together
+    const updated = await updateReport(id, {
+      ...(status && status !== report.status && { status }),
+      ...(validationResult.data.reviewer_notes !== undefined && {
+        reviewer_notes: validationResult.data.reviewer_notes || null,
+      }),
+      ...(action && { action_taken: action }),
+    });
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Failed to update report" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { report: await getReportDetail(id) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error in admin report PATCH API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
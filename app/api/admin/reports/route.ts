@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { isPlatformAdmin } from "@/lib/db/admins";
+import { getReports, getReportStatusCounts } from "@/lib/db/reports";
+import {
+  REPORT_STATUSES,
+  REPORTS_PAGE_SIZE,
+  type ReportStatus,
+} from "@/lib/constants/reports";
+
+/**
+ * GET /api/admin/reports
+ * List reports for the moderation queue, oldest first (admins only)
+ *
+ * Query params:
+ * - status: open | under_review | actioned | dismissed (all if omitted)
+ * - page: 1-based page number (default 1)
+ *
+ * Response: { reports, total, page, page_size, counts } or { error: string }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isPlatformAdmin(user.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const statusParam = searchParams.get("status");
+    const statuses: string[] = Object.values(REPORT_STATUSES);
+
+    if (statusParam && !statuses.includes(statusParam)) {
+      return NextResponse.json(
+        { error: "Invalid report status" },
+        { status: 400 }
+      );
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1") || 1);
+
+    const [result, counts] = await Promise.all([
+      getReports((statusParam as ReportStatus | null) || null, page),
+      getReportStatusCounts(),
+    ]);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Failed to fetch reports" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { ...result, page, page_size: REPORTS_PAGE_SIZE, counts },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error in admin reports API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
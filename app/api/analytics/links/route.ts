@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getLinkBreakdown, getTopReferrers } from "@/lib/db/analytics";
+
+/**
+ * GET /api/analytics/links
+ * Get visits → messages per campaign link, plus top referrers
+ *
+ * Response: { links: LinkBreakdown[], topReferrers: { referrer, count }[] } or { error: string }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const [links, topReferrers] = await Promise.all([
+      getLinkBreakdown(user.id),
+      getTopReferrers(user.id, 5),
+    ]);
+
+    return NextResponse.json({ links, topReferrers }, { status: 200 });
+  } catch (error) {
+    console.error("Error in analytics/links API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
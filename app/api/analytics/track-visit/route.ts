@@ -1,15 +1,23 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { z } from 'zod';
 import { getHashedIP } from '@/lib/utils/ip-hash';
 import { getParsedUserAgent } from '@/lib/utils/user-agent-parser';
 import { getClassifiedReferrer, isInAppBrowser } from '@/lib/utils/referrer-classifier';
 import { extractUTMParams, sanitizeUTMParams } from '@/lib/utils/utm-params';
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  getRateLimitHeaders,
+} from '@/lib/rate-limit/limiter';
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit/constants';
+import { announceVisitMilestone } from '@/lib/webhooks/delivery';
 
 /**
  * Visit tracking validation schema
  */
 const visitTrackingSchema = z.object({
   profileId: z.string().uuid(),
+  linkId: z.string().uuid().optional(),
   clientData: z
     .object({
       timezone: z.string(),
@@ -33,6 +41,7 @@ const visitTrackingSchema = z.object({
  * Request body:
  * {
  *   "profileId": "uuid",
+ *   "linkId"?: "uuid" (campaign link the visit came through),
  *   "clientData": {
  *     "timezone": "America/New_York",
  *     "language": "en-US",
@@ -40,6 +49,8 @@ const visitTrackingSchema = z.object({
  *     ... other client-side data
  *   }
  * }
+ *
+ * Rate limited per visitor IP and profile (RATE_LIMIT_POLICIES.TRACK_VISIT)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -74,7 +85,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { profileId, clientData } = validationResult.data;
+    const { profileId, linkId, clientData } = validationResult.data;
 
     // Collect server-side tracking data
     const ipHash = getHashedIP(request.headers);
@@ -83,10 +94,18 @@ export async function POST(request: NextRequest) {
     const utmParams = sanitizeUTMParams(extractUTMParams(request.nextUrl.searchParams));
     const inAppBrowser = isInAppBrowser(referrer, userAgent.raw);
 
+    const limit = await rateLimit(RATE_LIMIT_POLICIES.TRACK_VISIT, {
+      ip: ipHash,
+      recipient: profileId,
+    });
+    if (!limit.allowed) {
+      return rateLimitExceededResponse(limit);
+    }
+
     // Check if profile exists
     const { data: profile, error: profileError } = await supabase
       .from('profiles')
-      .select('id')
+      .select('id, username')
       .eq('id', profileId)
       .single();
 
@@ -94,9 +113,23 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
     }
 
+    // Only attribute the visit to links that belong to this profile
+    let campaignLinkId: string | null = null;
+    if (linkId) {
+      const { data: link } = await supabase
+        .from('campaign_links')
+        .select('id')
+        .eq('id', linkId)
+        .eq('profile_id', profileId)
+        .maybeSingle();
+
+      campaignLinkId = link?.id || null;
+    }
+
     // Insert visit record with de-duplication (unique constraint on profile_id, visitor_ip_hash, hour)
     const { error: insertError } = await supabase.from('link_visits').insert({
       profile_id: profileId,
+      link_id: campaignLinkId,
       visitor_ip_hash: ipHash,
       referrer: referrer.raw,
       user_agent: userAgent.raw,
@@ -134,6 +167,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to track visit' }, { status: 500 });
     }
 
+    // A new visit may pass a milestone announced to the owner's webhooks
+    if (!insertError) {
+      after(() => announceVisitMilestone(profile.id, profile.username));
+    }
+
     // Track analytics event
     await supabase.from('message_analytics').insert({
       user_id: profileId,
@@ -142,6 +180,7 @@ export async function POST(request: NextRequest) {
         referrer_platform: referrer.platform,
         device_type: userAgent.device.type,
         utm_source: utmParams.source,
+        link_id: campaignLinkId,
         in_app_browser: inAppBrowser,
       },
     });
@@ -155,7 +194,7 @@ export async function POST(request: NextRequest) {
           utm: utmParams.hasUTM,
         },
       },
-      { status: 200 }
+      { status: 200, headers: getRateLimitHeaders(limit) }
     );
   } catch (error) {
     console.error('Error in track visit API:', error);
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  getRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit/constants";
 
 /**
  * POST /api/auth/change-password
@@ -7,6 +13,9 @@ import { createClient } from "@/lib/supabase/server";
  *
  * Request body: { currentPassword: string, newPassword: string }
  * Response: { success: boolean } or { error: string }
+ *
+ * Rate limited per user (RATE_LIMIT_POLICIES.CHANGE_PASSWORD), since each
+ * attempt checks the current password
  */
 export async function POST(request: NextRequest) {
   try {
@@ -25,6 +34,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const limit = await rateLimit(RATE_LIMIT_POLICIES.CHANGE_PASSWORD, {
+      user: user.id,
+    });
+    if (!limit.allowed) {
+      return rateLimitExceededResponse(
+        limit,
+        "Too many password change attempts. Please try again later."
+      );
+    }
+
     const body = await request.json();
     const { currentPassword, newPassword } = body;
 
@@ -85,7 +104,7 @@ export async function POST(request: NextRequest) {
         success: true,
         message: "Password changed successfully",
       },
-      { status: 200 }
+      { status: 200, headers: getRateLimitHeaders(limit) }
     );
   } catch (error) {
     console.error("Error in change-password API:", error);
@@ -1,10 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import { BLOCK_REASONS, type BlockReason } from "@/lib/utils/blocking";
+import {
+  createBlockRule,
+  deleteExpiredBlockRules,
+} from "@/lib/db/blocked-senders";
+import {
+  BLOCK_DURATION_DAYS,
+  BLOCK_REASONS,
+  BLOCK_RULE_TYPES,
+  getBlockExpiry,
+  type BlockDurationDays,
+} from "@/lib/utils/blocking";
+import { getReferrerPlatforms } from "@/lib/utils/referrer-classifier";
+
+/**
+ * Longest region name a rule can match
+ */
+const MAX_REGION_LENGTH = 100;
 
 /**
  * POST /api/block/add
- * Block a sender by IP hash
+ * Block everyone from a region or referrer platform. Senders and devices are
+ * blocked from one of their messages with POST /api/messages/block, so IP
+ * hashes never pass through the browser
+ *
+ * Request body:
+ * {
+ *   "rule_type": "region" | "referrer",
+ *   "value": string (region name or referrer platform),
+ *   "duration_days"?: 1 | 7 | 30 | null (default null = until unblocked),
+ *   "reason"?: string
+ * }
  */
 export async function POST(request: NextRequest) {
   try {
@@ -22,12 +48,14 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { ip_hash, reason, message_id } = body;
+    const { reason, rule_type, value, duration_days = null } = body;
 
-    // Validate inputs
-    if (!ip_hash || typeof ip_hash !== "string") {
+    if (
+      rule_type !== BLOCK_RULE_TYPES.REGION &&
+      rule_type !== BLOCK_RULE_TYPES.REFERRER
+    ) {
       return NextResponse.json(
-        { error: "IP hash is required" },
+        { error: "Invalid rule type" },
         { status: 400 }
       );
     }
@@ -37,55 +65,65 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Invalid reason" }, { status: 400 });
     }
 
-    // Check if already blocked
-    const { data: existing, error: checkError } = await supabase
-      .from("blocked_senders")
-      .select("id")
-      .eq("user_id", user.id)
-      .eq("blocked_ip_hash", ip_hash)
-      .maybeSingle();
+    // Validate duration
+    if (!BLOCK_DURATION_DAYS.includes(duration_days)) {
+      return NextResponse.json(
+        { error: "Invalid block duration" },
+        { status: 400 }
+      );
+    }
+
+    const expiresAt = getBlockExpiry(duration_days as BlockDurationDays);
+
+    // An expired rule would otherwise count as a duplicate of the new one
+    await deleteExpiredBlockRules(user.id);
 
-    if (checkError && checkError.code !== "PGRST116") {
-      console.error("Error checking existing block:", checkError);
+    const matchValue = typeof value === "string" ? value.trim() : "";
+
+    if (
+      !matchValue ||
+      (rule_type === BLOCK_RULE_TYPES.REGION &&
+        matchValue.length > MAX_REGION_LENGTH) ||
+      (rule_type === BLOCK_RULE_TYPES.REFERRER &&
+        !getReferrerPlatforms().includes(matchValue))
+    ) {
       return NextResponse.json(
-        { error: "Failed to check existing blocks" },
-        { status: 500 }
+        {
+          error:
+            rule_type === BLOCK_RULE_TYPES.REGION
+              ? "A valid region is required"
+              : "A valid referrer platform is required",
+        },
+        { status: 400 }
       );
     }
 
-    if (existing) {
+    const rule = await createBlockRule({
+      user_id: user.id,
+      rule_type,
+      match_value: matchValue,
+      reason: reason || BLOCK_REASONS.OTHER,
+      expires_at: expiresAt,
+    });
+
+    if (rule === "duplicate") {
       return NextResponse.json(
-        { error: "This sender is already blocked" },
+        { error: "This rule already exists" },
         { status: 400 }
       );
     }
 
-    // Create block record
-    const { data: blockData, error: blockError } = await supabase
-      .from("blocked_senders")
-      .insert({
-        user_id: user.id,
-        blocked_ip_hash: ip_hash,
-        reason: reason || BLOCK_REASONS.OTHER,
-        blocked_identifier: message_id
-          ? `Message ${message_id.substring(0, 8)}`
-          : `Sender ${ip_hash.substring(0, 8)}`,
-      })
-      .select()
-      .single();
-
-    if (blockError) {
-      console.error("Error creating block:", blockError);
+    if (!rule) {
       return NextResponse.json(
-        { error: "Failed to block sender" },
+        { error: "Failed to create block rule" },
         { status: 500 }
       );
     }
 
     return NextResponse.json({
       success: true,
-      block: blockData,
-      message: "Sender blocked successfully",
+      block: rule,
+      message: "Block rule created successfully",
     });
   } catch (error) {
     console.error("Error in block/add:", error);
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  updateCampaignLink,
+  deleteCampaignLink,
+} from "@/lib/db/campaign-links";
+
+/**
+ * Campaign link update validation schema
+ */
+const campaignLinkUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(50).optional(),
+    prompt: z.string().trim().max(100).nullable().optional(),
+    is_open: z.boolean().optional(),
+    expires_at: z.string().datetime({ offset: true }).nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
+
+/**
+ * PATCH /api/campaign-links/[id]
+ * Rename a link, change its prompt or expiry, or open / close it
+ *
+ * Request body:
+ * {
+ *   "name"?: string (1-50 chars),
+ *   "prompt"?: string | null (max 100 chars),
+ *   "is_open"?: boolean,
+ *   "expires_at"?: string | null (ISO 8601)
+ * }
+ *
+ * Response: { link: CampaignLink } or { error: string }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = campaignLinkUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid link data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const link = await updateCampaignLink(user.id, id, validationResult.data);
+
+    if (!link) {
+      return NextResponse.json(
+        { error: "Failed to update link" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ link }, { status: 200 });
+  } catch (error) {
+    console.error("Error in campaign-links PATCH API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/campaign-links/[id]
+ * Delete a link permanently (visits and messages are kept, unattributed)
+ *
+ * Response: { success: boolean } or { error: string }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const success = await deleteCampaignLink(user.id, id);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to delete link" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("Error in campaign-links DELETE API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
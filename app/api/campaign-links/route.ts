@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getCampaignLinksForOwner,
+  createCampaignLink,
+  MAX_CAMPAIGN_LINKS,
+  CAMPAIGN_LINK_SLUG_PATTERN,
+} from "@/lib/db/campaign-links";
+
+/**
+ * Campaign link creation validation schema
+ */
+const campaignLinkCreateSchema = z.object({
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(
+      CAMPAIGN_LINK_SLUG_PATTERN,
+      "Use lowercase letters, numbers and hyphens (max 40)"
+    ),
+  name: z.string().trim().min(1).max(50),
+  prompt: z.string().trim().max(100).nullable().optional(),
+  expires_at: z.string().datetime({ offset: true }).nullable().optional(),
+});
+
+/**
+ * GET /api/campaign-links
+ * List the authenticated user's campaign links
+ *
+ * Response: { links: CampaignLink[] } or { error: string }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const links = await getCampaignLinksForOwner(user.id);
+
+    return NextResponse.json({ links }, { status: 200 });
+  } catch (error) {
+    console.error("Error in campaign-links GET API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/campaign-links
+ * Create a new campaign link
+ *
+ * Request body:
+ * {
+ *   "slug": string (lowercase letters, numbers, hyphens; max 40),
+ *   "name": string (1-50 chars),
+ *   "prompt"?: string (max 100 chars),
+ *   "expires_at"?: string (ISO 8601)
+ * }
+ *
+ * Response: { link: CampaignLink } or { error: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = campaignLinkCreateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid link data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { slug } = validationResult.data;
+
+    // Enforce link limit
+    const { count } = await supabase
+      .from("campaign_links")
+      .select("id", { count: "exact", head: true })
+      .eq("profile_id", user.id);
+
+    if ((count || 0) >= MAX_CAMPAIGN_LINKS) {
+      return NextResponse.json(
+        {
+          error: `You can have up to ${MAX_CAMPAIGN_LINKS} links. Delete one first.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Slugs are unique per profile
+    const { data: existing } = await supabase
+      .from("campaign_links")
+      .select("id")
+      .eq("profile_id", user.id)
+      .eq("slug", slug)
+      .maybeSingle();
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "You already have a link with this slug" },
+        { status: 409 }
+      );
+    }
+
+    const link = await createCampaignLink(user.id, validationResult.data);
+
+    if (!link) {
+      return NextResponse.json(
+        { error: "Failed to create link" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ link }, { status: 201 });
+  } catch (error) {
+    console.error("Error in campaign-links POST API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
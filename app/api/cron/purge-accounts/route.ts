@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runAccountPurge } from "@/lib/db/account-deletion";
+
+/**
+ * GET /api/cron/purge-accounts
+ * Permanently delete accounts whose deletion grace period has ended, with
+ * their avatars, message images, data exports and push subscriptions.
+ * Meant for a scheduler (e.g. Vercel Cron, daily) - requires
+ * "Authorization: Bearer <CRON_SECRET>"
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "purged": number (accounts deleted),
+ *   "failed": number (accounts left for the next run after an error),
+ *   "has_more": boolean (accounts due for deletion left for the next run)
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const summary = await runAccountPurge();
+
+    return NextResponse.json({
+      success: true,
+      purged: summary.purged,
+      failed: summary.failed,
+      has_more: summary.hasMore,
+    });
+  } catch (error) {
+    console.error("Error in purge accounts API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
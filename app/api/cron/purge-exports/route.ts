@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { purgeExpiredDataExports } from "@/lib/db/data-exports";
+
+/**
+ * GET /api/cron/purge-exports
+ * Delete data export archives past their expiry. Meant for a scheduler
+ * (e.g. Vercel Cron, daily) - requires "Authorization: Bearer <CRON_SECRET>"
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "purged": number (archives deleted)
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const purged = await purgeExpiredDataExports();
+
+    return NextResponse.json({ success: true, purged });
+  } catch (error) {
+    console.error("Error in purge exports API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runRawIPPurge } from "@/lib/db/ip-retention";
+
+/**
+ * GET /api/cron/purge-ips
+ * Clear raw sender IPs older than RAW_IP_RETENTION_DAYS (or every one when
+ * RAW_IP_MODE is "none"). IP hashes are kept, so blocks and rate limits
+ * are unaffected. Meant for a scheduler (e.g. Vercel Cron, daily) -
+ * requires "Authorization: Bearer <CRON_SECRET>"
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "cleared": number (messages whose raw IP was cleared),
+ *   "cutoff": string (raw IPs stored before this time were cleared),
+ *   "has_more": boolean (expired raw IPs left for the next run)
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const summary = await runRawIPPurge();
+
+    return NextResponse.json({
+      success: true,
+      cleared: summary.cleared,
+      cutoff: summary.cutoff,
+      has_more: summary.hasMore,
+    });
+  } catch (error) {
+    console.error("Error in purge IPs API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
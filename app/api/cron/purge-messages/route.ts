@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runMessagePurge } from "@/lib/db/message-retention";
+
+/**
+ * GET /api/cron/purge-messages
+ * Delete messages past their recipient's retention period. Meant for a
+ * scheduler (e.g. Vercel Cron, hourly) - requires
+ * "Authorization: Bearer <CRON_SECRET>"
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "purged": number (messages deleted),
+ *   "users": number (users who had messages deleted),
+ *   "has_more": boolean (expired messages left for the next run)
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const summary = await runMessagePurge();
+
+    return NextResponse.json({
+      success: true,
+      purged: summary.purged,
+      users: summary.users,
+      has_more: summary.hasMore,
+    });
+  } catch (error) {
+    console.error("Error in purge messages API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWebhookRetries } from "@/lib/webhooks/delivery";
+
+/**
+ * GET /api/cron/retry-webhooks
+ * Retry webhook deliveries whose backoff has passed, and clear deliveries
+ * older than the log retention. Meant for a scheduler (e.g. Vercel Cron,
+ * every 5 minutes) - requires "Authorization: Bearer <CRON_SECRET>"
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "attempted": number (deliveries retried),
+ *   "succeeded": number (retries the endpoint accepted),
+ *   "failed": number (deliveries out of retries, or to paused endpoints),
+ *   "has_more": boolean (due retries left for the next run),
+ *   "purged": number (old deliveries removed from the log)
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const summary = await runWebhookRetries();
+
+    return NextResponse.json({
+      success: true,
+      attempted: summary.attempted,
+      succeeded: summary.succeeded,
+      failed: summary.failed,
+      has_more: summary.hasMore,
+      purged: summary.purged,
+    });
+  } catch (error) {
+    console.error("Error in retry webhooks API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runEmailDigests } from "@/lib/notifications/email";
+
+/**
+ * GET /api/cron/send-digests
+ * Email daily and weekly digests of new messages and profile visits to
+ * accounts that opted in. Accounts with nothing to report are skipped.
+ * Meant for a scheduler (e.g. Vercel Cron, hourly or daily) - requires
+ * "Authorization: Bearer <CRON_SECRET>"
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "sent": number (digests emailed),
+ *   "skipped": number (accounts with no activity to report),
+ *   "failed": number (digests that couldn't be sent),
+ *   "has_more": boolean (accounts due a digest left for the next run)
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const summary = await runEmailDigests();
+
+    return NextResponse.json({
+      success: true,
+      sent: summary.sent,
+      skipped: summary.skipped,
+      failed: summary.failed,
+      has_more: summary.hasMore,
+    });
+  } catch (error) {
+    console.error("Error in send digests API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { updateLabel, deleteLabel } from "@/lib/db/labels";
+import {
+  LABEL_COLORS,
+  MAX_LABEL_NAME_LENGTH,
+} from "@/lib/constants/message-labels";
+
+/**
+ * Label update validation schema
+ */
+const labelUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(MAX_LABEL_NAME_LENGTH).optional(),
+    color: z
+      .enum(Object.values(LABEL_COLORS) as [string, ...string[]])
+      .optional(),
+  })
+  .refine((data) => data.name !== undefined || data.color !== undefined, {
+    message: "Nothing to update",
+  });
+
+/**
+ * PATCH /api/labels/[id]
+ * Rename or recolor a label
+ *
+ * Request body:
+ * {
+ *   "name"?: string (1-30 chars),
+ *   "color"?: string (palette color)
+ * }
+ *
+ * Response: { label: MessageLabel } or { error: string }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = labelUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid label data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const label = await updateLabel(user.id, id, validationResult.data);
+
+    if (label === "duplicate") {
+      return NextResponse.json(
+        { error: "You already have a label with this name" },
+        { status: 409 }
+      );
+    }
+
+    if (!label) {
+      return NextResponse.json(
+        { error: "Failed to update label" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ label }, { status: 200 });
+  } catch (error) {
+    console.error("Error in labels PATCH API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/labels/[id]
+ * Delete a label and remove it from all messages
+ *
+ * Response: { success: boolean } or { error: string }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const success = await deleteLabel(user.id, id);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to delete label" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("Error in labels DELETE API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
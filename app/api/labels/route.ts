@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getLabelsWithCounts,
+  createLabel,
+  countLabels,
+} from "@/lib/db/labels";
+import {
+  LABEL_COLORS,
+  MAX_LABELS,
+  MAX_LABEL_NAME_LENGTH,
+} from "@/lib/constants/message-labels";
+
+/**
+ * Label creation validation schema
+ */
+const labelCreateSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_LABEL_NAME_LENGTH),
+  color: z
+    .enum(Object.values(LABEL_COLORS) as [string, ...string[]])
+    .default(LABEL_COLORS.PURPLE),
+});
+
+/**
+ * GET /api/labels
+ * List the authenticated user's labels with message counts, plus inbox,
+ * archive and held counts (sidebar folders)
+ *
+ * Response:
+ * {
+ *   labels: Array<{ id, name, color, messageCount, unreadCount }>,
+ *   folders: { inbox: { total, unread }, archived: { total, unread }, held: { total, unread } }
+ * }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const result = await getLabelsWithCounts(user.id);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Failed to fetch labels" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error in labels GET API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/labels
+ * Create a label
+ *
+ * Request body:
+ * {
+ *   "name": string (1-30 chars, unique per user ignoring case),
+ *   "color"?: "purple" | "pink" | "red" | "orange" | "yellow" | "green" | "blue" | "gray"
+ * }
+ *
+ * Response: { label: MessageLabel } or { error: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = labelCreateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid label data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Enforce label limit
+    if ((await countLabels(user.id)) >= MAX_LABELS) {
+      return NextResponse.json(
+        { error: `You can have up to ${MAX_LABELS} labels. Delete one first.` },
+        { status: 400 }
+      );
+    }
+
+    const label = await createLabel(
+      user.id,
+      validationResult.data.name,
+      validationResult.data.color
+    );
+
+    if (label === "duplicate") {
+      return NextResponse.json(
+        { error: "You already have a label with this name" },
+        { status: 409 }
+      );
+    }
+
+    if (!label) {
+      return NextResponse.json(
+        { error: "Failed to create label" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ label }, { status: 201 });
+  } catch (error) {
+    console.error("Error in labels POST API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
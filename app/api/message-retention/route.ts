@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getMessagePurgeLog } from "@/lib/db/message-retention";
+
+/**
+ * GET /api/message-retention
+ * List the retention purges that deleted the authenticated user's messages
+ * (newest 10). Retention periods themselves are profile fields - see
+ * PUT /api/profile/update
+ *
+ * Response:
+ * {
+ *   purges: Array<{ id, read_count, unread_count, flagged_count, created_at }>
+ * }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const purges = await getMessagePurgeLog(user.id);
+
+    return NextResponse.json({ purges }, { status: 200 });
+  } catch (error) {
+    console.error("Error in message retention GET API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getAnswerForMessage,
+  saveAnswer,
+  deleteAnswer,
+} from "@/lib/db/answers";
+
+/**
+ * Answer validation schema
+ */
+const answerSchema = z.object({
+  answer: z.string().trim().min(1).max(1000),
+  is_published: z.boolean().default(false),
+});
+
+/**
+ * GET /api/messages/[id]/answer
+ * Get the owner's answer to a message
+ *
+ * Response: { answer: PublicAnswer | null } or { error: string }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // RLS ensures only the owner's answer is returned
+    const answer = await getAnswerForMessage(id);
+
+    return NextResponse.json({ answer }, { status: 200 });
+  } catch (error) {
+    console.error("Error in message/answer GET API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/messages/[id]/answer
+ * Create or edit the answer to a message, and publish or unpublish it
+ *
+ * Request body:
+ * {
+ *   "answer": string (1-1000 chars),
+ *   "is_published": boolean
+ * }
+ *
+ * Response: { answer: PublicAnswer } or { error: string }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = answerSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid answer data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { answer, is_published } = validationResult.data;
+
+    const saved = await saveAnswer(user.id, id, answer, is_published);
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Failed to save answer" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ answer: saved }, { status: 200 });
+  } catch (error) {
+    console.error("Error in message/answer PUT API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/messages/[id]/answer
+ * Delete the answer (and remove it from the public wall)
+ *
+ * Response: { success: boolean } or { error: string }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const success = await deleteAnswer(user.id, id);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to delete answer" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("Error in message/answer DELETE API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getSignedAttachments } from "@/lib/db/attachments";
+
+/**
+ * GET /api/messages/[id]/attachments
+ * Get the images attached to a message as short-lived signed URLs
+ *
+ * Security: Only the recipient can list or sign a message's attachments
+ * Response: { attachments: SignedAttachment[] } or { error: string }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const { data: message, error: messageError } = await supabase
+      .from("messages")
+      .select("id")
+      .eq("id", id)
+      .eq("recipient_id", user.id)
+      .single();
+
+    if (messageError || !message) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    const attachments = await getSignedAttachments(message.id);
+
+    return NextResponse.json(
+      { attachments },
+      {
+        status: 200,
+        // Signed URLs are per-recipient secrets - never cache them
+        headers: { "Cache-Control": "private, no-store" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in message/attachments API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
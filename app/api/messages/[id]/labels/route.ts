@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { setMessageLabels } from "@/lib/db/labels";
+import { MAX_LABELS } from "@/lib/constants/message-labels";
+
+/**
+ * Message labels validation schema
+ */
+const messageLabelsSchema = z.object({
+  label_ids: z.array(z.string().uuid()).max(MAX_LABELS),
+});
+
+/**
+ * PUT /api/messages/[id]/labels
+ * Replace the labels on a message
+ *
+ * Request body:
+ * {
+ *   "label_ids": string[] (label UUIDs, empty to clear)
+ * }
+ *
+ * Response: { label_ids: string[] } or { error: string }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = messageLabelsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid label data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Verify ownership of the message
+    const { data: message } = await supabase
+      .from("messages")
+      .select("id")
+      .eq("id", id)
+      .eq("recipient_id", user.id)
+      .maybeSingle();
+
+    if (!message) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    const labelIds = Array.from(new Set(validationResult.data.label_ids));
+    const success = await setMessageLabels(id, labelIds);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to update labels" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ label_ids: labelIds }, { status: 200 });
+  } catch (error) {
+    console.error("Error in message labels API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getRepliesForMessage,
+  createRecipientReply,
+  MAX_THREAD_REPLIES,
+} from "@/lib/db/threads";
+
+/**
+ * Reply validation schema
+ */
+const replySchema = z.object({
+  content: z.string().trim().min(1).max(1000),
+});
+
+/**
+ * GET /api/messages/[id]/replies
+ * Get the private thread on a message
+ *
+ * Response: { replies: ThreadReply[], has_thread: boolean } or { error: string }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const { data: message, error: messageError } = await supabase
+      .from("messages")
+      .select("id, thread_token_hash")
+      .eq("id", id)
+      .eq("recipient_id", user.id)
+      .single();
+
+    if (messageError || !message) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    const replies = await getRepliesForMessage(message.id);
+
+    return NextResponse.json(
+      { replies, has_thread: !!message.thread_token_hash },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error in message/replies GET API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/messages/[id]/replies
+ * Reply privately to the anonymous sender
+ *
+ * Request body:
+ * {
+ *   "content": string (1-1000 chars)
+ * }
+ *
+ * Response: { reply: ThreadReply } or { error: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = replySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid reply data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: message, error: messageError } = await supabase
+      .from("messages")
+      .select("id, thread_token_hash")
+      .eq("id", id)
+      .eq("recipient_id", user.id)
+      .single();
+
+    if (messageError || !message) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    // Messages sent before threads existed have no token - the sender could never read the reply
+    if (!message.thread_token_hash) {
+      return NextResponse.json(
+        { error: "The sender of this message can't receive replies" },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await supabase
+      .from("message_replies")
+      .select("id", { count: "exact", head: true })
+      .eq("message_id", message.id);
+
+    if ((count || 0) >= MAX_THREAD_REPLIES) {
+      return NextResponse.json(
+        { error: `Threads are limited to ${MAX_THREAD_REPLIES} replies` },
+        { status: 400 }
+      );
+    }
+
+    const reply = await createRecipientReply(
+      message.id,
+      validationResult.data.content
+    );
+
+    if (!reply) {
+      return NextResponse.json(
+        { error: "Failed to send reply" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ reply }, { status: 201 });
+  } catch (error) {
+    console.error("Error in message/replies POST API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { deleteMessageAttachmentFiles } from "@/lib/db/attachments";
+import { getMessageSenderSignals } from "@/lib/db/blocked-senders";
+import { findMatchingBlockRule } from "@/lib/utils/blocking";
 
 /**
  * GET /api/messages/[id]
@@ -37,7 +40,8 @@ export async function GET(
       return NextResponse.json({ error: "Profile not found" }, { status: 404 });
     }
 
-    // Fetch message with all tracking fields (including enhanced fields)
+    // Fetch message with the tracking fields the recipient sees (never the
+    // IP hash, device fingerprint or stored IP)
     const { data: message, error: messageError } = await supabase
       .from("messages")
       .select(
@@ -48,8 +52,6 @@ export async function GET(
         is_flagged,
         created_at,
         read_at,
-        sender_ip_hash,
-        sender_ip_raw,
         sender_device_type,
         sender_browser,
         sender_os,
@@ -63,7 +65,9 @@ export async function GET(
         sender_color_depth,
         sender_pixel_ratio,
         sender_touch_support,
-        sender_connection_type
+        sender_connection_type,
+        moderation_verdict,
+        moderation_matches
       `
       )
       .eq("id", id)
@@ -74,20 +78,33 @@ export async function GET(
       return NextResponse.json({ error: "Message not found" }, { status: 404 });
     }
 
-    // Get additional context: count messages from same sender
-    const { count: senderMessageCount } = await supabase
-      .from("messages")
-      .select("id", { count: "exact", head: true })
-      .eq("recipient_id", profile.id)
-      .eq("sender_ip_hash", message.sender_ip_hash);
+    // Check if any active block rule matches the sender. The signals are
+    // read separately so the IP hash and fingerprint never join the
+    // response row
+    const [{ data: sender }, { data: blockRules }] = await Promise.all([
+      supabase
+        .from("messages")
+        .select("sender_ip_hash, sender_fingerprint, sender_timezone, sender_referrer_platform")
+        .eq("id", id)
+        .single(),
+      supabase
+        .from("blocked_senders")
+        .select("rule_type, blocked_ip_hash, match_value, expires_at, reason, created_at")
+        .eq("user_id", profile.id),
+    ]);
+
+    const blockedSender = sender
+      ? findMatchingBlockRule(blockRules || [], getMessageSenderSignals(sender))
+      : null;
 
-    // Check if sender is blocked
-    const { data: blockedSender } = await supabase
-      .from("blocked_senders")
-      .select("id, reason, created_at")
-      .eq("user_id", profile.id)
-      .eq("blocked_ip_hash", message.sender_ip_hash)
-      .maybeSingle();
+    // Get additional context: count messages from same sender
+    const { count: senderMessageCount } = sender
+      ? await supabase
+          .from("messages")
+          .select("id", { count: "exact", head: true })
+          .eq("recipient_id", profile.id)
+          .eq("sender_ip_hash", sender.sender_ip_hash)
+      : { count: null };
 
     // Mark message as read if it wasn't already
     if (!message.is_read) {
@@ -97,17 +114,39 @@ export async function GET(
         .eq("id", id);
     }
 
+    // Only fields the recipient may see - never spread the row
     return NextResponse.json({
       message: {
-        ...message,
+        id: message.id,
+        content: message.content,
         is_read: true, // Update in response since we just marked it as read
+        is_flagged: message.is_flagged,
+        created_at: message.created_at,
         read_at: message.read_at || new Date().toISOString(),
+        sender_device_type: message.sender_device_type,
+        sender_browser: message.sender_browser,
+        sender_os: message.sender_os,
+        sender_timezone: message.sender_timezone,
+        sender_language: message.sender_language,
+        sender_referrer_platform: message.sender_referrer_platform,
+        sender_utm_source: message.sender_utm_source,
+        sender_utm_campaign: message.sender_utm_campaign,
+        sender_screen_resolution: message.sender_screen_resolution,
+        sender_viewport_size: message.sender_viewport_size,
+        sender_color_depth: message.sender_color_depth,
+        sender_pixel_ratio: message.sender_pixel_ratio,
+        sender_touch_support: message.sender_touch_support,
+        sender_connection_type: message.sender_connection_type,
+        moderation_verdict: message.moderation_verdict,
+        moderation_matches: message.moderation_matches,
       },
       metadata: {
         sender_message_count: senderMessageCount || 1,
         is_sender_blocked: !!blockedSender,
         blocked_reason: blockedSender?.reason || null,
         blocked_at: blockedSender?.created_at || null,
+        blocked_rule_type: blockedSender?.rule_type || null,
+        blocked_until: blockedSender?.expires_at || null,
       },
     });
   } catch (error) {
@@ -143,6 +182,9 @@ export async function DELETE(
       );
     }
 
+    // Stored image files aren't removed by the cascade - delete them first
+    await deleteMessageAttachmentFiles([id]);
+
     // Delete message (RLS ensures user can only delete their own messages)
     const { error } = await supabase
       .from("messages")
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { ShareCard } from "@/lib/share-image/card";
+import {
+  SHARE_IMAGE_FORMATS,
+  SHARE_IMAGE_TEMPLATES,
+  SHARE_IMAGE_THEMES,
+  SHARE_IMAGE_DIMENSIONS,
+} from "@/lib/constants/share-image";
+
+/**
+ * Share image query validation schema
+ */
+const shareImageQuerySchema = z.object({
+  format: z
+    .enum([SHARE_IMAGE_FORMATS.STORY, SHARE_IMAGE_FORMATS.SQUARE])
+    .default(SHARE_IMAGE_FORMATS.STORY),
+  template: z
+    .enum([
+      SHARE_IMAGE_TEMPLATES.BRAND,
+      SHARE_IMAGE_TEMPLATES.SUNSET,
+      SHARE_IMAGE_TEMPLATES.MINIMAL,
+    ])
+    .default(SHARE_IMAGE_TEMPLATES.SUNSET),
+  theme: z
+    .enum([SHARE_IMAGE_THEMES.DARK, SHARE_IMAGE_THEMES.LIGHT])
+    .default(SHARE_IMAGE_THEMES.LIGHT),
+  answer: z.enum(["0", "1"]).default("1"),
+  download: z.enum(["0", "1"]).default("0"),
+});
+
+/**
+ * GET /api/messages/[id]/share-image
+ * Render a message (and its answer, if any) as a PNG share card
+ *
+ * Query params:
+ * - format: "story" (1080x1920) | "square" (1080x1080)
+ * - template: "brand" | "sunset" | "minimal"
+ * - theme: "light" | "dark"
+ * - answer: "1" to include the owner's answer (default), "0" to omit it
+ * - download: "1" to serve as an attachment
+ *
+ * Security: Only the message recipient can render the image
+ * Response: image/png or { error: string }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const validationResult = shareImageQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid share image options",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { format, template, theme, answer, download } =
+      validationResult.data;
+
+    // Fetch message (recipient only)
+    const { data: message, error: messageError } = await supabase
+      .from("messages")
+      .select("id, content")
+      .eq("id", id)
+      .eq("recipient_id", user.id)
+      .single();
+
+    if (messageError || !message) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("username")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    // Optional answer from the public Q&A wall
+    let answerText: string | null = null;
+    if (answer === "1") {
+      const { data: publicAnswer } = await supabase
+        .from("public_answers")
+        .select("answer")
+        .eq("message_id", message.id)
+        .maybeSingle();
+
+      answerText = publicAnswer?.answer || null;
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || "https://nglfs.com";
+    const profileUrl = `${new URL(appUrl).host}/${profile.username}`;
+    const { width, height } = SHARE_IMAGE_DIMENSIONS[format];
+
+    const headers: Record<string, string> = {
+      // Rendered per-user content - never cache on shared proxies
+      "Cache-Control": "private, no-store",
+    };
+
+    if (download === "1") {
+      headers["Content-Disposition"] =
+        `attachment; filename="nglfs-${message.id.substring(0, 8)}-${format}.png"`;
+    }
+
+    return new ImageResponse(
+      (
+        <ShareCard
+          content={message.content}
+          answer={answerText}
+          username={profile.username}
+          profileUrl={profileUrl}
+          format={format}
+          template={template}
+          theme={theme}
+        />
+      ),
+      { width, height, headers }
+    );
+  } catch (error) {
+    console.error("Error in message/share-image API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
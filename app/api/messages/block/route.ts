@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  blockMessageSenders,
+  deleteMessages,
+  getDeviceMessageIds,
+  getSenderMessageIds,
+} from "@/lib/db/messages";
+import { deleteMessageAttachmentFiles } from "@/lib/db/attachments";
+import {
+  createBlockRule,
+  deleteExpiredBlockRules,
+  getMessageSenderSignals,
+} from "@/lib/db/blocked-senders";
+import {
+  BLOCK_DURATION_DAYS,
+  BLOCK_REASONS,
+  BLOCK_RULE_TYPES,
+  getBlockExpiry,
+  getBlockRuleTypeText,
+  getBlockRuleValue,
+  type BlockDurationDays,
+} from "@/lib/utils/blocking";
+
+/**
+ * Block sender validation schema
+ */
+const blockSenderSchema = z
+  .object({
+    message_id: z.string().uuid(),
+    reason: z.enum(BLOCK_REASONS).optional(),
+    rule_type: z.enum(BLOCK_RULE_TYPES).optional(),
+    duration_days: z
+      .number()
+      .nullable()
+      .refine(
+        (days) => BLOCK_DURATION_DAYS.includes(days as BlockDurationDays),
+        "Invalid block duration"
+      )
+      .optional(),
+    delete_messages: z.boolean().optional(),
+  })
+  .refine(
+    (data) =>
+      !data.delete_messages ||
+      data.rule_type === undefined ||
+      data.rule_type === BLOCK_RULE_TYPES.IP ||
+      data.rule_type === BLOCK_RULE_TYPES.FINGERPRINT,
+    {
+      message: "Messages can only be deleted when blocking a sender or device",
+      path: ["delete_messages"],
+    }
+  );
+
+/**
+ * POST /api/messages/block
+ * Block the sender of one of the authenticated user's messages. The sender
+ * is resolved server-side, so their IP hash and device fingerprint never
+ * reach the browser
+ *
+ * Request body:
+ * {
+ *   "message_id": string,
+ *   "reason"?: "spam" | "harassment" | "inappropriate_content" | "suspicious_activity" | "other",
+ *   "rule_type"?: "ip" | "fingerprint" | "region" | "referrer" (default "ip"),
+ *   "duration_days"?: 1 | 7 | 30 | null (default null = until unblocked),
+ *   "delete_messages"?: boolean (also delete every message from this sender
+ *                       or device - ip and fingerprint rules only)
+ * }
+ *
+ * Response: { success: true, deleted_count: number } or { error: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = blockSenderSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid block data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const {
+      message_id,
+      reason,
+      rule_type = BLOCK_RULE_TYPES.IP,
+      duration_days = null,
+      delete_messages,
+    } = validationResult.data;
+
+    // Verify ownership of the message and resolve its sender
+    const { data: message } = await supabase
+      .from("messages")
+      .select(
+        "id, sender_ip_hash, sender_fingerprint, sender_timezone, sender_referrer_platform"
+      )
+      .eq("id", message_id)
+      .eq("recipient_id", user.id)
+      .maybeSingle();
+
+    if (!message) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    const matchValue = getBlockRuleValue(
+      rule_type,
+      getMessageSenderSignals(message)
+    );
+
+    if (!matchValue) {
+      return NextResponse.json(
+        {
+          error: `This message has no ${getBlockRuleTypeText(rule_type).toLowerCase()} information to block`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const blockReason = reason || BLOCK_REASONS.OTHER;
+    const expiresAt = getBlockExpiry(duration_days as BlockDurationDays);
+
+    // An expired rule would otherwise count as a duplicate of the new one
+    await deleteExpiredBlockRules(user.id);
+
+    // Already-blocked senders are left as they are
+    let blocked: boolean;
+    if (rule_type === BLOCK_RULE_TYPES.IP) {
+      blocked = await blockMessageSenders(
+        user.id,
+        [message],
+        blockReason,
+        expiresAt
+      );
+    } else {
+      const rule = await createBlockRule({
+        user_id: user.id,
+        rule_type,
+        match_value: matchValue,
+        reason: blockReason,
+        blocked_identifier:
+          rule_type === BLOCK_RULE_TYPES.FINGERPRINT
+            ? `Device from message ${message.id.substring(0, 8)}`
+            : null,
+        expires_at: expiresAt,
+      });
+      blocked = rule !== null;
+    }
+
+    if (!blocked) {
+      return NextResponse.json(
+        { error: "Failed to block sender" },
+        { status: 500 }
+      );
+    }
+
+    let deletedCount = 0;
+    if (delete_messages) {
+      const messageIds =
+        rule_type === BLOCK_RULE_TYPES.FINGERPRINT
+          ? await getDeviceMessageIds(user.id, matchValue)
+          : await getSenderMessageIds(user.id, message.sender_ip_hash);
+
+      if (!messageIds) {
+        return NextResponse.json(
+          { error: "Sender blocked, but failed to delete their messages" },
+          { status: 500 }
+        );
+      }
+
+      if (messageIds.length > 0) {
+        await deleteMessageAttachmentFiles(messageIds);
+
+        if (!(await deleteMessages(messageIds))) {
+          return NextResponse.json(
+            { error: "Sender blocked, but failed to delete their messages" },
+            { status: 500 }
+          );
+        }
+      }
+
+      deletedCount = messageIds.length;
+    }
+
+    return NextResponse.json({
+      success: true,
+      deleted_count: deletedCount,
+      message: "Sender blocked successfully",
+    });
+  } catch (error) {
+    console.error("Error in block sender API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
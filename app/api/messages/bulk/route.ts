@@ -0,0 +1,243 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getMatchingMessageIds,
+  markMessagesAsRead,
+  markMessagesAsUnread,
+  setMessagesFlagged,
+  setMessagesArchived,
+  releaseHeldMessages,
+  deleteMessages,
+  blockMessageSenders,
+} from "@/lib/db/messages";
+import { addLabelToMessages, removeLabelFromMessages } from "@/lib/db/labels";
+import { deleteMessageAttachmentFiles } from "@/lib/db/attachments";
+import { deleteExpiredBlockRules } from "@/lib/db/blocked-senders";
+import { BLOCK_REASONS } from "@/lib/utils/blocking";
+import {
+  messageFiltersSchema,
+  toMessageSearchOptions,
+} from "@/lib/validations/message-filters";
+
+/**
+ * Maximum number of messages a single bulk request can touch
+ */
+const MAX_BULK_MESSAGES = 1000;
+
+/**
+ * Messages updated per database call
+ */
+const BULK_CHUNK_SIZE = 100;
+
+const BULK_ACTIONS = [
+  "mark_read",
+  "mark_unread",
+  "flag",
+  "unflag",
+  "archive",
+  "unarchive",
+  "release",
+  "delete",
+  "block_sender",
+  "add_label",
+  "remove_label",
+] as const;
+
+type BulkAction = (typeof BULK_ACTIONS)[number];
+
+/**
+ * Bulk action validation schema - either explicit message IDs or every
+ * message matching a filter
+ */
+const bulkActionSchema = z
+  .object({
+    action: z.enum(BULK_ACTIONS),
+    message_ids: z.array(z.string().uuid()).min(1).max(MAX_BULK_MESSAGES).optional(),
+    filters: messageFiltersSchema.optional(),
+    label_id: z.string().uuid().optional(),
+  })
+  .refine((data) => !!data.message_ids !== !!data.filters, {
+    message: "Provide either message_ids or filters",
+  })
+  .refine(
+    (data) =>
+      (data.action !== "add_label" && data.action !== "remove_label") ||
+      !!data.label_id,
+    { message: "label_id is required for label actions" }
+  );
+
+/**
+ * Run an action against one chunk of the user's messages
+ */
+async function applyBulkAction(
+  action: BulkAction,
+  userId: string,
+  messages: Array<{ id: string; sender_ip_hash: string }>,
+  labelId?: string
+): Promise<boolean> {
+  const ids = messages.map((message) => message.id);
+
+  switch (action) {
+    case "mark_read":
+      return markMessagesAsRead(ids);
+    case "mark_unread":
+      return markMessagesAsUnread(ids);
+    case "flag":
+      return setMessagesFlagged(ids, true);
+    case "unflag":
+      return setMessagesFlagged(ids, false);
+    case "archive":
+      return setMessagesArchived(ids, true);
+    case "unarchive":
+      return setMessagesArchived(ids, false);
+    case "release":
+      return releaseHeldMessages(ids);
+    case "delete":
+      await deleteMessageAttachmentFiles(ids);
+      return deleteMessages(ids);
+    case "block_sender":
+      await deleteExpiredBlockRules(userId);
+      return blockMessageSenders(userId, messages, BLOCK_REASONS.OTHER);
+    case "add_label":
+      return addLabelToMessages(ids, labelId!);
+    case "remove_label":
+      return removeLabelFromMessages(ids, labelId!);
+  }
+}
+
+/**
+ * POST /api/messages/bulk
+ * Apply an action to many of the authenticated user's messages at once
+ *
+ * Request body:
+ * {
+ *   action: "mark_read" | "mark_unread" | "flag" | "unflag" | "archive" | "unarchive" | "release" | "delete" | "block_sender" | "add_label" | "remove_label",
+ *   message_ids?: string[],  // up to 1000 message UUIDs
+ *   filters?: { ...same as GET /api/messages/list }  // "select all matching"
+ *   label_id?: string  // required for add_label / remove_label
+ * }
+ *
+ * Response:
+ * {
+ *   action: string,
+ *   results: Array<{ id: string, success: boolean, error?: string }>,
+ *   succeeded: number,
+ *   failed: number,
+ *   truncated: boolean  // filter matched more than 1000 messages
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = bulkActionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid bulk action data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { action, message_ids, filters, label_id } = validationResult.data;
+
+    // Resolve the messages this user owns - anything else is reported as not found
+    let owned: Array<{ id: string; sender_ip_hash: string }>;
+    let truncated = false;
+
+    if (filters) {
+      const matching = await getMatchingMessageIds(
+        user.id,
+        toMessageSearchOptions(filters),
+        MAX_BULK_MESSAGES + 1
+      );
+
+      if (!matching) {
+        return NextResponse.json(
+          { error: "Failed to fetch messages" },
+          { status: 500 }
+        );
+      }
+
+      truncated = matching.length > MAX_BULK_MESSAGES;
+      owned = matching.slice(0, MAX_BULK_MESSAGES);
+    } else {
+      const { data, error } = await supabase
+        .from("messages")
+        .select("id, sender_ip_hash")
+        .eq("recipient_id", user.id)
+        .in("id", message_ids!);
+
+      if (error) {
+        console.error("Error fetching messages for bulk action:", error);
+        return NextResponse.json(
+          { error: "Failed to fetch messages" },
+          { status: 500 }
+        );
+      }
+
+      owned = data || [];
+    }
+
+    const results: Array<{ id: string; success: boolean; error?: string }> = [];
+
+    if (message_ids) {
+      const ownedIds = new Set(owned.map((message) => message.id));
+      for (const id of new Set(message_ids)) {
+        if (!ownedIds.has(id)) {
+          results.push({ id, success: false, error: "Message not found" });
+        }
+      }
+    }
+
+    for (let i = 0; i < owned.length; i += BULK_CHUNK_SIZE) {
+      const chunk = owned.slice(i, i + BULK_CHUNK_SIZE);
+      const success = await applyBulkAction(action, user.id, chunk, label_id);
+
+      for (const message of chunk) {
+        results.push(
+          success
+            ? { id: message.id, success: true }
+            : { id: message.id, success: false, error: "Failed to update message" }
+        );
+      }
+    }
+
+    const succeeded = results.filter((result) => result.success).length;
+
+    return NextResponse.json(
+      {
+        action,
+        results,
+        succeeded,
+        failed: results.length - succeeded,
+        truncated,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error in messages/bulk API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getHashedIP } from "@/lib/utils/ip-hash";
+import {
+  createProofOfWorkChallenge,
+  getProofOfWorkDifficulty,
+} from "@/lib/utils/proof-of-work";
+import { getRateLimitStrikes } from "@/lib/rate-limit/limiter";
+
+/**
+ * GET /api/messages/challenge
+ * Issue a proof-of-work challenge for sending one anonymous message
+ *
+ * Response:
+ * {
+ *   "challenge": string (signed, single use, bound to the caller's IP),
+ *   "difficulty": number (leading zero bits of SHA-256("<challenge>:<n>")),
+ *   "expiresAt": string
+ * }
+ *
+ * Difficulty rises for IPs that recently hit rate limits
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ipHash = getHashedIP(request.headers);
+    const strikes = await getRateLimitStrikes(ipHash);
+
+    return NextResponse.json(
+      createProofOfWorkChallenge(ipHash, getProofOfWorkDifficulty(strikes)),
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error in message challenge API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
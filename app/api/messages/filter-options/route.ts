@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getMessageFilterOptions } from "@/lib/db/messages";
+
+/**
+ * GET /api/messages/filter-options
+ * Get the device types, referrer platforms and UTM sources present in the
+ * authenticated user's messages, for the message list filters
+ *
+ * Response: { deviceTypes, referrerPlatforms, utmSources } (each { value, count }[]) or { error: string }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const options = await getMessageFilterOptions(user.id);
+
+    return NextResponse.json(options, { status: 200 });
+  } catch (error) {
+    console.error("Error in messages/filter-options API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,54 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import { createClient } from "@/lib/supabase/server";
+import { searchMessages, getUnreadMessageCount } from "@/lib/db/messages";
+import {
+  MESSAGE_SORTS,
+  MESSAGE_PAGE_SIZE,
+  MAX_MESSAGE_PAGE_SIZE,
+} from "@/lib/constants/message-filters";
+import {
+  messageFiltersSchema,
+  toMessageSearchOptions,
+} from "@/lib/validations/message-filters";
+
+/**
+ * Message list query validation schema (filters plus sort and paging)
+ */
+const messageListQuerySchema = messageFiltersSchema.extend({
+  sort: z
+    .enum([MESSAGE_SORTS.NEWEST, MESSAGE_SORTS.OLDEST])
+    .default(MESSAGE_SORTS.NEWEST),
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_MESSAGE_PAGE_SIZE)
+    .default(MESSAGE_PAGE_SIZE),
+});
 
 /**
  * GET /api/messages/list
- * Get all messages for the authenticated user
+ * Search, filter and page through the authenticated user's messages
+ *
+ * Query params (all optional):
+ * - q: full-text search on content ("exact phrase", -exclude)
+ * - status: "all" | "unread" | "read"
+ * - flagged: "1" for flagged messages only
+ * - archived: "1" for the archive instead of the inbox
+ * - held: "1" for messages held by moderation (awaiting review)
+ * - device, platform, utm_source: exact match on sender tracking fields
+ * - from, to: ISO 8601 date range (inclusive)
+ * - prompt: prompt UUID, or "none" for messages without a prompt
+ * - label: label UUID
+ * - sort: "newest" (default) | "oldest"
+ * - cursor: nextCursor from the previous page
+ * - limit: page size (1-100, default 20)
  *
- * Response: { messages: Message[] } or { error: string }
+ * Response: { messages: Message[], nextCursor: string | null, matchingCount?: number, counts?: { total, unread } }
+ * matchingCount (messages matching the filters) and counts (unfiltered inbox
+ * totals) are only included on the first page
  */
 export async function GET(request: NextRequest) {
   try {
@@ -24,37 +67,56 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get messages for this user with tracking fields
-    const { data: messages, error } = await supabase
-      .from("messages")
-      .select(`
-        id,
-        content,
-        is_read,
-        is_flagged,
-        created_at,
-        sender_ip_hash,
-        sender_device_type,
-        sender_browser,
-        sender_os,
-        sender_referrer_platform,
-        sender_utm_source
-      `)
-      .eq("recipient_id", user.id)
-      .order("created_at", { ascending: false });
+    const validationResult = messageListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid message filters",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const params = validationResult.data;
+
+    const page = await searchMessages(user.id, {
+      ...toMessageSearchOptions(params),
+      sort: params.sort,
+      cursor: params.cursor,
+      limit: params.limit,
+    });
 
-    if (error) {
-      console.error("Error fetching messages:", error);
+    if (!page) {
       return NextResponse.json(
         { error: "Failed to fetch messages" },
         { status: 500 }
       );
     }
 
+    // Inbox totals for the header - only needed once per filter change
+    let counts: { total: number; unread: number } | undefined;
+    if (!params.cursor) {
+      const [{ count: total }, unread] = await Promise.all([
+        supabase
+          .from("messages")
+          .select("id", { count: "exact", head: true })
+          .eq("recipient_id", user.id),
+        getUnreadMessageCount(user.id),
+      ]);
+
+      counts = { total: total || 0, unread };
+    }
+
     return NextResponse.json(
       {
-        messages: messages || [],
-        count: messages?.length || 0,
+        messages: page.messages,
+        nextCursor: page.nextCursor,
+        matchingCount: page.matchingCount,
+        counts,
       },
       { status: 200 }
     );
@@ -1,10 +1,27 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  getRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit/constants";
 import { REPORT_REASONS, type ReportReason } from "@/lib/constants/report-reasons";
+import { createReport } from "@/lib/db/reports";
+import {
+  dispatchWebhookEvent,
+  getWebhookProfileData,
+} from "@/lib/webhooks/delivery";
+import { WEBHOOK_EVENTS } from "@/lib/constants/webhooks";
+
+const MAX_REPORT_DETAILS_LENGTH = 1000;
 
 /**
  * POST /api/messages/report
- * Report a message for abuse
+ * Report a message for abuse. Reports go to the moderation queue
+ * Response: { success, report_id, message }
+ *
+ * Rate limited per user (RATE_LIMIT_POLICIES.REPORT)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -20,6 +37,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    const limit = await rateLimit(RATE_LIMIT_POLICIES.REPORT, { user: user.id });
+    if (!limit.allowed) {
+      return rateLimitExceededResponse(
+        limit,
+        "You've sent a lot of reports recently. Please try again later."
+      );
+    }
+
     // Parse request body
     const body = await request.json();
     const { message_id, reason, details } = body;
@@ -39,10 +64,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (
+      details != null &&
+      (typeof details !== "string" ||
+        details.length > MAX_REPORT_DETAILS_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `Details must be ${MAX_REPORT_DETAILS_LENGTH} characters or less`,
+        },
+        { status: 400 }
+      );
+    }
+
     // Verify message belongs to user
     const { data: message, error: messageError } = await supabase
       .from("messages")
-      .select("id, sender_ip_hash, recipient_id")
+      .select("id, content, created_at, sender_ip_hash")
       .eq("id", message_id)
       .eq("recipient_id", user.id)
       .single();
@@ -54,30 +92,56 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create analytics event for the report
-    const { error: analyticsError } = await supabase
-      .from("message_analytics")
-      .insert({
-        user_id: user.id,
-        message_id: message_id,
-        event_type: "report",
-        metadata: {
-          reason,
-          details: details || null,
-          sender_ip_hash: message.sender_ip_hash,
-        },
-      });
+    const report = await createReport(
+      user.id,
+      message,
+      reason as ReportReason,
+      details?.trim() || null
+    );
 
-    if (analyticsError) {
-      console.error("Error logging report:", analyticsError);
-      // Continue even if analytics fails
+    if (report === "duplicate") {
+      return NextResponse.json(
+        { error: "You've already reported this message" },
+        { status: 409 }
+      );
     }
 
-    return NextResponse.json({
-      success: true,
-      message: "Message reported successfully",
-      sender_ip_hash: message.sender_ip_hash, // Return for potential blocking
+    if (!report) {
+      return NextResponse.json(
+        { error: "Failed to report message" },
+        { status: 500 }
+      );
+    }
+
+    // Let the owner's webhooks know, after the response
+    after(async () => {
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("username")
+        .eq("id", user.id)
+        .single();
+
+      if (!profile) return;
+
+      await dispatchWebhookEvent(user.id, WEBHOOK_EVENTS.MESSAGE_REPORTED, {
+        profile: getWebhookProfileData(profile.username),
+        message: {
+          id: message.id,
+          content: message.content,
+          created_at: message.created_at,
+        },
+        report: { id: report.id, reason },
+      });
     });
+
+    return NextResponse.json(
+      {
+        success: true,
+        report_id: report.id,
+        message: "Message reported successfully",
+      },
+      { headers: getRateLimitHeaders(limit) }
+    );
   } catch (error) {
     console.error("Error in messages/report:", error);
     return NextResponse.json(
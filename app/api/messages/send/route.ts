@@ -1,11 +1,71 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { z } from "zod";
-import { getHashedIP, getClientIP } from "@/lib/utils/ip-hash";
+import { createAdminClient } from "@/lib/supabase/server";
+import { getHashedIP, getClientIP, getStorableIP } from "@/lib/utils/ip-hash";
 import { getParsedUserAgent } from "@/lib/utils/user-agent-parser";
 import { getClassifiedReferrer } from "@/lib/utils/referrer-classifier";
 import { extractUTMParams } from "@/lib/utils/utm-params";
 import { sendMessageNotification } from "@/lib/notifications/server";
+import { sendMessageEmailAlert } from "@/lib/notifications/email";
+import {
+  dispatchWebhookEvent,
+  getAppUrl,
+  getWebhookProfileData,
+} from "@/lib/webhooks/delivery";
+import { WEBHOOK_EVENTS } from "@/lib/constants/webhooks";
+import { isCampaignLinkAccepting } from "@/lib/db/campaign-links";
+import { generateThreadToken } from "@/lib/utils/thread-token";
+import { sanitizeImage, type SanitizedImage } from "@/lib/utils/image-sanitizer";
+import { saveMessageAttachments } from "@/lib/db/attachments";
+import { getMutedWordRules } from "@/lib/db/muted-words";
+import { redeemProofOfWorkNonce } from "@/lib/db/proof-of-work";
+import { isSenderBlocked } from "@/lib/db/blocked-senders";
+import {
+  isUsernameDeactivated,
+  isUsernameSuspended,
+} from "@/lib/db/profiles";
+import {
+  countMessagesSince,
+  setInboxCapReached,
+} from "@/lib/db/inbox-availability";
+import {
+  getInboxStatus,
+  getNextLocalMidnight,
+  getStartOfLocalDay,
+} from "@/lib/utils/inbox-availability";
+import {
+  DEFAULT_CLOSED_MESSAGE,
+  INBOX_CLOSED_REASONS,
+} from "@/lib/constants/inbox-availability";
+import { getDeviceFingerprint } from "@/lib/utils/device-fingerprint";
+import {
+  getSenderThrottleState,
+  logSenderActivity,
+  autoBlockSender,
+} from "@/lib/db/sender-activity";
+import {
+  getThrottleDecision,
+  getSenderRegion,
+  SENDER_ACTIVITY_ACTIONS,
+  type ThrottleDecision,
+} from "@/lib/utils/blocking";
+import { moderateMessage } from "@/lib/moderation/pipeline";
+import { MODERATION_VERDICTS } from "@/lib/moderation/constants";
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  getRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit/constants";
+import { verifyProofOfWork } from "@/lib/utils/proof-of-work";
+import { POW_MAX_SOLUTION_LENGTH } from "@/lib/constants/proof-of-work";
+import {
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+} from "@/lib/constants/attachments";
 import type { NotificationContentMode } from "@/lib/types/notifications.types";
+import type { SenderActivityLogInsert } from "@/lib/types/database.types";
+import type { InboxStatus } from "@/lib/types/inbox-availability.types";
 
 /**
  * Message send validation schema
@@ -13,6 +73,20 @@ import type { NotificationContentMode } from "@/lib/types/notifications.types";
 const messageSendSchema = z.object({
   recipient_username: z.string().min(3).max(20),
   content: z.string().min(1).max(500),
+  // Optional prompt the sender is answering
+  prompt_id: z.string().uuid().optional(),
+  // Optional campaign link the message is sent through
+  link_id: z.string().uuid().optional(),
+  // Optional base64 images (only if the recipient accepts them)
+  images: z
+    .array(z.string().max(Math.ceil((MAX_ATTACHMENT_BYTES * 4) / 3) + 100))
+    .max(MAX_ATTACHMENTS)
+    .optional(),
+  // Solved challenge from GET /api/messages/challenge
+  pow: z.object({
+    challenge: z.string().max(500),
+    solution: z.string().max(POW_MAX_SOLUTION_LENGTH),
+  }),
   // Optional client-side tracking data
   clientData: z
     .object({
@@ -30,72 +104,60 @@ const messageSendSchema = z.object({
 });
 
 /**
- * Check rate limit for anonymous message sending
- * Limit: 10 messages per IP per hour
+ * Log automatic throttling actions for the recipient to review, blocking
+ * the sender first if the decision calls for it
  */
-async function checkRateLimit(
-  supabase: ReturnType<typeof import('@supabase/ssr').createServerClient>,
-  ipHash: string
-): Promise<{ allowed: boolean; remaining?: number; resetAt?: Date }> {
-  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-
-  // Count messages from this IP in the last hour
-  const { data, error, count } = await supabase
-    .from("messages")
-    .select("created_at", { count: "exact", head: false })
-    .eq("sender_ip_hash", ipHash)
-    .gte("created_at", oneHourAgo.toISOString());
-
-  if (error) {
-    console.error("Error checking rate limit:", error);
-    // Allow on error to not block legitimate users
-    return { allowed: true };
-  }
+async function recordThrottleActions(
+  recipientId: string,
+  ipHash: string,
+  messageId: string,
+  throttle: ThrottleDecision,
+  messageCount: number
+): Promise<void> {
+  const entry = {
+    recipient_id: recipientId,
+    sender_ip_hash: ipHash,
+    severity: throttle.analysis.severity,
+    reason: throttle.analysis.reason || "Unusual activity detected",
+    message_count: messageCount,
+    message_id: messageId,
+  };
+
+  const entries: SenderActivityLogInsert[] = [
+    throttle.cooldownMinutes
+      ? {
+          ...entry,
+          action: SENDER_ACTIVITY_ACTIONS.COOLDOWN,
+          cooldown_until: new Date(
+            Date.now() + throttle.cooldownMinutes * 60 * 1000
+          ).toISOString(),
+        }
+      : { ...entry, action: SENDER_ACTIVITY_ACTIONS.AUTO_HOLD },
+  ];
 
-  const messageCount = count || 0;
-  const limit = 10;
-
-  if (messageCount >= limit) {
-    // Find the oldest message to calculate reset time
-    const oldestMessage = data?.[0];
-    const resetAt = oldestMessage
-      ? new Date(new Date(oldestMessage.created_at).getTime() + 60 * 60 * 1000)
-      : new Date(Date.now() + 60 * 60 * 1000);
-
-    return {
-      allowed: false,
-      remaining: 0,
-      resetAt,
-    };
+  if (throttle.block && (await autoBlockSender(recipientId, ipHash, messageId))) {
+    entries.push({ ...entry, action: SENDER_ACTIVITY_ACTIONS.AUTO_BLOCK });
   }
 
-  return {
-    allowed: true,
-    remaining: limit - messageCount,
-  };
+  await logSenderActivity(entries);
 }
 
 /**
- * Check if sender is blocked by recipient
+ * 403 for a closed inbox, carrying the owner's closed message
  */
-async function isBlocked(
-  supabase: ReturnType<typeof import('@supabase/ssr').createServerClient>,
-  recipientId: string,
-  ipHash: string
-): Promise<boolean> {
-  const { data, error } = await supabase
-    .from("blocked_senders")
-    .select("id")
-    .eq("user_id", recipientId)
-    .eq("blocked_ip_hash", ipHash)
-    .maybeSingle();
-
-  if (error) {
-    console.error("Error checking blocked status:", error);
-    return false; // Don't block on error
-  }
-
-  return !!data;
+function inboxClosedResponse(
+  closedMessage: string | null,
+  status: InboxStatus
+): NextResponse {
+  return NextResponse.json(
+    {
+      error: closedMessage || DEFAULT_CLOSED_MESSAGE,
+      inbox_closed: true,
+      reason: status.reason,
+      reopens_at: status.reopensAt,
+    },
+    { status: 403 }
+  );
 }
 
 /**
@@ -105,15 +167,46 @@ async function isBlocked(
  * Request body:
  * {
  *   "recipient_username": string,
- *   "content": string (1-500 chars)
+ *   "content": string (1-500 chars),
+ *   "prompt_id"?: string (active prompt of the recipient),
+ *   "link_id"?: string (open campaign link of the recipient),
+ *   "images"?: string[] (up to 3 base64 JPEG/PNG/WebP images, 5MB each -
+ *              only accepted if the recipient allows image attachments),
+ *   "pow": { "challenge": string, "solution": string }
  * }
  *
- * Rate limit: 3 messages per IP per hour
+ * "pow" is a solved challenge from GET /api/messages/challenge, fetched by
+ * the public profile page. Invalid, expired or reused solutions get a 403
+ * with "challenge_required": true so the form can solve a fresh one
+ *
+ * Images are re-encoded server-side, which strips EXIF and other metadata
+ *
+ * Content runs through the moderation pipeline first (including the
+ * recipient's muted words): rejected messages get a 422 and are never
+ * stored; held messages go to the Filtered folder without a push
+ * notification (the sender sees a normal success response)
+ *
+ * Closed inboxes (paused, outside the owner's open hours, or past their
+ * daily message cap) get a 403 with "inbox_closed": true and the owner's
+ * closed message. The message that reaches the daily cap pauses the inbox
+ * until the owner's next midnight
+ *
+ * Senders flooding one recipient are throttled per recipient: busy senders'
+ * messages are held, flooding senders get escalating cooldowns (429) and,
+ * if the recipient opted in, are blocked automatically
+ *
+ * Response includes a one-time "thread_token" - the sender's only key to
+ * the private reply thread (only its hash is stored)
+ *
+ * Rate limit: 10 messages per IP per hour (RATE_LIMIT_POLICIES.MESSAGE_SEND);
+ * responses carry RateLimit-* headers
  */
 export async function POST(request: NextRequest) {
   try {
     // Create a server Supabase client without cookie handling
-    // This ensures requests are treated as anonymous (anon role)
+    // This ensures reads are treated as anonymous (anon role), so RLS hides
+    // inactive and suspended profiles. The message itself is inserted with
+    // the service role - anonymous clients can't insert messages directly
     const { createServerClient } = await import('@supabase/ssr');
     const supabase = createServerClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -144,31 +237,103 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { recipient_username, content, clientData } = validationResult.data;
+    const {
+      recipient_username,
+      content,
+      prompt_id,
+      link_id,
+      images,
+      clientData,
+      pow,
+    } = validationResult.data;
 
     // Collect enhanced tracking data
     const ipHash = getHashedIP(request.headers);
-    const rawIP = getClientIP(request.headers); // Raw IP for recipient visibility
+    // Full, truncated or no IP for the recipient, depending on RAW_IP_MODE
+    const storedIP = getStorableIP(getClientIP(request.headers));
     const userAgent = getParsedUserAgent(request.headers);
     const referrer = getClassifiedReferrer(request.headers);
     const utmParams = extractUTMParams(request.nextUrl.searchParams);
 
+    // Verify the proof of work before doing any database work
+    const proof = verifyProofOfWork(pow.challenge, pow.solution, ipHash);
+    if ("error" in proof) {
+      return NextResponse.json(
+        { error: proof.error, challenge_required: true },
+        { status: 403 }
+      );
+    }
+
+    // Single use - refuse the send if the nonce can't be recorded
+    const redemption = await redeemProofOfWorkNonce(proof.nonce, proof.expiresAt);
+    if (redemption === "duplicate") {
+      return NextResponse.json(
+        {
+          error: "Verification already used. Please try again.",
+          challenge_required: true,
+        },
+        { status: 403 }
+      );
+    }
+
+    if (!redemption) {
+      return NextResponse.json(
+        {
+          error: "Failed to verify message. Please try again.",
+          challenge_required: true,
+        },
+        { status: 500 }
+      );
+    }
+
     // Find recipient profile
     const { data: recipient, error: recipientError } = await supabase
       .from("profiles")
-      .select("id, username")
+      .select(
+        "id, username, allow_image_attachments, auto_block_suspicious, inbox_paused, inbox_paused_until, inbox_schedule, inbox_timezone, inbox_closed_message, daily_message_cap, inbox_cap_reached_until"
+      )
       .eq("username", recipient_username.toLowerCase())
+      .eq("is_active", true)
+      .is("suspended_at", null)
       .single();
 
     if (recipientError || !recipient) {
+      // Suspended accounts take no messages (an insert trigger rejects them too)
+      if (await isUsernameSuspended(recipient_username)) {
+        return NextResponse.json(
+          { error: "This account has been suspended" },
+          { status: 403 }
+        );
+      }
+
+      // Deactivated accounts (e.g. pending deletion) take no messages
+      if (await isUsernameDeactivated(recipient_username)) {
+        return NextResponse.json(
+          { error: "This account is no longer accepting messages" },
+          { status: 410 }
+        );
+      }
+
       return NextResponse.json(
         { error: "Recipient not found" },
         { status: 404 }
       );
     }
 
-    // Check if sender is blocked
-    const blocked = await isBlocked(supabase, recipient.id, ipHash);
+    // Closed inboxes (paused, outside open hours, daily cap reached)
+    const inboxStatus = getInboxStatus(recipient);
+    if (!inboxStatus.open) {
+      return inboxClosedResponse(recipient.inbox_closed_message, inboxStatus);
+    }
+
+    // Check the recipient's block rules (network, device, region, referrer)
+    const fingerprint = getDeviceFingerprint(recipient.id, userAgent, clientData);
+    const blocked = await isSenderBlocked(recipient.id, {
+      ipHash,
+      fingerprint,
+      region: getSenderRegion(clientData?.timezone),
+      referrerPlatform: referrer.platform,
+    });
     if (blocked) {
       return NextResponse.json(
         {
@@ -179,30 +344,174 @@ export async function POST(request: NextRequest) {
     }
 
     // Check rate limit
-    const rateLimit = await checkRateLimit(supabase, ipHash);
-    if (!rateLimit.allowed) {
-      const resetTime = rateLimit.resetAt
-        ? new Date(rateLimit.resetAt).toLocaleTimeString()
-        : "soon";
+    const rateLimitResult = await rateLimit(RATE_LIMIT_POLICIES.MESSAGE_SEND, {
+      ip: ipHash,
+    });
+    if (!rateLimitResult.allowed) {
+      const resetTime = new Date(
+        Date.now() + rateLimitResult.retryAfterMs
+      ).toLocaleTimeString();
+
+      return rateLimitExceededResponse(
+        rateLimitResult,
+        `Rate limit exceeded. You can send ${RATE_LIMIT_POLICIES.MESSAGE_SEND.limit} messages per hour. Try again after ${resetTime}.`
+      );
+    }
+
+    // Senders on a cooldown for flooding this recipient
+    const throttleState = await getSenderThrottleState(recipient.id, ipHash);
+    if (throttleState.cooldownUntil) {
+      const cooldownUntil = new Date(throttleState.cooldownUntil);
 
       return NextResponse.json(
         {
-          error: `Rate limit exceeded. You can send 10 messages per hour. Try again after ${resetTime}.`,
-          resetAt: rateLimit.resetAt,
+          error: `You're sending messages too quickly. Try again after ${cooldownUntil.toLocaleTimeString()}.`,
+          resetAt: cooldownUntil,
         },
-        { status: 429 }
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(
+              Math.ceil((cooldownUntil.getTime() - Date.now()) / 1000)
+            ),
+          },
+        }
+      );
+    }
+
+    // Only accept prompts that are currently active on this profile
+    let promptId: string | null = null;
+    if (prompt_id) {
+      const { data: prompt } = await supabase
+        .from("prompts")
+        .select("id")
+        .eq("id", prompt_id)
+        .eq("profile_id", recipient.id)
+        .eq("is_active", true)
+        .maybeSingle();
+
+      if (!prompt) {
+        return NextResponse.json(
+          { error: "This prompt is no longer available" },
+          { status: 400 }
+        );
+      }
+
+      promptId = prompt.id;
+    }
+
+    // Campaign links must belong to this profile and still be open
+    let linkId: string | null = null;
+    if (link_id) {
+      const { data: link } = await supabase
+        .from("campaign_links")
+        .select("id, is_open, expires_at")
+        .eq("id", link_id)
+        .eq("profile_id", recipient.id)
+        .maybeSingle();
+
+      if (!link || !isCampaignLinkAccepting(link)) {
+        return NextResponse.json(
+          { error: "This link is no longer accepting messages" },
+          { status: 400 }
+        );
+      }
+
+      linkId = link.id;
+    }
+
+    // Moderate content before anything is stored
+    const moderation = moderateMessage(content, {
+      recipientId: recipient.id,
+      mutedWords: await getMutedWordRules(recipient.id),
+    });
+    if (moderation.verdict === MODERATION_VERDICTS.REJECT) {
+      return NextResponse.json(
+        { error: "This message can't be sent because it breaks our content rules." },
+        { status: 422 }
+      );
+    }
+
+    // Apply suspicious activity detection to this message
+    const throttle = getThrottleDecision(throttleState.recentMessages, {
+      recentCooldowns: throttleState.recentCooldowns,
+      autoBlock: recipient.auto_block_suspicious,
+    });
+    const moderationMatches = throttle.hold
+      ? [
+          ...moderation.matches,
+          {
+            checker: "activity",
+            rule: throttle.cooldownMinutes ? "flooding" : "high_frequency",
+            verdict: MODERATION_VERDICTS.HOLD,
+            excerpt: throttle.analysis.reason,
+          },
+        ]
+      : moderation.matches;
+    const isHeld = throttle.hold || moderation.verdict === MODERATION_VERDICTS.HOLD;
+
+    // Validate and strip metadata from images before anything is stored
+    const sanitizedImages: SanitizedImage[] = [];
+    if (images && images.length > 0) {
+      if (!recipient.allow_image_attachments) {
+        return NextResponse.json(
+          { error: "This user doesn't accept image attachments" },
+          { status: 400 }
+        );
+      }
+
+      for (const image of images) {
+        const result = await sanitizeImage(image);
+        if ("error" in result) {
+          return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+        sanitizedImages.push(result.image);
+      }
+    }
+
+    // Daily message cap, counted from the owner's local midnight
+    let reachesDailyCap = false;
+    if (recipient.daily_message_cap) {
+      const timezone = recipient.inbox_timezone || "UTC";
+      const receivedToday = await countMessagesSince(
+        recipient.id,
+        getStartOfLocalDay(timezone)
       );
+
+      if (receivedToday >= recipient.daily_message_cap) {
+        const reopensAt = getNextLocalMidnight(timezone);
+        await setInboxCapReached(recipient.id, reopensAt);
+
+        return inboxClosedResponse(recipient.inbox_closed_message, {
+          open: false,
+          reason: INBOX_CLOSED_REASONS.DAILY_CAP,
+          reopensAt: reopensAt.toISOString(),
+        });
+      }
+
+      reachesDailyCap = receivedToday + 1 >= recipient.daily_message_cap;
     }
 
+    // Secret thread token for private replies (only the hash is stored)
+    const threadToken = generateThreadToken();
+
     // Insert message with enhanced tracking data
-    const { data: message, error: insertError } = await supabase
+    const admin = await createAdminClient();
+    const { data: message, error: insertError } = await admin
       .from("messages")
       .insert({
         recipient_id: recipient.id,
         content: content.trim(),
+        prompt_id: promptId,
+        link_id: linkId,
+        thread_token_hash: threadToken.hash,
         sender_ip_hash: ipHash,
-        sender_ip_raw: rawIP, // Raw IP address for recipient visibility
+        sender_fingerprint: fingerprint,
+        sender_ip_raw: storedIP,
         is_read: false,
+        moderation_verdict: isHeld ? MODERATION_VERDICTS.HOLD : MODERATION_VERDICTS.DELIVER,
+        moderation_matches: moderationMatches,
+        moderated_at: new Date().toISOString(),
         // Server-side tracking (User-Agent, IP, Referrer)
         sender_device_type: userAgent.device.type,
         sender_browser: userAgent.browser.fullName,
@@ -221,7 +530,7 @@ export async function POST(request: NextRequest) {
         sender_touch_support: clientData?.touchSupport || false,
         sender_connection_type: clientData?.connectionType || null,
       })
-      .select()
+      .select("id, created_at")
       .single();
 
     if (insertError) {
@@ -232,8 +541,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (sanitizedImages.length > 0) {
+      const saved = await saveMessageAttachments(
+        recipient.id,
+        message.id,
+        sanitizedImages
+      );
+
+      // Don't deliver a message that's missing the images it was sent with
+      if (!saved) {
+        await admin.from("messages").delete().eq("id", message.id);
+
+        return NextResponse.json(
+          { error: "Failed to upload images. Please try again." },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (reachesDailyCap) {
+      await setInboxCapReached(
+        recipient.id,
+        getNextLocalMidnight(recipient.inbox_timezone || "UTC")
+      );
+    }
+
+    if (throttle.hold) {
+      await recordThrottleActions(
+        recipient.id,
+        ipHash,
+        message.id,
+        throttle,
+        throttleState.recentMessages.length + 1
+      );
+    }
+
     // =====================================================
-    // Send Push Notification
+    // Send Push Notification and Email Alert
     // =====================================================
     try {
       console.log(`[Notifications] Checking notification preferences for user ${recipient.id}`);
@@ -241,7 +585,7 @@ export async function POST(request: NextRequest) {
       // Fetch recipient's notification preferences
       const { data: recipientProfile, error: profileError } = await supabase
         .from("profiles")
-        .select("notification_preferences")
+        .select("notification_preferences, email_alerts_enabled")
         .eq("id", recipient.id)
         .single();
 
@@ -259,8 +603,9 @@ export async function POST(request: NextRequest) {
 
         console.log("[Notifications] Preferences:", JSON.stringify(preferences));
 
-        // Only send notification if enabled
-        if (preferences.enabled) {
+        // Only send notification if enabled - held messages wait quietly
+        // until the recipient reviews them
+        if (preferences.enabled && !isHeld) {
           const contentMode: NotificationContentMode = preferences.show_preview
             ? "preview"
             : "private";
@@ -285,22 +630,46 @@ export async function POST(request: NextRequest) {
           );
         } else {
           console.log(
-            `[Notifications] Notifications disabled for user ${recipient.id} (enabled: ${preferences.enabled})`
+            `[Notifications] Skipping push for user ${recipient.id} (enabled: ${preferences.enabled}, held: ${isHeld})`
           );
         }
       }
+
+      // Email alerts don't depend on push being set up. Sent after the
+      // response, and throttled so a burst of messages means one email
+      if (recipientProfile?.email_alerts_enabled && !isHeld) {
+        after(async () => {
+          await sendMessageEmailAlert(recipient.id, content);
+        });
+      }
     } catch (error) {
       // Log error but don't fail the request
       console.error("[Notifications] Error processing notification:", error);
     }
 
+    // Webhooks, after the response. Held messages aren't sent, as with push
+    if (!isHeld) {
+      after(() =>
+        dispatchWebhookEvent(recipient.id, WEBHOOK_EVENTS.MESSAGE_RECEIVED, {
+          profile: getWebhookProfileData(recipient.username),
+          message: {
+            id: message.id,
+            content: content.trim(),
+            created_at: message.created_at,
+            url: `${getAppUrl()}/dashboard/messages/${message.id}`,
+          },
+        })
+      );
+    }
+
     return NextResponse.json(
       {
         success: true,
         message: "Message sent successfully",
-        remaining: (rateLimit.remaining || 0) - 1,
+        thread_token: threadToken.token,
+        remaining: rateLimitResult.remaining,
       },
-      { status: 201 }
+      { status: 201, headers: getRateLimitHeaders(rateLimitResult) }
     );
   } catch (error) {
     console.error("Error in send message API:", error);
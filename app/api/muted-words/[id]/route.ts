@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { deleteMutedWord } from "@/lib/db/muted-words";
+
+/**
+ * DELETE /api/muted-words/[id]
+ * Unmute a word (messages already in the Filtered folder stay there)
+ *
+ * Response: { success: boolean } or { error: string }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const success = await deleteMutedWord(user.id, id);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to unmute word" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("Error in muted words DELETE API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getMutedWords,
+  createMutedWord,
+  countMutedWords,
+} from "@/lib/db/muted-words";
+import {
+  MAX_MUTED_WORDS,
+  MAX_MUTED_WORD_LENGTH,
+} from "@/lib/constants/muted-words";
+
+/**
+ * Muted word creation validation schema
+ */
+const mutedWordCreateSchema = z.object({
+  phrase: z
+    .string()
+    .trim()
+    .min(1)
+    .max(MAX_MUTED_WORD_LENGTH)
+    .refine((phrase) => phrase.replace(/[\s*]/g, "").length > 0, {
+      message: "Phrase must contain more than wildcards",
+    }),
+  whole_word: z.boolean().default(true),
+});
+
+/**
+ * GET /api/muted-words
+ * List the authenticated user's muted words and phrases
+ *
+ * Response: { muted_words: MutedWord[] }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const mutedWords = await getMutedWords(user.id);
+
+    return NextResponse.json({ muted_words: mutedWords }, { status: 200 });
+  } catch (error) {
+    console.error("Error in muted words GET API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/muted-words
+ * Mute a word or phrase - new messages containing it go to the Filtered
+ * folder (no unread count, no notifications)
+ *
+ * Request body:
+ * {
+ *   "phrase": string (1-100 chars, * matches any letters, e.g. "idiot*"),
+ *   "whole_word"?: boolean (default true - false also matches inside words)
+ * }
+ *
+ * Response: { muted_word: MutedWord } or { error: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = mutedWordCreateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid muted word data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Enforce muted word limit
+    if ((await countMutedWords(user.id)) >= MAX_MUTED_WORDS) {
+      return NextResponse.json(
+        { error: `You can mute up to ${MAX_MUTED_WORDS} words. Remove one first.` },
+        { status: 400 }
+      );
+    }
+
+    const mutedWord = await createMutedWord(
+      user.id,
+      validationResult.data.phrase,
+      validationResult.data.whole_word
+    );
+
+    if (mutedWord === "duplicate") {
+      return NextResponse.json(
+        { error: "You've already muted this word" },
+        { status: 409 }
+      );
+    }
+
+    if (!mutedWord) {
+      return NextResponse.json(
+        { error: "Failed to mute word" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ muted_word: mutedWord }, { status: 201 });
+  } catch (error) {
+    console.error("Error in muted words POST API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
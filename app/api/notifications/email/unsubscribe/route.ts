@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyUnsubscribeToken } from "@/lib/utils/unsubscribe-token";
+import { unsubscribeFromEmails } from "@/lib/db/email-notifications";
+
+/**
+ * POST /api/notifications/email/unsubscribe?token=<token>
+ * Turn off email notifications from a signed unsubscribe link. No sign-in
+ * needed - the token names the account and what to turn off. Used by the
+ * unsubscribe page and by mail clients' one-click unsubscribe (RFC 8058)
+ *
+ * Response: { success: true, kind: "alerts" | "digest" | "all" } or { error: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token");
+    const unsubscribe = token ? verifyUnsubscribeToken(token) : null;
+
+    if (!unsubscribe) {
+      return NextResponse.json(
+        { error: "Invalid or broken unsubscribe link" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await unsubscribeFromEmails(
+      unsubscribe.userId,
+      unsubscribe.kind
+    );
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Failed to update email preferences" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, kind: unsubscribe.kind });
+  } catch (error) {
+    console.error("Error in email unsubscribe API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
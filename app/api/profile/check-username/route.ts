@@ -1,10 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import {
+  isUsernameDeactivated,
+  isUsernameSuspended,
+} from "@/lib/db/profiles";
 import {
   validateUsername,
   isReservedUsername,
   generateUsernameSuggestions,
 } from "@/lib/validations/username";
+import { getHashedIP } from "@/lib/utils/ip-hash";
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  getRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit/constants";
 
 /**
  * POST /api/profile/check-username
@@ -21,9 +32,21 @@ import {
  *   "error"?: string,
  *   "suggestions"?: string[]
  * }
+ *
+ * Rate limited per IP (RATE_LIMIT_POLICIES.CHECK_USERNAME)
  */
 export async function POST(request: NextRequest) {
   try {
+    const limit = await rateLimit(RATE_LIMIT_POLICIES.CHECK_USERNAME, {
+      ip: getHashedIP(request.headers),
+    });
+    if (!limit.allowed) {
+      return rateLimitExceededResponse(
+        limit,
+        "Too many username checks. Please slow down and try again shortly."
+      );
+    }
+
     const body = await request.json();
     const { username } = body;
 
@@ -43,7 +66,7 @@ export async function POST(request: NextRequest) {
           available: false,
           error: validation.error,
         },
-        { status: 200 }
+        { status: 200, headers: getRateLimitHeaders(limit) }
       );
     }
 
@@ -56,7 +79,7 @@ export async function POST(request: NextRequest) {
           error: "This username is reserved and cannot be used",
           suggestions,
         },
-        { status: 200 }
+        { status: 200, headers: getRateLimitHeaders(limit) }
       );
     }
 
@@ -77,8 +100,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // If data exists, username is taken
-    if (data) {
+    // If data exists, username is taken (deactivated accounts keep theirs
+    // until they're permanently deleted and suspended ones keep theirs, but
+    // RLS hides them)
+    if (
+      data ||
+      (await isUsernameDeactivated(username)) ||
+      (await isUsernameSuspended(username))
+    ) {
       const suggestions = generateUsernameSuggestions(username);
       return NextResponse.json(
         {
@@ -86,7 +115,7 @@ export async function POST(request: NextRequest) {
           error: "This username is already taken",
           suggestions,
         },
-        { status: 200 }
+        { status: 200, headers: getRateLimitHeaders(limit) }
       );
     }
 
@@ -95,7 +124,7 @@ export async function POST(request: NextRequest) {
       {
         available: true,
       },
-      { status: 200 }
+      { status: 200, headers: getRateLimitHeaders(limit) }
     );
   } catch (error) {
     console.error("Error in check-username API:", error);
@@ -1,11 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { deactivateProfile } from "@/lib/db/profiles";
+import { getAccountDeletionDate } from "@/lib/db/account-deletion";
 
 /**
  * DELETE /api/profile/delete
- * Delete user account and all associated data
+ * Delete the user's account. The account is deactivated straight away
+ * (the public page shows it as unavailable and no messages are accepted)
+ * and permanently deleted, with all its data, once the grace period ends.
+ * Until then, signing in offers to restore it - see POST /api/profile/restore
  *
- * Response: { success: boolean } or { error: string }
+ * Response:
+ * {
+ *   success: boolean,
+ *   deletion_scheduled_for: string (when the account is permanently deleted)
+ * }
+ * or { error: string }
  */
 export async function DELETE(request: NextRequest) {
   try {
@@ -24,44 +34,12 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Get user's profile to find avatar path
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("avatar_url")
-      .eq("id", user.id)
-      .single();
+    const deletionScheduledFor = getAccountDeletionDate();
+    const success = await deactivateProfile(user.id, deletionScheduledFor);
 
-    // Delete avatar from storage if it exists
-    if (profile?.avatar_url) {
-      const path = profile.avatar_url.split("/storage/v1/object/public/avatars/")[1];
-      if (path) {
-        await supabase.storage.from("avatars").remove([path]);
-      }
-    }
-
-    // Delete profile (this will cascade delete messages, analytics, etc. due to FK constraints)
-    const { error: deleteError } = await supabase
-      .from("profiles")
-      .delete()
-      .eq("id", user.id);
-
-    if (deleteError) {
-      console.error("Error deleting profile:", deleteError);
-      return NextResponse.json(
-        { error: "Failed to delete profile data" },
-        { status: 500 }
-      );
-    }
-
-    // Delete auth user (must be done after profile deletion)
-    const { error: authDeleteError } = await supabase.auth.admin.deleteUser(
-      user.id
-    );
-
-    if (authDeleteError) {
-      console.error("Error deleting auth user:", authDeleteError);
+    if (!success) {
       return NextResponse.json(
-        { error: "Failed to delete user account" },
+        { error: "Failed to delete account" },
         { status: 500 }
       );
     }
@@ -69,7 +47,8 @@ export async function DELETE(request: NextRequest) {
     return NextResponse.json(
       {
         success: true,
-        message: "Account deleted successfully",
+        message: "Account scheduled for deletion",
+        deletion_scheduled_for: deletionScheduledFor.toISOString(),
       },
       { status: 200 }
     );
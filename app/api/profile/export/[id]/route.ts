@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getDataExport, getDataExportSummary } from "@/lib/db/data-exports";
+
+/**
+ * GET /api/profile/export/[id]
+ * Get an export's status. Once it's ready, the response carries a download
+ * link that works for DATA_EXPORT_LINK_TTL_SECONDS - fetch the status again
+ * for a fresh one. The archive itself is deleted DATA_EXPORT_TTL_DAYS after
+ * it was created
+ *
+ * Response: { export: { ...see POST /api/profile/export } } or { error: string }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const dataExport = await getDataExport(id, user.id);
+
+    if (!dataExport) {
+      return NextResponse.json({ error: "Export not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { export: await getDataExportSummary(dataExport) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error in data export status API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextResponse, after } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  getRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit/constants";
+import { DATA_EXPORT_SYNC_MESSAGE_LIMIT } from "@/lib/constants/data-export";
+import {
+  createDataExport,
+  getLatestDataExport,
+  getDataExport,
+  buildDataExport,
+  countExportableMessages,
+  isDataExportInProgress,
+  getDataExportSummary,
+} from "@/lib/db/data-exports";
+
+/**
+ * POST /api/profile/export
+ * Export everything stored about the authenticated user as a ZIP archive:
+ * profile, notification preferences, messages (JSON and CSV, with sender
+ * tracking details), link visits, analytics events and block rules.
+ * Accounts with up to DATA_EXPORT_SYNC_MESSAGE_LIMIT messages get a
+ * finished export back (201); bigger ones are built in the background
+ * (202) - poll GET /api/profile/export/[id] until it's ready
+ *
+ * Rate limited per user (RATE_LIMIT_POLICIES.DATA_EXPORT)
+ *
+ * Response:
+ * {
+ *   export: {
+ *     id, status, file_size, error, created_at, completed_at, expires_at,
+ *     download_url (signed, while ready), download_url_expires_in
+ *   }
+ * }
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // One export at a time
+    const latest = await getLatestDataExport(user.id);
+    if (latest && isDataExportInProgress(latest)) {
+      return NextResponse.json(
+        {
+          error: "An export is already being prepared",
+          export: await getDataExportSummary(latest),
+        },
+        { status: 409 }
+      );
+    }
+
+    const limit = await rateLimit(RATE_LIMIT_POLICIES.DATA_EXPORT, {
+      user: user.id,
+    });
+    if (!limit.allowed) {
+      return rateLimitExceededResponse(
+        limit,
+        "You've exported your data several times today. Please try again later."
+      );
+    }
+
+    const messageCount = await countExportableMessages(user.id);
+    if (messageCount === null) {
+      return NextResponse.json(
+        { error: "Failed to start export" },
+        { status: 500 }
+      );
+    }
+
+    const dataExport = await createDataExport(user.id);
+    if (!dataExport) {
+      return NextResponse.json(
+        { error: "Failed to start export" },
+        { status: 500 }
+      );
+    }
+
+    // Big accounts: finish after the response is sent
+    if (messageCount > DATA_EXPORT_SYNC_MESSAGE_LIMIT) {
+      after(async () => {
+        await buildDataExport(dataExport.id, user.id);
+      });
+
+      return NextResponse.json(
+        { export: await getDataExportSummary(dataExport) },
+        { status: 202, headers: getRateLimitHeaders(limit) }
+      );
+    }
+
+    await buildDataExport(dataExport.id, user.id);
+    const finished = await getDataExport(dataExport.id, user.id);
+
+    return NextResponse.json(
+      { export: await getDataExportSummary(finished || dataExport) },
+      { status: 201, headers: getRateLimitHeaders(limit) }
+    );
+  } catch (error) {
+    console.error("Error in data export API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/profile/export
+ * Get the authenticated user's most recent export
+ *
+ * Response:
+ * {
+ *   export: { ...same as POST } | null
+ * }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const latest = await getLatestDataExport(user.id);
+
+    return NextResponse.json(
+      { export: latest ? await getDataExportSummary(latest) : null },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error in data export GET API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
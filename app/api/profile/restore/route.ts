@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { restoreProfile } from "@/lib/db/profiles";
+
+/**
+ * POST /api/profile/restore
+ * Restore an account scheduled for deletion. Only possible before the
+ * grace period ends - after that the account is permanently deleted
+ *
+ * Response: { success: boolean, profile: Profile } or { error: string }
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await restoreProfile();
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "This account can no longer be restored" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, profile }, { status: 200 });
+  } catch (error) {
+    console.error("Error in restore-account API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { validateUsername, isReservedUsername } from "@/lib/validations/username";
+import { inboxAvailabilitySchema } from "@/lib/validations/inbox-availability";
+import {
+  RETENTION_PERIOD_DAYS,
+  type RetentionPeriodDays,
+} from "@/lib/constants/message-retention";
+import { EMAIL_DIGEST_FREQUENCIES } from "@/lib/constants/email-notifications";
 import { z } from "zod";
 
+/**
+ * Retention period in days (null = keep forever)
+ */
+const retentionPeriodSchema = z
+  .number()
+  .nullable()
+  .refine(
+    (days) => RETENTION_PERIOD_DAYS.includes(days as RetentionPeriodDays),
+    { message: "Invalid retention period" }
+  )
+  .optional();
+
 /**
  * Profile update validation schema
  */
@@ -28,6 +46,14 @@ const profileUpdateSchema = z.object({
       },
       { message: "Invalid avatar URL format" }
     ),
+  allow_image_attachments: z.boolean().optional(),
+  auto_block_suspicious: z.boolean().optional(),
+  ...inboxAvailabilitySchema.shape,
+  retention_read_days: retentionPeriodSchema,
+  retention_unread_days: retentionPeriodSchema,
+  retention_flagged_days: retentionPeriodSchema,
+  email_alerts_enabled: z.boolean().optional(),
+  email_digest_frequency: z.enum(EMAIL_DIGEST_FREQUENCIES).optional(),
 });
 
 /**
@@ -39,7 +65,20 @@ const profileUpdateSchema = z.object({
  *   "username"?: string,
  *   "display_name"?: string,
  *   "bio"?: string,
- *   "avatar_url"?: string
+ *   "avatar_url"?: string,
+ *   "allow_image_attachments"?: boolean,
+ *   "auto_block_suspicious"?: boolean,
+ *   "inbox_paused"?: boolean,
+ *   "inbox_paused_until"?: string | null (ISO date - pause ends then),
+ *   "inbox_schedule"?: { "windows": [{ "day": 0-6, "start": "HH:MM", "end": "HH:MM" }] } | null,
+ *   "inbox_timezone"?: string | null (IANA - used by the schedule and daily cap),
+ *   "inbox_closed_message"?: string | null,
+ *   "daily_message_cap"?: number | null,
+ *   "retention_read_days"?: 7 | 30 | 90 | 365 | null (null = forever),
+ *   "retention_unread_days"?: 7 | 30 | 90 | 365 | null,
+ *   "retention_flagged_days"?: 7 | 30 | 90 | 365 | null,
+ *   "email_alerts_enabled"?: boolean,
+ *   "email_digest_frequency"?: "off" | "daily" | "weekly"
  * }
  *
  * Response:
@@ -94,13 +133,42 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    const { username, display_name, bio, avatar_url } = validationResult.data;
+    const {
+      username,
+      display_name,
+      bio,
+      avatar_url,
+      allow_image_attachments,
+      auto_block_suspicious,
+      inbox_paused,
+      inbox_paused_until,
+      inbox_schedule,
+      inbox_timezone,
+      inbox_closed_message,
+      daily_message_cap,
+      retention_read_days,
+      retention_unread_days,
+      retention_flagged_days,
+      email_alerts_enabled,
+      email_digest_frequency,
+    } = validationResult.data;
 
     // Prepare update object
     const updates: any = {};
 
     // Handle username update
     if (username && username !== currentProfile.username) {
+      // Usernames changed by a moderator stay put
+      if (currentProfile.username_locked) {
+        return NextResponse.json(
+          {
+            error:
+              "Your username was changed by a moderator and can't be changed",
+          },
+          { status: 403 }
+        );
+      }
+
       // Validate username format
       const usernameValidation = validateUsername(username);
       if (!usernameValidation.isValid) {
@@ -146,6 +214,47 @@ export async function PUT(request: NextRequest) {
     if (avatar_url !== undefined) {
       updates.avatar_url = avatar_url || null;
     }
+    if (allow_image_attachments !== undefined) {
+      updates.allow_image_attachments = allow_image_attachments;
+    }
+    if (auto_block_suspicious !== undefined) {
+      updates.auto_block_suspicious = auto_block_suspicious;
+    }
+    if (inbox_paused !== undefined) {
+      updates.inbox_paused = inbox_paused;
+    }
+    if (inbox_paused_until !== undefined) {
+      updates.inbox_paused_until = inbox_paused_until;
+    }
+    if (inbox_schedule !== undefined) {
+      updates.inbox_schedule = inbox_schedule;
+    }
+    if (inbox_timezone !== undefined) {
+      updates.inbox_timezone = inbox_timezone;
+    }
+    if (inbox_closed_message !== undefined) {
+      updates.inbox_closed_message = inbox_closed_message || null;
+    }
+    if (daily_message_cap !== undefined) {
+      updates.daily_message_cap = daily_message_cap;
+      // A new cap is counted afresh on the next message
+      updates.inbox_cap_reached_until = null;
+    }
+    if (retention_read_days !== undefined) {
+      updates.retention_read_days = retention_read_days;
+    }
+    if (retention_unread_days !== undefined) {
+      updates.retention_unread_days = retention_unread_days;
+    }
+    if (retention_flagged_days !== undefined) {
+      updates.retention_flagged_days = retention_flagged_days;
+    }
+    if (email_alerts_enabled !== undefined) {
+      updates.email_alerts_enabled = email_alerts_enabled;
+    }
+    if (email_digest_frequency !== undefined) {
+      updates.email_digest_frequency = email_digest_frequency;
+    }
 
     // Check if there are any updates
     if (Object.keys(updates).length === 0) {
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { updatePrompt, deletePrompt } from "@/lib/db/prompts";
+
+/**
+ * Prompt update validation schema
+ */
+const promptUpdateSchema = z
+  .object({
+    text: z.string().trim().min(1).max(100).optional(),
+    is_active: z.boolean().optional(),
+  })
+  .refine((data) => data.text !== undefined || data.is_active !== undefined, {
+    message: "Nothing to update",
+  });
+
+/**
+ * PATCH /api/prompts/[id]
+ * Edit prompt text, or retire / reactivate a prompt
+ *
+ * Request body:
+ * {
+ *   "text"?: string (1-100 chars),
+ *   "is_active"?: boolean
+ * }
+ *
+ * Response: { prompt: Prompt } or { error: string }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = promptUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid prompt data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const prompt = await updatePrompt(user.id, id, validationResult.data);
+
+    if (!prompt) {
+      return NextResponse.json(
+        { error: "Failed to update prompt" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ prompt }, { status: 200 });
+  } catch (error) {
+    console.error("Error in prompts PATCH API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/prompts/[id]
+ * Delete a prompt permanently (messages keep their content)
+ *
+ * Response: { success: boolean } or { error: string }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const success = await deletePrompt(user.id, id);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to delete prompt" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("Error in prompts DELETE API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
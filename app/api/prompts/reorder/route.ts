@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { reorderPrompts } from "@/lib/db/prompts";
+
+/**
+ * Prompt reorder validation schema
+ */
+const promptReorderSchema = z.object({
+  prompt_ids: z.array(z.string().uuid()).min(1).max(100),
+});
+
+/**
+ * PUT /api/prompts/reorder
+ * Set the display order of prompts
+ *
+ * Request body:
+ * {
+ *   "prompt_ids": string[] (in new display order)
+ * }
+ *
+ * Response: { success: boolean } or { error: string }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = promptReorderSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid prompt order",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const success = await reorderPrompts(
+      user.id,
+      validationResult.data.prompt_ids
+    );
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to reorder prompts" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("Error in prompts/reorder API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
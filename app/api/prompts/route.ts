@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getPromptsForOwner,
+  createPrompt,
+  MAX_ACTIVE_PROMPTS,
+} from "@/lib/db/prompts";
+
+/**
+ * Prompt creation validation schema
+ */
+const promptCreateSchema = z.object({
+  text: z.string().trim().min(1).max(100),
+});
+
+/**
+ * GET /api/prompts
+ * List the authenticated user's prompts (active and retired)
+ *
+ * Response: { prompts: Prompt[] } or { error: string }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const prompts = await getPromptsForOwner(user.id);
+
+    return NextResponse.json({ prompts }, { status: 200 });
+  } catch (error) {
+    console.error("Error in prompts GET API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/prompts
+ * Create a new prompt
+ *
+ * Request body:
+ * {
+ *   "text": string (1-100 chars)
+ * }
+ *
+ * Response: { prompt: Prompt } or { error: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = promptCreateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid prompt data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Enforce active prompt limit
+    const { count } = await supabase
+      .from("prompts")
+      .select("id", { count: "exact", head: true })
+      .eq("profile_id", user.id)
+      .eq("is_active", true);
+
+    if ((count || 0) >= MAX_ACTIVE_PROMPTS) {
+      return NextResponse.json(
+        {
+          error: `You can have up to ${MAX_ACTIVE_PROMPTS} active prompts. Retire one first.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const prompt = await createPrompt(user.id, validationResult.data.text);
+
+    if (!prompt) {
+      return NextResponse.json(
+        { error: "Failed to create prompt" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ prompt }, { status: 201 });
+  } catch (error) {
+    console.error("Error in prompts POST API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
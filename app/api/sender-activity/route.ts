@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getSenderActivityLog,
+  clearSenderActivityLog,
+} from "@/lib/db/sender-activity";
+
+/**
+ * GET /api/sender-activity
+ * List automatic throttling actions taken against the authenticated user's
+ * senders (newest 50)
+ *
+ * Response:
+ * {
+ *   activity: Array<{
+ *     id, sender_ip_hash, action: "auto_hold" | "cooldown" | "auto_block",
+ *     severity, reason, message_count, message_id, cooldown_until, created_at
+ *   }>
+ * }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const activity = await getSenderActivityLog(user.id);
+
+    return NextResponse.json({ activity }, { status: 200 });
+  } catch (error) {
+    console.error("Error in sender activity GET API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/sender-activity
+ * Clear the log - this also lifts active cooldowns
+ *
+ * Response: { success: boolean } or { error: string }
+ */
+export async function DELETE() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const success = await clearSenderActivityLog(user.id);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to clear activity log" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("Error in sender activity DELETE API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
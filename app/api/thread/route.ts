@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  getThreadByToken,
+  createSenderReply,
+  MAX_THREAD_REPLIES,
+} from "@/lib/db/threads";
+import {
+  THREAD_TOKEN_HEADER,
+  hashThreadToken,
+  isValidThreadTokenFormat,
+} from "@/lib/utils/thread-token";
+import { getHashedIP } from "@/lib/utils/ip-hash";
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  getRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit/constants";
+
+/**
+ * Follow-up validation schema
+ */
+const followUpSchema = z.object({
+  content: z.string().trim().min(1).max(1000),
+});
+
+/**
+ * GET /api/thread
+ * Open a private thread as the anonymous sender
+ *
+ * Headers: x-thread-token: <secret token issued by /api/messages/send>
+ * Response: { thread: SenderThread } or { error: string }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.headers.get(THREAD_TOKEN_HEADER);
+
+    if (!isValidThreadTokenFormat(token)) {
+      return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    const thread = await getThreadByToken(token);
+
+    if (!thread) {
+      return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { thread },
+      { status: 200, headers: { "Cache-Control": "private, no-store" } }
+    );
+  } catch (error) {
+    console.error("Error in thread GET API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/thread
+ * Send a follow-up in the thread as the anonymous sender. Follow-ups are
+ * checked against the recipient's block rules and moderated like first
+ * messages (422 if refused)
+ *
+ * Rate limit: 10 follow-ups per thread per hour
+ * (RATE_LIMIT_POLICIES.THREAD_REPLY); responses carry RateLimit-* headers
+ *
+ * Headers: x-thread-token: <secret token issued by /api/messages/send>
+ * Request body:
+ * {
+ *   "content": string (1-1000 chars)
+ * }
+ *
+ * Response: { reply: ThreadReply } or { error: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.headers.get(THREAD_TOKEN_HEADER);
+
+    if (!isValidThreadTokenFormat(token)) {
+      return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    // Refused requests also count as strikes against the IP
+    const ipHash = getHashedIP(request.headers);
+    const limit = await rateLimit(RATE_LIMIT_POLICIES.THREAD_REPLY, {
+      thread: hashThreadToken(token),
+      ip: ipHash,
+    });
+    if (!limit.allowed) {
+      return rateLimitExceededResponse(
+        limit,
+        "Too many replies. Please try again later."
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = followUpSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid reply data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await createSenderReply(
+      token,
+      validationResult.data.content,
+      ipHash
+    );
+
+    if ("error" in result) {
+      switch (result.error) {
+        case "not_found":
+          return NextResponse.json(
+            { error: "Thread not found" },
+            { status: 404 }
+          );
+        case "blocked":
+          return NextResponse.json(
+            { error: "Unable to reply. This thread has been closed." },
+            { status: 403 }
+          );
+        case "rejected":
+          return NextResponse.json(
+            { error: "This reply can't be sent because it breaks our content rules." },
+            { status: 422 }
+          );
+        case "thread_full":
+          return NextResponse.json(
+            { error: `Threads are limited to ${MAX_THREAD_REPLIES} replies` },
+            { status: 400 }
+          );
+        default:
+          return NextResponse.json(
+            { error: "Failed to send reply" },
+            { status: 500 }
+          );
+      }
+    }
+
+    return NextResponse.json(
+      { reply: result.reply },
+      { status: 201, headers: getRateLimitHeaders(limit) }
+    );
+  } catch (error) {
+    console.error("Error in thread POST API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
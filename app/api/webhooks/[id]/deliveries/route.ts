@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getWebhookDeliveries } from "@/lib/db/webhooks";
+import { WEBHOOK_DELIVERIES_PAGE_SIZE } from "@/lib/constants/webhooks";
+
+/**
+ * GET /api/webhooks/[id]/deliveries
+ * A webhook's delivery log, newest first. Deliveries are kept for 30 days
+ *
+ * Query params:
+ * - page: 1-based page number (default 1)
+ *
+ * Response: { deliveries, total, page, page_size } or { error: string }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1") || 1);
+
+    const result = await getWebhookDeliveries(user.id, id, page);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Failed to fetch deliveries" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { ...result, page, page_size: WEBHOOK_DELIVERIES_PAGE_SIZE },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error in webhook deliveries API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
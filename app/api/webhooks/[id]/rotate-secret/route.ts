@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getWebhookEndpoint, rotateWebhookSecret } from "@/lib/db/webhooks";
+import { WEBHOOK_SECRET_ROTATION_GRACE_HOURS } from "@/lib/constants/webhooks";
+
+/**
+ * POST /api/webhooks/[id]/rotate-secret
+ * Replace a webhook's signing secret. For the next 24 hours deliveries
+ * carry a signature from both the old and the new secret, so the receiver
+ * can be updated without dropping deliveries
+ *
+ * Response: { endpoint: WebhookEndpoint, grace_hours: number } or { error: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const endpoint = await getWebhookEndpoint(user.id, id);
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    const rotated = await rotateWebhookSecret(user.id, endpoint);
+
+    if (!rotated) {
+      return NextResponse.json(
+        {
+          error: "The secret was just rotated. Refresh and try again.",
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        endpoint: rotated,
+        grace_hours: WEBHOOK_SECRET_ROTATION_GRACE_HOURS,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error in webhook rotate secret API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  deleteWebhookEndpoint,
+  syncVisitMilestone,
+  updateWebhookEndpoint,
+} from "@/lib/db/webhooks";
+import { webhookUpdateSchema } from "@/lib/validations/webhooks";
+import { WEBHOOK_EVENTS } from "@/lib/constants/webhooks";
+
+/**
+ * PATCH /api/webhooks/[id]
+ * Change a webhook endpoint, or pause and resume it
+ *
+ * Request body (at least one field):
+ * {
+ *   "url"?: string,
+ *   "description"?: string | null,
+ *   "format"?: "json" | "discord" | "slack",
+ *   "events"?: string[],
+ *   "is_active"?: boolean
+ * }
+ *
+ * Response: { endpoint: WebhookEndpoint } or { error: string }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = webhookUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid webhook data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const endpoint = await updateWebhookEndpoint(
+      user.id,
+      id,
+      validationResult.data
+    );
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      validationResult.data.events?.includes(
+        WEBHOOK_EVENTS.PROFILE_VISITED_MILESTONE
+      )
+    ) {
+      await syncVisitMilestone(user.id);
+    }
+
+    return NextResponse.json({ endpoint }, { status: 200 });
+  } catch (error) {
+    console.error("Error in webhooks PATCH API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/webhooks/[id]
+ * Delete a webhook endpoint and its delivery log
+ *
+ * Response: { success: boolean } or { error: string }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const success = await deleteWebhookEndpoint(user.id, id);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to delete webhook" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("Error in webhooks DELETE API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
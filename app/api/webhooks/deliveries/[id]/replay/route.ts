@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getWebhookDelivery } from "@/lib/db/webhooks";
+import { replayWebhookDelivery } from "@/lib/webhooks/delivery";
+
+/**
+ * POST /api/webhooks/deliveries/[id]/replay
+ * Send a delivery's event to its endpoint again, right away. The replay is
+ * logged as a new delivery with the same event id (so receivers can
+ * de-duplicate) and is retried like any other if it fails
+ *
+ * Response: { delivery: WebhookDelivery } or { error: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const delivery = await getWebhookDelivery(user.id, id);
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: "Delivery not found" },
+        { status: 404 }
+      );
+    }
+
+    const replayed = await replayWebhookDelivery(delivery);
+
+    if (!replayed) {
+      return NextResponse.json(
+        { error: "Failed to replay delivery" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ delivery: replayed }, { status: 200 });
+  } catch (error) {
+    console.error("Error in webhook replay API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  countWebhookEndpoints,
+  createWebhookEndpoint,
+  getWebhookEndpoints,
+  syncVisitMilestone,
+} from "@/lib/db/webhooks";
+import { webhookCreateSchema } from "@/lib/validations/webhooks";
+import {
+  MAX_WEBHOOK_ENDPOINTS,
+  WEBHOOK_EVENTS,
+} from "@/lib/constants/webhooks";
+
+/**
+ * GET /api/webhooks
+ * List the authenticated user's webhook endpoints
+ *
+ * Response: { endpoints: WebhookEndpoint[] } or { error: string }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const endpoints = await getWebhookEndpoints(user.id);
+
+    if (!endpoints) {
+      return NextResponse.json(
+        { error: "Failed to fetch webhooks" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ endpoints }, { status: 200 });
+  } catch (error) {
+    console.error("Error in webhooks GET API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/webhooks
+ * Register a webhook endpoint. A signing secret is generated for it
+ *
+ * Request body:
+ * {
+ *   "url": string (https, up to 2048 chars),
+ *   "description"?: string | null (up to 100 chars),
+ *   "format"?: "json" | "discord" | "slack",
+ *   "events": Array<"message.received" | "message.reported" | "profile.visited_milestone">
+ * }
+ *
+ * Response: { endpoint: WebhookEndpoint } or { error: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = webhookCreateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid webhook data",
+          details: validationResult.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Enforce endpoint limit
+    if ((await countWebhookEndpoints(user.id)) >= MAX_WEBHOOK_ENDPOINTS) {
+      return NextResponse.json(
+        {
+          error: `You can have up to ${MAX_WEBHOOK_ENDPOINTS} webhooks. Delete one first.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const endpoint = await createWebhookEndpoint(user.id, validationResult.data);
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: "Failed to create webhook" },
+        { status: 500 }
+      );
+    }
+
+    // Announce only milestones reached from now on
+    if (endpoint.events.includes(WEBHOOK_EVENTS.PROFILE_VISITED_MILESTONE)) {
+      await syncVisitMilestone(user.id);
+    }
+
+    return NextResponse.json({ endpoint }, { status: 201 });
+  } catch (error) {
+    console.error("Error in webhooks POST API:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
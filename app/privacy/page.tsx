@@ -72,8 +72,8 @@ export default function PrivacyPage() {
                   <li>message content</li>
                   <li>timestamp</li>
                   <li>
-                    sender IP address (hashed for privacy, raw for recipient
-                    visibility)
+                    sender IP address (hashed for privacy; kept truncated or
+                    in full for a limited time)
                   </li>
                   <li>device type, browser, and operating system</li>
                   <li>timezone and language settings</li>
@@ -124,10 +124,12 @@ export default function PrivacyPage() {
               </p>
               <p className="leading-relaxed">
                 <strong className="text-black">IP address handling:</strong> we
-                store both hashed and raw IP addresses. hashed IPs (with daily
-                rotating salt) are used for rate limiting and abuse prevention.
-                raw IPs are visible only to message recipients for their safety
-                and security.
+                store hashed IP addresses (with daily rotating salt) for rate
+                limiting and abuse prevention. depending on configuration, the
+                sender&apos;s IP is also kept, either with its last part
+                removed or in full, and is deleted after a limited retention
+                period. it is never shown in the inbox, only included in the
+                recipient&apos;s own data export.
               </p>
               <p className="leading-relaxed">
                 <strong className="text-black">data minimization:</strong> we
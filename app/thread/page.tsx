@@ -0,0 +1,46 @@
+import Link from "next/link";
+import { SenderThread } from "@/components/messages/sender-thread";
+
+export const metadata = {
+  title: "Your conversation - NGLFS",
+  description: "Private replies to your anonymous message",
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+/**
+ * Sender Thread Page - Private conversation for an anonymous sender
+ * The secret token lives in the URL fragment and is read client-side
+ * URL: /thread#<token>
+ */
+export default function ThreadPage() {
+  return (
+    <div className="relative min-h-screen flex items-center justify-center p-4 sm:p-6 bg-gradient-to-br from-[#FF006E] via-[#FF4B7A] to-[#FF8C42] overflow-hidden">
+      <div className="relative z-10 w-full max-w-md">
+        <SenderThread />
+
+        {/* Footer */}
+        <div className="text-center space-y-4">
+          <Link
+            href="/"
+            className="block w-full bg-secondary text-white text-xl font-bold py-2 rounded-full hover:bg-gray-900 transition-colors"
+          >
+            get your own messages!
+          </Link>
+
+          <div className="flex justify-center gap-3 text-sm text-white/90">
+            <Link href="/terms" className="hover:text-white">
+              terms
+            </Link>
+            <span>·</span>
+            <Link href="/privacy" className="hover:text-white">
+              privacy
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
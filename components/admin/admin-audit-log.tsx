@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, ScrollText, ChevronLeft, ChevronRight } from "lucide-react";
+import { MagicCard } from "@/components/ui/magic-card";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import {
+  getAdminActionText,
+  type AdminAction,
+} from "@/lib/constants/admin";
+import type { AdminAuditLogItem } from "@/lib/db/admins";
+
+interface AdminAuditLogProps {
+  /** Only show actions on this account (remount with a new key to change) */
+  userId?: string | null;
+  /** Changes whenever an action is taken, to refetch the log */
+  refreshKey?: number;
+}
+
+/**
+ * Describe an entry's details in one line, e.g. "alice → alice_real"
+ */
+function describeDetails(entry: AdminAuditLogItem): string | null {
+  const details = (entry.details ?? {}) as Record<string, unknown>;
+
+  if (details.old_username && details.new_username) {
+    return `@${details.old_username} → @${details.new_username}`;
+  }
+  if (typeof details.reason === "string") {
+    return details.reason;
+  }
+  if (details.from_status && details.to_status) {
+    return `${details.from_status} → ${details.to_status}${
+      details.action ? ` (${details.action})` : ""
+    }`;
+  }
+
+  return null;
+}
+
+export function AdminAuditLog({
+  userId = null,
+  refreshKey = 0,
+}: AdminAuditLogProps) {
+  const [entries, setEntries] = useState<AdminAuditLogItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [page, setPage] = useState(1);
+  const [loadedQuery, setLoadedQuery] = useState<string | null>(null);
+
+  const params = new URLSearchParams({ page: String(page) });
+  if (userId) params.set("user_id", userId);
+  const search = params.toString();
+  // Refetched when the page, account or refresh key changes
+  const query = `${search}#${refreshKey}`;
+  const isLoading = loadedQuery !== query;
+
+  useEffect(() => {
+    fetch(`/api/admin/audit-log?${search}`)
+      .then(async (response) => {
+        const data = await response.json();
+
+        if (response.ok) {
+          setEntries(data.entries);
+          setTotal(data.total);
+          setPageSize(data.page_size);
+        } else {
+          toast.error(data.error || "Failed to load audit log");
+        }
+      })
+      .catch((error) => {
+        console.error("Error fetching audit log:", error);
+        toast.error("Failed to load audit log");
+      })
+      .finally(() => setLoadedQuery(query));
+  }, [search, query]);
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <MagicCard className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ScrollText className="w-5 h-5 text-purple-400" />
+        <h2 className="text-lg font-semibold text-white">
+          {userId ? "Actions on this account" : "Audit Log"}
+        </h2>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-purple-500" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No admin actions yet</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-800">
+            {entries.map((entry) => {
+              const summary = describeDetails(entry);
+
+              return (
+                <li key={entry.id} className="py-3 text-sm">
+                  <div className="flex flex-wrap items-baseline justify-between gap-2">
+                    <span className="text-white">
+                      {getAdminActionText(entry.action as AdminAction)}
+                      {entry.target_user_id && (
+                        <span className="text-gray-400">
+                          {" "}
+                          · @{entry.target_username || "deleted account"}
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    By @{entry.admin_username || "former admin"}
+                    {summary && ` · ${summary}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between pt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p - 1)}
+                disabled={page <= 1}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-sm text-gray-400">
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={page >= totalPages}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </MagicCard>
+  );
+}
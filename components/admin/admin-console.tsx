@@ -0,0 +1,378 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import {
+  Loader2,
+  Search,
+  User,
+  Ban,
+  RotateCcw,
+  Pencil,
+  ImageOff,
+  Eraser,
+} from "lucide-react";
+import { MagicCard } from "@/components/ui/magic-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { AdminAuditLog } from "@/components/admin/admin-audit-log";
+import {
+  ADMIN_ACTIONS,
+  MAX_SUSPENSION_REASON_LENGTH,
+  type ProfileAdminAction,
+} from "@/lib/constants/admin";
+import type { Profile } from "@/lib/types/database.types";
+
+function ProfileStatusBadges({ profile }: { profile: Profile }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {profile.suspended_at && (
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-500/10 text-red-400">
+          Suspended
+        </span>
+      )}
+      {!profile.is_active && (
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-500/10 text-gray-400">
+          Deactivated
+        </span>
+      )}
+      {profile.username_locked && (
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-500/10 text-yellow-400">
+          Username locked
+        </span>
+      )}
+    </div>
+  );
+}
+
+export function AdminConsole() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [profiles, setProfiles] = useState<Profile[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selected, setSelected] = useState<Profile | null>(null);
+  const [suspendReason, setSuspendReason] = useState("");
+  const [newUsername, setNewUsername] = useState("");
+  const [busyAction, setBusyAction] = useState<ProfileAdminAction | null>(
+    null
+  );
+  const [auditRefreshKey, setAuditRefreshKey] = useState(0);
+
+  const search = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchTerm.trim()) return;
+
+    setIsSearching(true);
+    try {
+      const response = await fetch(
+        `/api/admin/profiles?q=${encodeURIComponent(searchTerm.trim())}`
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        setProfiles(data.profiles);
+      } else {
+        toast.error(data.error || "Failed to search profiles");
+      }
+    } catch (error) {
+      console.error("Error searching profiles:", error);
+      toast.error("Failed to search profiles");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const selectProfile = (profile: Profile) => {
+    setSelected(profile);
+    setSuspendReason("");
+    setNewUsername("");
+  };
+
+  const runAction = async (
+    body: { action: ProfileAdminAction } & Record<string, string>,
+    successMessage: string
+  ) => {
+    if (!selected) return;
+
+    setBusyAction(body.action);
+    try {
+      const response = await fetch(`/api/admin/profiles/${selected.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setSelected(data.profile);
+        setProfiles((prev) =>
+          prev?.map((profile) =>
+            profile.id === data.profile.id ? data.profile : profile
+          ) ?? null
+        );
+        setSuspendReason("");
+        setNewUsername("");
+        setAuditRefreshKey((key) => key + 1);
+        toast.success(successMessage);
+      } else {
+        toast.error(data.error || "Failed to update profile");
+      }
+    } catch (error) {
+      console.error("Error taking admin action:", error);
+      toast.error("Failed to update profile");
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Profile Search */}
+      <MagicCard className="p-6">
+        <form onSubmit={search} className="flex gap-3">
+          <Input
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search usernames"
+            disabled={isSearching}
+            className="flex-1"
+          />
+          <Button
+            type="submit"
+            disabled={isSearching || !searchTerm.trim()}
+            className="bg-linear-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
+          >
+            {isSearching ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <>
+                <Search className="w-4 h-4 mr-2" />
+                Search
+              </>
+            )}
+          </Button>
+        </form>
+      </MagicCard>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Results */}
+        <div className="space-y-3">
+          {profiles === null ? (
+            <p className="text-sm text-gray-500">
+              Search for a profile to moderate it
+            </p>
+          ) : profiles.length === 0 ? (
+            <p className="text-sm text-gray-500">No matching profiles</p>
+          ) : (
+            profiles.map((profile) => (
+              <button
+                key={profile.id}
+                onClick={() => selectProfile(profile)}
+                className={cn(
+                  "w-full text-left rounded-lg border p-4 transition-colors",
+                  selected?.id === profile.id
+                    ? "border-purple-500 bg-purple-500/10"
+                    : "border-gray-800 hover:bg-gray-800/50"
+                )}
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-white truncate">
+                      @{profile.username}
+                    </p>
+                    {profile.display_name && (
+                      <p className="text-xs text-gray-400 truncate">
+                        {profile.display_name}
+                      </p>
+                    )}
+                  </div>
+                  <ProfileStatusBadges profile={profile} />
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* Selected Profile */}
+        <div className="space-y-6">
+          {selected ? (
+            <MagicCard className="p-6 space-y-5">
+              <div className="flex items-center gap-4">
+                {selected.avatar_url ? (
+                  <div className="relative w-14 h-14 rounded-full overflow-hidden shrink-0">
+                    <Image
+                      src={selected.avatar_url}
+                      alt={selected.username}
+                      fill
+                      className="object-cover"
+                      sizes="56px"
+                      unoptimized
+                    />
+                  </div>
+                ) : (
+                  <div className="w-14 h-14 rounded-full bg-gray-800 flex items-center justify-center shrink-0">
+                    <User className="w-6 h-6 text-gray-500" />
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <p className="text-lg font-semibold text-white truncate">
+                    @{selected.username}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Joined {new Date(selected.created_at).toLocaleDateString()}{" "}
+                    · {selected.message_count} messages
+                  </p>
+                </div>
+              </div>
+
+              <ProfileStatusBadges profile={selected} />
+
+              {selected.bio && (
+                <p className="text-sm text-gray-300 whitespace-pre-wrap break-words">
+                  {selected.bio}
+                </p>
+              )}
+
+              {/* Suspension */}
+              {selected.suspended_at ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-red-400">
+                    Suspended{" "}
+                    {new Date(selected.suspended_at).toLocaleString()}
+                    {selected.suspended_reason &&
+                      `: ${selected.suspended_reason}`}
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      runAction(
+                        { action: ADMIN_ACTIONS.UNSUSPEND },
+                        "Account unsuspended"
+                      )
+                    }
+                    disabled={busyAction !== null}
+                  >
+                    {busyAction === ADMIN_ACTIONS.UNSUSPEND ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                    )}
+                    Unsuspend
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Textarea
+                    value={suspendReason}
+                    onChange={(e) => setSuspendReason(e.target.value)}
+                    maxLength={MAX_SUSPENSION_REASON_LENGTH}
+                    placeholder="Reason for suspension (shown to the account owner)"
+                    disabled={busyAction !== null}
+                    rows={2}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      runAction(
+                        {
+                          action: ADMIN_ACTIONS.SUSPEND,
+                          reason: suspendReason.trim(),
+                        },
+                        "Account suspended"
+                      )
+                    }
+                    disabled={busyAction !== null || !suspendReason.trim()}
+                    className="text-red-500 hover:text-red-600 hover:bg-red-500/10"
+                  >
+                    {busyAction === ADMIN_ACTIONS.SUSPEND ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Ban className="w-4 h-4 mr-2" />
+                    )}
+                    Suspend
+                  </Button>
+                </div>
+              )}
+
+              {/* Force Rename */}
+              <div className="flex gap-2">
+                <Input
+                  value={newUsername}
+                  onChange={(e) => setNewUsername(e.target.value)}
+                  placeholder="New username"
+                  maxLength={20}
+                  disabled={busyAction !== null}
+                  className="flex-1"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    runAction(
+                      {
+                        action: ADMIN_ACTIONS.RENAME_USERNAME,
+                        username: newUsername.trim(),
+                      },
+                      "Username changed"
+                    )
+                  }
+                  disabled={busyAction !== null || !newUsername.trim()}
+                >
+                  {busyAction === ADMIN_ACTIONS.RENAME_USERNAME ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Pencil className="w-4 h-4 mr-2" />
+                  )}
+                  Rename
+                </Button>
+              </div>
+
+              {/* Content Takedowns */}
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    runAction(
+                      { action: ADMIN_ACTIONS.REMOVE_AVATAR },
+                      "Avatar removed"
+                    )
+                  }
+                  disabled={busyAction !== null || !selected.avatar_url}
+                >
+                  <ImageOff className="w-4 h-4 mr-2" />
+                  Remove Avatar
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    runAction(
+                      { action: ADMIN_ACTIONS.REMOVE_BIO },
+                      "Bio removed"
+                    )
+                  }
+                  disabled={busyAction !== null || !selected.bio}
+                >
+                  <Eraser className="w-4 h-4 mr-2" />
+                  Remove Bio
+                </Button>
+              </div>
+            </MagicCard>
+          ) : null}
+
+          <AdminAuditLog
+            key={selected?.id ?? "all"}
+            userId={selected?.id ?? null}
+            refreshKey={auditRefreshKey}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
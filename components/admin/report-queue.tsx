@@ -0,0 +1,478 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Loader2,
+  Flag,
+  Eye,
+  Trash2,
+  Ban,
+  X,
+  RotateCcw,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
+import { MagicCard } from "@/components/ui/magic-card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  getReportReasonText,
+  type ReportReason,
+} from "@/lib/constants/report-reasons";
+import {
+  MAX_REVIEWER_NOTES_LENGTH,
+  REPORT_ACTIONS,
+  REPORT_STATUSES,
+  canTransitionReport,
+  getReportActionText,
+  getReportStatusText,
+  type ReportAction,
+  type ReportStatus,
+} from "@/lib/constants/reports";
+import type { ReportDetail, ReportListItem } from "@/lib/db/reports";
+
+type StatusFilter = ReportStatus | "all";
+
+const STATUS_FILTERS: StatusFilter[] = [
+  REPORT_STATUSES.OPEN,
+  REPORT_STATUSES.UNDER_REVIEW,
+  REPORT_STATUSES.ACTIONED,
+  REPORT_STATUSES.DISMISSED,
+  "all",
+];
+
+const STATUS_BADGE_CLASSES: Record<ReportStatus, string> = {
+  open: "bg-yellow-500/10 text-yellow-400",
+  under_review: "bg-blue-500/10 text-blue-400",
+  actioned: "bg-red-500/10 text-red-400",
+  dismissed: "bg-gray-500/10 text-gray-400",
+};
+
+function StatusBadge({ status }: { status: ReportStatus }) {
+  return (
+    <span
+      className={cn(
+        "px-2 py-0.5 rounded-full text-xs font-medium shrink-0",
+        STATUS_BADGE_CLASSES[status]
+      )}
+    >
+      {getReportStatusText(status)}
+    </span>
+  );
+}
+
+export function ReportQueue() {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>(
+    REPORT_STATUSES.OPEN
+  );
+  const [page, setPage] = useState(1);
+  const [reports, setReports] = useState<ReportListItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(25);
+  const [counts, setCounts] = useState<Record<ReportStatus, number> | null>(
+    null
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<ReportDetail | null>(null);
+  const [isDetailLoading, setIsDetailLoading] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Fetch the queue when the filter, page or a report changes
+  useEffect(() => {
+    const params = new URLSearchParams({ page: String(page) });
+    if (statusFilter !== "all") params.set("status", statusFilter);
+
+    setIsLoading(true);
+    fetch(`/api/admin/reports?${params}`)
+      .then(async (response) => {
+        const data = await response.json();
+
+        if (response.ok) {
+          setReports(data.reports);
+          setTotal(data.total);
+          setPageSize(data.page_size);
+          setCounts(data.counts);
+        } else {
+          toast.error(data.error || "Failed to load reports");
+        }
+      })
+      .catch((error) => {
+        console.error("Error fetching reports:", error);
+        toast.error("Failed to load reports");
+      })
+      .finally(() => setIsLoading(false));
+  }, [statusFilter, page, reloadKey]);
+
+  // Fetch the selected report
+  useEffect(() => {
+    if (!selectedId) {
+      setDetail(null);
+      return;
+    }
+
+    setIsDetailLoading(true);
+    fetch(`/api/admin/reports/${selectedId}`)
+      .then(async (response) => {
+        const data = await response.json();
+
+        if (response.ok) {
+          setDetail(data.report);
+          setNotes(data.report.reviewer_notes || "");
+        } else {
+          toast.error(data.error || "Failed to load report");
+        }
+      })
+      .catch((error) => {
+        console.error("Error fetching report:", error);
+        toast.error("Failed to load report");
+      })
+      .finally(() => setIsDetailLoading(false));
+  }, [selectedId]);
+
+  const changeFilter = (filter: StatusFilter) => {
+    setStatusFilter(filter);
+    setPage(1);
+    setSelectedId(null);
+  };
+
+  const triageReport = async (
+    updates: {
+      status?: ReportStatus;
+      action?: ReportAction;
+    },
+    successMessage: string
+  ) => {
+    if (!detail) return;
+
+    if (
+      updates.action === REPORT_ACTIONS.DELETE_MESSAGE &&
+      !confirm(
+        "Delete this message from the recipient's inbox? This can't be undone."
+      )
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/reports/${detail.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...updates,
+          reviewer_notes: notes.trim() || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setDetail(data.report);
+        setNotes(data.report.reviewer_notes || "");
+        setReloadKey((key) => key + 1);
+        toast.success(successMessage);
+      } else {
+        toast.error(data.error || "Failed to update report");
+      }
+    } catch (error) {
+      console.error("Error updating report:", error);
+      toast.error("Failed to update report");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canMoveTo = (status: ReportStatus) =>
+    !!detail && canTransitionReport(detail.status as ReportStatus, status);
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="space-y-6">
+      {/* Status Filters */}
+      <div className="flex flex-wrap gap-2">
+        {STATUS_FILTERS.map((filter) => (
+          <Button
+            key={filter}
+            variant={statusFilter === filter ? "default" : "outline"}
+            size="sm"
+            onClick={() => changeFilter(filter)}
+          >
+            {filter === "all" ? "All" : getReportStatusText(filter)}
+            {filter !== "all" && counts && (
+              <span className="ml-2 text-xs opacity-70">{counts[filter]}</span>
+            )}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Queue */}
+        <div className="space-y-3">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-purple-500" />
+            </div>
+          ) : reports.length === 0 ? (
+            <MagicCard className="p-12 text-center">
+              <Flag className="w-16 h-16 mx-auto mb-4 text-gray-600" />
+              <h3 className="text-xl font-semibold text-white mb-2">
+                No reports
+              </h3>
+              <p className="text-gray-400">Nothing to review here</p>
+            </MagicCard>
+          ) : (
+            <>
+              {reports.map((report) => (
+                <button
+                  key={report.id}
+                  onClick={() => setSelectedId(report.id)}
+                  className={cn(
+                    "w-full text-left rounded-lg border p-4 transition-colors",
+                    selectedId === report.id
+                      ? "border-purple-500 bg-purple-500/10"
+                      : "border-gray-800 hover:bg-gray-800/50"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-3 mb-2">
+                    <span className="text-sm font-medium text-white">
+                      {getReportReasonText(report.reason as ReportReason)}
+                    </span>
+                    <StatusBadge status={report.status as ReportStatus} />
+                  </div>
+                  <p className="text-sm text-gray-300 line-clamp-2 break-words">
+                    {report.message_content}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Reported by @{report.reporter?.username || "unknown"} ·{" "}
+                    {new Date(report.created_at).toLocaleString()}
+                  </p>
+                </button>
+              ))}
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between pt-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => p - 1)}
+                    disabled={page <= 1}
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <span className="text-sm text-gray-400">
+                    Page {page} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => p + 1)}
+                    disabled={page >= totalPages}
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Report Detail */}
+        <div>
+          {isDetailLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-purple-500" />
+            </div>
+          ) : !detail ? (
+            <MagicCard className="p-12 text-center">
+              <p className="text-gray-400">Select a report to review it</p>
+            </MagicCard>
+          ) : (
+            <MagicCard className="p-6 space-y-5">
+              <div className="flex items-center justify-between gap-3">
+                <h2 className="text-lg font-semibold text-white">
+                  {getReportReasonText(detail.reason as ReportReason)}
+                </h2>
+                <StatusBadge status={detail.status as ReportStatus} />
+              </div>
+
+              {detail.details && (
+                <div>
+                  <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">
+                    Reporter&apos;s details
+                  </p>
+                  <p className="text-sm text-gray-300 whitespace-pre-wrap break-words">
+                    {detail.details}
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">
+                  Reported message
+                </p>
+                <div className="rounded-lg bg-gray-900/60 border border-gray-800 p-4">
+                  <p className="text-white whitespace-pre-wrap break-words">
+                    {detail.message?.content ?? detail.message_content}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Sent {new Date(detail.message_created_at).toLocaleString()}{" "}
+                    to @{detail.reporter?.username || "unknown"}
+                    {!detail.message && " · Message deleted"}
+                    {detail.message?.is_flagged && " · Flagged by moderation"}
+                  </p>
+                </div>
+                {detail.sender_report_count > 1 && (
+                  <p className="text-xs text-orange-400 mt-2">
+                    {detail.sender_report_count} reports against this sender
+                  </p>
+                )}
+              </div>
+
+              {detail.action_taken && (
+                <p className="text-sm text-gray-300">
+                  Action taken:{" "}
+                  {getReportActionText(detail.action_taken as ReportAction)}
+                </p>
+              )}
+
+              {detail.reviewer && (
+                <p className="text-xs text-gray-500">
+                  Last updated by @{detail.reviewer.username}
+                  {detail.resolved_at &&
+                    ` · Resolved ${new Date(detail.resolved_at).toLocaleString()}`}
+                </p>
+              )}
+
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">
+                  Reviewer notes
+                </p>
+                <Textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  maxLength={MAX_REVIEWER_NOTES_LENGTH}
+                  placeholder="Notes for other reviewers (not shown to the reporter)"
+                  disabled={isSaving}
+                  rows={3}
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {canMoveTo(REPORT_STATUSES.UNDER_REVIEW) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      triageReport(
+                        { status: REPORT_STATUSES.UNDER_REVIEW },
+                        "Report under review"
+                      )
+                    }
+                    disabled={isSaving}
+                  >
+                    <Eye className="w-4 h-4 mr-2" />
+                    Start Review
+                  </Button>
+                )}
+                {canMoveTo(REPORT_STATUSES.ACTIONED) && (
+                  <>
+                    {detail.message && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          triageReport(
+                            {
+                              status: REPORT_STATUSES.ACTIONED,
+                              action: REPORT_ACTIONS.DELETE_MESSAGE,
+                            },
+                            "Message deleted"
+                          )
+                        }
+                        disabled={isSaving}
+                        className="text-red-500 hover:text-red-600 hover:bg-red-500/10"
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete Message
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        triageReport(
+                          {
+                            status: REPORT_STATUSES.ACTIONED,
+                            action: REPORT_ACTIONS.BLOCK_SENDER,
+                          },
+                          "Sender blocked for the reporter"
+                        )
+                      }
+                      disabled={isSaving}
+                      className="text-orange-500 hover:text-orange-600 hover:bg-orange-500/10"
+                    >
+                      <Ban className="w-4 h-4 mr-2" />
+                      Block Sender
+                    </Button>
+                  </>
+                )}
+                {canMoveTo(REPORT_STATUSES.DISMISSED) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      triageReport(
+                        { status: REPORT_STATUSES.DISMISSED },
+                        "Report dismissed"
+                      )
+                    }
+                    disabled={isSaving}
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Dismiss
+                  </Button>
+                )}
+                {canMoveTo(REPORT_STATUSES.OPEN) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      triageReport(
+                        { status: REPORT_STATUSES.OPEN },
+                        "Report reopened"
+                      )
+                    }
+                    disabled={isSaving}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Reopen
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  onClick={() => triageReport({}, "Notes saved")}
+                  disabled={
+                    isSaving || notes.trim() === (detail.reviewer_notes || "")
+                  }
+                  className="ml-auto"
+                >
+                  {isSaving ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    "Save Notes"
+                  )}
+                </Button>
+              </div>
+            </MagicCard>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
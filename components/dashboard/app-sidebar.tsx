@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import {
@@ -12,6 +12,13 @@ import {
   User,
   PanelLeftClose,
   PanelLeft,
+  Sparkles,
+  Link2,
+  Inbox,
+  Archive,
+  ShieldAlert,
+  Flag,
+  ShieldCheck,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -28,6 +35,13 @@ import {
 } from "@/components/ui/sidebar";
 import { useAuth } from "@/lib/auth/auth-context";
 import { useProfileStore } from "@/lib/stores/profile-store";
+import { createClient } from "@/lib/supabase/client";
+import {
+  useMessageFoldersStore,
+  fetchMessageFolders,
+  type MessageFolder,
+} from "@/lib/stores/message-folders-store";
+import { getLabelDotClass } from "@/lib/constants/message-labels";
 import { cn } from "@/lib/utils";
 import { AnimatedGradientText } from "@/components/ui/animated-gradient-text";
 import { Dock, DockIcon } from "@/components/ui/dock";
@@ -45,6 +59,16 @@ const navigationItems = [
     icon: MessageSquare,
     badge: true, // Will show unread count
   },
+  {
+    name: "Prompts",
+    href: "/dashboard/prompts",
+    icon: Sparkles,
+  },
+  {
+    name: "Links",
+    href: "/dashboard/links",
+    icon: Link2,
+  },
   {
     name: "Analytics",
     href: "/dashboard/analytics",
@@ -57,12 +81,70 @@ const navigationItems = [
   },
 ];
 
+// Only shown to platform admins
+const adminNavigationItems = [
+  {
+    name: "Admin",
+    href: "/dashboard/admin",
+    icon: ShieldCheck,
+    badge: false,
+  },
+  {
+    name: "Moderation",
+    href: "/dashboard/admin/reports",
+    icon: Flag,
+    badge: false,
+  },
+];
+
 export function AppSidebar() {
   const pathname = usePathname();
   const router = useRouter();
   const { signOut } = useAuth();
   const { profile } = useProfileStore();
   const [isProfileSheetOpen, setIsProfileSheetOpen] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const {
+    labels,
+    folderCounts,
+    activeFolder,
+    activeLabelId,
+    openFolder,
+    openLabel,
+  } = useMessageFoldersStore();
+
+  // Refresh folder and label counts when unread count or page changes
+  useEffect(() => {
+    fetchMessageFolders();
+  }, [pathname, profile?.message_count]);
+
+  // RLS only lets users see their own admin status
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    createClient()
+      .from("platform_admins")
+      .select("user_id")
+      .eq("user_id", profile.id)
+      .maybeSingle()
+      .then(({ data }) => setIsAdmin(data !== null));
+  }, [profile?.id]);
+
+  const navItems = isAdmin
+    ? [...navigationItems, ...adminNavigationItems]
+    : navigationItems;
+
+  const isMessagesPage = pathname === "/dashboard/messages";
+
+  const goToFolder = (folder: MessageFolder) => {
+    openFolder(folder);
+    router.push("/dashboard/messages");
+  };
+
+  const goToLabel = (labelId: string) => {
+    openLabel(labelId);
+    router.push("/dashboard/messages");
+  };
 
   const handleSignOut = async () => {
     await signOut();
@@ -138,7 +220,7 @@ export function AppSidebar() {
         {/* Content: Navigation */}
         <SidebarContent className="px-2 py-4">
           <SidebarMenu>
-            {navigationItems.map((item) => {
+            {navItems.map((item) => {
               const Icon = item.icon;
               const isActive = pathname === item.href;
 
@@ -182,6 +264,82 @@ export function AppSidebar() {
               );
             })}
           </SidebarMenu>
+
+          {/* Folders and Labels */}
+          <div className="mt-6 space-y-1 group-data-[collapsible=icon]:hidden">
+            <p className="px-4 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+              Folders
+            </p>
+            {(
+              [
+                { folder: "inbox", name: "Inbox", icon: Inbox },
+                { folder: "archived", name: "Archived", icon: Archive },
+                { folder: "held", name: "Filtered", icon: ShieldAlert },
+              ] as const
+            ).map(({ folder, name, icon: Icon }) => {
+              const isActive =
+                isMessagesPage && activeFolder === folder && !activeLabelId;
+              // Filtered messages never count as unread - show how many wait
+              const count =
+                folder === "held"
+                  ? folderCounts.held.total
+                  : folderCounts[folder].unread;
+
+              return (
+                <button
+                  key={folder}
+                  onClick={() => goToFolder(folder)}
+                  className={cn(
+                    "w-full flex items-center gap-3 px-4 py-2 rounded-lg text-sm transition-colors",
+                    isActive
+                      ? "bg-gray-800 text-white"
+                      : "text-gray-400 hover:text-white hover:bg-gray-800/50"
+                  )}
+                >
+                  <Icon className="w-4 h-4" />
+                  <span>{name}</span>
+                  {count > 0 && (
+                    <span className="ml-auto text-xs text-gray-500">
+                      {count}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+
+            {labels.length > 0 && (
+              <p className="px-4 pt-4 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                Labels
+              </p>
+            )}
+            {labels.map((label) => {
+              const isActive = isMessagesPage && activeLabelId === label.id;
+
+              return (
+                <button
+                  key={label.id}
+                  onClick={() => goToLabel(label.id)}
+                  className={cn(
+                    "w-full flex items-center gap-3 px-4 py-2 rounded-lg text-sm transition-colors",
+                    isActive
+                      ? "bg-gray-800 text-white"
+                      : "text-gray-400 hover:text-white hover:bg-gray-800/50"
+                  )}
+                >
+                  <span
+                    className={cn(
+                      "w-2.5 h-2.5 rounded-full shrink-0",
+                      getLabelDotClass(label.color)
+                    )}
+                  />
+                  <span className="truncate">{label.name}</span>
+                  <span className="ml-auto text-xs text-gray-500">
+                    {label.messageCount}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
         </SidebarContent>
 
         {/* Footer: Sign Out + Links */}
@@ -211,7 +369,7 @@ export function AppSidebar() {
       {/* Mobile Bottom Dock - Hidden on desktop */}
       <div className="lg:hidden fixed bottom-4 left-1/2 -translate-x-1/2 z-50">
         <Dock className="bg-gray-950/80 backdrop-blur-xl border border-gray-800/50 shadow-2xl">
-          {navigationItems.map((item) => {
+          {navItems.map((item) => {
             const Icon = item.icon;
             const isActive = pathname === item.href;
 
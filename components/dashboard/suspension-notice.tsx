@@ -0,0 +1,32 @@
+"use client";
+
+import { Ban } from "lucide-react";
+import { useProfileStore } from "@/lib/stores/profile-store";
+
+/**
+ * Tells the owner of a suspended account why their public page is hidden
+ * and they aren't receiving messages
+ */
+export function SuspensionNotice() {
+  const { profile } = useProfileStore();
+
+  if (!profile?.suspended_at) return null;
+
+  return (
+    <div
+      role="alert"
+      className="mb-6 flex items-start gap-3 rounded-lg border border-red-500/30 bg-red-500/10 p-4"
+    >
+      <Ban className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+      <div className="text-sm">
+        <p className="font-medium text-red-300">
+          Your account has been suspended
+        </p>
+        <p className="text-gray-300 mt-1">
+          Your profile is hidden and you can&apos;t receive new messages.
+          {profile.suspended_reason && ` Reason: ${profile.suspended_reason}`}
+        </p>
+      </div>
+    </div>
+  );
+}
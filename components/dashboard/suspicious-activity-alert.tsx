@@ -8,7 +8,9 @@ import { BlockSenderDialog } from "@/components/messages/block-sender-dialog";
 import { detectSuspiciousActivity, getSenderIdentifier } from "@/lib/utils/blocking";
 
 interface SuspiciousActivity {
-  ipHash: string;
+  senderKey: string;
+  /** One of the sender's messages, used to block them */
+  messageId: string;
   reason: string;
   severity: "low" | "medium" | "high";
   messageCount: number;
@@ -16,7 +18,8 @@ interface SuspiciousActivity {
 
 interface SuspiciousActivityAlertProps {
   messages: Array<{
-    sender_ip_hash: string;
+    id: string;
+    sender_key: string;
     created_at: string;
   }>;
 }
@@ -27,19 +30,19 @@ export function SuspiciousActivityAlert({ messages }: SuspiciousActivityAlertPro
 
   useEffect(() => {
     // Analyze messages for suspicious activity
-    const ipHashes = new Set(messages.map((m) => m.sender_ip_hash));
+    const senderKeys = new Set(messages.map((m) => m.sender_key));
     const suspiciousActivities: SuspiciousActivity[] = [];
 
-    ipHashes.forEach((ipHash) => {
-      const analysis = detectSuspiciousActivity(messages, ipHash);
+    senderKeys.forEach((senderKey) => {
+      const messagesFromSender = messages.filter(
+        (m) => m.sender_key === senderKey
+      );
+      const analysis = detectSuspiciousActivity(messagesFromSender);
 
       if (analysis.isSuspicious) {
-        const messagesFromSender = messages.filter(
-          (m) => m.sender_ip_hash === ipHash
-        );
-
         suspiciousActivities.push({
-          ipHash,
+          senderKey,
+          messageId: messagesFromSender[0].id,
           reason: analysis.reason || "Unusual activity detected",
           severity: analysis.severity,
           messageCount: messagesFromSender.length,
@@ -57,7 +60,7 @@ export function SuspiciousActivityAlert({ messages }: SuspiciousActivityAlertPro
   }, [messages]);
 
   const visibleSuspicious = suspicious.filter(
-    (s) => !dismissed.has(s.ipHash)
+    (s) => !dismissed.has(s.senderKey)
   );
 
   if (visibleSuspicious.length === 0) {
@@ -68,7 +71,7 @@ export function SuspiciousActivityAlert({ messages }: SuspiciousActivityAlertPro
     <div className="space-y-3">
       {visibleSuspicious.map((activity) => (
         <MagicCard
-          key={activity.ipHash}
+          key={activity.senderKey}
           className={`p-4 border-l-4 ${
             activity.severity === "high"
               ? "border-l-red-500 bg-red-500/5"
@@ -105,7 +108,7 @@ export function SuspiciousActivityAlert({ messages }: SuspiciousActivityAlertPro
                     Suspicious Activity Detected
                   </h4>
                   <p className="text-sm text-gray-400 mt-0.5">
-                    {getSenderIdentifier(activity.ipHash)}
+                    {getSenderIdentifier(activity.senderKey)}
                   </p>
                 </div>
                 <Button
@@ -113,7 +116,7 @@ export function SuspiciousActivityAlert({ messages }: SuspiciousActivityAlertPro
                   size="icon"
                   className="h-6 w-6 text-gray-500 hover:text-white"
                   onClick={() => {
-                    setDismissed((prev) => new Set(prev).add(activity.ipHash));
+                    setDismissed((prev) => new Set(prev).add(activity.senderKey));
                   }}
                 >
                   <X className="w-4 h-4" />
@@ -128,10 +131,9 @@ export function SuspiciousActivityAlert({ messages }: SuspiciousActivityAlertPro
                   {activity.messageCount !== 1 ? "s" : ""} from this sender
                 </span>
                 <BlockSenderDialog
-                  messageId="" // Not tied to specific message
-                  senderIpHash={activity.ipHash}
+                  messageId={activity.messageId}
                   onBlocked={() => {
-                    setDismissed((prev) => new Set(prev).add(activity.ipHash));
+                    setDismissed((prev) => new Set(prev).add(activity.senderKey));
                   }}
                   trigger={
                     <Button
@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Globe, EyeOff, Save, Trash2 } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import type { PublicAnswer } from "@/lib/types/database.types";
+
+interface AnswerEditorProps {
+  messageId: string;
+  username?: string;
+}
+
+const MAX_ANSWER_LENGTH = 1000;
+
+/**
+ * Answer Editor
+ *
+ * Lets the message owner write an answer and publish the question + answer
+ * pair to the public Q&A wall on their profile page
+ */
+export function AnswerEditor({ messageId, username }: AnswerEditorProps) {
+  const [answer, setAnswer] = useState<PublicAnswer | null>(null);
+  const [draft, setDraft] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    async function fetchAnswer() {
+      try {
+        const response = await fetch(`/api/messages/${messageId}/answer`);
+        const data = await response.json();
+
+        if (response.ok && data.answer) {
+          setAnswer(data.answer);
+          setDraft(data.answer.answer);
+        }
+      } catch (error) {
+        console.error("Error fetching answer:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchAnswer();
+  }, [messageId]);
+
+  // Save answer, optionally changing its published state
+  const saveAnswer = async (isPublished: boolean) => {
+    if (!draft.trim()) {
+      toast.error("Please write an answer");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/messages/${messageId}/answer`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ answer: draft, is_published: isPublished }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || "Failed to save answer");
+        return;
+      }
+
+      const wasPublished = answer?.is_published ?? false;
+      setAnswer(data.answer);
+
+      if (isPublished && !wasPublished) {
+        toast.success("Answer published to your profile");
+      } else if (!isPublished && wasPublished) {
+        toast.success("Answer unpublished");
+      } else {
+        toast.success("Answer saved");
+      }
+    } catch (error) {
+      console.error("Error saving answer:", error);
+      toast.error("Failed to save answer");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Delete answer entirely
+  const deleteAnswer = async () => {
+    if (!confirm("Delete your answer? It will be removed from your profile.")) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/messages/${messageId}/answer`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete answer");
+      }
+
+      setAnswer(null);
+      setDraft("");
+      toast.success("Answer deleted");
+    } catch (error) {
+      console.error("Error deleting answer:", error);
+      toast.error("Failed to delete answer");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-[#1A1A1A]/80 backdrop-blur-lg rounded-xl p-4 sm:p-6 border border-white/10 flex justify-center">
+        <Loader2 className="w-5 h-5 animate-spin text-purple-500" />
+      </div>
+    );
+  }
+
+  const isPublished = answer?.is_published ?? false;
+  const hasChanges = draft.trim() !== (answer?.answer ?? "");
+
+  return (
+    <div className="bg-[#1A1A1A]/80 backdrop-blur-lg rounded-xl p-4 sm:p-6 md:p-8 border border-white/10 space-y-4">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-white">Your Answer</h2>
+          <p className="text-xs sm:text-sm text-gray-400">
+            Publish to show this question and your answer on
+            {username ? ` /${username}` : " your public profile"}
+          </p>
+        </div>
+
+        {answer && (
+          <span
+            className={
+              isPublished
+                ? "px-3 py-1 bg-green-500/10 border border-green-500/20 rounded-full text-xs text-green-400 shrink-0"
+                : "px-3 py-1 bg-gray-500/10 border border-gray-500/20 rounded-full text-xs text-gray-400 shrink-0"
+            }
+          >
+            {isPublished ? "Published" : "Draft"}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Write your answer..."
+          className="min-h-[100px] resize-none"
+          maxLength={MAX_ANSWER_LENGTH}
+          disabled={isSaving}
+        />
+        <p className="text-xs text-gray-500 text-right">
+          {draft.length}/{MAX_ANSWER_LENGTH}
+        </p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row flex-wrap items-stretch sm:items-center gap-2 sm:gap-3">
+        {!isPublished && (
+          <button
+            onClick={() => saveAnswer(true)}
+            disabled={isSaving || !draft.trim()}
+            className="inline-flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-purple-500/10 hover:bg-purple-500/20 text-purple-400 rounded-lg transition-colors disabled:opacity-50 text-sm"
+          >
+            <Globe className="w-4 h-4" />
+            <span>Publish</span>
+          </button>
+        )}
+
+        {(hasChanges || !answer) && (
+          <button
+            onClick={() => saveAnswer(isPublished)}
+            disabled={isSaving || !draft.trim()}
+            className="inline-flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-gray-500/10 hover:bg-gray-500/20 text-gray-300 rounded-lg transition-colors disabled:opacity-50 text-sm"
+          >
+            <Save className="w-4 h-4" />
+            <span>{isPublished ? "Save Changes" : "Save Draft"}</span>
+          </button>
+        )}
+
+        {isPublished && (
+          <button
+            onClick={() => saveAnswer(false)}
+            disabled={isSaving || !draft.trim()}
+            className="inline-flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-yellow-500/10 hover:bg-yellow-500/20 text-yellow-400 rounded-lg transition-colors disabled:opacity-50 text-sm"
+          >
+            <EyeOff className="w-4 h-4" />
+            <span>Unpublish</span>
+          </button>
+        )}
+
+        {answer && (
+          <button
+            onClick={deleteAnswer}
+            disabled={isSaving}
+            className="inline-flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-400 rounded-lg transition-colors disabled:opacity-50 text-sm"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Delete Answer</span>
+          </button>
+        )}
+
+        {isSaving && <Loader2 className="w-4 h-4 animate-spin text-purple-500" />}
+      </div>
+    </div>
+  );
+}
@@ -23,45 +23,81 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { toast } from "sonner";
-import { BLOCK_REASONS, type BlockReason } from "@/lib/utils/blocking";
+import {
+  BLOCK_DURATION_DAYS,
+  BLOCK_REASONS,
+  BLOCK_RULE_TYPES,
+  getBlockDurationText,
+  type BlockDurationDays,
+  type BlockReason,
+  type BlockRuleType,
+} from "@/lib/utils/blocking";
+
+/**
+ * What each rule type blocks, from the recipient's point of view
+ */
+const RULE_TYPE_OPTIONS: Array<{ value: BlockRuleType; label: string }> = [
+  { value: BLOCK_RULE_TYPES.IP, label: "This sender's network" },
+  { value: BLOCK_RULE_TYPES.FINGERPRINT, label: "This sender's device" },
+  { value: BLOCK_RULE_TYPES.REGION, label: "Everyone from this sender's region" },
+  {
+    value: BLOCK_RULE_TYPES.REFERRER,
+    label: "Everyone arriving from this sender's referrer",
+  },
+];
 
 interface BlockSenderDialogProps {
+  /** Any message from the sender - the server resolves who sent it */
   messageId: string;
-  senderIpHash: string;
-  onBlocked?: () => void;
+  /** Called with the number of messages deleted along with the block */
+  onBlocked?: (deletedCount: number) => void;
   trigger?: React.ReactNode;
 }
 
 export function BlockSenderDialog({
   messageId,
-  senderIpHash,
   onBlocked,
   trigger,
 }: BlockSenderDialogProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isBlocking, setIsBlocking] = useState(false);
   const [reason, setReason] = useState<BlockReason>(BLOCK_REASONS.OTHER);
+  const [ruleType, setRuleType] = useState<BlockRuleType>(BLOCK_RULE_TYPES.IP);
+  const [durationDays, setDurationDays] = useState<BlockDurationDays>(null);
+  const [deleteMessages, setDeleteMessages] = useState(false);
+
+  // Region and referrer rules cover other senders too - deleting "their"
+  // messages only makes sense for a single sender or device
+  const canDeleteMessages =
+    ruleType === BLOCK_RULE_TYPES.IP || ruleType === BLOCK_RULE_TYPES.FINGERPRINT;
 
   const handleBlock = async () => {
     setIsBlocking(true);
 
     try {
-      const response = await fetch("/api/block/add", {
+      const response = await fetch("/api/messages/block", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          ip_hash: senderIpHash,
-          reason,
           message_id: messageId,
+          reason,
+          rule_type: ruleType,
+          duration_days: durationDays,
+          delete_messages: canDeleteMessages && deleteMessages,
         }),
       });
 
       const data = await response.json();
 
       if (response.ok) {
-        toast.success("Sender blocked successfully");
+        toast.success(
+          data.deleted_count > 0
+            ? `Sender blocked and ${data.deleted_count} message${data.deleted_count !== 1 ? "s" : ""} deleted`
+            : "Sender blocked successfully"
+        );
         setIsOpen(false);
-        onBlocked?.();
+        setDeleteMessages(false);
+        onBlocked?.(data.deleted_count);
       } else {
         toast.error(data.error || "Failed to block sender");
       }
@@ -88,12 +124,55 @@ export function BlockSenderDialog({
           <AlertDialogTitle>Block this sender?</AlertDialogTitle>
           <AlertDialogDescription>
             This will prevent this sender from sending you any more messages in
-            the future. You can unblock them later from your privacy settings.
+            the future. Blocking their device also stops them after they switch
+            networks. You can unblock them later from your privacy settings.
           </AlertDialogDescription>
         </AlertDialogHeader>
 
         <div className="py-4">
-          <Label htmlFor="block-reason" className="text-white mb-2 block">
+          <Label htmlFor="block-rule-type" className="text-white mb-2 block">
+            Block
+          </Label>
+          <Select
+            value={ruleType}
+            onValueChange={(value) => setRuleType(value as BlockRuleType)}
+          >
+            <SelectTrigger id="block-rule-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_TYPE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Label htmlFor="block-duration" className="text-white mt-4 mb-2 block">
+            Duration
+          </Label>
+          <Select
+            value={String(durationDays)}
+            onValueChange={(value) =>
+              setDurationDays(
+                value === "null" ? null : (Number(value) as BlockDurationDays)
+              )
+            }
+          >
+            <SelectTrigger id="block-duration">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BLOCK_DURATION_DAYS.map((days) => (
+                <SelectItem key={String(days)} value={String(days)}>
+                  {getBlockDurationText(days)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Label htmlFor="block-reason" className="text-white mt-4 mb-2 block">
             Reason for blocking
           </Label>
           <Select
@@ -117,12 +196,31 @@ export function BlockSenderDialog({
               <SelectItem value={BLOCK_REASONS.OTHER}>Other</SelectItem>
             </SelectContent>
           </Select>
+
+          {canDeleteMessages && (
+            <label className="flex items-center gap-3 mt-4 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={deleteMessages}
+                onChange={(e) => setDeleteMessages(e.target.checked)}
+                className="w-4 h-4 accent-red-500"
+              />
+              <span className="text-sm text-gray-300">
+                Also delete all messages from this{" "}
+                {ruleType === BLOCK_RULE_TYPES.FINGERPRINT ? "device" : "sender"}
+              </span>
+            </label>
+          )}
         </div>
 
         <AlertDialogFooter>
           <AlertDialogCancel disabled={isBlocking}>Cancel</AlertDialogCancel>
           <AlertDialogAction
-            onClick={handleBlock}
+            onClick={(e) => {
+              // Keep the dialog open until the block finishes
+              e.preventDefault();
+              handleBlock();
+            }}
             disabled={isBlocking}
             className="bg-red-600 hover:bg-red-700"
           >
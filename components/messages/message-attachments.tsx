@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { ImageIcon } from "lucide-react";
+import type { SignedAttachment } from "@/lib/db/attachments";
+
+/**
+ * Size hint for attachments stored without dimensions; the image keeps its
+ * own aspect ratio once loaded
+ */
+const FALLBACK_WIDTH = 800;
+const FALLBACK_HEIGHT = 600;
+
+interface MessageAttachmentsProps {
+  messageId: string;
+}
+
+/**
+ * Message Attachments
+ *
+ * Images the sender attached, loaded through signed URLs that expire after
+ * an hour - they are never publicly reachable
+ */
+export function MessageAttachments({ messageId }: MessageAttachmentsProps) {
+  const [attachments, setAttachments] = useState<SignedAttachment[]>([]);
+
+  useEffect(() => {
+    async function fetchAttachments() {
+      try {
+        const response = await fetch(`/api/messages/${messageId}/attachments`, {
+          cache: "no-store",
+        });
+        const data = await response.json();
+
+        if (response.ok) {
+          setAttachments(data.attachments || []);
+        }
+      } catch (error) {
+        console.error("Error fetching attachments:", error);
+      }
+    }
+
+    fetchAttachments();
+  }, [messageId]);
+
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-[#1A1A1A]/80 backdrop-blur-lg rounded-xl p-4 sm:p-6 md:p-8 border border-white/10 space-y-4">
+      <div className="flex items-center gap-2">
+        <ImageIcon className="w-5 h-5 text-purple-400" />
+        <h2 className="text-lg sm:text-xl font-bold text-white">
+          Attached Images ({attachments.length})
+        </h2>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {attachments.map((attachment) => (
+          <a
+            key={attachment.id}
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block overflow-hidden rounded-lg border border-white/10 bg-black/40"
+          >
+            {/* Signed URLs expire, so they skip the image optimizer */}
+            <Image
+              src={attachment.url}
+              alt="Image attached by the sender"
+              width={attachment.width || FALLBACK_WIDTH}
+              height={attachment.height || FALLBACK_HEIGHT}
+              referrerPolicy="no-referrer"
+              className="w-full h-auto max-h-96 object-contain"
+              unoptimized
+            />
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Tag, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  LABEL_COLORS,
+  MAX_LABEL_NAME_LENGTH,
+  getLabelDotClass,
+  type LabelColor,
+} from "@/lib/constants/message-labels";
+import {
+  useMessageFoldersStore,
+  fetchMessageFolders,
+} from "@/lib/stores/message-folders-store";
+
+interface MessageLabelsDialogProps {
+  messageId: string;
+  labelIds: string[];
+  onChange?: (labelIds: string[]) => void;
+  trigger?: React.ReactNode;
+}
+
+/**
+ * Message Labels Dialog
+ *
+ * Pick the labels on a message, and create or delete labels inline
+ */
+export function MessageLabelsDialog({
+  messageId,
+  labelIds,
+  onChange,
+  trigger,
+}: MessageLabelsDialogProps) {
+  const { labels } = useMessageFoldersStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>(labelIds);
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<LabelColor>(LABEL_COLORS.PURPLE);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the message's current labels each time the dialog opens
+  const handleOpenChange = (open: boolean) => {
+    if (open) setSelected(labelIds);
+    setIsOpen(open);
+  };
+
+  const toggleLabel = (labelId: string) => {
+    setSelected((prev) =>
+      prev.includes(labelId)
+        ? prev.filter((id) => id !== labelId)
+        : [...prev, labelId]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const response = await fetch("/api/labels", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newName, color: newColor }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || "Failed to create label");
+        return;
+      }
+
+      await fetchMessageFolders();
+      setSelected((prev) => [...prev, data.label.id]);
+      setNewName("");
+    } catch (error) {
+      console.error("Error creating label:", error);
+      toast.error("Failed to create label");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (labelId: string, name: string) => {
+    if (!confirm(`Delete the "${name}" label? It will be removed from all messages.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/labels/${labelId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        toast.error("Failed to delete label");
+        return;
+      }
+
+      setSelected((prev) => prev.filter((id) => id !== labelId));
+      onChange?.(labelIds.filter((id) => id !== labelId));
+      await fetchMessageFolders();
+      toast.success("Label deleted");
+    } catch (error) {
+      console.error("Error deleting label:", error);
+      toast.error("Failed to delete label");
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/messages/${messageId}/labels`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ label_ids: selected }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || "Failed to update labels");
+        return;
+      }
+
+      onChange?.(data.label_ids);
+      fetchMessageFolders();
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Error updating labels:", error);
+      toast.error("Failed to update labels");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        {trigger || (
+          <Button variant="ghost" size="sm" className="gap-2 text-gray-400 hover:text-white hover:bg-gray-800">
+            <Tag className="w-4 h-4" />
+            Labels
+          </Button>
+        )}
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Labels</AlertDialogTitle>
+          <AlertDialogDescription>
+            Organize this message with one or more labels. Only you can see them.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4 py-2">
+          {labels.length > 0 ? (
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {labels.map((label) => (
+                <div
+                  key={label.id}
+                  className="flex items-center gap-3 px-2 py-1.5 rounded-lg hover:bg-white/5"
+                >
+                  <label className="flex flex-1 items-center gap-3 cursor-pointer min-w-0">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(label.id)}
+                      onChange={() => toggleLabel(label.id)}
+                      className="w-4 h-4 accent-purple-500"
+                    />
+                    <span
+                      className={cn(
+                        "w-2.5 h-2.5 rounded-full shrink-0",
+                        getLabelDotClass(label.color)
+                      )}
+                    />
+                    <span className="text-sm text-white truncate">{label.name}</span>
+                  </label>
+                  <button
+                    onClick={() => handleDelete(label.id, label.name)}
+                    className="p-1 text-gray-500 hover:text-red-500 transition-colors"
+                    title="Delete label"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No labels yet - create one below</p>
+          )}
+
+          {/* New label */}
+          <div className="space-y-2 pt-2 border-t border-gray-800">
+            <div className="flex gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleCreate();
+                  }
+                }}
+                placeholder="New label"
+                maxLength={MAX_LABEL_NAME_LENGTH}
+                disabled={isCreating}
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleCreate}
+                disabled={isCreating || !newName.trim()}
+                title="Create label"
+              >
+                {isCreating ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Plus className="w-4 h-4" />
+                )}
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              {Object.values(LABEL_COLORS).map((color) => (
+                <button
+                  key={color}
+                  onClick={() => setNewColor(color)}
+                  className={cn(
+                    "w-5 h-5 rounded-full transition-transform",
+                    getLabelDotClass(color),
+                    newColor === color
+                      ? "ring-2 ring-white ring-offset-2 ring-offset-gray-900 scale-110"
+                      : "opacity-70 hover:opacity-100"
+                  )}
+                  title={color}
+                  aria-label={`Label color ${color}`}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              // Keep the dialog open until the save finishes
+              e.preventDefault();
+              handleSave();
+            }}
+            disabled={isSaving}
+            className="bg-linear-to-r from-purple-600 to-pink-600"
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Send } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import type { ThreadReply } from "@/lib/db/threads";
+
+interface MessageThreadProps {
+  messageId: string;
+}
+
+const MAX_REPLY_LENGTH = 1000;
+
+/**
+ * Message Thread
+ *
+ * Private conversation with the anonymous sender. The sender reads and
+ * follows up through the secret link they received when sending
+ */
+export function MessageThread({ messageId }: MessageThreadProps) {
+  const [replies, setReplies] = useState<ThreadReply[]>([]);
+  const [hasThread, setHasThread] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    async function fetchReplies() {
+      try {
+        const response = await fetch(`/api/messages/${messageId}/replies`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setReplies(data.replies || []);
+          setHasThread(data.has_thread);
+        }
+      } catch (error) {
+        console.error("Error fetching replies:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchReplies();
+  }, [messageId]);
+
+  // Send a private reply
+  const sendReply = async () => {
+    if (!draft.trim()) {
+      toast.error("Please write a reply");
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const response = await fetch(`/api/messages/${messageId}/replies`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: draft }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || "Failed to send reply");
+        return;
+      }
+
+      setReplies((prev) => [...prev, data.reply]);
+      setDraft("");
+      toast.success("Reply sent privately");
+    } catch (error) {
+      console.error("Error sending reply:", error);
+      toast.error("Failed to send reply");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-[#1A1A1A]/80 backdrop-blur-lg rounded-xl p-4 sm:p-6 border border-white/10 flex justify-center">
+        <Loader2 className="w-5 h-5 animate-spin text-purple-500" />
+      </div>
+    );
+  }
+
+  // Older messages were sent before threads and have no way back to the sender
+  if (!hasThread) {
+    return null;
+  }
+
+  return (
+    <div className="bg-[#1A1A1A]/80 backdrop-blur-lg rounded-xl p-4 sm:p-6 md:p-8 border border-white/10 space-y-4">
+      <div>
+        <h2 className="text-lg sm:text-xl font-bold text-white">Private Thread</h2>
+        <p className="text-xs sm:text-sm text-gray-400">
+          Only the sender can see these replies, through their secret link
+        </p>
+      </div>
+
+      {replies.length > 0 ? (
+        <div className="space-y-3">
+          {replies.map((reply) => {
+            const fromRecipient = reply.author === "recipient";
+
+            return (
+              <div
+                key={reply.id}
+                className={cn(
+                  "flex flex-col",
+                  fromRecipient ? "items-end" : "items-start"
+                )}
+              >
+                <div
+                  className={cn(
+                    "max-w-[85%] rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap break-words",
+                    fromRecipient
+                      ? "bg-purple-500/20 text-white rounded-br-sm"
+                      : "bg-white/5 border border-white/10 text-white rounded-bl-sm"
+                  )}
+                >
+                  {reply.content}
+                </div>
+                <span className="text-[11px] text-gray-500 mt-1">
+                  {fromRecipient ? "You" : "Anonymous"} ·{" "}
+                  {new Date(reply.created_at).toLocaleString()}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No replies yet</p>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Reply privately..."
+          className="min-h-[80px] resize-none"
+          maxLength={MAX_REPLY_LENGTH}
+          disabled={isSending}
+        />
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-gray-500">
+            {draft.length}/{MAX_REPLY_LENGTH}
+          </p>
+          <button
+            onClick={sendReply}
+            disabled={isSending || !draft.trim()}
+            className="inline-flex items-center justify-center gap-2 px-3 sm:px-4 py-2 bg-purple-500/10 hover:bg-purple-500/20 text-purple-400 rounded-lg transition-colors disabled:opacity-50 text-sm"
+          >
+            {isSending ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Send className="w-4 h-4" />
+            )}
+            <span>Send Reply</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
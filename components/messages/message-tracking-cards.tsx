@@ -6,6 +6,8 @@ import {
   formatTimezoneDisplay,
   getLocalTimeForTimezone,
 } from '@/lib/utils/timezone-mapper';
+import type { ModerationMatch, ModerationVerdict } from '@/lib/types/moderation.types';
+import { getBlockRuleTypeText, type BlockRuleType } from '@/lib/utils/blocking';
 
 /**
  * Message with tracking data
@@ -17,8 +19,6 @@ export interface MessageWithTracking {
   is_flagged: boolean;
   created_at: string;
   read_at: string | null;
-  sender_ip_hash: string;
-  sender_ip_raw?: string | null;
   sender_device_type?: string | null;
   sender_browser?: string | null;
   sender_os?: string | null;
@@ -34,6 +34,9 @@ export interface MessageWithTracking {
   sender_pixel_ratio?: number | null;
   sender_touch_support?: boolean | null;
   sender_connection_type?: string | null;
+  // Moderation
+  moderation_verdict?: ModerationVerdict;
+  moderation_matches?: ModerationMatch[];
 }
 
 export interface MessageMetadata {
@@ -41,6 +44,8 @@ export interface MessageMetadata {
   is_sender_blocked: boolean;
   blocked_reason?: string | null;
   blocked_at?: string | null;
+  blocked_rule_type?: BlockRuleType | null;
+  blocked_until?: string | null;
 }
 
 interface MessageTrackingCardsProps {
@@ -235,13 +240,6 @@ export function MessageTrackingCards({ message, metadata }: MessageTrackingCards
         </div>
 
         <div className="space-y-3">
-          {message.sender_ip_raw && (
-            <div>
-              <p className="text-sm text-gray-400">IP Address</p>
-              <p className="text-white font-medium font-mono">{message.sender_ip_raw}</p>
-            </div>
-          )}
-
           {message.sender_timezone && countryInfo && (
             <div>
               <p className="text-sm text-gray-400">Country/Region</p>
@@ -274,7 +272,7 @@ export function MessageTrackingCards({ message, metadata }: MessageTrackingCards
             </div>
           )}
 
-          {!message.sender_ip_raw && !message.sender_timezone && !message.sender_language && (
+          {!message.sender_timezone && !message.sender_language && (
             <p className="text-sm text-gray-500 italic">No location data available</p>
           )}
         </div>
@@ -350,6 +348,13 @@ export function MessageTrackingCards({ message, metadata }: MessageTrackingCards
           {metadata.is_sender_blocked && (
             <div className="mt-3 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
               <p className="text-sm font-medium text-red-400">🚫 Sender is blocked</p>
+              {metadata.blocked_rule_type && (
+                <p className="text-xs text-red-300 mt-1">
+                  Matched rule: {getBlockRuleTypeText(metadata.blocked_rule_type)}
+                  {metadata.blocked_until &&
+                    ` (until ${new Date(metadata.blocked_until).toLocaleDateString()})`}
+                </p>
+              )}
               {metadata.blocked_reason && (
                 <p className="text-xs text-red-300 mt-1">Reason: {metadata.blocked_reason}</p>
               )}
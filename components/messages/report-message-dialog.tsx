@@ -28,7 +28,7 @@ import { REPORT_REASONS, type ReportReason } from "@/lib/constants/report-reason
 
 interface ReportMessageDialogProps {
   messageId: string;
-  onReported?: (senderIpHash: string) => void;
+  onReported?: () => void;
   trigger?: React.ReactNode;
 }
 
@@ -62,11 +62,7 @@ export function ReportMessageDialog({
         toast.success("Message reported successfully");
         setIsOpen(false);
         setDetails("");
-
-        // Optionally pass sender IP hash for blocking
-        if (data.sender_ip_hash) {
-          onReported?.(data.sender_ip_hash);
-        }
+        onReported?.();
       } else {
         toast.error(data.error || "Failed to report message");
       }
@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import type { SenderThread as SenderThreadData } from "@/lib/db/threads";
+
+const MAX_REPLY_LENGTH = 1000;
+
+/**
+ * Sender Thread
+ *
+ * Reads the secret token from the URL fragment, loads the conversation and
+ * lets the anonymous sender follow up - no account required
+ */
+export function SenderThread() {
+  const [token, setToken] = useState<string | null>(null);
+  const [thread, setThread] = useState<SenderThreadData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    async function fetchThread() {
+      const hashToken = window.location.hash.slice(1);
+      if (!hashToken) {
+        setIsLoading(false);
+        return;
+      }
+
+      setToken(hashToken);
+      try {
+        const response = await fetch("/api/thread", {
+          headers: { "x-thread-token": hashToken },
+          cache: "no-store",
+        });
+        const data = await response.json();
+
+        if (response.ok) {
+          setThread(data.thread);
+        }
+      } catch (error) {
+        console.error("Error fetching thread:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchThread();
+  }, []);
+
+  // Send a follow-up
+  const sendFollowUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !draft.trim()) return;
+
+    setIsSending(true);
+    try {
+      const response = await fetch("/api/thread", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-thread-token": token,
+        },
+        body: JSON.stringify({ content: draft }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || "Failed to send reply");
+        return;
+      }
+
+      setThread((prev) =>
+        prev ? { ...prev, replies: [...prev.replies, data.reply] } : prev
+      );
+      setDraft("");
+      toast.success("Reply sent anonymously!");
+    } catch (error) {
+      console.error("Error sending follow-up:", error);
+      toast.error("An error occurred. Please try again.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-6 mb-6 flex justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-[#FF006E]" />
+      </div>
+    );
+  }
+
+  if (!thread) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-6 mb-6 text-center space-y-2">
+        <h1 className="text-xl font-bold text-black">conversation not found</h1>
+        <p className="text-gray-600 text-sm">
+          this secret link is invalid or the message was deleted.
+        </p>
+      </div>
+    );
+  }
+
+  const renderBubble = (
+    key: string,
+    content: string,
+    createdAt: string,
+    fromSender: boolean
+  ) => (
+    <div
+      key={key}
+      className={cn("flex flex-col", fromSender ? "items-end" : "items-start")}
+    >
+      <div
+        className={cn(
+          "max-w-[85%] rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap break-words",
+          fromSender
+            ? "bg-black text-white rounded-br-sm"
+            : "bg-gradient-to-br from-[#FF006E] to-[#FF8C42] text-white rounded-bl-sm"
+        )}
+      >
+        {content}
+      </div>
+      <span className="text-[11px] text-gray-400 mt-1">
+        {fromSender ? "you" : `@${thread.recipientUsername}`} ·{" "}
+        {new Date(createdAt).toLocaleString()}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-6 space-y-4">
+      <div className="text-center space-y-1">
+        <h1 className="text-xl font-bold text-black">
+          your chat with @{thread.recipientUsername}
+        </h1>
+        <p className="text-gray-600 text-sm">
+          only you and they can see this. you stay anonymous.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {renderBubble(
+          thread.message.id,
+          thread.message.content,
+          thread.message.created_at,
+          true
+        )}
+        {thread.replies.map((reply) =>
+          renderBubble(
+            reply.id,
+            reply.content,
+            reply.created_at,
+            reply.author === "sender"
+          )
+        )}
+        {thread.replies.length === 0 && (
+          <p className="text-center text-xs text-gray-500 py-2">
+            no reply yet - check back later with this link
+          </p>
+        )}
+      </div>
+
+      <form onSubmit={sendFollowUp} className="space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="send a follow-up..."
+          className="min-h-[80px] resize-none text-base text-black border-gray-300 focus:border-black focus:ring-black"
+          maxLength={MAX_REPLY_LENGTH}
+          disabled={isSending}
+        />
+        <Button
+          type="submit"
+          disabled={isSending || !draft.trim()}
+          className="w-full bg-black text-white rounded-full py-4 font-bold hover:bg-gray-900 transition-colors"
+        >
+          {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : "send"}
+        </Button>
+      </form>
+    </div>
+  );
+}
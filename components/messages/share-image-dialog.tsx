@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Download, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  SHARE_IMAGE_FORMATS,
+  SHARE_IMAGE_TEMPLATES,
+  SHARE_IMAGE_THEMES,
+  SHARE_IMAGE_DIMENSIONS,
+  getShareImageFormatText,
+  getShareImageTemplateText,
+  type ShareImageFormat,
+  type ShareImageTemplate,
+  type ShareImageTheme,
+} from "@/lib/constants/share-image";
+
+interface ShareImageDialogProps {
+  messageId: string;
+  trigger?: React.ReactNode;
+}
+
+/**
+ * Share Image Dialog
+ *
+ * Pick a format, template and theme, preview the generated card and
+ * download it for posting to stories
+ */
+export function ShareImageDialog({ messageId, trigger }: ShareImageDialogProps) {
+  const [format, setFormat] = useState<ShareImageFormat>(
+    SHARE_IMAGE_FORMATS.STORY
+  );
+  const [template, setTemplate] = useState<ShareImageTemplate>(
+    SHARE_IMAGE_TEMPLATES.SUNSET
+  );
+  const [theme, setTheme] = useState<ShareImageTheme>(SHARE_IMAGE_THEMES.LIGHT);
+
+  const query = new URLSearchParams({ format, template, theme });
+  const imageUrl = `/api/messages/${messageId}/share-image?${query}`;
+  const { width, height } = SHARE_IMAGE_DIMENSIONS[format];
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline" size="sm" className="gap-2">
+            <Share2 className="w-4 h-4" />
+            Share
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share as image</DialogTitle>
+          <DialogDescription>
+            Download a card of this message for your story or feed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="share-format" className="text-white">
+              Format
+            </Label>
+            <Select
+              value={format}
+              onValueChange={(value) => setFormat(value as ShareImageFormat)}
+            >
+              <SelectTrigger id="share-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(SHARE_IMAGE_FORMATS).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {getShareImageFormatText(value)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="share-template" className="text-white">
+              Template
+            </Label>
+            <Select
+              value={template}
+              onValueChange={(value) =>
+                setTemplate(value as ShareImageTemplate)
+              }
+            >
+              <SelectTrigger id="share-template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(SHARE_IMAGE_TEMPLATES).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {getShareImageTemplateText(value)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="share-theme" className="text-white">
+              Theme
+            </Label>
+            <Select
+              value={theme}
+              onValueChange={(value) => setTheme(value as ShareImageTheme)}
+            >
+              <SelectTrigger id="share-theme">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SHARE_IMAGE_THEMES.LIGHT}>Light</SelectItem>
+                <SelectItem value={SHARE_IMAGE_THEMES.DARK}>Dark</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="flex justify-center rounded-lg bg-gray-900/50 p-3">
+          <Image
+            key={imageUrl}
+            src={imageUrl}
+            alt="Share image preview"
+            width={width}
+            height={height}
+            className="h-auto max-h-[50vh] w-auto rounded-md"
+            unoptimized
+          />
+        </div>
+
+        <Button
+          asChild
+          className="w-full bg-linear-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
+        >
+          <a href={`${imageUrl}&download=1`} download>
+            <Download className="w-4 h-4 mr-2" />
+            Download PNG
+          </a>
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Loader2, MailX, CheckCircle2 } from "lucide-react";
+import { MagicCard } from "@/components/ui/magic-card";
+import { Button } from "@/components/ui/button";
+import {
+  EMAIL_UNSUBSCRIBE_KINDS,
+  getEmailUnsubscribeKindText,
+  type EmailUnsubscribeKind,
+} from "@/lib/constants/email-notifications";
+
+interface EmailUnsubscribeProps {
+  /** Token from the email link */
+  token: string;
+  /** What the token turns off */
+  kind: EmailUnsubscribeKind;
+  /** Token for the same account that turns off every email */
+  allToken: string;
+}
+
+/**
+ * Confirms an unsubscribe from an email link. Asks first, so link
+ * scanners that open every URL in an email don't unsubscribe anyone
+ */
+export function EmailUnsubscribe({
+  token,
+  kind,
+  allToken,
+}: EmailUnsubscribeProps) {
+  const [submitting, setSubmitting] = useState<string | null>(null);
+  const [unsubscribedKind, setUnsubscribedKind] =
+    useState<EmailUnsubscribeKind | null>(null);
+
+  const unsubscribe = async (unsubscribeToken: string) => {
+    setSubmitting(unsubscribeToken);
+    try {
+      const response = await fetch(
+        `/api/notifications/email/unsubscribe?token=${encodeURIComponent(
+          unsubscribeToken
+        )}`,
+        { method: "POST" }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        setUnsubscribedKind(data.kind);
+      } else {
+        toast.error(data.error || "Failed to unsubscribe");
+      }
+    } catch (error) {
+      console.error("Error unsubscribing:", error);
+      toast.error("An error occurred. Please try again.");
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <MagicCard
+      className="p-8 backdrop-blur-xl bg-[#1A1A1A]/50 border border-white/10"
+      gradientColor="#8B5CF6"
+    >
+      {unsubscribedKind ? (
+        <div className="space-y-6 text-center">
+          <CheckCircle2 className="w-10 h-10 mx-auto text-green-400" />
+          <p className="text-sm text-muted-foreground">
+            You won&apos;t get {getEmailUnsubscribeKindText(unsubscribedKind)}{" "}
+            any more. You can turn them back on in your notification settings.
+          </p>
+          <Button asChild variant="outline" className="w-full">
+            <Link href="/dashboard/settings">Notification Settings</Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            Stop getting {getEmailUnsubscribeKindText(kind)} from NGLFS?
+          </p>
+
+          <Button
+            onClick={() => unsubscribe(token)}
+            disabled={submitting !== null}
+            className="w-full bg-linear-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
+          >
+            {submitting === token ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <MailX className="w-4 h-4 mr-2" />
+            )}
+            Unsubscribe
+          </Button>
+
+          {kind !== EMAIL_UNSUBSCRIBE_KINDS.ALL && (
+            <Button
+              variant="outline"
+              onClick={() => unsubscribe(allToken)}
+              disabled={submitting !== null}
+              className="w-full"
+            >
+              {submitting === allToken && (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              )}
+              Unsubscribe From All Emails
+            </Button>
+          )}
+        </div>
+      )}
+    </MagicCard>
+  );
+}
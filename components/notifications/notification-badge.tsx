@@ -10,6 +10,7 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/lib/auth/auth-context';
 import { createClient } from '@/lib/supabase/client';
+import { MODERATION_VERDICTS } from '@/lib/moderation/constants';
 
 interface NotificationBadgeProps {
   /** Additional CSS classes */
@@ -75,7 +76,8 @@ export function NotificationBadge({ className = '', showDot = false }: Notificat
         .from('messages')
         .select('*', { count: 'exact', head: true })
         .eq('recipient_id', user.id)
-        .eq('is_read', false);
+        .eq('is_read', false)
+        .eq('moderation_verdict', MODERATION_VERDICTS.DELIVER);
 
       if (!error && count !== null) {
         setUnreadCount(count);
@@ -161,7 +163,8 @@ export function useUnreadCount() {
         .from('messages')
         .select('*', { count: 'exact', head: true })
         .eq('recipient_id', user.id)
-        .eq('is_read', false);
+        .eq('is_read', false)
+        .eq('moderation_verdict', MODERATION_VERDICTS.DELIVER);
 
       if (!error && count !== null) {
         setCount(count);
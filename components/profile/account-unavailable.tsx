@@ -0,0 +1,45 @@
+import Link from "next/link";
+import { UserX } from "lucide-react";
+
+interface AccountUnavailableProps {
+  username: string;
+  /** Suspended by a platform admin rather than deactivated by its owner */
+  suspended?: boolean;
+}
+
+/**
+ * Public page for a deactivated account (e.g. one pending deletion) or one
+ * suspended by a platform admin - the profile itself is hidden, so only the
+ * username is shown
+ */
+export function AccountUnavailable({
+  username,
+  suspended = false,
+}: AccountUnavailableProps) {
+  return (
+    <div className="relative min-h-screen flex items-center justify-center p-4 sm:p-6 bg-gradient-to-br from-[#FF006E] via-[#FF4B7A] to-[#FF8C42] overflow-hidden">
+      <div className="relative z-10 w-full max-w-md">
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+          <div className="text-center space-y-3 py-4">
+            <UserX className="w-10 h-10 mx-auto text-[#FF006E]" />
+            <h1 className="text-xl font-bold text-black">
+              @{username.toLowerCase()} isn&apos;t available
+            </h1>
+            <p className="text-gray-600 text-sm">
+              {suspended
+                ? "this account has been suspended and isn't taking messages"
+                : "this account has been deactivated and isn't taking messages"}
+            </p>
+          </div>
+        </div>
+
+        <Link
+          href="/"
+          className="block w-full bg-secondary text-white text-xl font-bold py-2 rounded-full hover:bg-gray-900 transition-colors text-center"
+        >
+          get your own messages!
+        </Link>
+      </div>
+    </div>
+  );
+}
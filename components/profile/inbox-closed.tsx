@@ -0,0 +1,47 @@
+"use client";
+
+import { Moon } from "lucide-react";
+import { DEFAULT_CLOSED_MESSAGE } from "@/lib/constants/inbox-availability";
+
+interface InboxClosedProps {
+  username: string;
+  /** The owner's custom closed message */
+  closedMessage: string | null;
+  /** When the inbox opens again (null if unknown) */
+  reopensAt: string | null;
+}
+
+/**
+ * Shown instead of the message form while an inbox is closed. Client-side
+ * so the reopening time is in the visitor's own timezone
+ */
+export function InboxClosed({
+  username,
+  closedMessage,
+  reopensAt,
+}: InboxClosedProps) {
+  return (
+    <div className="text-center space-y-3 py-4">
+      <Moon className="w-10 h-10 mx-auto text-[#FF006E]" />
+      <h2 className="text-xl font-bold text-black">
+        @{username}&apos;s inbox is closed
+      </h2>
+      <p className="text-gray-600 text-sm whitespace-pre-wrap break-words">
+        {closedMessage || DEFAULT_CLOSED_MESSAGE}
+      </p>
+      {reopensAt && (
+        // Server and browser format the time in different timezones
+        <p className="text-gray-500 text-xs" suppressHydrationWarning>
+          opens again{" "}
+          {new Date(reopensAt).toLocaleString(undefined, {
+            weekday: "short",
+            month: "short",
+            day: "numeric",
+            hour: "numeric",
+            minute: "2-digit",
+          })}
+        </p>
+      )}
+    </div>
+  );
+}
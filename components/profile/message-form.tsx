@@ -1,25 +1,105 @@
 "use client";
 
-import { useState } from "react";
-import { Loader2 } from "lucide-react";
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { Loader2, ImagePlus, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { collectClientTrackingData } from "@/components/tracking/client-tracker";
+import { useProofOfWork } from "@/hooks/use-proof-of-work";
+import type { PublicPrompt } from "@/lib/db/prompts";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+} from "@/lib/constants/attachments";
 
 interface MessageFormProps {
   recipientUsername: string;
+  prompts?: PublicPrompt[];
+  /** Campaign link the form is rendered on (/[username]/q/[slug]) */
+  linkId?: string;
+  /** The campaign link's own prompt - replaces the profile prompts */
+  linkPrompt?: string | null;
+  /** Whether the recipient accepts image attachments */
+  allowImages?: boolean;
 }
 
-export function MessageForm({ recipientUsername }: MessageFormProps) {
+/**
+ * Read a file as a base64 data URL for the send API
+ */
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function MessageForm({
+  recipientUsername,
+  prompts = [],
+  linkId,
+  linkPrompt,
+  allowImages = false,
+}: MessageFormProps) {
   const [message, setMessage] = useState("");
+  const [promptId, setPromptId] = useState<string | undefined>(prompts[0]?.id);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [threadUrl, setThreadUrl] = useState<string | null>(null);
+  const [images, setImages] = useState<{ file: File; preview: string }[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { takeProof } = useProofOfWork();
+  const router = useRouter();
 
   const MAX_LENGTH = 1000;
   const remainingChars = MAX_LENGTH - message.length;
 
+  /**
+   * Add picked images (validated again server-side)
+   */
+  const handleImagesPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const valid = picked.filter((file) => {
+      if (!(ALLOWED_ATTACHMENT_TYPES as readonly string[]).includes(file.type)) {
+        toast.error("Only JPEG, PNG, and WebP images are allowed");
+        return false;
+      }
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        toast.error(
+          `Each image must be smaller than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)}MB`
+        );
+        return false;
+      }
+      return true;
+    });
+
+    if (images.length + valid.length > MAX_ATTACHMENTS) {
+      toast.error(`You can attach up to ${MAX_ATTACHMENTS} images`);
+    }
+
+    setImages((prev) => [
+      ...prev,
+      ...valid
+        .slice(0, MAX_ATTACHMENTS - prev.length)
+        .map((file) => ({ file, preview: URL.createObjectURL(file) })),
+    ]);
+  };
+
+  const removeImage = (index: number) => {
+    setImages((prev) => {
+      URL.revokeObjectURL(prev[index].preview);
+      return prev.filter((_, i) => i !== index);
+    });
+  };
+
   /**
    * Handle message submission
    */
@@ -42,33 +122,57 @@ export function MessageForm({ recipientUsername }: MessageFormProps) {
     try {
       // Collect comprehensive client-side tracking data
       const clientTracking = collectClientTrackingData();
+      const encodedImages =
+        images.length > 0
+          ? await Promise.all(images.map(({ file }) => readFileAsDataUrl(file)))
+          : undefined;
 
-      const response = await fetch("/api/messages/send", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
+      const body = {
+        recipient_username: recipientUsername,
+        content: message.trim(),
+        prompt_id: promptId,
+        link_id: linkId,
+        images: encodedImages,
+        // Include full client tracking data for comprehensive analytics
+        clientData: {
+          timezone: clientTracking.timezone,
+          language: clientTracking.language,
+          screenResolution: clientTracking.screenResolution,
+          viewportSize: clientTracking.viewportSize,
+          availableScreen: clientTracking.availableScreen,
+          colorDepth: clientTracking.colorDepth,
+          pixelRatio: clientTracking.pixelRatio,
+          touchSupport: clientTracking.touchSupport,
+          connectionType: clientTracking.connectionType,
         },
-        body: JSON.stringify({
-          recipient_username: recipientUsername,
-          content: message.trim(),
-          // Include full client tracking data for comprehensive analytics
-          clientData: {
-            timezone: clientTracking.timezone,
-            language: clientTracking.language,
-            screenResolution: clientTracking.screenResolution,
-            viewportSize: clientTracking.viewportSize,
-            availableScreen: clientTracking.availableScreen,
-            colorDepth: clientTracking.colorDepth,
-            pixelRatio: clientTracking.pixelRatio,
-            touchSupport: clientTracking.touchSupport,
-            connectionType: clientTracking.connectionType,
+      };
+
+      const send = async () =>
+        fetch("/api/messages/send", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
           },
-        }),
-      });
+          body: JSON.stringify({ ...body, pow: await takeProof() }),
+        });
 
-      const data = await response.json();
+      let response = await send();
+      let data = await response.json();
+
+      // The proof expired or was refused - solve a fresh one and retry once
+      if (response.status === 403 && data.challenge_required) {
+        response = await send();
+        data = await response.json();
+      }
 
       if (!response.ok) {
+        // The inbox closed since the page loaded - show the closed message
+        if (response.status === 403 && data.inbox_closed) {
+          toast.error(data.error);
+          router.refresh();
+          return;
+        }
+
         // Handle rate limiting
         if (response.status === 429) {
           toast.error(
@@ -84,8 +188,16 @@ export function MessageForm({ recipientUsername }: MessageFormProps) {
       // Success!
       setShowSuccess(true);
       setMessage("");
+      images.forEach(({ preview }) => URL.revokeObjectURL(preview));
+      setImages([]);
       toast.success("Message sent anonymously! 🎉");
 
+      // Secret link to the private reply thread - the fragment never reaches the server
+      if (data.thread_token) {
+        setThreadUrl(`${window.location.origin}/thread#${data.thread_token}`);
+        return;
+      }
+
       // Reset success state after 5 seconds
       setTimeout(() => {
         setShowSuccess(false);
@@ -98,6 +210,20 @@ export function MessageForm({ recipientUsername }: MessageFormProps) {
     }
   };
 
+  /**
+   * Copy the secret thread link
+   */
+  const copyThreadUrl = async () => {
+    if (!threadUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(threadUrl);
+      toast.success("Secret link copied!");
+    } catch {
+      toast.error("Failed to copy link");
+    }
+  };
+
   if (showSuccess) {
     return (
       <div className="space-y-6 py-8">
@@ -129,9 +255,40 @@ export function MessageForm({ recipientUsername }: MessageFormProps) {
           </div>
         </div>
 
+        {/* Secret Thread Link */}
+        {threadUrl && (
+          <div className="rounded-xl border border-gray-200 bg-gray-50 p-4 space-y-3">
+            <p className="text-sm text-black font-semibold text-center">
+              want to see if they reply?
+            </p>
+            <p className="text-xs text-gray-600 text-center">
+              save this secret link - it&apos;s the only way back to your
+              conversation, and we can&apos;t recover it for you.
+            </p>
+            <div className="flex gap-2">
+              <input
+                readOnly
+                value={threadUrl}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 rounded-lg border border-gray-300 bg-white px-3 py-2 text-xs text-black"
+              />
+              <Button
+                type="button"
+                onClick={copyThreadUrl}
+                className="bg-black text-white rounded-lg hover:bg-gray-900"
+              >
+                copy
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Send Another Button */}
         <Button
-          onClick={() => setShowSuccess(false)}
+          onClick={() => {
+            setShowSuccess(false);
+            setThreadUrl(null);
+          }}
           className="w-full bg-black text-white rounded-full py-4 text-lg font-bold hover:bg-gray-900 transition-colors"
         >
           send another message
@@ -142,6 +299,47 @@ export function MessageForm({ recipientUsername }: MessageFormProps) {
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
+      {/* Campaign Link Prompt */}
+      {linkPrompt && (
+        <div className="rounded-xl bg-gradient-to-br from-[#FF006E] to-[#FF8C42] px-4 py-3 text-center">
+          <p className="text-white font-bold break-words">{linkPrompt}</p>
+        </div>
+      )}
+
+      {/* Active Prompt */}
+      {prompts.length > 0 && (
+        <div className="space-y-2">
+          <div className="rounded-xl bg-gradient-to-br from-[#FF006E] to-[#FF8C42] px-4 py-3 text-center">
+            <p className="text-white font-bold break-words">
+              {prompts.find((prompt) => prompt.id === promptId)?.text ||
+                "send me anything"}
+            </p>
+          </div>
+
+          {/* Prompt picker (only when the owner has several active prompts) */}
+          {prompts.length > 1 && (
+            <div className="flex flex-wrap justify-center gap-2">
+              {prompts.map((prompt) => (
+                <button
+                  key={prompt.id}
+                  type="button"
+                  onClick={() => setPromptId(prompt.id)}
+                  disabled={isSubmitting}
+                  className={cn(
+                    "px-3 py-1 rounded-full text-xs font-semibold border transition-colors",
+                    prompt.id === promptId
+                      ? "bg-black text-white border-black"
+                      : "bg-white text-gray-700 border-gray-300 hover:border-black"
+                  )}
+                >
+                  {prompt.text}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Message Textarea */}
       <div className="space-y-2">
         <Textarea
@@ -153,8 +351,61 @@ export function MessageForm({ recipientUsername }: MessageFormProps) {
           disabled={isSubmitting}
         />
 
-        {/* Character Counter */}
-        <div className="flex justify-end items-center text-xs">
+        {/* Attached Image Previews */}
+        {images.length > 0 && (
+          <div className="flex gap-2">
+            {images.map((image, index) => (
+              <div key={image.preview} className="relative w-16 h-16">
+                <Image
+                  src={image.preview}
+                  alt={`Attachment ${index + 1}`}
+                  width={64}
+                  height={64}
+                  className="w-16 h-16 rounded-lg object-cover border border-gray-300"
+                  unoptimized
+                />
+                <button
+                  type="button"
+                  onClick={() => removeImage(index)}
+                  disabled={isSubmitting}
+                  className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-black text-white flex items-center justify-center"
+                  aria-label="Remove image"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Attach Button + Character Counter */}
+        <div
+          className={cn(
+            "flex items-center text-xs",
+            allowImages ? "justify-between" : "justify-end"
+          )}
+        >
+          {allowImages && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+                multiple
+                onChange={handleImagesPicked}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isSubmitting || images.length >= MAX_ATTACHMENTS}
+                className="inline-flex items-center gap-1 text-gray-600 hover:text-black disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ImagePlus className="w-4 h-4" />
+                add image ({images.length}/{MAX_ATTACHMENTS})
+              </button>
+            </>
+          )}
           <span
             className={cn(
               "transition-colors",
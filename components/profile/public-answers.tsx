@@ -0,0 +1,101 @@
+import Link from "next/link";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { getPublishedAnswers, ANSWERS_PAGE_SIZE } from "@/lib/db/answers";
+
+interface PublicAnswersProps {
+  profileId: string;
+  username: string;
+  page: number;
+}
+
+/**
+ * Public Q&A wall - published question + answer pairs on /[username]
+ * Server component; pagination is driven by the ?page= search param
+ */
+export async function PublicAnswers({
+  profileId,
+  username,
+  page,
+}: PublicAnswersProps) {
+  const { answers, total } = await getPublishedAnswers(profileId, page);
+
+  if (total === 0) {
+    return null;
+  }
+
+  const totalPages = Math.ceil(total / ANSWERS_PAGE_SIZE);
+
+  return (
+    <div id="answers" className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+      <div className="space-y-4">
+        <div className="text-center space-y-1">
+          <h2 className="text-xl font-bold text-black">answers</h2>
+          <p className="text-gray-600 text-sm">
+            {total} {total === 1 ? "question" : "questions"} answered by @
+            {username}
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          {answers.map((item) => (
+            <div
+              key={item.id}
+              className="rounded-xl border border-gray-200 overflow-hidden"
+            >
+              <div className="bg-gradient-to-br from-[#FF006E] to-[#FF8C42] px-4 py-3">
+                <p className="text-white font-semibold whitespace-pre-wrap break-words">
+                  {item.question}
+                </p>
+              </div>
+              <div className="px-4 py-3 space-y-2">
+                <p className="text-black whitespace-pre-wrap break-words">
+                  {item.answer}
+                </p>
+                {item.published_at && (
+                  <p className="text-xs text-gray-500">
+                    {new Date(item.published_at).toLocaleDateString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                      year: "numeric",
+                    })}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between text-sm">
+            {page > 1 ? (
+              <Link
+                href={`/${username}?page=${page - 1}#answers`}
+                className="inline-flex items-center gap-1 font-semibold text-black hover:text-gray-600"
+              >
+                <ChevronLeft className="w-4 h-4" />
+                newer
+              </Link>
+            ) : (
+              <span />
+            )}
+            <span className="text-gray-500">
+              {page} / {totalPages}
+            </span>
+            {page < totalPages ? (
+              <Link
+                href={`/${username}?page=${page + 1}#answers`}
+                className="inline-flex items-center gap-1 font-semibold text-black hover:text-gray-600"
+              >
+                older
+                <ChevronRight className="w-4 h-4" />
+              </Link>
+            ) : (
+              <span />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
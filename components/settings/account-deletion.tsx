@@ -45,7 +45,14 @@ export function AccountDeletion() {
         return;
       }
 
-      toast.success("Account deleted successfully");
+      toast.success(
+        `Account deleted. Sign in before ${new Date(
+          result.deletion_scheduled_for
+        ).toLocaleDateString("en-US", {
+          month: "long",
+          day: "numeric",
+        })} to restore it.`
+      );
 
       // Sign out and redirect to home
       await signOut();
@@ -67,7 +74,9 @@ export function AccountDeletion() {
         <div className="flex-1">
           <h3 className="text-xl font-semibold text-white mb-2">Danger Zone</h3>
           <p className="text-gray-400 mb-4">
-            Once you delete your account, there is no going back. This action cannot be undone.
+            Deleting your account hides your profile straight away. After a
+            grace period it&apos;s permanently deleted - until then you can
+            sign in to restore it.
           </p>
 
           <Dialog open={isOpen} onOpenChange={setIsOpen}>
@@ -88,7 +97,9 @@ export function AccountDeletion() {
                 </DialogTitle>
                 <DialogDescription className="space-y-4 pt-4">
                   <p>
-                    This will permanently delete your account and all associated data:
+                    Your profile will be hidden right away, and once the
+                    grace period ends your account and all associated data
+                    will be permanently deleted:
                   </p>
                   <ul className="list-disc list-inside space-y-2 text-sm">
                     <li>Your profile and username</li>
@@ -97,7 +108,7 @@ export function AccountDeletion() {
                     <li>Your avatar and uploaded files</li>
                   </ul>
                   <p className="font-semibold text-white">
-                    This action cannot be undone!
+                    Sign in before then to restore your account.
                   </p>
                 </DialogDescription>
               </DialogHeader>
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Download, FileArchive, Loader2 } from "lucide-react";
+import { MagicCard } from "@/components/ui/magic-card";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import {
+  DATA_EXPORT_STATUSES,
+  DATA_EXPORT_TTL_DAYS,
+  getDataExportStatusText,
+  type DataExportStatus,
+} from "@/lib/constants/data-export";
+
+interface DataExportSummary {
+  id: string;
+  status: DataExportStatus;
+  file_size: number | null;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
+  download_url: string | null;
+  download_url_expires_in: number;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatExportDate(date: string): string {
+  return new Date(date).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Data Export
+ *
+ * Request a ZIP of everything stored about the account, follow it while
+ * it's prepared and download it before it expires
+ */
+export function DataExport() {
+  const [dataExport, setDataExport] = useState<DataExportSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const inProgress =
+    dataExport?.status === DATA_EXPORT_STATUSES.PENDING ||
+    dataExport?.status === DATA_EXPORT_STATUSES.PROCESSING;
+  const exportId = dataExport?.id;
+
+  // Fetch the latest export
+  const fetchLatest = useCallback(async () => {
+    try {
+      const response = await fetch("/api/profile/export");
+      const data = await response.json();
+
+      if (response.ok) {
+        setDataExport(data.export);
+      }
+    } catch (error) {
+      console.error("Error fetching data export:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLatest();
+  }, [fetchLatest]);
+
+  // Poll while the archive is being prepared
+  useEffect(() => {
+    if (!inProgress || !exportId) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/profile/export/${exportId}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setDataExport(data.export);
+
+          if (data.export.status === DATA_EXPORT_STATUSES.READY) {
+            toast.success("Your data export is ready to download");
+          } else if (data.export.status === DATA_EXPORT_STATUSES.FAILED) {
+            toast.error("Your data export failed. Please try again.");
+          }
+        }
+      } catch (error) {
+        console.error("Error checking data export:", error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [inProgress, exportId]);
+
+  // Request a new export
+  const handleRequest = async () => {
+    setIsRequesting(true);
+    try {
+      const response = await fetch("/api/profile/export", { method: "POST" });
+      const data = await response.json();
+
+      if (data.export) {
+        setDataExport(data.export);
+      }
+
+      if (response.status === 202) {
+        toast.success("We're preparing your export - this can take a few minutes");
+      } else if (response.ok) {
+        if (data.export?.status === DATA_EXPORT_STATUSES.READY) {
+          toast.success("Your data export is ready to download");
+        } else {
+          toast.error("Your data export failed. Please try again.");
+        }
+      } else {
+        toast.error(data.error || "Failed to export data");
+      }
+    } catch (error) {
+      console.error("Error requesting data export:", error);
+      toast.error("Failed to export data");
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <MagicCard className="p-8 mb-6">
+      <div className="flex items-start gap-4">
+        <div className="p-3 rounded-full bg-purple-500/10">
+          <FileArchive className="w-6 h-6 text-purple-400" />
+        </div>
+        <div className="flex-1 space-y-4">
+          <div>
+            <h3 className="text-xl font-semibold text-white mb-2">Export Your Data</h3>
+            <p className="text-gray-400">
+              Download a ZIP with your profile, every message you&apos;ve
+              received (JSON and CSV, with sender details), link visits,
+              analytics, blocked senders and notification settings. Exports
+              are deleted after {DATA_EXPORT_TTL_DAYS} days.
+            </p>
+          </div>
+
+          {dataExport && !isLoading && (
+            <div className="flex items-center justify-between gap-4 py-3 border-y border-gray-800">
+              <div>
+                <p className="text-white font-medium">
+                  {getDataExportStatusText(dataExport.status)}
+                  {dataExport.file_size !== null &&
+                    dataExport.status === DATA_EXPORT_STATUSES.READY && (
+                      <span className="text-gray-400 font-normal">
+                        {" "}
+                        · {formatFileSize(dataExport.file_size)}
+                      </span>
+                    )}
+                </p>
+                <p className="text-sm text-gray-400">
+                  Requested {formatExportDate(dataExport.created_at)}
+                  {dataExport.status === DATA_EXPORT_STATUSES.READY &&
+                    dataExport.expires_at &&
+                    ` · Available until ${formatExportDate(dataExport.expires_at)}`}
+                  {dataExport.status === DATA_EXPORT_STATUSES.FAILED &&
+                    dataExport.error &&
+                    ` · ${dataExport.error}`}
+                </p>
+              </div>
+
+              {inProgress && (
+                <Loader2 className="w-5 h-5 animate-spin text-purple-500 flex-shrink-0" />
+              )}
+              {dataExport.download_url && (
+                <Button asChild variant="outline" size="sm">
+                  <a href={dataExport.download_url} download>
+                    <Download className="w-4 h-4 mr-2" />
+                    Download
+                  </a>
+                </Button>
+              )}
+            </div>
+          )}
+
+          <Button
+            onClick={handleRequest}
+            disabled={isLoading || isRequesting || inProgress}
+          >
+            {isRequesting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Preparing...
+              </>
+            ) : (
+              "Request Export"
+            )}
+          </Button>
+        </div>
+      </div>
+    </MagicCard>
+  );
+}
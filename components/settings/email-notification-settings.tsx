@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Mail } from "lucide-react";
+import { MagicCard } from "@/components/ui/magic-card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { useAuth } from "@/lib/auth/auth-context";
+import { useProfileStore } from "@/lib/stores/profile-store";
+import {
+  EMAIL_ALERT_MIN_INTERVAL_MINUTES,
+  EMAIL_DIGEST_FREQUENCIES,
+  getEmailDigestFrequencyText,
+  type EmailDigestFrequency,
+} from "@/lib/constants/email-notifications";
+
+type EmailSettingField = "email_alerts_enabled" | "email_digest_frequency";
+
+/**
+ * Email Notification Settings
+ *
+ * Instant new message alerts and a daily or weekly digest by email - for
+ * when push notifications aren't available or aren't enough
+ */
+export function EmailNotificationSettings() {
+  const { user } = useAuth();
+  const { profile, updateProfile } = useProfileStore();
+  const [savingField, setSavingField] = useState<EmailSettingField | null>(
+    null
+  );
+
+  const alertsEnabled = !!profile?.email_alerts_enabled;
+  const digestFrequency =
+    profile?.email_digest_frequency ?? EMAIL_DIGEST_FREQUENCIES.OFF;
+
+  const save = async (
+    field: EmailSettingField,
+    value: boolean | EmailDigestFrequency,
+    successMessage: string
+  ) => {
+    setSavingField(field);
+    try {
+      const response = await fetch("/api/profile/update", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ [field]: value }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        updateProfile(data.profile);
+        toast.success(successMessage);
+      } else {
+        toast.error(data.error || "Failed to update email notifications");
+      }
+    } catch (error) {
+      console.error("Error updating email notifications:", error);
+      toast.error("Failed to update email notifications");
+    } finally {
+      setSavingField(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-1">
+          Email Notifications
+        </h3>
+        <p className="text-sm text-gray-400">
+          Get emails at{" "}
+          <span className="text-gray-300">{user?.email ?? "your account address"}</span>.
+          Message previews follow your push notification content setting, and
+          every email has an unsubscribe link.
+        </p>
+      </div>
+
+      <MagicCard className="p-4 space-y-4">
+        {/* Instant Alerts */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-white font-medium">New message alerts</p>
+            <p className="text-sm text-gray-400">
+              Email me when a message arrives (at most one every{" "}
+              {EMAIL_ALERT_MIN_INTERVAL_MINUTES} minutes)
+            </p>
+          </div>
+          <button
+            onClick={() =>
+              save(
+                "email_alerts_enabled",
+                !alertsEnabled,
+                alertsEnabled
+                  ? "Email alerts turned off"
+                  : "You'll get an email when a message arrives"
+              )
+            }
+            disabled={savingField !== null || !profile}
+            role="switch"
+            aria-checked={alertsEnabled}
+            aria-label="New message email alerts"
+            className={`relative inline-flex h-7 w-12 shrink-0 items-center rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              alertsEnabled ? "bg-purple-500" : "bg-gray-600"
+            }`}
+          >
+            <span
+              className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform ${
+                alertsEnabled ? "translate-x-6" : "translate-x-1"
+              }`}
+            />
+          </button>
+        </div>
+
+        {/* Digest */}
+        <div className="flex items-center justify-between gap-4 pt-4 border-t border-gray-800">
+          <div>
+            <Label htmlFor="email_digest_frequency" className="text-white font-medium">
+              Digest
+            </Label>
+            <p className="text-sm text-gray-400">
+              A summary of new messages and profile visits
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {savingField === "email_digest_frequency" && (
+              <Loader2 className="w-4 h-4 animate-spin text-purple-500" />
+            )}
+            <Select
+              value={digestFrequency}
+              onValueChange={(value) =>
+                save(
+                  "email_digest_frequency",
+                  value as EmailDigestFrequency,
+                  value === EMAIL_DIGEST_FREQUENCIES.OFF
+                    ? "Digest emails turned off"
+                    : `You'll get a ${getEmailDigestFrequencyText(
+                        value as EmailDigestFrequency
+                      ).toLowerCase()} digest`
+                )
+              }
+              disabled={!profile || savingField !== null}
+            >
+              <SelectTrigger id="email_digest_frequency" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(EMAIL_DIGEST_FREQUENCIES).map((frequency) => (
+                  <SelectItem key={frequency} value={frequency}>
+                    {getEmailDigestFrequencyText(frequency)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!user?.email && (
+          <p className="flex items-center gap-2 text-sm text-yellow-400">
+            <Mail className="w-4 h-4 shrink-0" />
+            Your account has no email address, so no emails will be sent
+          </p>
+        )}
+      </MagicCard>
+    </div>
+  );
+}
@@ -0,0 +1,392 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Moon, Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { MagicCard } from "@/components/ui/magic-card";
+import { toast } from "sonner";
+import { useProfileStore, type Profile } from "@/lib/stores/profile-store";
+import { getInboxStatus } from "@/lib/utils/inbox-availability";
+import {
+  DEFAULT_CLOSED_MESSAGE,
+  INBOX_CLOSED_REASONS,
+  MAX_CLOSED_MESSAGE_LENGTH,
+  MAX_DAILY_MESSAGE_CAP,
+  WEEKDAY_NAMES,
+  getInboxClosedReasonText,
+} from "@/lib/constants/inbox-availability";
+import type { InboxSchedule } from "@/lib/types/inbox-availability.types";
+
+interface ScheduleDay {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+/**
+ * One block of open hours per weekday, from the saved schedule
+ */
+function toScheduleDays(schedule: InboxSchedule | null | undefined): ScheduleDay[] {
+  return WEEKDAY_NAMES.map((_, day) => {
+    const window = schedule?.windows.find((w) => w.day === day);
+    return window
+      ? { enabled: true, start: window.start, end: window.end === "24:00" ? "00:00" : window.end }
+      : { enabled: !schedule, start: "09:00", end: "21:00" };
+  });
+}
+
+/**
+ * Open hours to save ("00:00" as an end time means midnight)
+ */
+function toSchedule(days: ScheduleDay[]): InboxSchedule {
+  return {
+    windows: days.flatMap((day, index) =>
+      day.enabled
+        ? [{ day: index, start: day.start, end: day.end === "00:00" ? "24:00" : day.end }]
+        : []
+    ),
+  };
+}
+
+function formatDateTime(date: string): string {
+  return new Date(date).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Inbox Availability Settings
+ *
+ * Pause the inbox (now or until a date), open it only during weekly hours,
+ * cap messages per day, and set the message visitors see while it's closed
+ */
+export function InboxAvailabilitySettings() {
+  const { profile, updateProfile } = useProfileStore();
+  const [isSaving, setIsSaving] = useState<string | null>(null);
+  const [pauseUntil, setPauseUntil] = useState("");
+  const [closedMessage, setClosedMessage] = useState(
+    profile?.inbox_closed_message || ""
+  );
+  const [scheduleEnabled, setScheduleEnabled] = useState(!!profile?.inbox_schedule);
+  const [scheduleDays, setScheduleDays] = useState(() =>
+    toScheduleDays(profile?.inbox_schedule)
+  );
+  const [dailyCap, setDailyCap] = useState(
+    profile?.daily_message_cap ? String(profile.daily_message_cap) : ""
+  );
+
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const status = profile
+    ? getInboxStatus({
+        inbox_paused: !!profile.inbox_paused,
+        inbox_paused_until: profile.inbox_paused_until ?? null,
+        inbox_schedule: profile.inbox_schedule ?? null,
+        inbox_timezone: profile.inbox_timezone ?? null,
+        inbox_closed_message: profile.inbox_closed_message ?? null,
+        daily_message_cap: profile.daily_message_cap ?? null,
+        inbox_cap_reached_until: profile.inbox_cap_reached_until ?? null,
+      })
+    : null;
+
+  // Save some of the availability settings
+  const save = async (
+    key: string,
+    updates: Partial<Profile>,
+    successMessage: string
+  ) => {
+    setIsSaving(key);
+    try {
+      const response = await fetch("/api/profile/update", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        updateProfile(data.profile);
+        toast.success(successMessage);
+        return true;
+      }
+
+      toast.error(
+        data.details?.[0]?.message || data.error || "Failed to update setting"
+      );
+    } catch (error) {
+      console.error("Error updating inbox availability:", error);
+      toast.error("Failed to update setting");
+    } finally {
+      setIsSaving(null);
+    }
+
+    return false;
+  };
+
+  const handlePause = async () => {
+    const until = pauseUntil ? new Date(pauseUntil).toISOString() : null;
+    const saved = await save(
+      "pause",
+      { inbox_paused: true, inbox_paused_until: until },
+      until ? `Inbox paused until ${formatDateTime(until)}` : "Inbox paused"
+    );
+    if (saved) setPauseUntil("");
+  };
+
+  const handleResume = () =>
+    save(
+      "pause",
+      { inbox_paused: false, inbox_paused_until: null },
+      "Inbox open again"
+    );
+
+  const handleSaveSchedule = () =>
+    save(
+      "schedule",
+      scheduleEnabled
+        ? { inbox_schedule: toSchedule(scheduleDays), inbox_timezone: browserTimezone }
+        : { inbox_schedule: null },
+      scheduleEnabled ? "Open hours saved" : "Open hours turned off"
+    );
+
+  const handleSaveCap = () => {
+    const cap = dailyCap.trim() ? parseInt(dailyCap, 10) : null;
+    if (cap !== null && (isNaN(cap) || cap < 1 || cap > MAX_DAILY_MESSAGE_CAP)) {
+      toast.error(`Daily limit must be between 1 and ${MAX_DAILY_MESSAGE_CAP}`);
+      return;
+    }
+
+    save(
+      "cap",
+      // The cap resets at midnight in this timezone
+      { daily_message_cap: cap, inbox_timezone: browserTimezone },
+      cap ? `Daily limit set to ${cap} messages` : "Daily limit removed"
+    );
+  };
+
+  const handleSaveClosedMessage = () =>
+    save(
+      "message",
+      { inbox_closed_message: closedMessage.trim() || null },
+      "Closed message saved"
+    );
+
+  const updateDay = (index: number, updates: Partial<ScheduleDay>) => {
+    setScheduleDays((prev) =>
+      prev.map((day, i) => (i === index ? { ...day, ...updates } : day))
+    );
+  };
+
+  const isPaused = status?.reason === INBOX_CLOSED_REASONS.PAUSED;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-lg font-medium text-white mb-1">
+          Inbox Availability
+        </h4>
+        <p className="text-sm text-gray-400">
+          Close your inbox during exams or after a viral post. Visitors see
+          your closed message instead of the message form.
+        </p>
+      </div>
+
+      {/* Current Status */}
+      {status && (
+        <MagicCard
+          className={`p-4 ${status.open ? "border-green-500/20 bg-green-500/5" : "border-yellow-500/20 bg-yellow-500/5"}`}
+        >
+          <div className="flex items-center gap-3">
+            <Moon
+              className={`w-5 h-5 flex-shrink-0 ${status.open ? "text-green-500" : "text-yellow-500"}`}
+            />
+            <p className="text-sm text-gray-300">
+              {status.open
+                ? "Your inbox is open"
+                : `Your inbox is closed - ${getInboxClosedReasonText(status.reason!).toLowerCase()}`}
+              {status.reopensAt && ` (opens ${formatDateTime(status.reopensAt)})`}
+            </p>
+          </div>
+        </MagicCard>
+      )}
+
+      {/* Pause */}
+      <MagicCard className="p-4 space-y-3">
+        <h5 className="text-white font-medium">Pause</h5>
+        {isPaused ? (
+          <Button
+            onClick={handleResume}
+            disabled={isSaving === "pause"}
+            className="gap-2 bg-linear-to-r from-purple-600 to-pink-600"
+          >
+            {isSaving === "pause" ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Play className="w-4 h-4" />
+            )}
+            Resume now
+          </Button>
+        ) : (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              type="datetime-local"
+              value={pauseUntil}
+              onChange={(e) => setPauseUntil(e.target.value)}
+              aria-label="Pause until (leave empty to pause until you resume)"
+              disabled={isSaving === "pause"}
+            />
+            <Button
+              onClick={handlePause}
+              disabled={isSaving === "pause" || !profile}
+              className="gap-2 bg-linear-to-r from-purple-600 to-pink-600 shrink-0"
+            >
+              {isSaving === "pause" ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Pause className="w-4 h-4" />
+              )}
+              {pauseUntil ? "Pause until then" : "Pause now"}
+            </Button>
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          Leave the date empty to pause until you resume.
+        </p>
+      </MagicCard>
+
+      {/* Open Hours */}
+      <MagicCard className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h5 className="text-white font-medium">Open hours</h5>
+            <p className="text-xs text-gray-500">
+              Only take messages during these hours ({browserTimezone}). Set
+              the end to 00:00 to stay open until midnight.
+            </p>
+          </div>
+          <button
+            onClick={() => setScheduleEnabled(!scheduleEnabled)}
+            role="switch"
+            aria-checked={scheduleEnabled}
+            aria-label="Use open hours"
+            className={`relative inline-flex h-7 w-12 shrink-0 items-center rounded-full transition-colors ${
+              scheduleEnabled ? "bg-purple-500" : "bg-gray-600"
+            }`}
+          >
+            <span
+              className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform ${
+                scheduleEnabled ? "translate-x-6" : "translate-x-1"
+              }`}
+            />
+          </button>
+        </div>
+
+        {scheduleEnabled && (
+          <div className="space-y-2">
+            {scheduleDays.map((day, index) => (
+              <div key={WEEKDAY_NAMES[index]} className="flex items-center gap-2">
+                <label className="flex items-center gap-2 w-32 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={day.enabled}
+                    onChange={(e) => updateDay(index, { enabled: e.target.checked })}
+                    className="w-4 h-4 accent-purple-500"
+                  />
+                  {WEEKDAY_NAMES[index]}
+                </label>
+                <Input
+                  type="time"
+                  value={day.start}
+                  onChange={(e) => updateDay(index, { start: e.target.value })}
+                  disabled={!day.enabled}
+                  aria-label={`${WEEKDAY_NAMES[index]} opens`}
+                />
+                <span className="text-gray-500">-</span>
+                <Input
+                  type="time"
+                  value={day.end}
+                  onChange={(e) => updateDay(index, { end: e.target.value })}
+                  disabled={!day.enabled}
+                  aria-label={`${WEEKDAY_NAMES[index]} closes`}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleSaveSchedule}
+          disabled={isSaving === "schedule" || !profile}
+        >
+          {isSaving === "schedule" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save open hours
+        </Button>
+      </MagicCard>
+
+      {/* Daily Limit */}
+      <MagicCard className="p-4 space-y-3">
+        <div>
+          <h5 className="text-white font-medium">Daily limit</h5>
+          <p className="text-xs text-gray-500">
+            Pause your inbox until midnight once this many messages arrive in
+            a day. Leave empty for no limit.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min={1}
+            max={MAX_DAILY_MESSAGE_CAP}
+            value={dailyCap}
+            onChange={(e) => setDailyCap(e.target.value)}
+            placeholder="No limit"
+            className="max-w-40"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSaveCap}
+            disabled={isSaving === "cap" || !profile}
+          >
+            {isSaving === "cap" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save limit
+          </Button>
+        </div>
+      </MagicCard>
+
+      {/* Closed Message */}
+      <MagicCard className="p-4 space-y-3">
+        <h5 className="text-white font-medium">Closed message</h5>
+        <Textarea
+          value={closedMessage}
+          onChange={(e) => setClosedMessage(e.target.value)}
+          placeholder={DEFAULT_CLOSED_MESSAGE}
+          maxLength={MAX_CLOSED_MESSAGE_LENGTH}
+          rows={2}
+        />
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500">
+            {closedMessage.length}/{MAX_CLOSED_MESSAGE_LENGTH}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSaveClosedMessage}
+            disabled={isSaving === "message" || !profile}
+          >
+            {isSaving === "message" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save message
+          </Button>
+        </div>
+      </MagicCard>
+    </div>
+  );
+}
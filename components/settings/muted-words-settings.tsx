@@ -0,0 +1,201 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2, Plus, VolumeX, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MagicCard } from "@/components/ui/magic-card";
+import { toast } from "sonner";
+import {
+  MAX_MUTED_WORDS,
+  MAX_MUTED_WORD_LENGTH,
+} from "@/lib/constants/muted-words";
+
+interface MutedWord {
+  id: string;
+  phrase: string;
+  whole_word: boolean;
+  created_at: string;
+}
+
+/**
+ * Muted Words Settings
+ *
+ * Words and phrases that send new messages to the Filtered folder instead
+ * of the inbox - no unread count, no push notification
+ */
+export function MutedWordsSettings() {
+  const [mutedWords, setMutedWords] = useState<MutedWord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [phrase, setPhrase] = useState("");
+  const [wholeWord, setWholeWord] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  // Fetch muted words
+  const fetchMutedWords = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/muted-words");
+      const data = await response.json();
+
+      if (response.ok) {
+        setMutedWords(data.muted_words || []);
+      } else {
+        toast.error(data.error || "Failed to load muted words");
+      }
+    } catch (error) {
+      console.error("Error fetching muted words:", error);
+      toast.error("Failed to load muted words");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMutedWords();
+  }, []);
+
+  // Mute a word or phrase
+  const handleAdd = async () => {
+    if (!phrase.trim()) return;
+
+    setIsAdding(true);
+    try {
+      const response = await fetch("/api/muted-words", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ phrase, whole_word: wholeWord }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || "Failed to mute word");
+        return;
+      }
+
+      setMutedWords((prev) => [data.muted_word, ...prev]);
+      setPhrase("");
+      toast.success(`Muted "${data.muted_word.phrase}"`);
+    } catch (error) {
+      console.error("Error muting word:", error);
+      toast.error("Failed to mute word");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  // Unmute
+  const handleRemove = async (mutedWordId: string) => {
+    setRemovingId(mutedWordId);
+    try {
+      const response = await fetch(`/api/muted-words/${mutedWordId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || "Failed to unmute word");
+        return;
+      }
+
+      setMutedWords((prev) => prev.filter((word) => word.id !== mutedWordId));
+    } catch (error) {
+      console.error("Error unmuting word:", error);
+      toast.error("Failed to unmute word");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-lg font-medium text-white mb-1">
+        Muted Words ({mutedWords.length}/{MAX_MUTED_WORDS})
+      </h4>
+      <p className="text-sm text-gray-400 mb-4">
+        New messages containing these go to your Filtered folder - they
+        don&apos;t count as unread or send notifications. Use * as a
+        wildcard, e.g. <code className="text-purple-300">idiot*</code>.
+      </p>
+
+      <MagicCard className="p-4 space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={phrase}
+            onChange={(e) => setPhrase(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="Word or phrase to mute"
+            maxLength={MAX_MUTED_WORD_LENGTH}
+            disabled={isAdding || mutedWords.length >= MAX_MUTED_WORDS}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-400 shrink-0 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={wholeWord}
+              onChange={(e) => setWholeWord(e.target.checked)}
+              className="w-4 h-4 accent-purple-500"
+            />
+            Whole word only
+          </label>
+          <Button
+            onClick={handleAdd}
+            disabled={isAdding || !phrase.trim() || mutedWords.length >= MAX_MUTED_WORDS}
+            className="gap-2 bg-linear-to-r from-purple-600 to-pink-600"
+          >
+            {isAdding ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4" />
+            )}
+            Mute
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-6 h-6 animate-spin text-purple-500" />
+          </div>
+        ) : mutedWords.length === 0 ? (
+          <div className="flex items-center gap-3 text-sm text-gray-500">
+            <VolumeX className="w-4 h-4" />
+            No muted words yet
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {mutedWords.map((word) => (
+              <span
+                key={word.id}
+                className="inline-flex items-center gap-1.5 pl-3 pr-1 py-1 rounded-full border border-gray-700 bg-gray-800/50 text-sm text-white"
+                title={word.whole_word ? "Whole word only" : "Matches anywhere"}
+              >
+                {word.phrase}
+                {!word.whole_word && (
+                  <span className="text-xs text-gray-500">(anywhere)</span>
+                )}
+                <button
+                  onClick={() => handleRemove(word.id)}
+                  disabled={removingId === word.id}
+                  className="p-1 text-gray-500 hover:text-red-500 transition-colors disabled:opacity-50"
+                  aria-label={`Unmute ${word.phrase}`}
+                >
+                  {removingId === word.id ? (
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                  ) : (
+                    <X className="w-3 h-3" />
+                  )}
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </MagicCard>
+    </div>
+  );
+}
@@ -1,11 +1,38 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Loader2, Shield, Trash2, AlertTriangle } from "lucide-react";
+import { Loader2, Shield, Trash2, AlertTriangle, ImageIcon, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { MagicCard } from "@/components/ui/magic-card";
 import { toast } from "sonner";
-import { getBlockReasonText, getSenderIdentifier } from "@/lib/utils/blocking";
+import { useProfileStore } from "@/lib/stores/profile-store";
+import { MutedWordsSettings } from "@/components/settings/muted-words-settings";
+import { InboxAvailabilitySettings } from "@/components/settings/inbox-availability-settings";
+import { RetentionSettings } from "@/components/settings/retention-settings";
+import { SenderActivitySettings } from "@/components/settings/sender-activity-settings";
+import {
+  BLOCK_DURATION_DAYS,
+  BLOCK_RULE_TYPES,
+  getBlockDurationText,
+  getBlockReasonText,
+  getBlockRuleTypeText,
+  getSenderIdentifier,
+  isBlockRuleActive,
+  type BlockDurationDays,
+  type BlockRuleType,
+} from "@/lib/utils/blocking";
+import {
+  getPlatformDisplayName,
+  getReferrerPlatforms,
+} from "@/lib/utils/referrer-classifier";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,17 +46,64 @@ import {
 
 interface BlockedSender {
   id: string;
-  blocked_ip_hash: string;
+  rule_type: BlockRuleType;
+  blocked_ip_hash: string | null;
+  match_value: string | null;
   blocked_identifier: string | null;
   reason: string;
+  expires_at: string | null;
   created_at: string;
 }
 
+/**
+ * Rule types that can be created here - network and device rules need a
+ * message to resolve the sender from
+ */
+type ManualRuleType =
+  | typeof BLOCK_RULE_TYPES.REGION
+  | typeof BLOCK_RULE_TYPES.REFERRER;
+
+/**
+ * What a block rule matches, for display
+ */
+function getBlockLabel(block: BlockedSender): string {
+  switch (block.rule_type) {
+    case BLOCK_RULE_TYPES.REGION:
+      return block.match_value || "Unknown region";
+    case BLOCK_RULE_TYPES.REFERRER:
+      return `Visitors from ${getPlatformDisplayName(block.match_value || "other")}`;
+    case BLOCK_RULE_TYPES.FINGERPRINT:
+      return block.blocked_identifier || "Blocked device";
+    default:
+      return (
+        block.blocked_identifier ||
+        getSenderIdentifier(block.blocked_ip_hash || "")
+      );
+  }
+}
+
+function formatBlockDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
 export function PrivacySettings() {
   const [blocks, setBlocks] = useState<BlockedSender[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [unblockingId, setUnblockingId] = useState<string | null>(null);
   const [confirmUnblock, setConfirmUnblock] = useState<string | null>(null);
+  const [ruleType, setRuleType] = useState<ManualRuleType>(
+    BLOCK_RULE_TYPES.REGION
+  );
+  const [ruleValue, setRuleValue] = useState("");
+  const [ruleDuration, setRuleDuration] = useState<BlockDurationDays>(null);
+  const [isAddingRule, setIsAddingRule] = useState(false);
+  const { profile, updateProfile } = useProfileStore();
+  const [isSavingImages, setIsSavingImages] = useState(false);
+  const allowImages = !!profile?.allow_image_attachments;
 
   // Fetch blocked senders
   const fetchBlocks = async () => {
@@ -82,6 +156,70 @@ export function PrivacySettings() {
     }
   };
 
+  // Block everyone from a region or referrer platform
+  const handleAddRule = async () => {
+    if (!ruleValue.trim()) return;
+
+    setIsAddingRule(true);
+    try {
+      const response = await fetch("/api/block/add", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rule_type: ruleType,
+          value: ruleValue,
+          duration_days: ruleDuration,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || "Failed to create block rule");
+        return;
+      }
+
+      setBlocks((prev) => [data.block, ...prev]);
+      setRuleValue("");
+      toast.success(`Blocked ${getBlockLabel(data.block)}`);
+    } catch (error) {
+      console.error("Error creating block rule:", error);
+      toast.error("Failed to create block rule");
+    } finally {
+      setIsAddingRule(false);
+    }
+  };
+
+  // Opt in or out of image attachments from senders
+  const handleToggleImages = async () => {
+    setIsSavingImages(true);
+    try {
+      const response = await fetch("/api/profile/update", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ allow_image_attachments: !allowImages }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        updateProfile(data.profile);
+        toast.success(
+          data.profile.allow_image_attachments
+            ? "Senders can now attach images"
+            : "Image attachments turned off"
+        );
+      } else {
+        toast.error(data.error || "Failed to update setting");
+      }
+    } catch (error) {
+      console.error("Error updating image attachments:", error);
+      toast.error("Failed to update setting");
+    } finally {
+      setIsSavingImages(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -110,19 +248,151 @@ export function PrivacySettings() {
             <h4 className="text-white font-medium mb-1">How Blocking Works</h4>
             <p className="text-sm text-gray-400">
               When you block a sender, they won't be able to send you any more
-              messages. Blocked senders are identified by their unique
-              fingerprint, not personal information.
+              messages. Block their network, or their device to stop them
+              after they switch networks - or block everyone from a region or
+              referrer. Blocks are matched on anonymous fingerprints, not
+              personal information, and can expire on their own.
             </p>
           </div>
         </div>
       </MagicCard>
 
+      {/* Image Attachments */}
+      <MagicCard className="p-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-4">
+            <ImageIcon className="w-6 h-6 text-purple-400 flex-shrink-0 mt-0.5" />
+            <div>
+              <h4 className="text-white font-medium mb-1">Image Attachments</h4>
+              <p className="text-sm text-gray-400">
+                Let senders attach up to 3 images to their messages. Images
+                are private to you, and location and camera data is removed
+                before they&apos;re stored.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleToggleImages}
+            disabled={isSavingImages || !profile}
+            role="switch"
+            aria-checked={allowImages}
+            aria-label="Allow image attachments"
+            className={`relative inline-flex h-7 w-12 shrink-0 items-center rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              allowImages ? "bg-purple-500" : "bg-gray-600"
+            }`}
+          >
+            <span
+              className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform ${
+                allowImages ? "translate-x-6" : "translate-x-1"
+              }`}
+            />
+          </button>
+        </div>
+      </MagicCard>
+
+      {/* Inbox Availability */}
+      <InboxAvailabilitySettings />
+
+      {/* Message Retention */}
+      <RetentionSettings />
+
+      {/* Muted Words */}
+      <MutedWordsSettings />
+
+      {/* Flood Protection */}
+      <SenderActivitySettings />
+
       {/* Blocked Senders List */}
       <div>
         <h4 className="text-lg font-medium text-white mb-4">
           Blocked Senders ({blocks.length})
         </h4>
 
+        {/* Region / Referrer Rule */}
+        <MagicCard className="p-4 mb-4">
+          <p className="text-sm text-gray-400 mb-3">
+            Block everyone from a region (inferred from their timezone) or
+            everyone arriving from a referrer
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select
+              value={ruleType}
+              onValueChange={(value) => {
+                setRuleType(value as ManualRuleType);
+                setRuleValue("");
+              }}
+            >
+              <SelectTrigger className="sm:w-36" aria-label="Rule type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BLOCK_RULE_TYPES.REGION}>
+                  {getBlockRuleTypeText(BLOCK_RULE_TYPES.REGION)}
+                </SelectItem>
+                <SelectItem value={BLOCK_RULE_TYPES.REFERRER}>
+                  {getBlockRuleTypeText(BLOCK_RULE_TYPES.REFERRER)}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+
+            {ruleType === BLOCK_RULE_TYPES.REGION ? (
+              <Input
+                value={ruleValue}
+                onChange={(e) => setRuleValue(e.target.value)}
+                placeholder="Country, e.g. Nepal"
+                maxLength={100}
+                disabled={isAddingRule}
+              />
+            ) : (
+              <Select value={ruleValue} onValueChange={setRuleValue}>
+                <SelectTrigger aria-label="Referrer platform">
+                  <SelectValue placeholder="Choose a platform" />
+                </SelectTrigger>
+                <SelectContent>
+                  {getReferrerPlatforms().map((platform) => (
+                    <SelectItem key={platform} value={platform}>
+                      {getPlatformDisplayName(platform)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Select
+              value={String(ruleDuration)}
+              onValueChange={(value) =>
+                setRuleDuration(
+                  value === "null" ? null : (Number(value) as BlockDurationDays)
+                )
+              }
+            >
+              <SelectTrigger className="sm:w-40" aria-label="Duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BLOCK_DURATION_DAYS.map((days) => (
+                  <SelectItem key={String(days)} value={String(days)}>
+                    {getBlockDurationText(days)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Button
+              onClick={handleAddRule}
+              disabled={isAddingRule || !ruleValue.trim()}
+              className="gap-2 bg-linear-to-r from-purple-600 to-pink-600"
+            >
+              {isAddingRule ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4" />
+              )}
+              Block
+            </Button>
+          </div>
+        </MagicCard>
+
         {blocks.length === 0 ? (
           <MagicCard className="p-8 text-center">
             <Shield className="w-12 h-12 mx-auto mb-3 text-gray-600" />
@@ -133,51 +403,59 @@ export function PrivacySettings() {
           </MagicCard>
         ) : (
           <div className="space-y-3">
-            {blocks.map((block) => (
-              <MagicCard key={block.id} className="p-4">
-                <div className="flex items-center justify-between gap-4">
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-1">
-                      <p className="text-white font-medium">
-                        {block.blocked_identifier ||
-                          getSenderIdentifier(block.blocked_ip_hash)}
+            {blocks.map((block) => {
+              const isActive = isBlockRuleActive(block);
+
+              return (
+                <MagicCard
+                  key={block.id}
+                  className={`p-4 ${isActive ? "" : "opacity-60"}`}
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <p className="text-white font-medium">
+                          {getBlockLabel(block)}
+                        </p>
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-purple-500/10 text-purple-400">
+                          {getBlockRuleTypeText(block.rule_type)}
+                        </span>
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-red-500/10 text-red-500">
+                          {getBlockReasonText(block.reason as any)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        Blocked on {formatBlockDate(block.created_at)}
+                        {block.expires_at &&
+                          (isActive
+                            ? ` · Until ${formatBlockDate(block.expires_at)}`
+                            : ` · Expired ${formatBlockDate(block.expires_at)}`)}
                       </p>
-                      <span className="px-2 py-0.5 text-xs rounded-full bg-red-500/10 text-red-500">
-                        {getBlockReasonText(block.reason as any)}
-                      </span>
                     </div>
-                    <p className="text-sm text-gray-500">
-                      Blocked on{" "}
-                      {new Date(block.created_at).toLocaleDateString("en-US", {
-                        month: "short",
-                        day: "numeric",
-                        year: "numeric",
-                      })}
-                    </p>
-                  </div>
 
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setConfirmUnblock(block.id)}
-                    disabled={unblockingId === block.id}
-                    className="flex items-center gap-2"
-                  >
-                    {unblockingId === block.id ? (
-                      <>
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                        Unblocking...
-                      </>
-                    ) : (
-                      <>
-                        <Trash2 className="w-4 h-4" />
-                        Unblock
-                      </>
-                    )}
-                  </Button>
-                </div>
-              </MagicCard>
-            ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setConfirmUnblock(block.id)}
+                      disabled={unblockingId === block.id}
+                      className="flex items-center gap-2"
+                    >
+                      {unblockingId === block.id ? (
+                        <>
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          Unblocking...
+                        </>
+                      ) : (
+                        <>
+                          <Trash2 className="w-4 h-4" />
+                          Unblock
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </MagicCard>
+              );
+            })}
           </div>
         )}
       </div>
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2, Timer } from "lucide-react";
+import { MagicCard } from "@/components/ui/magic-card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { useProfileStore } from "@/lib/stores/profile-store";
+import {
+  RETENTION_PERIOD_DAYS,
+  getRetentionPeriodText,
+  type RetentionPeriodDays,
+} from "@/lib/constants/message-retention";
+
+interface MessagePurge {
+  id: string;
+  read_count: number;
+  unread_count: number;
+  flagged_count: number;
+  created_at: string;
+}
+
+type RetentionField =
+  | "retention_read_days"
+  | "retention_unread_days"
+  | "retention_flagged_days";
+
+const RETENTION_FIELDS: Array<{ field: RetentionField; label: string }> = [
+  { field: "retention_read_days", label: "Read messages" },
+  { field: "retention_unread_days", label: "Unread messages" },
+  { field: "retention_flagged_days", label: "Flagged messages" },
+];
+
+/**
+ * Retention Settings
+ *
+ * How long read, unread and flagged messages are kept before the purge job
+ * deletes them, and what it has deleted recently
+ */
+export function RetentionSettings() {
+  const { profile, updateProfile } = useProfileStore();
+  const [purges, setPurges] = useState<MessagePurge[]>([]);
+  const [savingField, setSavingField] = useState<RetentionField | null>(null);
+
+  // Fetch recent purges
+  const fetchPurges = async () => {
+    try {
+      const response = await fetch("/api/message-retention");
+      const data = await response.json();
+
+      if (response.ok) {
+        setPurges(data.purges || []);
+      }
+    } catch (error) {
+      console.error("Error fetching purge log:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchPurges();
+  }, []);
+
+  // Change one retention period
+  const handleChange = async (field: RetentionField, value: string) => {
+    const days = (value === "null" ? null : Number(value)) as RetentionPeriodDays;
+
+    setSavingField(field);
+    try {
+      const response = await fetch("/api/profile/update", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ [field]: days }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        updateProfile(data.profile);
+        toast.success(
+          days === null
+            ? "These messages will be kept forever"
+            : `These messages will be deleted after ${getRetentionPeriodText(days)}`
+        );
+      } else {
+        toast.error(data.error || "Failed to update retention");
+      }
+    } catch (error) {
+      console.error("Error updating retention:", error);
+      toast.error("Failed to update retention");
+    } finally {
+      setSavingField(null);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-lg font-medium text-white mb-1">Message Retention</h4>
+      <p className="text-sm text-gray-400 mb-4">
+        Automatically delete messages, with their tracking details and
+        images, once they&apos;re this old. Flagged messages follow their own
+        setting whether or not you&apos;ve read them.
+      </p>
+
+      <MagicCard className="p-4 space-y-4">
+        {RETENTION_FIELDS.map(({ field, label }) => (
+          <div key={field} className="flex items-center justify-between gap-4">
+            <Label htmlFor={field} className="text-gray-300">
+              {label}
+            </Label>
+            <div className="flex items-center gap-2">
+              {savingField === field && (
+                <Loader2 className="w-4 h-4 animate-spin text-purple-500" />
+              )}
+              <Select
+                value={String(profile?.[field] ?? null)}
+                onValueChange={(value) => handleChange(field, value)}
+                disabled={!profile || savingField !== null}
+              >
+                <SelectTrigger id={field} className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RETENTION_PERIOD_DAYS.map((days) => (
+                    <SelectItem key={String(days)} value={String(days)}>
+                      {getRetentionPeriodText(days)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ))}
+
+        {purges.length > 0 && (
+          <div className="pt-4 border-t border-gray-800 space-y-2">
+            <p className="text-sm text-gray-400">Recently deleted</p>
+            {purges.map((purge) => (
+              <div key={purge.id} className="flex items-center gap-2 text-sm">
+                <Timer className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                <span className="text-gray-300">
+                  {purge.read_count + purge.unread_count + purge.flagged_count}{" "}
+                  messages
+                </span>
+                <span className="text-gray-500">
+                  ({purge.read_count} read, {purge.unread_count} unread,{" "}
+                  {purge.flagged_count} flagged) on{" "}
+                  {new Date(purge.created_at).toLocaleDateString("en-US", {
+                    month: "short",
+                    day: "numeric",
+                  })}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </MagicCard>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Loader2, Activity, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MagicCard } from "@/components/ui/magic-card";
+import { toast } from "sonner";
+import { useProfileStore } from "@/lib/stores/profile-store";
+import {
+  SENDER_ACTIVITY_ACTIONS,
+  getSenderActivityActionText,
+  getSenderIdentifier,
+  type SenderActivityAction,
+} from "@/lib/utils/blocking";
+
+interface SenderActivityEntry {
+  id: string;
+  sender_ip_hash: string;
+  action: SenderActivityAction;
+  severity: "low" | "medium" | "high";
+  reason: string;
+  message_count: number;
+  message_id: string | null;
+  cooldown_until: string | null;
+  created_at: string;
+}
+
+/**
+ * Sender Activity Settings
+ *
+ * Auto-block opt-in and the log of automatic actions the send API took
+ * against senders who flooded the inbox
+ */
+export function SenderActivitySettings() {
+  const { profile, updateProfile } = useProfileStore();
+  const [activity, setActivity] = useState<SenderActivityEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isClearing, setIsClearing] = useState(false);
+  const [isSavingAutoBlock, setIsSavingAutoBlock] = useState(false);
+  const autoBlock = !!profile?.auto_block_suspicious;
+
+  // Fetch activity log
+  const fetchActivity = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/sender-activity");
+      const data = await response.json();
+
+      if (response.ok) {
+        setActivity(data.activity || []);
+      } else {
+        toast.error(data.error || "Failed to load sender activity");
+      }
+    } catch (error) {
+      console.error("Error fetching sender activity:", error);
+      toast.error("Failed to load sender activity");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchActivity();
+  }, []);
+
+  // Opt in or out of automatically blocking flooding senders
+  const handleToggleAutoBlock = async () => {
+    setIsSavingAutoBlock(true);
+    try {
+      const response = await fetch("/api/profile/update", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ auto_block_suspicious: !autoBlock }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        updateProfile(data.profile);
+        toast.success(
+          data.profile.auto_block_suspicious
+            ? "Flooding senders will be blocked automatically"
+            : "Auto-block turned off"
+        );
+      } else {
+        toast.error(data.error || "Failed to update setting");
+      }
+    } catch (error) {
+      console.error("Error updating auto-block:", error);
+      toast.error("Failed to update setting");
+    } finally {
+      setIsSavingAutoBlock(false);
+    }
+  };
+
+  // Clear the log (also lifts active cooldowns)
+  const handleClear = async () => {
+    if (!confirm("Clear the activity log? Active cooldowns will end too.")) {
+      return;
+    }
+
+    setIsClearing(true);
+    try {
+      const response = await fetch("/api/sender-activity", {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || "Failed to clear activity log");
+        return;
+      }
+
+      setActivity([]);
+      toast.success("Activity log cleared");
+    } catch (error) {
+      console.error("Error clearing sender activity:", error);
+      toast.error("Failed to clear activity log");
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h4 className="text-lg font-medium text-white mb-1">
+            Flood Protection
+          </h4>
+          <p className="text-sm text-gray-400">
+            Messages from senders who message you often go to your Filtered
+            folder, and senders who flood you are paused for longer each time.
+          </p>
+        </div>
+        {activity.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleClear}
+            disabled={isClearing}
+            className="gap-2 shrink-0"
+          >
+            {isClearing ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Trash2 className="w-4 h-4" />
+            )}
+            Clear log
+          </Button>
+        )}
+      </div>
+
+      {/* Auto-block */}
+      <MagicCard className="p-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-white font-medium">Auto-block flooding senders</p>
+            <p className="text-sm text-gray-400">
+              Block senders automatically when flooding is detected
+            </p>
+          </div>
+          <button
+            onClick={handleToggleAutoBlock}
+            disabled={isSavingAutoBlock || !profile}
+            role="switch"
+            aria-checked={autoBlock}
+            aria-label="Auto-block flooding senders"
+            className={`relative inline-flex h-7 w-12 shrink-0 items-center rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              autoBlock ? "bg-purple-500" : "bg-gray-600"
+            }`}
+          >
+            <span
+              className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform ${
+                autoBlock ? "translate-x-6" : "translate-x-1"
+              }`}
+            />
+          </button>
+        </div>
+      </MagicCard>
+
+      {/* Activity Log */}
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-6 h-6 animate-spin text-purple-500" />
+        </div>
+      ) : activity.length === 0 ? (
+        <MagicCard className="p-6 text-center">
+          <Activity className="w-10 h-10 mx-auto mb-2 text-gray-600" />
+          <p className="text-sm text-gray-500">No suspicious activity so far</p>
+        </MagicCard>
+      ) : (
+        <div className="space-y-2">
+          {activity.map((entry) => (
+            <MagicCard key={entry.id} className="p-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span
+                      className={`px-2 py-0.5 text-xs rounded-full ${
+                        entry.action === SENDER_ACTIVITY_ACTIONS.AUTO_BLOCK
+                          ? "bg-red-500/10 text-red-500"
+                          : entry.action === SENDER_ACTIVITY_ACTIONS.COOLDOWN
+                          ? "bg-orange-500/10 text-orange-400"
+                          : "bg-yellow-500/10 text-yellow-400"
+                      }`}
+                    >
+                      {getSenderActivityActionText(entry.action)}
+                    </span>
+                    <span className="text-sm text-white">
+                      {getSenderIdentifier(entry.sender_ip_hash)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-400">
+                    {entry.reason} ({entry.message_count} messages in the last hour)
+                    {entry.cooldown_until &&
+                      ` - paused until ${new Date(entry.cooldown_until).toLocaleTimeString()}`}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="text-xs text-gray-500">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </p>
+                  {entry.message_id && (
+                    <Link
+                      href={`/dashboard/messages/${entry.message_id}`}
+                      className="text-xs text-purple-400 hover:text-purple-300"
+                    >
+                      View message
+                    </Link>
+                  )}
+                </div>
+              </div>
+            </MagicCard>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, Loader2, RotateCw, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import {
+  WEBHOOK_DELIVERIES_PAGE_SIZE,
+  WEBHOOK_DELIVERY_RETENTION_DAYS,
+  WEBHOOK_DELIVERY_STATUSES,
+  getWebhookEventText,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+} from "@/lib/constants/webhooks";
+import { cn } from "@/lib/utils";
+
+interface WebhookDeliveryEntry {
+  id: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  error: string | null;
+  replay_of: string | null;
+  created_at: string;
+}
+
+interface DeliveryPage {
+  /** Query the page was loaded for */
+  query: string;
+  deliveries: WebhookDeliveryEntry[];
+  total: number;
+}
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  [WEBHOOK_DELIVERY_STATUSES.PENDING]: "bg-yellow-500/10 text-yellow-400 border-yellow-500/30",
+  [WEBHOOK_DELIVERY_STATUSES.SUCCEEDED]: "bg-green-500/10 text-green-400 border-green-500/30",
+  [WEBHOOK_DELIVERY_STATUSES.FAILED]: "bg-red-500/10 text-red-400 border-red-500/30",
+};
+
+function getStatusText(delivery: WebhookDeliveryEntry): string {
+  switch (delivery.status) {
+    case WEBHOOK_DELIVERY_STATUSES.SUCCEEDED:
+      return "Delivered";
+    case WEBHOOK_DELIVERY_STATUSES.FAILED:
+      return "Failed";
+    default:
+      return delivery.attempt_count > 0 ? "Retrying" : "Sending";
+  }
+}
+
+interface WebhookDeliveryLogProps {
+  endpointId: string;
+}
+
+/**
+ * Webhook Delivery Log
+ *
+ * An endpoint's recent deliveries with their latest attempt. Any delivery
+ * can be replayed, e.g. once a failing receiver is fixed
+ */
+export function WebhookDeliveryLog({ endpointId }: WebhookDeliveryLogProps) {
+  const [page, setPage] = useState(1);
+  const [version, setVersion] = useState(0);
+  const [loaded, setLoaded] = useState<DeliveryPage | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const query = `${endpointId}:${page}:${version}`;
+  const isLoading = loaded?.query !== query;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchDeliveries = async () => {
+      const fetchedQuery = `${endpointId}:${page}:${version}`;
+
+      try {
+        const response = await fetch(
+          `/api/webhooks/${endpointId}/deliveries?page=${page}`
+        );
+        const data = await response.json();
+
+        if (cancelled) return;
+
+        if (!response.ok) {
+          toast.error(data.error || "Failed to load deliveries");
+        }
+
+        setLoaded({
+          query: fetchedQuery,
+          deliveries: response.ok ? data.deliveries || [] : [],
+          total: response.ok ? data.total || 0 : 0,
+        });
+      } catch (error) {
+        console.error("Error fetching webhook deliveries:", error);
+        if (!cancelled) {
+          toast.error("Failed to load deliveries");
+          setLoaded({ query: fetchedQuery, deliveries: [], total: 0 });
+        }
+      }
+    };
+
+    fetchDeliveries();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [endpointId, page, version]);
+
+  // Send a delivery's event again
+  const handleReplay = async (deliveryId: string) => {
+    setReplayingId(deliveryId);
+    try {
+      const response = await fetch(
+        `/api/webhooks/deliveries/${deliveryId}/replay`,
+        { method: "POST" }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || "Failed to replay delivery");
+        return;
+      }
+
+      if (data.delivery.status === WEBHOOK_DELIVERY_STATUSES.SUCCEEDED) {
+        toast.success("Delivered");
+      } else {
+        toast.error(
+          data.delivery.error
+            ? `Replay failed: ${data.delivery.error}. It will be retried.`
+            : "Replay failed. It will be retried."
+        );
+      }
+
+      // The replay is the newest delivery
+      setPage(1);
+      setVersion((current) => current + 1);
+    } catch (error) {
+      console.error("Error replaying webhook delivery:", error);
+      toast.error("Failed to replay delivery");
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  if (isLoading && !loaded) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-purple-500" />
+      </div>
+    );
+  }
+
+  const deliveries = loaded?.deliveries ?? [];
+  const totalPages = Math.max(
+    1,
+    Math.ceil((loaded?.total ?? 0) / WEBHOOK_DELIVERIES_PAGE_SIZE)
+  );
+
+  if (deliveries.length === 0 && page === 1) {
+    return (
+      <div className="flex items-center gap-3 py-2 text-sm text-gray-500">
+        <Send className="w-4 h-4" />
+        No deliveries in the last {WEBHOOK_DELIVERY_RETENTION_DAYS} days
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-2", isLoading && "opacity-60")}>
+      {deliveries.map((delivery) => (
+        <div
+          key={delivery.id}
+          className="flex items-start justify-between gap-3 p-3 rounded-lg border border-gray-800 bg-gray-900/40"
+        >
+          <div className="min-w-0 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <span
+                className={cn(
+                  "px-2 py-0.5 rounded-full border text-xs font-medium",
+                  STATUS_STYLES[delivery.status]
+                )}
+              >
+                {getStatusText(delivery)}
+              </span>
+              <span className="text-sm text-white">
+                {getWebhookEventText(delivery.event)}
+              </span>
+              {delivery.replay_of && (
+                <span className="text-xs text-gray-500">(replay)</span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              {new Date(delivery.created_at).toLocaleString()}
+              {" · "}
+              {delivery.attempt_count}{" "}
+              {delivery.attempt_count === 1 ? "attempt" : "attempts"}
+              {delivery.response_status !== null &&
+                ` · HTTP ${delivery.response_status}`}
+              {delivery.status === WEBHOOK_DELIVERY_STATUSES.PENDING &&
+                delivery.attempt_count > 0 &&
+                delivery.next_attempt_at &&
+                ` · next try ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`}
+            </p>
+            {delivery.error && delivery.status !== WEBHOOK_DELIVERY_STATUSES.SUCCEEDED && (
+              <p className="text-xs text-red-400 break-words">{delivery.error}</p>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleReplay(delivery.id)}
+            disabled={replayingId !== null}
+            className="gap-1.5 shrink-0"
+          >
+            {replayingId === delivery.id ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <RotateCw className="w-3.5 h-3.5" />
+            )}
+            Replay
+          </Button>
+        </div>
+      ))}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between pt-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setPage((current) => current - 1)}
+            disabled={page <= 1 || isLoading}
+            className="gap-1"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            Newer
+          </Button>
+          <span className="text-xs text-gray-500">
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setPage((current) => current + 1)}
+            disabled={page >= totalPages || isLoading}
+            className="gap-1"
+          >
+            Older
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
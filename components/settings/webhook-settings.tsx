@@ -0,0 +1,613 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Check,
+  ChevronDown,
+  ChevronUp,
+  Copy,
+  Eye,
+  EyeOff,
+  KeyRound,
+  Loader2,
+  Plus,
+  Trash2,
+  Webhook,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MagicCard } from "@/components/ui/magic-card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { WebhookDeliveryLog } from "@/components/settings/webhook-delivery-log";
+import { toast } from "sonner";
+import {
+  MAX_WEBHOOK_DESCRIPTION_LENGTH,
+  MAX_WEBHOOK_ENDPOINTS,
+  MAX_WEBHOOK_URL_LENGTH,
+  WEBHOOK_EVENTS,
+  WEBHOOK_FORMATS,
+  WEBHOOK_SIGNATURE_HEADER,
+  getWebhookEventText,
+  getWebhookFormatText,
+  type WebhookEvent,
+  type WebhookFormat,
+} from "@/lib/constants/webhooks";
+
+interface WebhookEndpointEntry {
+  id: string;
+  url: string;
+  description: string | null;
+  format: WebhookFormat;
+  events: WebhookEvent[];
+  secret: string;
+  previous_secret_expires_at: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+/**
+ * Where each format's URL comes from
+ */
+const FORMAT_HINTS: Record<WebhookFormat, { placeholder: string; hint: string }> = {
+  [WEBHOOK_FORMATS.JSON]: {
+    placeholder: "https://example.com/webhooks/nglfs",
+    hint: `Your server gets the event as JSON, signed in the ${WEBHOOK_SIGNATURE_HEADER} header.`,
+  },
+  [WEBHOOK_FORMATS.DISCORD]: {
+    placeholder: "https://discord.com/api/webhooks/...",
+    hint: "In Discord: Server Settings → Integrations → Webhooks → New Webhook → Copy Webhook URL.",
+  },
+  [WEBHOOK_FORMATS.SLACK]: {
+    placeholder: "https://hooks.slack.com/services/...",
+    hint: "In Slack: create an app with Incoming Webhooks turned on, add it to a channel and copy the webhook URL.",
+  },
+};
+
+/**
+ * Get the validation message from an API error response
+ */
+function getErrorMessage(
+  data: { error?: string; details?: Array<{ message: string }> },
+  fallback: string
+): string {
+  return data.details?.[0]?.message || data.error || fallback;
+}
+
+/**
+ * Webhook Settings
+ *
+ * Endpoints that receive message and profile events - a server of the
+ * user's own (signed JSON) or a Discord or Slack channel - with their
+ * signing secrets and delivery logs
+ */
+export function WebhookSettings() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpointEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [format, setFormat] = useState<WebhookFormat>(WEBHOOK_FORMATS.JSON);
+  const [events, setEvents] = useState<WebhookEvent[]>([
+    WEBHOOK_EVENTS.MESSAGE_RECEIVED,
+  ]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+
+  // Fetch endpoints
+  const fetchEndpoints = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/webhooks");
+      const data = await response.json();
+
+      if (response.ok) {
+        setEndpoints(data.endpoints || []);
+      } else {
+        toast.error(data.error || "Failed to load webhooks");
+      }
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      toast.error("Failed to load webhooks");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, []);
+
+  const replaceEndpoint = (endpoint: WebhookEndpointEntry) => {
+    setEndpoints((prev) =>
+      prev.map((current) => (current.id === endpoint.id ? endpoint : current))
+    );
+  };
+
+  const toggleFormEvent = (event: WebhookEvent) => {
+    setEvents((prev) =>
+      prev.includes(event)
+        ? prev.filter((current) => current !== event)
+        : [...prev, event]
+    );
+  };
+
+  // Add an endpoint
+  const handleCreate = async () => {
+    if (!url.trim() || events.length === 0) return;
+
+    setIsCreating(true);
+    try {
+      const response = await fetch("/api/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          url,
+          description: description.trim() || null,
+          format,
+          events,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(getErrorMessage(data, "Failed to add webhook"));
+        return;
+      }
+
+      setEndpoints((prev) => [...prev, data.endpoint]);
+      setUrl("");
+      setDescription("");
+      setFormat(WEBHOOK_FORMATS.JSON);
+      setEvents([WEBHOOK_EVENTS.MESSAGE_RECEIVED]);
+      setShowForm(false);
+      toast.success("Webhook added");
+    } catch (error) {
+      console.error("Error adding webhook:", error);
+      toast.error("Failed to add webhook");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Change an endpoint (events, pause/resume)
+  const handleUpdate = async (
+    endpoint: WebhookEndpointEntry,
+    updates: { events?: WebhookEvent[]; is_active?: boolean },
+    successMessage: string
+  ) => {
+    setBusyId(endpoint.id);
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(getErrorMessage(data, "Failed to update webhook"));
+        return;
+      }
+
+      replaceEndpoint(data.endpoint);
+      toast.success(successMessage);
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      toast.error("Failed to update webhook");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleEndpointEvent = (
+    endpoint: WebhookEndpointEntry,
+    event: WebhookEvent
+  ) => {
+    const subscribed = endpoint.events.includes(event);
+
+    if (subscribed && endpoint.events.length === 1) {
+      toast.error("A webhook needs at least one event. Delete it instead.");
+      return;
+    }
+
+    handleUpdate(
+      endpoint,
+      {
+        events: subscribed
+          ? endpoint.events.filter((current) => current !== event)
+          : [...endpoint.events, event],
+      },
+      subscribed
+        ? `Unsubscribed from ${getWebhookEventText(event).toLowerCase()}`
+        : `Subscribed to ${getWebhookEventText(event).toLowerCase()}`
+    );
+  };
+
+  // Replace the signing secret
+  const handleRotate = async (endpoint: WebhookEndpointEntry) => {
+    if (
+      !confirm(
+        "Rotate the signing secret? The old secret keeps working for 24 hours while you update your receiver."
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(endpoint.id);
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}/rotate-secret`, {
+        method: "POST",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || "Failed to rotate secret");
+        return;
+      }
+
+      replaceEndpoint(data.endpoint);
+      setRevealedId(endpoint.id);
+      toast.success(
+        `New secret created. The old one works for ${data.grace_hours} more hours.`
+      );
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      toast.error("Failed to rotate secret");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCopySecret = async (endpoint: WebhookEndpointEntry) => {
+    try {
+      await navigator.clipboard.writeText(endpoint.secret);
+      setCopiedId(endpoint.id);
+      toast.success("Secret copied");
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error("Error copying secret:", error);
+      toast.error("Failed to copy secret");
+    }
+  };
+
+  // Delete an endpoint and its delivery log
+  const handleDelete = async (endpoint: WebhookEndpointEntry) => {
+    if (!confirm("Delete this webhook? Its delivery log will be deleted too.")) {
+      return;
+    }
+
+    setBusyId(endpoint.id);
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || "Failed to delete webhook");
+        return;
+      }
+
+      setEndpoints((prev) => prev.filter((current) => current.id !== endpoint.id));
+      toast.success("Webhook deleted");
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      toast.error("Failed to delete webhook");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const atLimit = endpoints.length >= MAX_WEBHOOK_ENDPOINTS;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-1">
+            Webhooks ({endpoints.length}/{MAX_WEBHOOK_ENDPOINTS})
+          </h3>
+          <p className="text-sm text-gray-400">
+            Send new messages, reports and profile visit milestones to your
+            own server, or straight into a Discord or Slack channel. Failed
+            deliveries are retried for about 6 hours.
+          </p>
+        </div>
+        {!showForm && (
+          <Button
+            onClick={() => setShowForm(true)}
+            disabled={isLoading || atLimit}
+            className="gap-2 shrink-0 bg-linear-to-r from-purple-600 to-pink-600"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {/* New Endpoint */}
+      {showForm && (
+        <MagicCard className="p-4 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook_format" className="text-white">
+              Send to
+            </Label>
+            <Select
+              value={format}
+              onValueChange={(value) => setFormat(value as WebhookFormat)}
+              disabled={isCreating}
+            >
+              <SelectTrigger id="webhook_format" className="w-full sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(WEBHOOK_FORMATS).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {getWebhookFormatText(option)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">{FORMAT_HINTS[format].hint}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="webhook_url" className="text-white">
+              URL
+            </Label>
+            <Input
+              id="webhook_url"
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder={FORMAT_HINTS[format].placeholder}
+              maxLength={MAX_WEBHOOK_URL_LENGTH}
+              disabled={isCreating}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="webhook_description" className="text-white">
+              Description (optional)
+            </Label>
+            <Input
+              id="webhook_description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. #inbox channel"
+              maxLength={MAX_WEBHOOK_DESCRIPTION_LENGTH}
+              disabled={isCreating}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-white">Events</p>
+            {Object.values(WEBHOOK_EVENTS).map((event) => (
+              <label
+                key={event}
+                className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={events.includes(event)}
+                  onChange={() => toggleFormEvent(event)}
+                  disabled={isCreating}
+                  className="w-4 h-4 accent-purple-500"
+                />
+                {getWebhookEventText(event)}
+                <code className="text-xs text-gray-500">{event}</code>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              onClick={() => setShowForm(false)}
+              disabled={isCreating}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={isCreating || !url.trim() || events.length === 0}
+              className="gap-2 bg-linear-to-r from-purple-600 to-pink-600"
+            >
+              {isCreating && <Loader2 className="w-4 h-4 animate-spin" />}
+              Add Webhook
+            </Button>
+          </div>
+        </MagicCard>
+      )}
+
+      {/* Endpoints */}
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-6 h-6 animate-spin text-purple-500" />
+        </div>
+      ) : endpoints.length === 0 ? (
+        !showForm && (
+          <div className="flex items-center gap-3 text-sm text-gray-500">
+            <Webhook className="w-4 h-4" />
+            No webhooks yet
+          </div>
+        )
+      ) : (
+        endpoints.map((endpoint) => {
+          const isBusy = busyId === endpoint.id;
+          const isRevealed = revealedId === endpoint.id;
+          const graceEndsAt =
+            endpoint.previous_secret_expires_at &&
+            new Date(endpoint.previous_secret_expires_at) > new Date()
+              ? new Date(endpoint.previous_secret_expires_at)
+              : null;
+
+          return (
+            <MagicCard key={endpoint.id} className="p-4 space-y-4">
+              {/* Header */}
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-white font-medium truncate" title={endpoint.url}>
+                    {endpoint.description || endpoint.url}
+                  </p>
+                  {endpoint.description && (
+                    <p className="text-xs text-gray-500 truncate" title={endpoint.url}>
+                      {endpoint.url}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-400 mt-1">
+                    {getWebhookFormatText(endpoint.format)}
+                    {!endpoint.is_active && " · Paused"}
+                  </p>
+                </div>
+                <button
+                  onClick={() =>
+                    handleUpdate(
+                      endpoint,
+                      { is_active: !endpoint.is_active },
+                      endpoint.is_active ? "Webhook paused" : "Webhook resumed"
+                    )
+                  }
+                  disabled={isBusy}
+                  role="switch"
+                  aria-checked={endpoint.is_active}
+                  aria-label="Send events to this webhook"
+                  className={`relative inline-flex h-7 w-12 shrink-0 items-center rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    endpoint.is_active ? "bg-purple-500" : "bg-gray-600"
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform ${
+                      endpoint.is_active ? "translate-x-6" : "translate-x-1"
+                    }`}
+                  />
+                </button>
+              </div>
+
+              {/* Events */}
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {Object.values(WEBHOOK_EVENTS).map((event) => (
+                  <label
+                    key={event}
+                    className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={endpoint.events.includes(event)}
+                      onChange={() => toggleEndpointEvent(endpoint, event)}
+                      disabled={isBusy}
+                      className="w-4 h-4 accent-purple-500"
+                    />
+                    {getWebhookEventText(event)}
+                  </label>
+                ))}
+              </div>
+
+              {/* Signing Secret */}
+              <div className="space-y-1 pt-4 border-t border-gray-800">
+                <p className="text-sm font-medium text-white">Signing secret</p>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <code className="flex-1 min-w-0 px-3 py-2 rounded-md bg-gray-900/60 border border-gray-800 text-xs text-gray-300 font-mono truncate">
+                    {isRevealed ? endpoint.secret : "whsec_" + "•".repeat(24)}
+                  </code>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRevealedId(isRevealed ? null : endpoint.id)}
+                      aria-label={isRevealed ? "Hide secret" : "Show secret"}
+                    >
+                      {isRevealed ? (
+                        <EyeOff className="w-4 h-4" />
+                      ) : (
+                        <Eye className="w-4 h-4" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCopySecret(endpoint)}
+                      aria-label="Copy secret"
+                    >
+                      {copiedId === endpoint.id ? (
+                        <Check className="w-4 h-4" />
+                      ) : (
+                        <Copy className="w-4 h-4" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRotate(endpoint)}
+                      disabled={isBusy}
+                      className="gap-1.5"
+                    >
+                      <KeyRound className="w-4 h-4" />
+                      Rotate
+                    </Button>
+                  </div>
+                </div>
+                {graceEndsAt && (
+                  <p className="text-xs text-yellow-400">
+                    The previous secret also signs deliveries until{" "}
+                    {graceEndsAt.toLocaleString()}
+                  </p>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="flex items-center justify-between gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setOpenLogId(openLogId === endpoint.id ? null : endpoint.id)
+                  }
+                  className="gap-1.5"
+                >
+                  {openLogId === endpoint.id ? (
+                    <ChevronUp className="w-4 h-4" />
+                  ) : (
+                    <ChevronDown className="w-4 h-4" />
+                  )}
+                  Deliveries
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(endpoint)}
+                  disabled={isBusy}
+                  className="gap-1.5 text-red-400 hover:text-red-300"
+                >
+                  {isBusy ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="w-4 h-4" />
+                  )}
+                  Delete
+                </Button>
+              </div>
+
+              {openLogId === endpoint.id && (
+                <WebhookDeliveryLog endpointId={endpoint.id} />
+              )}
+            </MagicCard>
+          );
+        })
+      )}
+    </div>
+  );
+}
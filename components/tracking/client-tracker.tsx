@@ -65,6 +65,8 @@ function getConnectionType(): string | null {
 interface ClientTrackerProps {
   /** Profile ID or username being viewed */
   profileId: string;
+  /** Campaign link ID when viewed through /[username]/q/[slug] */
+  linkId?: string;
   /** API endpoint to send tracking data to */
   endpoint?: string;
   /** Enable debug logging */
@@ -84,6 +86,7 @@ interface ClientTrackerProps {
  */
 export function ClientTracker({
   profileId,
+  linkId,
   endpoint = '/api/analytics/track-visit',
   debug = false,
 }: ClientTrackerProps) {
@@ -109,6 +112,7 @@ export function ClientTracker({
       },
       body: JSON.stringify({
         profileId,
+        linkId,
         clientData: trackingData,
         timestamp: new Date().toISOString(),
       }),
@@ -125,7 +129,7 @@ export function ClientTracker({
           console.error('[ClientTracker] Failed to send:', err);
         }
       });
-  }, [profileId, endpoint, debug]);
+  }, [profileId, linkId, endpoint, debug]);
 
   // Invisible component
   return null;
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef } from "react";
+import { solveProofOfWork } from "@/lib/utils/proof-of-work-solver";
+
+export interface ProofOfWork {
+  challenge: string;
+  solution: string;
+}
+
+interface PreparedProof extends ProofOfWork {
+  expiresAt: number;
+}
+
+/**
+ * Solve a challenge in a Web Worker, falling back to the main thread if
+ * workers are unavailable
+ */
+function solveInWorker(challenge: string, difficulty: number): Promise<string> {
+  if (typeof Worker === "undefined") {
+    return solveProofOfWork(challenge, difficulty);
+  }
+
+  return new Promise((resolve) => {
+    const worker = new Worker(
+      new URL("../lib/workers/proof-of-work.worker.ts", import.meta.url)
+    );
+
+    worker.onmessage = (event: MessageEvent<{ solution: string }>) => {
+      worker.terminate();
+      resolve(event.data.solution);
+    };
+
+    worker.onerror = (event) => {
+      console.error("Proof-of-work worker failed:", event.message);
+      worker.terminate();
+      resolve(solveProofOfWork(challenge, difficulty));
+    };
+
+    worker.postMessage({ challenge, difficulty });
+  });
+}
+
+/**
+ * Fetch a fresh challenge and solve it
+ */
+async function prepareProof(): Promise<PreparedProof> {
+  const response = await fetch("/api/messages/challenge", { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error("Failed to fetch verification challenge");
+  }
+
+  const { challenge, difficulty, expiresAt } = await response.json();
+  const solution = await solveInWorker(challenge, difficulty);
+
+  return { challenge, solution, expiresAt: new Date(expiresAt).getTime() };
+}
+
+/**
+ * Proof-of-work for anonymous messages
+ *
+ * Starts solving a challenge as soon as the form mounts, so the proof is
+ * usually ready by the time the sender hits send. Each proof is single use:
+ * takeProof() hands out the prepared one and starts on the next
+ */
+export function useProofOfWork() {
+  const pending = useRef<Promise<PreparedProof> | null>(null);
+
+  const prepare = useCallback(() => {
+    if (!pending.current) {
+      const proof = prepareProof();
+      pending.current = proof;
+      // Let a failed attempt be retried on the next call
+      proof.catch((error) => {
+        console.error("Error preparing proof of work:", error);
+        if (pending.current === proof) pending.current = null;
+      });
+    }
+
+    return pending.current;
+  }, []);
+
+  useEffect(() => {
+    prepare();
+  }, [prepare]);
+
+  const takeProof = useCallback(async (): Promise<ProofOfWork> => {
+    let proof = await prepare();
+    pending.current = null;
+
+    // Solved too long ago - the server would refuse it
+    if (proof.expiresAt <= Date.now()) {
+      proof = await prepare();
+      pending.current = null;
+    }
+
+    prepare();
+    return { challenge: proof.challenge, solution: proof.solution };
+  }, [prepare]);
+
+  return { takeProof };
+}
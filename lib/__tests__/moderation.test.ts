@@ -0,0 +1,170 @@
+/**
+ * Moderation Pipeline Test
+ * Runs the moderation checkers against sample messages - fully offline, no
+ * Supabase or environment variables needed
+ *
+ * Usage:
+ * 1. Run: npm run test (after setting up jest/vitest)
+ * 2. Or call runAllTests() from a script or test API route
+ */
+
+import {
+  createModerationPipeline,
+  getDefaultCheckers,
+  moderateMessage,
+} from '@/lib/moderation/pipeline';
+import { createRegexChecker } from '@/lib/moderation/checkers';
+import type {
+  ModerationContext,
+  ModerationVerdict,
+} from '@/lib/types/moderation.types';
+
+/**
+ * Check a message against an expected verdict and log the outcome
+ */
+function expectVerdict(
+  label: string,
+  content: string,
+  expected: ModerationVerdict,
+  context?: ModerationContext
+): boolean {
+  const { verdict, matches } = moderateMessage(content, context);
+
+  if (verdict !== expected) {
+    console.error(`❌ ${label}: expected ${expected}, got ${verdict}`, matches);
+    return false;
+  }
+
+  console.log(`✅ ${label}: ${verdict}`);
+  return true;
+}
+
+/**
+ * Test 1: Clean Messages
+ * Ordinary messages are delivered, including words that contain lexicon
+ * entries ("class", "assess") and short numbers
+ */
+export function testCleanMessages() {
+  return [
+    expectVerdict('Plain message', 'You always make my day better!', 'deliver'),
+    expectVerdict('Embedded word', 'Great class today, the assessment was fair', 'deliver'),
+    expectVerdict('Short number', 'See you at 10 on the 3rd', 'deliver'),
+  ].every(Boolean);
+}
+
+/**
+ * Test 2: Lexicons
+ * Profanity is held, slurs are rejected - including disguised spellings
+ */
+export function testLexicons() {
+  return [
+    expectVerdict('Profanity', 'that was some shit', 'hold'),
+    expectVerdict('Leetspeak profanity', 'what a sh1tty day', 'hold'),
+    expectVerdict('Stretched profanity', 'shiiiiit', 'hold'),
+    expectVerdict('Spaced-out profanity', 's h i t', 'hold'),
+    expectVerdict('Slur', 'you are a f@ggot', 'reject'),
+  ].every(Boolean);
+}
+
+/**
+ * Test 3: Links and Phone Numbers
+ */
+export function testLinksAndPhones() {
+  return [
+    expectVerdict('URL', 'check out https://example.com/win', 'hold'),
+    expectVerdict('Bare domain', 'go to free-prizes.xyz now', 'hold'),
+    expectVerdict('Phone number', 'text me at +1 (555) 123-4567', 'hold'),
+  ].every(Boolean);
+}
+
+/**
+ * Test 4: Repeated Characters
+ */
+export function testRepeatedCharacters() {
+  return [
+    expectVerdict('Character run', 'heyyyyyyyyyyyyyyy', 'hold'),
+    expectVerdict('Keyboard mash', 'a a a a a a a a a a a a a a a a a a a a a b', 'hold'),
+  ].every(Boolean);
+}
+
+/**
+ * Test 5: Muted Words
+ * Recipient lists support wildcards, whole-word matching and phrases
+ */
+export function testMutedWords() {
+  const mutedWords = [
+    { phrase: 'pineapple', whole_word: true },
+    { phrase: 'clown*', whole_word: true },
+    { phrase: 'nose', whole_word: false },
+    { phrase: 'big ears', whole_word: true },
+  ];
+
+  return [
+    expectVerdict('Muted word', 'you are a Pineapple', 'hold', { mutedWords }),
+    expectVerdict('Whole word only', 'pineapples are great', 'deliver', { mutedWords }),
+    expectVerdict('Wildcard', 'such CLOWNERY', 'hold', { mutedWords }),
+    expectVerdict('Match anywhere', 'nosebleed seats', 'hold', { mutedWords }),
+    expectVerdict('Phrase', 'big, ears!', 'hold', { mutedWords }),
+    expectVerdict('No list', 'you are a pineapple', 'deliver'),
+  ].every(Boolean);
+}
+
+/**
+ * Test 6: Custom Checkers
+ * Pipelines accept extra checkers, and a throwing checker is skipped
+ */
+export function testCustomCheckers() {
+  const pipeline = createModerationPipeline([
+    ...getDefaultCheckers(),
+    createRegexChecker([
+      { rule: 'crypto', pattern: /\bbitcoin\b/i, verdict: 'reject' },
+    ]),
+    {
+      name: 'broken',
+      check() {
+        throw new Error('Checker failure');
+      },
+    },
+  ]);
+
+  const { verdict, matches } = pipeline.moderate('send me BITCOIN');
+  const passed =
+    verdict === 'reject' && matches.some((match) => match.rule === 'crypto');
+
+  if (passed) {
+    console.log('✅ Custom checkers applied (failing checker skipped)');
+  } else {
+    console.error('❌ Custom checkers not applied:', verdict, matches);
+  }
+
+  return passed;
+}
+
+/**
+ * Run all tests
+ */
+export function runAllTests() {
+  console.log('\n🧪 Starting Moderation Pipeline Tests...\n');
+
+  const results = {
+    cleanMessages: testCleanMessages(),
+    lexicons: testLexicons(),
+    linksAndPhones: testLinksAndPhones(),
+    repeatedCharacters: testRepeatedCharacters(),
+    mutedWords: testMutedWords(),
+    customCheckers: testCustomCheckers(),
+  };
+
+  console.log('\n📊 Test Results:\n');
+  console.table(results);
+
+  const allPassed = Object.values(results).every((result) => result === true);
+
+  if (allPassed) {
+    console.log('\n✅ All tests passed! Moderation pipeline works as expected.\n');
+  } else {
+    console.log('\n❌ Some tests failed. Please check the errors above.\n');
+  }
+
+  return allPassed;
+}
@@ -0,0 +1,118 @@
+/**
+ * Webhook URL Safety Test
+ * Checks which addresses webhook deliveries may reach - fully offline, no
+ * Supabase, DNS or environment variables needed
+ *
+ * Usage:
+ * 1. Run: npm run test (after setting up jest/vitest)
+ * 2. Or call runAllTests() from a script or test API route
+ */
+
+import { isPrivateAddress } from '@/lib/webhooks/url';
+
+/**
+ * Check an address against the expected outcome and log it
+ */
+function expectPrivate(label: string, address: string, expected: boolean): boolean {
+  const actual = isPrivateAddress(address);
+
+  if (actual !== expected) {
+    console.error(
+      `❌ ${label}: ${address} should be ${expected ? 'private' : 'public'}`
+    );
+    return false;
+  }
+
+  console.log(`✅ ${label}: ${address} is ${actual ? 'private' : 'public'}`);
+  return true;
+}
+
+/**
+ * Host of a URL the way the delivery code sees it (brackets removed)
+ */
+function getHost(url: string): string {
+  return new URL(url).hostname.replace(/^\[|\]$/g, '');
+}
+
+/**
+ * Test 1: IPv4
+ */
+export function testIPv4() {
+  return [
+    expectPrivate('Public', '93.184.216.34', false),
+    expectPrivate('Loopback', '127.0.0.1', true),
+    expectPrivate('Private', '10.1.2.3', true),
+    expectPrivate('Private', '172.20.0.1', true),
+    expectPrivate('Private', '192.168.1.1', true),
+    expectPrivate('Shared', '100.64.0.1', true),
+    expectPrivate('Metadata', '169.254.169.254', true),
+    expectPrivate('Documentation', '203.0.113.7', true),
+    expectPrivate('Multicast', '224.0.0.1', true),
+    expectPrivate('Broadcast', '255.255.255.255', true),
+  ].every(Boolean);
+}
+
+/**
+ * Test 2: IPv6
+ */
+export function testIPv6() {
+  return [
+    expectPrivate('Public', '2606:4700:4700::1111', false),
+    expectPrivate('Unspecified', '::', true),
+    expectPrivate('Loopback', '::1', true),
+    expectPrivate('Unique local', 'fd12:3456::1', true),
+    expectPrivate('Link-local', 'fe80::1', true),
+    expectPrivate('Link-local with zone', 'fe80::1%eth0', true),
+    expectPrivate('Documentation', '2001:db8::1', true),
+    expectPrivate('Teredo', '2001:0:4136:e378::1', true),
+    expectPrivate('Multicast', 'ff02::1', true),
+  ].every(Boolean);
+}
+
+/**
+ * Test 3: Embedded IPv4
+ * URL parsing rewrites [::ffff:127.0.0.1] to [::ffff:7f00:1], so mapped
+ * addresses must be caught in hex form too
+ */
+export function testEmbeddedIPv4() {
+  return [
+    expectPrivate('Mapped (dotted)', '::ffff:127.0.0.1', true),
+    expectPrivate('Mapped loopback from URL', getHost('https://[::ffff:127.0.0.1]/x'), true),
+    expectPrivate('Mapped metadata from URL', getHost('https://[::ffff:169.254.169.254]/'), true),
+    expectPrivate('Mapped public', '::ffff:5db8:d822', true),
+    expectPrivate('Compatible', '::7f00:1', true),
+    expectPrivate('Translated', '::ffff:0:a00:1', true),
+    expectPrivate('NAT64 metadata', '64:ff9b::a9fe:a9fe', true),
+    expectPrivate('NAT64 dotted', '64:ff9b::10.0.0.1', true),
+    expectPrivate('NAT64 public', '64:ff9b::5db8:d822', false),
+    expectPrivate('Local-use NAT64', '64:ff9b:1::5db8:d822', true),
+    expectPrivate('6to4 loopback', '2002:7f00:1::1', true),
+    expectPrivate('6to4 public', '2002:5db8:d822::1', false),
+  ].every(Boolean);
+}
+
+/**
+ * Run all tests
+ */
+export function runAllTests() {
+  console.log('\n🧪 Starting Webhook URL Safety Tests...\n');
+
+  const results = {
+    ipv4: testIPv4(),
+    ipv6: testIPv6(),
+    embeddedIPv4: testEmbeddedIPv4(),
+  };
+
+  console.log('\n📊 Test Results:\n');
+  console.table(results);
+
+  const allPassed = Object.values(results).every((result) => result === true);
+
+  if (allPassed) {
+    console.log('\n✅ All tests passed! Private addresses are refused.\n');
+  } else {
+    console.log('\n❌ Some tests failed. Please check the errors above.\n');
+  }
+
+  return allPassed;
+}
@@ -0,0 +1,20 @@
+/**
+ * Account deletion settings - shared between client and server
+ */
+
+/**
+ * Days a deleted account can be restored before it's permanently deleted.
+ * Override with ACCOUNT_DELETION_GRACE_DAYS (server only)
+ */
+export const DEFAULT_ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+/**
+ * Longest grace period ACCOUNT_DELETION_GRACE_DAYS may set
+ */
+export const MAX_ACCOUNT_DELETION_GRACE_DAYS = 365;
+
+/**
+ * Accounts permanently deleted per purge run (the rest wait for the next
+ * run)
+ */
+export const ACCOUNT_PURGE_BATCH_SIZE = 25;
@@ -0,0 +1,61 @@
+/**
+ * Platform admin settings - shared between client and server
+ */
+
+/**
+ * Actions recorded in the admin audit log
+ */
+export const ADMIN_ACTIONS = {
+  SUSPEND: "suspend",
+  UNSUSPEND: "unsuspend",
+  RENAME_USERNAME: "rename_username",
+  REMOVE_AVATAR: "remove_avatar",
+  REMOVE_BIO: "remove_bio",
+  UPDATE_REPORT: "update_report",
+} as const;
+
+export type AdminAction = (typeof ADMIN_ACTIONS)[keyof typeof ADMIN_ACTIONS];
+
+/**
+ * Actions an admin can take on a profile from the admin console
+ */
+export const PROFILE_ADMIN_ACTIONS = [
+  ADMIN_ACTIONS.SUSPEND,
+  ADMIN_ACTIONS.UNSUSPEND,
+  ADMIN_ACTIONS.RENAME_USERNAME,
+  ADMIN_ACTIONS.REMOVE_AVATAR,
+  ADMIN_ACTIONS.REMOVE_BIO,
+] as const;
+
+export type ProfileAdminAction = (typeof PROFILE_ADMIN_ACTIONS)[number];
+
+export const MAX_SUSPENSION_REASON_LENGTH = 500;
+
+/**
+ * Profiles returned by an admin console search
+ */
+export const ADMIN_PROFILE_SEARCH_LIMIT = 25;
+
+/**
+ * Entries per page in the admin audit log
+ */
+export const ADMIN_AUDIT_LOG_PAGE_SIZE = 50;
+
+export function getAdminActionText(action: AdminAction): string {
+  switch (action) {
+    case ADMIN_ACTIONS.SUSPEND:
+      return "Suspended account";
+    case ADMIN_ACTIONS.UNSUSPEND:
+      return "Unsuspended account";
+    case ADMIN_ACTIONS.RENAME_USERNAME:
+      return "Renamed username";
+    case ADMIN_ACTIONS.REMOVE_AVATAR:
+      return "Removed avatar";
+    case ADMIN_ACTIONS.REMOVE_BIO:
+      return "Removed bio";
+    case ADMIN_ACTIONS.UPDATE_REPORT:
+      return "Updated report";
+    default:
+      return "Unknown";
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Message image attachment limits - shared between client and server
+ */
+
+export const ATTACHMENTS_BUCKET = "message-attachments";
+
+export const MAX_ATTACHMENTS = 3;
+
+/**
+ * Maximum size of each uploaded image (before re-encoding)
+ */
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024; // 5MB
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+] as const;
+
+export type AttachmentType = (typeof ALLOWED_ATTACHMENT_TYPES)[number];
+
+/**
+ * How long signed attachment URLs stay valid
+ */
+export const ATTACHMENT_URL_TTL_SECONDS = 60 * 60; // 1 hour
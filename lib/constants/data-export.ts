@@ -0,0 +1,63 @@
+/**
+ * Account data export settings - shared between client and server
+ */
+
+export const DATA_EXPORTS_BUCKET = "data-exports";
+
+export const DATA_EXPORT_STATUSES = {
+  PENDING: "pending",
+  PROCESSING: "processing",
+  READY: "ready",
+  FAILED: "failed",
+  EXPIRED: "expired",
+} as const;
+
+export type DataExportStatus =
+  (typeof DATA_EXPORT_STATUSES)[keyof typeof DATA_EXPORT_STATUSES];
+
+/**
+ * How long a finished archive is kept
+ */
+export const DATA_EXPORT_TTL_DAYS = 7;
+
+/**
+ * How long a download link works
+ */
+export const DATA_EXPORT_LINK_TTL_SECONDS = 60 * 60; // 1 hour
+
+/**
+ * Accounts with up to this many messages get their archive in the request
+ * itself; bigger ones are built in the background
+ */
+export const DATA_EXPORT_SYNC_MESSAGE_LIMIT = 1000;
+
+/**
+ * An export still pending or processing after this long is assumed to have
+ * died with its server instance, and no longer blocks a new one
+ */
+export const DATA_EXPORT_STALE_MINUTES = 30;
+
+/**
+ * Rows fetched per query while collecting data
+ */
+export const DATA_EXPORT_PAGE_SIZE = 1000;
+
+/**
+ * Get user-friendly export status text
+ */
+export function getDataExportStatusText(status: DataExportStatus): string {
+  switch (status) {
+    case DATA_EXPORT_STATUSES.PENDING:
+      return "Queued";
+    case DATA_EXPORT_STATUSES.PROCESSING:
+      return "Preparing";
+    case DATA_EXPORT_STATUSES.READY:
+      return "Ready";
+    case DATA_EXPORT_STATUSES.FAILED:
+      return "Failed";
+    case DATA_EXPORT_STATUSES.EXPIRED:
+      return "Expired";
+    default:
+      return "Unknown";
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Email notification settings - shared between client and server
+ *
+ * Email alerts and digests reach users who never grant browser push
+ * permission. Both are opt-in and every email carries an unsubscribe link
+ */
+
+/**
+ * How often a digest of new messages and visits is emailed
+ */
+export const EMAIL_DIGEST_FREQUENCIES = {
+  OFF: "off",
+  DAILY: "daily",
+  WEEKLY: "weekly",
+} as const;
+
+export type EmailDigestFrequency =
+  (typeof EMAIL_DIGEST_FREQUENCIES)[keyof typeof EMAIL_DIGEST_FREQUENCIES];
+
+/**
+ * What an unsubscribe link turns off
+ */
+export const EMAIL_UNSUBSCRIBE_KINDS = {
+  ALERTS: "alerts",
+  DIGEST: "digest",
+  ALL: "all",
+} as const;
+
+export type EmailUnsubscribeKind =
+  (typeof EMAIL_UNSUBSCRIBE_KINDS)[keyof typeof EMAIL_UNSUBSCRIBE_KINDS];
+
+/**
+ * At most one new message alert is emailed per window, however many
+ * messages arrive - the inbox shows the rest
+ */
+export const EMAIL_ALERT_MIN_INTERVAL_MINUTES = 15;
+
+/**
+ * Days covered by each digest. A digest is due once this long has passed
+ * since the last one (less an hour, so a daily cron doesn't drift a day)
+ */
+export const EMAIL_DIGEST_PERIOD_DAYS: Record<
+  Exclude<EmailDigestFrequency, "off">,
+  number
+> = {
+  daily: 1,
+  weekly: 7,
+};
+
+/**
+ * Accounts handled per digest batch, and batches per digest run (the rest
+ * wait for the next run)
+ */
+export const EMAIL_DIGEST_BATCH_SIZE = 50;
+export const EMAIL_DIGEST_MAX_BATCHES = 10;
+
+/**
+ * Most recent messages quoted in a digest (only when previews are on)
+ */
+export const EMAIL_DIGEST_PREVIEW_COUNT = 3;
+
+/**
+ * Get user-friendly digest frequency text
+ */
+export function getEmailDigestFrequencyText(
+  frequency: EmailDigestFrequency
+): string {
+  switch (frequency) {
+    case "off":
+      return "Off";
+    case "daily":
+      return "Daily";
+    case "weekly":
+      return "Weekly";
+  }
+}
+
+/**
+ * Get user-friendly text for what an unsubscribe link turns off
+ */
+export function getEmailUnsubscribeKindText(
+  kind: EmailUnsubscribeKind
+): string {
+  switch (kind) {
+    case "alerts":
+      return "new message alerts";
+    case "digest":
+      return "digest emails";
+    case "all":
+      return "all emails";
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Inbox availability limits - shared between client and server
+ */
+
+import type { InboxClosedReason } from "@/lib/types/inbox-availability.types";
+
+export const MAX_CLOSED_MESSAGE_LENGTH = 200;
+export const MAX_DAILY_MESSAGE_CAP = 1000;
+export const MAX_SCHEDULE_WINDOWS = 28;
+
+/**
+ * Shown on the profile when the owner hasn't written a closed message
+ */
+export const DEFAULT_CLOSED_MESSAGE = "not taking messages right now - check back later!";
+
+export const INBOX_CLOSED_REASONS = {
+  PAUSED: "paused",
+  SCHEDULE: "schedule",
+  DAILY_CAP: "daily_cap",
+} as const satisfies Record<string, InboxClosedReason>;
+
+export const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+] as const;
+
+/**
+ * Get user-friendly closed reason text
+ */
+export function getInboxClosedReasonText(reason: InboxClosedReason): string {
+  switch (reason) {
+    case INBOX_CLOSED_REASONS.PAUSED:
+      return "Paused";
+    case INBOX_CLOSED_REASONS.SCHEDULE:
+      return "Outside open hours";
+    case INBOX_CLOSED_REASONS.DAILY_CAP:
+      return "Daily limit reached";
+    default:
+      return "Closed";
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Message list filters and sort options - shared between client and server
+ */
+
+export const MESSAGE_READ_FILTERS = {
+  ALL: "all",
+  UNREAD: "unread",
+  READ: "read",
+} as const;
+
+export type MessageReadFilter =
+  (typeof MESSAGE_READ_FILTERS)[keyof typeof MESSAGE_READ_FILTERS];
+
+export const MESSAGE_SORTS = {
+  NEWEST: "newest",
+  OLDEST: "oldest",
+} as const;
+
+export type MessageSort = (typeof MESSAGE_SORTS)[keyof typeof MESSAGE_SORTS];
+
+/**
+ * Prompt filter value for messages that weren't sent to any prompt
+ */
+export const NO_PROMPT_FILTER = "none";
+
+export const MESSAGE_PAGE_SIZE = 20;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+export function getMessageSortText(sort: MessageSort): string {
+  switch (sort) {
+    case MESSAGE_SORTS.NEWEST:
+      return "Newest first";
+    case MESSAGE_SORTS.OLDEST:
+      return "Oldest first";
+    default:
+      return "Unknown";
+  }
+}
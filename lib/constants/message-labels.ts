@@ -0,0 +1,67 @@
+/**
+ * Message label palette and limits - shared between client and server
+ */
+
+export const LABEL_COLORS = {
+  PURPLE: "purple",
+  PINK: "pink",
+  RED: "red",
+  ORANGE: "orange",
+  YELLOW: "yellow",
+  GREEN: "green",
+  BLUE: "blue",
+  GRAY: "gray",
+} as const;
+
+export type LabelColor = (typeof LABEL_COLORS)[keyof typeof LABEL_COLORS];
+
+export const MAX_LABELS = 30;
+export const MAX_LABEL_NAME_LENGTH = 30;
+
+/**
+ * Tailwind classes for a label chip
+ */
+export function getLabelColorClasses(color: string): string {
+  switch (color) {
+    case LABEL_COLORS.PURPLE:
+      return "bg-purple-500/15 text-purple-300 border-purple-500/30";
+    case LABEL_COLORS.PINK:
+      return "bg-pink-500/15 text-pink-300 border-pink-500/30";
+    case LABEL_COLORS.RED:
+      return "bg-red-500/15 text-red-300 border-red-500/30";
+    case LABEL_COLORS.ORANGE:
+      return "bg-orange-500/15 text-orange-300 border-orange-500/30";
+    case LABEL_COLORS.YELLOW:
+      return "bg-yellow-500/15 text-yellow-300 border-yellow-500/30";
+    case LABEL_COLORS.GREEN:
+      return "bg-green-500/15 text-green-300 border-green-500/30";
+    case LABEL_COLORS.BLUE:
+      return "bg-blue-500/15 text-blue-300 border-blue-500/30";
+    default:
+      return "bg-gray-500/15 text-gray-300 border-gray-500/30";
+  }
+}
+
+/**
+ * Tailwind class for a label's color dot
+ */
+export function getLabelDotClass(color: string): string {
+  switch (color) {
+    case LABEL_COLORS.PURPLE:
+      return "bg-purple-500";
+    case LABEL_COLORS.PINK:
+      return "bg-pink-500";
+    case LABEL_COLORS.RED:
+      return "bg-red-500";
+    case LABEL_COLORS.ORANGE:
+      return "bg-orange-500";
+    case LABEL_COLORS.YELLOW:
+      return "bg-yellow-500";
+    case LABEL_COLORS.GREEN:
+      return "bg-green-500";
+    case LABEL_COLORS.BLUE:
+      return "bg-blue-500";
+    default:
+      return "bg-gray-500";
+  }
+}
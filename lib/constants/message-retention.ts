@@ -0,0 +1,44 @@
+/**
+ * Message retention settings - shared between client and server
+ */
+
+/**
+ * Retention periods a user can pick (null = keep forever)
+ */
+export const RETENTION_PERIOD_DAYS = [null, 7, 30, 90, 365] as const;
+
+export type RetentionPeriodDays = (typeof RETENTION_PERIOD_DAYS)[number];
+
+/**
+ * Which retention period applies to a message. Flagged messages follow the
+ * flagged period whether or not they've been read
+ */
+export const RETENTION_CATEGORIES = {
+  READ: "read",
+  UNREAD: "unread",
+  FLAGGED: "flagged",
+} as const;
+
+export type RetentionCategory =
+  (typeof RETENTION_CATEGORIES)[keyof typeof RETENTION_CATEGORIES];
+
+/**
+ * Messages deleted per purge batch, and batches per purge run (the rest
+ * wait for the next run)
+ */
+export const PURGE_BATCH_SIZE = 500;
+export const PURGE_MAX_BATCHES = 20;
+
+/**
+ * Get user-friendly retention period text
+ */
+export function getRetentionPeriodText(days: RetentionPeriodDays): string {
+  switch (days) {
+    case null:
+      return "Forever";
+    case 365:
+      return "1 year";
+    default:
+      return `${days} days`;
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Muted word limits - shared between client and server
+ */
+
+export const MAX_MUTED_WORDS = 100;
+export const MAX_MUTED_WORD_LENGTH = 100;
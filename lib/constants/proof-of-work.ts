@@ -0,0 +1,58 @@
+/**
+ * Proof-of-work challenge settings - shared between the send API and the
+ * message form's solver
+ *
+ * A solution is a counter such that SHA-256("<challenge>:<counter>") starts
+ * with `difficulty` zero bits; each extra bit doubles the expected work
+ */
+
+/**
+ * Difficulty for senders in good standing (~16k hashes, well under a second)
+ */
+export const POW_BASE_DIFFICULTY = 14;
+
+/**
+ * Extra bits per rate limit strike the sender's IP collected in the last hour
+ */
+export const POW_DIFFICULTY_PER_STRIKE = 1;
+
+/**
+ * Hardest puzzle ever issued (~4M hashes, several seconds on a phone)
+ */
+export const POW_MAX_DIFFICULTY = 22;
+
+/**
+ * How long a challenge can be solved and redeemed
+ */
+export const POW_CHALLENGE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Longest solution accepted (the counter as a decimal string)
+ */
+export const POW_MAX_SOLUTION_LENGTH = 16;
+
+/**
+ * String that gets hashed for a candidate solution
+ */
+export function getProofOfWorkInput(challenge: string, solution: string): string {
+  return `${challenge}:${solution}`;
+}
+
+/**
+ * Number of leading zero bits in a hash digest
+ */
+export function countLeadingZeroBits(digest: Uint8Array): number {
+  let bits = 0;
+
+  for (const byte of digest) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+
+  return bits;
+}
@@ -0,0 +1,35 @@
+/**
+ * Raw sender IP settings - shared between client and server
+ *
+ * Abuse tooling (rate limits, blocks, throttling) only ever uses the salted
+ * IP hash. The raw IP never reaches the inbox - it is only included in the
+ * recipient's own data export - so deployments choose how much of it to
+ * keep with RAW_IP_MODE and how long to keep it with RAW_IP_RETENTION_DAYS
+ * (server only)
+ */
+
+export const RAW_IP_MODES = {
+  /** Store the full address */
+  FULL: "full",
+  /** Store it with the host part removed (see anonymizeIP) */
+  TRUNCATED: "truncated",
+  /** Never store it */
+  NONE: "none",
+} as const;
+
+export type RawIPMode = (typeof RAW_IP_MODES)[keyof typeof RAW_IP_MODES];
+
+export const DEFAULT_RAW_IP_MODE: RawIPMode = RAW_IP_MODES.TRUNCATED;
+
+/**
+ * Days a stored raw IP is kept before the purge job clears it
+ */
+export const DEFAULT_RAW_IP_RETENTION_DAYS = 30;
+export const MAX_RAW_IP_RETENTION_DAYS = 365;
+
+/**
+ * Messages cleared per purge batch, and batches per purge run (the rest
+ * wait for the next run)
+ */
+export const RAW_IP_PURGE_BATCH_SIZE = 1000;
+export const RAW_IP_PURGE_MAX_BATCHES = 20;
@@ -0,0 +1,82 @@
+/**
+ * Report triage settings - shared between client and server
+ */
+
+export const REPORT_STATUSES = {
+  OPEN: "open",
+  UNDER_REVIEW: "under_review",
+  ACTIONED: "actioned",
+  DISMISSED: "dismissed",
+} as const;
+
+export type ReportStatus =
+  (typeof REPORT_STATUSES)[keyof typeof REPORT_STATUSES];
+
+/**
+ * What a reviewer can do about a reported message. Blocks apply to the
+ * reporter's inbox, against the sender's IP hash
+ */
+export const REPORT_ACTIONS = {
+  DELETE_MESSAGE: "delete_message",
+  BLOCK_SENDER: "block_sender",
+} as const;
+
+export type ReportAction =
+  (typeof REPORT_ACTIONS)[keyof typeof REPORT_ACTIONS];
+
+/**
+ * Statuses a report can move to from each status. Resolved reports can be
+ * reopened, but an action already taken isn't undone
+ */
+export const REPORT_STATUS_TRANSITIONS = {
+  open: ["under_review", "actioned", "dismissed"],
+  under_review: ["open", "actioned", "dismissed"],
+  actioned: ["open"],
+  dismissed: ["open", "under_review"],
+} as const satisfies Record<ReportStatus, readonly ReportStatus[]>;
+
+export const MAX_REVIEWER_NOTES_LENGTH = 2000;
+
+/**
+ * Reports per page in the moderation queue
+ */
+export const REPORTS_PAGE_SIZE = 25;
+
+export function canTransitionReport(
+  from: ReportStatus,
+  to: ReportStatus
+): boolean {
+  return (REPORT_STATUS_TRANSITIONS[from] as readonly ReportStatus[]).includes(to);
+}
+
+export function isReportResolved(status: ReportStatus): boolean {
+  return (
+    status === REPORT_STATUSES.ACTIONED || status === REPORT_STATUSES.DISMISSED
+  );
+}
+
+export function getReportStatusText(status: ReportStatus): string {
+  switch (status) {
+    case REPORT_STATUSES.OPEN:
+      return "Open";
+    case REPORT_STATUSES.UNDER_REVIEW:
+      return "Under Review";
+    case REPORT_STATUSES.ACTIONED:
+      return "Actioned";
+    case REPORT_STATUSES.DISMISSED:
+      return "Dismissed";
+    default:
+      return "Unknown";
+  }
+}
+
+export function getReportActionText(action: ReportAction): string {
+  switch (action) {
+    case REPORT_ACTIONS.DELETE_MESSAGE:
+      return "Delete message";
+    case REPORT_ACTIONS.BLOCK_SENDER:
+      return "Block sender for the reporter";
+    default:
+      return "Unknown";
+  }
+}
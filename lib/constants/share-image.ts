@@ -0,0 +1,66 @@
+/**
+ * Share image options - shared between client and server
+ * Used by /api/messages/[id]/share-image and the share dialog
+ */
+
+export const SHARE_IMAGE_FORMATS = {
+  STORY: "story",
+  SQUARE: "square",
+} as const;
+
+export type ShareImageFormat =
+  (typeof SHARE_IMAGE_FORMATS)[keyof typeof SHARE_IMAGE_FORMATS];
+
+export const SHARE_IMAGE_TEMPLATES = {
+  BRAND: "brand",
+  SUNSET: "sunset",
+  MINIMAL: "minimal",
+} as const;
+
+export type ShareImageTemplate =
+  (typeof SHARE_IMAGE_TEMPLATES)[keyof typeof SHARE_IMAGE_TEMPLATES];
+
+export const SHARE_IMAGE_THEMES = {
+  DARK: "dark",
+  LIGHT: "light",
+} as const;
+
+export type ShareImageTheme =
+  (typeof SHARE_IMAGE_THEMES)[keyof typeof SHARE_IMAGE_THEMES];
+
+/**
+ * Output dimensions in pixels (9:16 for stories, 1:1 for feed posts)
+ */
+export const SHARE_IMAGE_DIMENSIONS: Record<
+  ShareImageFormat,
+  { width: number; height: number }
+> = {
+  story: { width: 1080, height: 1920 },
+  square: { width: 1080, height: 1080 },
+};
+
+export function getShareImageFormatText(format: ShareImageFormat): string {
+  switch (format) {
+    case SHARE_IMAGE_FORMATS.STORY:
+      return "Story (9:16)";
+    case SHARE_IMAGE_FORMATS.SQUARE:
+      return "Square (1:1)";
+    default:
+      return "Unknown";
+  }
+}
+
+export function getShareImageTemplateText(
+  template: ShareImageTemplate
+): string {
+  switch (template) {
+    case SHARE_IMAGE_TEMPLATES.BRAND:
+      return "Brand";
+    case SHARE_IMAGE_TEMPLATES.SUNSET:
+      return "Sunset";
+    case SHARE_IMAGE_TEMPLATES.MINIMAL:
+      return "Minimal";
+    default:
+      return "Unknown";
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Webhook events, formats and limits - shared between client and server
+ *
+ * Deliveries are signed with HMAC-SHA256 over "<timestamp>.<body>" and the
+ * signature is sent as "t=<timestamp>,v1=<hex>" in WEBHOOK_SIGNATURE_HEADER
+ * (twice, one per secret, while a rotated-out secret is still valid)
+ */
+
+export const WEBHOOK_EVENTS = {
+  MESSAGE_RECEIVED: "message.received",
+  MESSAGE_REPORTED: "message.reported",
+  PROFILE_VISITED_MILESTONE: "profile.visited_milestone",
+} as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[keyof typeof WEBHOOK_EVENTS];
+
+/**
+ * Payload shapes: the signed event envelope, or a message for Discord or
+ * Slack incoming webhooks
+ */
+export const WEBHOOK_FORMATS = {
+  JSON: "json",
+  DISCORD: "discord",
+  SLACK: "slack",
+} as const;
+
+export type WebhookFormat =
+  (typeof WEBHOOK_FORMATS)[keyof typeof WEBHOOK_FORMATS];
+
+export const WEBHOOK_DELIVERY_STATUSES = {
+  PENDING: "pending",
+  SUCCEEDED: "succeeded",
+  FAILED: "failed",
+} as const;
+
+export type WebhookDeliveryStatus =
+  (typeof WEBHOOK_DELIVERY_STATUSES)[keyof typeof WEBHOOK_DELIVERY_STATUSES];
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-NGLFS-Signature";
+export const WEBHOOK_EVENT_HEADER = "X-NGLFS-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-NGLFS-Delivery";
+
+export const MAX_WEBHOOK_ENDPOINTS = 5;
+export const MAX_WEBHOOK_URL_LENGTH = 2048;
+export const MAX_WEBHOOK_DESCRIPTION_LENGTH = 100;
+
+/**
+ * Hours a rotated-out secret keeps signing deliveries, so receivers can
+ * switch over without dropping any
+ */
+export const WEBHOOK_SECRET_ROTATION_GRACE_HOURS = 24;
+
+/**
+ * Attempts per delivery (the first plus retries). Retry n waits
+ * WEBHOOK_RETRY_BASE_SECONDS * 4^(n-1): 1, 4, 16, 64 and 256 minutes
+ */
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+export const WEBHOOK_RETRY_BASE_SECONDS = 60;
+
+/**
+ * How long an endpoint gets to respond
+ */
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Deliveries retried per batch, and batches per retry run (the rest wait
+ * for the next run)
+ */
+export const WEBHOOK_RETRY_BATCH_SIZE = 50;
+export const WEBHOOK_RETRY_MAX_BATCHES = 10;
+
+/**
+ * Days deliveries stay in the log
+ */
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
+
+export const WEBHOOK_DELIVERIES_PAGE_SIZE = 20;
+
+/**
+ * Profile visit counts announced with profile.visited_milestone
+ */
+export const VISIT_MILESTONES = [
+  10, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 25000, 50000, 100000,
+] as const;
+
+/**
+ * Get user-friendly event text
+ */
+export function getWebhookEventText(event: WebhookEvent): string {
+  switch (event) {
+    case WEBHOOK_EVENTS.MESSAGE_RECEIVED:
+      return "Message received";
+    case WEBHOOK_EVENTS.MESSAGE_REPORTED:
+      return "Message reported";
+    case WEBHOOK_EVENTS.PROFILE_VISITED_MILESTONE:
+      return "Profile visit milestone";
+    default:
+      return event;
+  }
+}
+
+/**
+ * Get user-friendly format text
+ */
+export function getWebhookFormatText(format: WebhookFormat): string {
+  switch (format) {
+    case WEBHOOK_FORMATS.JSON:
+      return "JSON (signed)";
+    case WEBHOOK_FORMATS.DISCORD:
+      return "Discord";
+    case WEBHOOK_FORMATS.SLACK:
+      return "Slack";
+    default:
+      return format;
+  }
+}
+
+/**
+ * The highest milestone a visit count has reached (0 if none)
+ */
+export function getVisitMilestone(visits: number): number {
+  let reached = 0;
+  for (const milestone of VISIT_MILESTONES) {
+    if (visits >= milestone) reached = milestone;
+  }
+  return reached;
+}
@@ -0,0 +1,222 @@
+/**
+ * Account Deletion Database Utilities
+ * Server-side functions for the account purge job, which permanently
+ * deletes accounts whose deletion grace period has ended. The job runs
+ * without a signed-in user, so it works with the service role
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { deleteMessageAttachmentFiles } from '@/lib/db/attachments';
+import { deleteUserDataExports } from '@/lib/db/data-exports';
+import {
+  DEFAULT_ACCOUNT_DELETION_GRACE_DAYS,
+  MAX_ACCOUNT_DELETION_GRACE_DAYS,
+  ACCOUNT_PURGE_BATCH_SIZE,
+} from '@/lib/constants/account-deletion';
+import { PURGE_BATCH_SIZE } from '@/lib/constants/message-retention';
+
+export interface AccountPurgeSummary {
+  /** Accounts permanently deleted */
+  purged: number;
+  /** Accounts that failed and will be retried on the next run */
+  failed: number;
+  /** Whether accounts due for deletion were left for the next run */
+  hasMore: boolean;
+}
+
+/**
+ * Days a deleted account can be restored (ACCOUNT_DELETION_GRACE_DAYS,
+ * falling back to the default when unset or invalid)
+ * @returns Grace period in days
+ */
+export function getAccountDeletionGraceDays(): number {
+  const configured = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS);
+
+  if (
+    Number.isInteger(configured) &&
+    configured >= 0 &&
+    configured <= MAX_ACCOUNT_DELETION_GRACE_DAYS
+  ) {
+    return configured;
+  }
+
+  return DEFAULT_ACCOUNT_DELETION_GRACE_DAYS;
+}
+
+/**
+ * When an account deleted now will be permanently deleted
+ * @returns End of the grace period
+ */
+export function getAccountDeletionDate(): Date {
+  return new Date(Date.now() + getAccountDeletionGraceDays() * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Find accounts whose grace period has ended (service role)
+ * @param limit - Maximum accounts to return
+ * @returns Profiles to delete, or null on error
+ */
+export async function findAccountsDueForDeletion(
+  limit: number = ACCOUNT_PURGE_BATCH_SIZE
+): Promise<Array<{ id: string }> | null> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('is_active', false)
+    .lte('deletion_scheduled_for', new Date().toISOString())
+    .order('deletion_scheduled_for', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error finding accounts due for deletion:', error);
+    return null;
+  }
+
+  return data || [];
+}
+
+/**
+ * Delete a user's avatars - the current one and any replaced ones still
+ * in storage (service role). Avatars are stored as avatars/<user_id>-<time>
+ * @param userId - UUID of user
+ * @returns true if successful
+ */
+export async function deleteUserAvatars(userId: string): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase.storage
+    .from('avatars')
+    .list('avatars', { search: `${userId}-` });
+
+  if (error) {
+    console.error('Error listing avatars for deletion:', error);
+    return false;
+  }
+
+  const paths = (data || [])
+    .filter((file) => file.name.startsWith(`${userId}-`))
+    .map((file) => `avatars/${file.name}`);
+
+  if (paths.length === 0) return true;
+
+  const { error: removeError } = await supabase.storage
+    .from('avatars')
+    .remove(paths);
+
+  if (removeError) {
+    console.error('Error deleting avatars:', removeError);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Delete the images attached to a user's messages (service role)
+ * @param userId - UUID of user
+ * @returns true if successful
+ */
+async function deleteUserAttachmentFiles(userId: string): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  for (let from = 0; ; from += PURGE_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('id')
+      .eq('recipient_id', userId)
+      .order('id', { ascending: true })
+      .range(from, from + PURGE_BATCH_SIZE - 1);
+
+    if (error) {
+      console.error('Error listing messages for deletion:', error);
+      return false;
+    }
+
+    if (!data || data.length === 0) return true;
+
+    const deleted = await deleteMessageAttachmentFiles(
+      data.map((message) => message.id),
+      true
+    );
+    if (!deleted) return false;
+
+    if (data.length < PURGE_BATCH_SIZE) return true;
+  }
+}
+
+/**
+ * Permanently delete an account: stored files (avatars, message images,
+ * data exports), push subscriptions, the profile - which cascades to
+ * messages, analytics and everything else - and finally the auth user
+ * (service role)
+ * @param userId - UUID of user
+ * @returns true if the account is gone
+ */
+export async function hardDeleteAccount(userId: string): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  // Files first - once the rows are gone nothing points at them
+  const filesDeleted =
+    (await deleteUserAvatars(userId)) &&
+    (await deleteUserAttachmentFiles(userId)) &&
+    (await deleteUserDataExports(userId));
+
+  if (!filesDeleted) return false;
+
+  const { error: pushError } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('user_id', userId);
+
+  if (pushError) {
+    console.error('Error deleting push subscriptions:', pushError);
+    return false;
+  }
+
+  const { error: profileError } = await supabase
+    .from('profiles')
+    .delete()
+    .eq('id', userId);
+
+  if (profileError) {
+    console.error('Error deleting profile:', profileError);
+    return false;
+  }
+
+  const { error: authError } = await supabase.auth.admin.deleteUser(userId);
+
+  if (authError) {
+    console.error('Error deleting auth user:', authError);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Permanently delete every account whose grace period has ended
+ * @returns What the run deleted
+ */
+export async function runAccountPurge(): Promise<AccountPurgeSummary> {
+  const due = await findAccountsDueForDeletion(ACCOUNT_PURGE_BATCH_SIZE);
+
+  if (!due) {
+    return { purged: 0, failed: 0, hasMore: false };
+  }
+
+  let purged = 0;
+
+  for (const account of due) {
+    if (await hardDeleteAccount(account.id)) {
+      purged++;
+    }
+  }
+
+  return {
+    purged,
+    failed: due.length - purged,
+    hasMore: due.length === ACCOUNT_PURGE_BATCH_SIZE,
+  };
+}
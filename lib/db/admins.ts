@@ -0,0 +1,173 @@
+/**
+ * Platform Admin Database Utilities
+ * Server-side checks for platform admins (moderators), profile moderation
+ * and the admin audit log. Admins are granted by hand in the database - see
+ * the platform_admins table. Admin actions run as the signed-in admin in
+ * database functions that check admin status and write the audit log
+ * entry in the same transaction
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { deleteUserAvatars } from '@/lib/db/account-deletion';
+import {
+  ADMIN_ACTIONS,
+  ADMIN_AUDIT_LOG_PAGE_SIZE,
+  type ProfileAdminAction,
+} from '@/lib/constants/admin';
+import type {
+  AdminAuditLogEntry,
+  Profile,
+} from '@/lib/types/database.types';
+
+export type AdminAuditLogItem = AdminAuditLogEntry & {
+  admin_username: string | null;
+  target_username: string | null;
+};
+
+/**
+ * Check whether a user is a platform admin
+ * @param userId - UUID of the user (must be the signed-in user - RLS only
+ * lets users see their own admin status)
+ * @returns true if the user is an admin
+ */
+export async function isPlatformAdmin(userId: string): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('platform_admins')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking admin status:', error);
+    return false;
+  }
+
+  return data !== null;
+}
+
+/**
+ * Get the signed-in user if they're a platform admin
+ * @returns The admin's user ID, or null if not signed in or not an admin
+ */
+export async function getCurrentAdminId(): Promise<string | null> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user || !(await isPlatformAdmin(user.id))) {
+    return null;
+  }
+
+  return user.id;
+}
+
+/**
+ * Get the admin audit log, newest first (admins only, via RLS)
+ * @param page - 1-based page number
+ * @param targetUserId - Only actions on this account (all if omitted)
+ * @returns Page of entries with usernames and the total, or null if error
+ */
+export async function getAdminAuditLog(
+  page: number = 1,
+  targetUserId: string | null = null
+): Promise<{ entries: AdminAuditLogItem[]; total: number } | null> {
+  const supabase = await createClient();
+  const from = (page - 1) * ADMIN_AUDIT_LOG_PAGE_SIZE;
+
+  let query = supabase
+    .from('admin_audit_log')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range(from, from + ADMIN_AUDIT_LOG_PAGE_SIZE - 1);
+
+  if (targetUserId) {
+    query = query.eq('target_user_id', targetUserId);
+  }
+
+  const { data, count, error } = await query;
+
+  if (error) {
+    console.error('Error fetching admin audit log:', error);
+    return null;
+  }
+
+  // Entries keep no foreign keys, so look usernames up separately (deleted
+  // accounts show as null)
+  const userIds = [
+    ...new Set(
+      (data || []).flatMap((entry) =>
+        entry.target_user_id
+          ? [entry.admin_id, entry.target_user_id]
+          : [entry.admin_id]
+      )
+    ),
+  ];
+  const usernames = new Map<string, string>();
+
+  if (userIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, username')
+      .in('id', userIds);
+
+    for (const profile of profiles || []) {
+      usernames.set(profile.id, profile.username);
+    }
+  }
+
+  return {
+    entries: (data || []).map((entry) => ({
+      ...entry,
+      admin_username: usernames.get(entry.admin_id) ?? null,
+      target_username: entry.target_user_id
+        ? usernames.get(entry.target_user_id) ?? null
+        : null,
+    })),
+    total: count || 0,
+  };
+}
+
+/**
+ * Take an admin action on a profile. The change and its audit log entry
+ * are written in one transaction (admin_moderate_profile), so an action
+ * that can't be logged doesn't happen
+ * @param userId - UUID of the account
+ * @param action - What to do
+ * @param options - Suspension reason or new username (already validated)
+ * @returns Updated profile, 'duplicate' if the new username is taken, or
+ * null if error
+ */
+export async function moderateProfile(
+  userId: string,
+  action: ProfileAdminAction,
+  options: { reason?: string; username?: string } = {}
+): Promise<Profile | 'duplicate' | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .rpc('admin_moderate_profile', {
+      p_user_id: userId,
+      p_action: action,
+      p_reason: options.reason ?? null,
+      p_username: options.username?.toLowerCase() ?? null,
+    })
+    .single();
+
+  if (error) {
+    // Unique violation on username
+    if (error.code === '23505') return 'duplicate';
+    console.error('Error taking admin action on profile:', error);
+    return null;
+  }
+
+  // The public URL keeps working until the file itself is gone
+  if (action === ADMIN_ACTIONS.REMOVE_AVATAR) {
+    await deleteUserAvatars(userId);
+  }
+
+  return data as Profile;
+}
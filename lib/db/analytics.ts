@@ -5,6 +5,8 @@
  */
 
 import { createClient } from '@/lib/supabase/server';
+import { isCampaignLinkAccepting } from '@/lib/db/campaign-links';
+import { MODERATION_VERDICTS } from '@/lib/moderation/constants';
 import type {
   MessageAnalytic,
   MessageAnalyticInsert,
@@ -359,6 +361,83 @@ export async function getTopReferrers(
     .map(([referrer, count]) => ({ referrer, count }));
 }
 
+/**
+ * Get visits and messages per campaign link, with the main profile URL
+ * as its own row (linkId null) for comparison
+ * @param profileId - Profile ID
+ * @returns Array of links with visit/message counts and conversion rate
+ */
+export async function getLinkBreakdown(profileId: string): Promise<
+  Array<{
+    linkId: string | null;
+    name: string;
+    slug: string | null;
+    isOpen: boolean;
+    visits: number;
+    messages: number;
+    conversionRate: number;
+  }>
+> {
+  const supabase = await createClient();
+
+  const [linksResult, visitsResult, messagesResult] = await Promise.all([
+    supabase
+      .from('campaign_links')
+      .select('id, name, slug, is_open, expires_at')
+      .eq('profile_id', profileId)
+      .order('created_at', { ascending: false }),
+    supabase.from('link_visits').select('link_id').eq('profile_id', profileId),
+    supabase.from('messages').select('link_id').eq('recipient_id', profileId),
+  ]);
+
+  const error = linksResult.error || visitsResult.error || messagesResult.error;
+  if (error) {
+    console.error('Error fetching link breakdown:', error);
+    return [];
+  }
+
+  // Count visits and messages per link (null = main profile URL)
+  const visitCounts: Record<string, number> = {};
+  visitsResult.data?.forEach((visit) => {
+    const key = visit.link_id || 'main';
+    visitCounts[key] = (visitCounts[key] || 0) + 1;
+  });
+
+  const messageCounts: Record<string, number> = {};
+  messagesResult.data?.forEach((message) => {
+    const key = message.link_id || 'main';
+    messageCounts[key] = (messageCounts[key] || 0) + 1;
+  });
+
+  const toRow = (
+    key: string,
+    row: { linkId: string | null; name: string; slug: string | null; isOpen: boolean }
+  ) => {
+    const visits = visitCounts[key] || 0;
+    const messages = messageCounts[key] || 0;
+
+    return {
+      ...row,
+      visits,
+      messages,
+      conversionRate:
+        visits > 0 ? Math.round((messages / visits) * 1000) / 10 : 0, // Round to 1 decimal
+    };
+  };
+
+  return [
+    toRow('main', { linkId: null, name: 'Main profile', slug: null, isOpen: true }),
+    ...(linksResult.data || []).map((link) =>
+      toRow(link.id, {
+        linkId: link.id,
+        name: link.name,
+        slug: link.slug,
+        isOpen: isCampaignLinkAccepting(link),
+      })
+    ),
+  ];
+}
+
 /**
  * Get dashboard analytics overview
  * @param userId - User ID
@@ -394,7 +473,8 @@ export async function getDashboardAnalytics(userId: string): Promise<{
     .from('messages')
     .select('*', { count: 'exact', head: true })
     .eq('recipient_id', userId)
-    .eq('is_read', false);
+    .eq('is_read', false)
+    .eq('moderation_verdict', MODERATION_VERDICTS.DELIVER);
 
   const todayStart = new Date();
   todayStart.setHours(0, 0, 0, 0);
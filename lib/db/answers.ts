@@ -0,0 +1,166 @@
+/**
+ * Public Answer Database Utilities
+ * Server-side functions for the public Q&A wall
+ * Owners answer received messages and publish question + answer pairs
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import type { PublicAnswer } from '@/lib/types/database.types';
+
+/**
+ * Number of published answers shown per page on the public profile
+ */
+export const ANSWERS_PAGE_SIZE = 10;
+
+/**
+ * Columns safe to expose on the public profile page
+ */
+const PUBLIC_ANSWER_COLUMNS = 'id, question, answer, published_at';
+
+export type PublishedAnswer = Pick<
+  PublicAnswer,
+  'id' | 'question' | 'answer' | 'published_at'
+>;
+
+/**
+ * Get a page of published answers for a profile (public, no auth required)
+ * @param profileId - UUID of the profile owner
+ * @param page - 1-based page number
+ * @param pageSize - Answers per page (default ANSWERS_PAGE_SIZE)
+ * @returns Published answers and total count
+ */
+export async function getPublishedAnswers(
+  profileId: string,
+  page: number = 1,
+  pageSize: number = ANSWERS_PAGE_SIZE
+): Promise<{ answers: PublishedAnswer[]; total: number }> {
+  const supabase = await createClient();
+  const offset = (Math.max(page, 1) - 1) * pageSize;
+
+  const { data, count, error } = await supabase
+    .from('public_answers')
+    .select(PUBLIC_ANSWER_COLUMNS, { count: 'exact' })
+    .eq('profile_id', profileId)
+    .eq('is_published', true)
+    .order('published_at', { ascending: false })
+    .range(offset, offset + pageSize - 1);
+
+  if (error) {
+    console.error('Error fetching published answers:', error);
+    return { answers: [], total: 0 };
+  }
+
+  return { answers: data || [], total: count || 0 };
+}
+
+/**
+ * Get the answer for a message (owner only, RLS enforced)
+ * @param messageId - UUID of message
+ * @returns Answer or null if the message has not been answered
+ */
+export async function getAnswerForMessage(
+  messageId: string
+): Promise<PublicAnswer | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('public_answers')
+    .select('*')
+    .eq('message_id', messageId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching answer:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Create or update the answer for a message
+ * The question is snapshotted from the message on first save
+ * @param profileId - UUID of the message recipient
+ * @param messageId - UUID of message being answered
+ * @param answer - Answer text
+ * @param isPublished - Whether the pair should be visible publicly
+ * @returns Saved answer or null if error / message not owned
+ */
+export async function saveAnswer(
+  profileId: string,
+  messageId: string,
+  answer: string,
+  isPublished: boolean
+): Promise<PublicAnswer | null> {
+  const supabase = await createClient();
+
+  const { data: message, error: messageError } = await supabase
+    .from('messages')
+    .select('id, content')
+    .eq('id', messageId)
+    .eq('recipient_id', profileId)
+    .single();
+
+  if (messageError || !message) {
+    console.error('Error fetching message to answer:', messageError);
+    return null;
+  }
+
+  const existing = await getAnswerForMessage(messageId);
+
+  // Keep the original publish date when editing an already published answer
+  const publishedAt = isPublished
+    ? existing?.is_published && existing.published_at
+      ? existing.published_at
+      : new Date().toISOString()
+    : null;
+
+  const { data, error } = await supabase
+    .from('public_answers')
+    .upsert(
+      {
+        profile_id: profileId,
+        message_id: messageId,
+        question: existing?.question ?? message.content,
+        answer: answer.trim(),
+        is_published: isPublished,
+        published_at: publishedAt,
+      },
+      { onConflict: 'message_id' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving answer:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Delete the answer for a message (removes it from the public wall)
+ * @param profileId - UUID of the message recipient
+ * @param messageId - UUID of message
+ * @returns true if successful
+ */
+export async function deleteAnswer(
+  profileId: string,
+  messageId: string
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('public_answers')
+    .delete()
+    .eq('message_id', messageId)
+    .eq('profile_id', profileId);
+
+  if (error) {
+    console.error('Error deleting answer:', error);
+    return false;
+  }
+
+  return true;
+}
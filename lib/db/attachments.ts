@@ -0,0 +1,169 @@
+/**
+ * Message Attachment Database Utilities
+ * Server-side functions for images attached to messages. Files live in a
+ * private bucket under <recipient_id>/<message_id>/ and are only ever
+ * served to the recipient through short-lived signed URLs
+ */
+
+import crypto from 'crypto';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import {
+  ATTACHMENTS_BUCKET,
+  ATTACHMENT_URL_TTL_SECONDS,
+} from '@/lib/constants/attachments';
+import type { SanitizedImage } from '@/lib/utils/image-sanitizer';
+import type { MessageAttachment } from '@/lib/types/database.types';
+
+export type SignedAttachment = Pick<
+  MessageAttachment,
+  'id' | 'content_type' | 'width' | 'height'
+> & {
+  url: string;
+};
+
+/**
+ * Store sanitized images for a new message (service role - senders are
+ * anonymous and have no storage access of their own)
+ * @param recipientId - UUID of recipient (top-level folder)
+ * @param messageId - UUID of message
+ * @param images - Images already passed through sanitizeImage
+ * @returns true if every image was stored
+ */
+export async function saveMessageAttachments(
+  recipientId: string,
+  messageId: string,
+  images: SanitizedImage[]
+): Promise<boolean> {
+  const supabase = await createAdminClient();
+  const uploaded: string[] = [];
+
+  for (const image of images) {
+    const path = `${recipientId}/${messageId}/${crypto.randomUUID()}.${image.extension}`;
+
+    const { error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(path, image.buffer, {
+        contentType: image.contentType,
+        upsert: false,
+      });
+
+    if (error) {
+      console.error('Error uploading attachment:', error);
+      break;
+    }
+
+    uploaded.push(path);
+  }
+
+  if (uploaded.length === images.length) {
+    const { error } = await supabase.from('message_attachments').insert(
+      images.map((image, index) => ({
+        message_id: messageId,
+        storage_path: uploaded[index],
+        content_type: image.contentType,
+        size_bytes: image.buffer.length,
+        width: image.width,
+        height: image.height,
+      }))
+    );
+
+    if (!error) return true;
+    console.error('Error saving attachment records:', error);
+  }
+
+  // Don't leave orphaned files behind after a partial failure
+  if (uploaded.length > 0) {
+    await supabase.storage.from(ATTACHMENTS_BUCKET).remove(uploaded);
+  }
+
+  return false;
+}
+
+/**
+ * Get a message's attachments with signed URLs (RLS limits this to the
+ * recipient)
+ * @param messageId - UUID of message
+ * @returns Attachments oldest first, or [] if none or error
+ */
+export async function getSignedAttachments(
+  messageId: string
+): Promise<SignedAttachment[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('message_attachments')
+    .select('id, storage_path, content_type, width, height')
+    .eq('message_id', messageId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching attachments:', error);
+    return [];
+  }
+
+  if (!data || data.length === 0) return [];
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(
+      data.map((attachment: { storage_path: string }) => attachment.storage_path),
+      ATTACHMENT_URL_TTL_SECONDS
+    );
+
+  if (signError || !signed) {
+    console.error('Error signing attachment URLs:', signError);
+    return [];
+  }
+
+  return data.flatMap(
+    (attachment: Pick<MessageAttachment, 'id' | 'content_type' | 'width' | 'height'>, index: number) =>
+      signed[index]?.signedUrl
+        ? [
+            {
+              id: attachment.id,
+              content_type: attachment.content_type,
+              width: attachment.width,
+              height: attachment.height,
+              url: signed[index].signedUrl,
+            },
+          ]
+        : []
+  );
+}
+
+/**
+ * Delete the stored files for messages that are about to be deleted (the
+ * rows go with the message via ON DELETE CASCADE, the files don't)
+ * @param messageIds - Array of message UUIDs
+ * @param asService - Use the service role (background jobs with no signed-in user)
+ * @returns true if successful
+ */
+export async function deleteMessageAttachmentFiles(
+  messageIds: string[],
+  asService: boolean = false
+): Promise<boolean> {
+  const supabase = asService ? await createAdminClient() : await createClient();
+
+  const { data, error } = await supabase
+    .from('message_attachments')
+    .select('storage_path')
+    .in('message_id', messageIds);
+
+  if (error) {
+    console.error('Error fetching attachments for deletion:', error);
+    return false;
+  }
+
+  if (!data || data.length === 0) return true;
+
+  const { error: removeError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .remove(data.map((attachment: { storage_path: string }) => attachment.storage_path));
+
+  if (removeError) {
+    console.error('Error deleting attachment files:', removeError);
+    return false;
+  }
+
+  return true;
+}
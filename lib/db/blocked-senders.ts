@@ -0,0 +1,127 @@
+/**
+ * Blocked Sender Database Utilities
+ * Server-side functions for recipient block rules (IP, device fingerprint,
+ * region, referrer). RLS limits the recipient's own queries to their rules;
+ * the send and thread APIs read a recipient's rules with the service role
+ */
+
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import {
+  findMatchingBlockRule,
+  getSenderRegion,
+  type BlockRule,
+  type SenderSignals,
+} from '@/lib/utils/blocking';
+import type {
+  BlockedSender,
+  BlockedSenderInsert,
+} from '@/lib/types/database.types';
+
+/**
+ * Get a recipient's block rules that are still in force (service role -
+ * senders are anonymous and can't read other users' rules)
+ * @param recipientId - UUID of recipient
+ * @returns Active block rules or [] if error
+ */
+export async function getActiveBlockRules(
+  recipientId: string
+): Promise<BlockRule[]> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('blocked_senders')
+    .select('rule_type, blocked_ip_hash, match_value, expires_at')
+    .eq('user_id', recipientId)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+  if (error) {
+    console.error('Error fetching block rules:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Check whether any of a recipient's rules block a sender
+ * @param recipientId - UUID of recipient
+ * @param signals - What the server knows about the sender
+ * @returns true if blocked (false on error - don't block on error)
+ */
+export async function isSenderBlocked(
+  recipientId: string,
+  signals: SenderSignals
+): Promise<boolean> {
+  const rules = await getActiveBlockRules(recipientId);
+  return !!findMatchingBlockRule(rules, signals);
+}
+
+/**
+ * Sender signals recorded on a stored message
+ * @param message - Message tracking columns
+ * @returns Signals for block rule matching
+ */
+export function getMessageSenderSignals(message: {
+  sender_ip_hash: string;
+  sender_fingerprint: string | null;
+  sender_timezone: string | null;
+  sender_referrer_platform: string | null;
+}): SenderSignals {
+  return {
+    ipHash: message.sender_ip_hash,
+    fingerprint: message.sender_fingerprint,
+    region: getSenderRegion(message.sender_timezone),
+    referrerPlatform: message.sender_referrer_platform,
+  };
+}
+
+/**
+ * Remove a recipient's expired block rules, so an expired rule doesn't stop
+ * the same sender, device or value from being blocked again (service role -
+ * also runs for auto-blocks during an anonymous send)
+ * @param recipientId - UUID of recipient
+ * @returns true if successful
+ */
+export async function deleteExpiredBlockRules(
+  recipientId: string
+): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  const { error } = await supabase
+    .from('blocked_senders')
+    .delete()
+    .eq('user_id', recipientId)
+    .lte('expires_at', new Date().toISOString());
+
+  if (error) {
+    console.error('Error deleting expired block rules:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Add a block rule
+ * @param rule - Rule to insert (user_id must be the signed-in user)
+ * @returns Created rule, 'duplicate' if an identical rule exists, or null if error
+ */
+export async function createBlockRule(
+  rule: BlockedSenderInsert
+): Promise<BlockedSender | 'duplicate' | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('blocked_senders')
+    .insert(rule)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return 'duplicate';
+    console.error('Error creating block rule:', error);
+    return null;
+  }
+
+  return data;
+}
@@ -0,0 +1,193 @@
+/**
+ * Campaign Link Database Utilities
+ * Server-side functions for named inbox links (/[username]/q/[slug])
+ * Each link carries its own prompt, open/closed state and expiry
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import type { CampaignLink } from '@/lib/types/database.types';
+
+/**
+ * Maximum number of campaign links per profile
+ */
+export const MAX_CAMPAIGN_LINKS = 20;
+
+/**
+ * Lowercase letters, numbers and hyphens, 1-40 chars (matches DB constraint)
+ */
+export const CAMPAIGN_LINK_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+export type PublicCampaignLink = Pick<
+  CampaignLink,
+  'id' | 'slug' | 'name' | 'prompt' | 'is_open' | 'expires_at'
+>;
+
+/**
+ * Check whether a link currently accepts messages
+ * @param link - Campaign link
+ * @returns true if open and not expired
+ */
+export function isCampaignLinkAccepting(
+  link: Pick<CampaignLink, 'is_open' | 'expires_at'>
+): boolean {
+  if (!link.is_open) return false;
+  return !link.expires_at || new Date(link.expires_at).getTime() > Date.now();
+}
+
+/**
+ * Get a campaign link by slug (public, no auth required)
+ * @param profileId - UUID of the profile owner
+ * @param slug - Link slug
+ * @returns Link or null if not found
+ */
+export async function getCampaignLinkBySlug(
+  profileId: string,
+  slug: string
+): Promise<PublicCampaignLink | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('campaign_links')
+    .select('id, slug, name, prompt, is_open, expires_at')
+    .eq('profile_id', profileId)
+    .eq('slug', slug.toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching campaign link:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Get all campaign links for the owner
+ * @param profileId - UUID of the profile owner
+ * @returns Links, newest first
+ */
+export async function getCampaignLinksForOwner(
+  profileId: string
+): Promise<CampaignLink[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('campaign_links')
+    .select('*')
+    .eq('profile_id', profileId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching campaign links:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Create a campaign link
+ * @param profileId - UUID of the profile owner
+ * @param link - Slug, name, optional prompt and expiry
+ * @returns Created link or null if error
+ */
+export async function createCampaignLink(
+  profileId: string,
+  link: {
+    slug: string;
+    name: string;
+    prompt?: string | null;
+    expires_at?: string | null;
+  }
+): Promise<CampaignLink | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('campaign_links')
+    .insert({
+      profile_id: profileId,
+      slug: link.slug.toLowerCase(),
+      name: link.name.trim(),
+      prompt: link.prompt?.trim() || null,
+      expires_at: link.expires_at || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating campaign link:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Update a campaign link (name, prompt, open state or expiry)
+ * @param profileId - UUID of the profile owner
+ * @param linkId - UUID of link
+ * @param updates - Fields to change
+ * @returns Updated link or null if error
+ */
+export async function updateCampaignLink(
+  profileId: string,
+  linkId: string,
+  updates: {
+    name?: string;
+    prompt?: string | null;
+    is_open?: boolean;
+    expires_at?: string | null;
+  }
+): Promise<CampaignLink | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('campaign_links')
+    .update({
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(updates.prompt !== undefined && {
+        prompt: updates.prompt?.trim() || null,
+      }),
+      ...(updates.is_open !== undefined && { is_open: updates.is_open }),
+      ...(updates.expires_at !== undefined && {
+        expires_at: updates.expires_at,
+      }),
+    })
+    .eq('id', linkId)
+    .eq('profile_id', profileId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating campaign link:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Delete a campaign link (visits and messages keep their data, link_id is set to null)
+ * @param profileId - UUID of the profile owner
+ * @param linkId - UUID of link
+ * @returns true if successful
+ */
+export async function deleteCampaignLink(
+  profileId: string,
+  linkId: string
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('campaign_links')
+    .delete()
+    .eq('id', linkId)
+    .eq('profile_id', profileId);
+
+  if (error) {
+    console.error('Error deleting campaign link:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,540 @@
+/**
+ * Data Export Database Utilities
+ * Server-side functions for account data exports. Archives are built with
+ * the service role (big ones after the request has returned, with no user
+ * session) and stored in a private bucket under <user_id>/<export_id>.zip;
+ * users read their own export rows through RLS
+ */
+
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { createZipArchive, type ZipEntry } from '@/lib/utils/zip';
+import { toCsv } from '@/lib/utils/csv';
+import {
+  DATA_EXPORTS_BUCKET,
+  DATA_EXPORT_STATUSES,
+  DATA_EXPORT_TTL_DAYS,
+  DATA_EXPORT_LINK_TTL_SECONDS,
+  DATA_EXPORT_STALE_MINUTES,
+  DATA_EXPORT_PAGE_SIZE,
+  type DataExportStatus,
+} from '@/lib/constants/data-export';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/lib/types/notifications.types';
+import type {
+  DataExport,
+  DataExportUpdate,
+} from '@/lib/types/database.types';
+
+export type DataExportSummary = Pick<
+  DataExport,
+  'id' | 'file_size' | 'error' | 'created_at' | 'completed_at' | 'expires_at'
+> & {
+  status: DataExportStatus;
+  /** Signed link to the archive, while it's ready and unexpired */
+  download_url: string | null;
+  /** Seconds the download link stays valid */
+  download_url_expires_in: number;
+};
+
+/**
+ * Message columns included in the export. Internal hashes (sender IP,
+ * fingerprint, reply thread token) are left out - they identify nothing
+ * to the user and the thread token hash is a credential
+ */
+const MESSAGE_EXPORT_COLUMNS = [
+  'id',
+  'content',
+  'created_at',
+  'is_read',
+  'read_at',
+  'is_flagged',
+  'is_archived',
+  'archived_at',
+  'prompt_id',
+  'link_id',
+  'moderation_verdict',
+  'moderation_matches',
+  'sender_ip_raw',
+  'sender_device_type',
+  'sender_browser',
+  'sender_os',
+  'sender_referrer_platform',
+  'sender_utm_source',
+  'sender_utm_campaign',
+  'sender_timezone',
+  'sender_language',
+  'sender_screen_resolution',
+  'sender_viewport_size',
+  'sender_available_screen',
+  'sender_color_depth',
+  'sender_pixel_ratio',
+  'sender_touch_support',
+  'sender_connection_type',
+];
+
+const README = `Account data export
+
+profile.json                   Your profile and settings
+notification_preferences.json  Notification settings and registered devices
+messages/messages.json         Every message you've received, with the
+                               sender details recorded when it was sent
+messages/messages.csv          The same messages as a spreadsheet
+link_visits.json               Visits to your profile and campaign links
+analytics_events.json          Message events (views, reads, shares...)
+blocked_senders.json           Your block rules
+
+Times are in UTC (ISO 8601).
+`;
+
+/**
+ * Create a pending export for a user (service role)
+ * @param userId - UUID of user
+ * @returns The new export or null if error
+ */
+export async function createDataExport(
+  userId: string
+): Promise<DataExport | null> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('data_exports')
+    .insert({ user_id: userId, status: DATA_EXPORT_STATUSES.PENDING })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating data export:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Get one of a user's exports
+ * @param exportId - UUID of export
+ * @param userId - UUID of user
+ * @returns The export or null if not found
+ */
+export async function getDataExport(
+  exportId: string,
+  userId: string
+): Promise<DataExport | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('data_exports')
+    .select('*')
+    .eq('id', exportId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching data export:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Get a user's most recent export
+ * @param userId - UUID of user
+ * @returns The export or null if there is none
+ */
+export async function getLatestDataExport(
+  userId: string
+): Promise<DataExport | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('data_exports')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching latest data export:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Update an export's status (service role)
+ * @param exportId - UUID of export
+ * @param updates - Fields to change
+ * @returns true if successful
+ */
+export async function updateDataExport(
+  exportId: string,
+  updates: DataExportUpdate
+): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  const { error } = await supabase
+    .from('data_exports')
+    .update(updates)
+    .eq('id', exportId);
+
+  if (error) {
+    console.error('Error updating data export:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Count the messages a user has received
+ * @param userId - UUID of user
+ * @returns Message count or null if error
+ */
+export async function countExportableMessages(
+  userId: string
+): Promise<number | null> {
+  const supabase = await createClient();
+
+  const { count, error } = await supabase
+    .from('messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('recipient_id', userId);
+
+  if (error) {
+    console.error('Error counting messages for export:', error);
+    return null;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Fetch every row of a user's data from one table, a page at a time
+ * (service role)
+ * @param table - Table name
+ * @param columns - Columns to select
+ * @param ownerColumn - Column holding the user's id
+ * @param userId - UUID of user
+ * @returns Rows in creation order
+ */
+async function fetchAllRows(
+  table: string,
+  columns: string,
+  ownerColumn: string,
+  userId: string
+): Promise<Array<Record<string, unknown>>> {
+  const supabase = await createAdminClient();
+  const rows: Array<Record<string, unknown>> = [];
+
+  for (let from = 0; ; from += DATA_EXPORT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq(ownerColumn, userId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + DATA_EXPORT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to export ${table}: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as unknown as Array<Record<string, unknown>>));
+    if (!data || data.length < DATA_EXPORT_PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Collect a user's data into archive entries (service role)
+ * @param userId - UUID of user
+ * @returns Files for the archive
+ */
+async function collectExportEntries(userId: string): Promise<ZipEntry[]> {
+  const supabase = await createAdminClient();
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', userId)
+    .single();
+
+  if (error || !profile) {
+    throw new Error(`Failed to export profile: ${error?.message}`);
+  }
+
+  const { notification_preferences, ...profileData } = profile;
+
+  const messages = await fetchAllRows(
+    'messages',
+    MESSAGE_EXPORT_COLUMNS.join(', '),
+    'recipient_id',
+    userId
+  );
+  const linkVisits = await fetchAllRows(
+    'link_visits',
+    'id, link_id, referrer, user_agent, created_at',
+    'profile_id',
+    userId
+  );
+  const analyticsEvents = await fetchAllRows(
+    'message_analytics',
+    'id, message_id, event_type, metadata, created_at',
+    'user_id',
+    userId
+  );
+  const blockedSenders = await fetchAllRows(
+    'blocked_senders',
+    'id, rule_type, match_value, reason, expires_at, created_at',
+    'user_id',
+    userId
+  );
+  // Endpoints only - the encryption keys are secrets
+  const pushSubscriptions = await fetchAllRows(
+    'push_subscriptions',
+    'id, endpoint, created_at, updated_at',
+    'user_id',
+    userId
+  );
+
+  const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+  return [
+    { name: 'README.txt', data: README },
+    { name: 'profile.json', data: json(profileData) },
+    {
+      name: 'notification_preferences.json',
+      data: json({
+        preferences:
+          notification_preferences || DEFAULT_NOTIFICATION_PREFERENCES,
+        push_subscriptions: pushSubscriptions,
+      }),
+    },
+    { name: 'messages/messages.json', data: json(messages) },
+    {
+      name: 'messages/messages.csv',
+      data: toCsv(MESSAGE_EXPORT_COLUMNS, messages),
+    },
+    { name: 'link_visits.json', data: json(linkVisits) },
+    { name: 'analytics_events.json', data: json(analyticsEvents) },
+    { name: 'blocked_senders.json', data: json(blockedSenders) },
+  ];
+}
+
+/**
+ * Build, upload and finish an export (service role). Failures are recorded
+ * on the export rather than thrown, so this is safe to run after the
+ * response has been sent
+ * @param exportId - UUID of export
+ * @param userId - UUID of user
+ * @returns true if the archive is ready
+ */
+export async function buildDataExport(
+  exportId: string,
+  userId: string
+): Promise<boolean> {
+  await updateDataExport(exportId, {
+    status: DATA_EXPORT_STATUSES.PROCESSING,
+  });
+
+  try {
+    const archive = createZipArchive(await collectExportEntries(userId));
+    const path = `${userId}/${exportId}.zip`;
+
+    const supabase = await createAdminClient();
+    const { error } = await supabase.storage
+      .from(DATA_EXPORTS_BUCKET)
+      .upload(path, archive, {
+        contentType: 'application/zip',
+        upsert: true,
+      });
+
+    if (error) {
+      throw new Error(`Failed to upload archive: ${error.message}`);
+    }
+
+    const completedAt = new Date();
+    const expiresAt = new Date(
+      completedAt.getTime() + DATA_EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    return await updateDataExport(exportId, {
+      status: DATA_EXPORT_STATUSES.READY,
+      storage_path: path,
+      file_size: archive.length,
+      completed_at: completedAt.toISOString(),
+      expires_at: expiresAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('Error building data export:', error);
+    await updateDataExport(exportId, {
+      status: DATA_EXPORT_STATUSES.FAILED,
+      error: 'Export could not be created',
+      completed_at: new Date().toISOString(),
+    });
+    return false;
+  }
+}
+
+/**
+ * Create a short-lived download link for a ready export
+ * @param dataExport - The export
+ * @returns Signed URL or null if the archive is unavailable
+ */
+export async function getDataExportDownloadUrl(
+  dataExport: DataExport
+): Promise<string | null> {
+  if (
+    dataExport.status !== DATA_EXPORT_STATUSES.READY ||
+    !dataExport.storage_path ||
+    (dataExport.expires_at && new Date(dataExport.expires_at) <= new Date())
+  ) {
+    return null;
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.storage
+    .from(DATA_EXPORTS_BUCKET)
+    .createSignedUrl(dataExport.storage_path, DATA_EXPORT_LINK_TTL_SECONDS, {
+      download: `account-export-${dataExport.created_at.slice(0, 10)}.zip`,
+    });
+
+  if (error) {
+    console.error('Error signing data export URL:', error);
+    return null;
+  }
+
+  return data.signedUrl;
+}
+
+/**
+ * Delete all of a user's export archives (service role). Export rows are
+ * removed with the profile, so the files must go first or nothing would
+ * ever clean them up
+ * @param userId - UUID of user
+ * @returns true if successful
+ */
+export async function deleteUserDataExports(userId: string): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('data_exports')
+    .select('storage_path')
+    .eq('user_id', userId)
+    .not('storage_path', 'is', null);
+
+  if (error) {
+    console.error('Error finding data exports to delete:', error);
+    return false;
+  }
+
+  if (!data || data.length === 0) return true;
+
+  const { error: storageError } = await supabase.storage
+    .from(DATA_EXPORTS_BUCKET)
+    .remove(data.map((row) => row.storage_path as string));
+
+  if (storageError) {
+    console.error('Error deleting data export files:', storageError);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Whether an export is still being built (and not stale)
+ * @param dataExport - The export
+ * @returns true if it's pending or processing
+ */
+export function isDataExportInProgress(dataExport: DataExport): boolean {
+  const inProgress =
+    dataExport.status === DATA_EXPORT_STATUSES.PENDING ||
+    dataExport.status === DATA_EXPORT_STATUSES.PROCESSING;
+  const staleAt =
+    new Date(dataExport.created_at).getTime() +
+    DATA_EXPORT_STALE_MINUTES * 60 * 1000;
+
+  return inProgress && staleAt > Date.now();
+}
+
+/**
+ * Shape an export for API responses, with a download link when it's ready
+ * @param dataExport - The export
+ * @returns Export status without the storage path
+ */
+export async function getDataExportSummary(
+  dataExport: DataExport
+): Promise<DataExportSummary> {
+  const stale =
+    !isDataExportInProgress(dataExport) &&
+    (dataExport.status === DATA_EXPORT_STATUSES.PENDING ||
+      dataExport.status === DATA_EXPORT_STATUSES.PROCESSING);
+
+  return {
+    id: dataExport.id,
+    status: stale
+      ? DATA_EXPORT_STATUSES.FAILED
+      : (dataExport.status as DataExportStatus),
+    file_size: dataExport.file_size,
+    error: stale ? 'Export timed out' : dataExport.error,
+    created_at: dataExport.created_at,
+    completed_at: dataExport.completed_at,
+    expires_at: dataExport.expires_at,
+    download_url: await getDataExportDownloadUrl(dataExport),
+    download_url_expires_in: DATA_EXPORT_LINK_TTL_SECONDS,
+  };
+}
+
+/**
+ * Delete expired archives and mark their exports expired (service role)
+ * @returns Number of archives deleted
+ */
+export async function purgeExpiredDataExports(): Promise<number> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('data_exports')
+    .select('id, storage_path')
+    .eq('status', DATA_EXPORT_STATUSES.READY)
+    .lte('expires_at', new Date().toISOString())
+    .limit(DATA_EXPORT_PAGE_SIZE);
+
+  if (error) {
+    console.error('Error finding expired data exports:', error);
+    return 0;
+  }
+
+  if (!data || data.length === 0) return 0;
+
+  const paths = data
+    .map((row) => row.storage_path)
+    .filter((path): path is string => Boolean(path));
+
+  const { error: storageError } = await supabase.storage
+    .from(DATA_EXPORTS_BUCKET)
+    .remove(paths);
+
+  if (storageError) {
+    console.error('Error deleting expired data exports:', storageError);
+    return 0;
+  }
+
+  const { error: updateError } = await supabase
+    .from('data_exports')
+    .update({ status: DATA_EXPORT_STATUSES.EXPIRED, storage_path: null })
+    .in(
+      'id',
+      data.map((row) => row.id)
+    );
+
+  if (updateError) {
+    console.error('Error expiring data exports:', updateError);
+  }
+
+  return paths.length;
+}
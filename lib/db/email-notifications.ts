@@ -0,0 +1,276 @@
+/**
+ * Email Notification Database Utilities
+ * Server-side functions behind new message alerts, digests and unsubscribe
+ * links. Alerts go out after the sender's request, digests from a cron job
+ * and unsubscribes from a signed link - none with the recipient signed in,
+ * so everything here works with the service role
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { MODERATION_VERDICTS } from '@/lib/moderation/constants';
+import {
+  EMAIL_ALERT_MIN_INTERVAL_MINUTES,
+  EMAIL_DIGEST_BATCH_SIZE,
+  EMAIL_DIGEST_PERIOD_DAYS,
+  EMAIL_DIGEST_PREVIEW_COUNT,
+  EMAIL_DIGEST_FREQUENCIES,
+  EMAIL_UNSUBSCRIBE_KINDS,
+  type EmailUnsubscribeKind,
+} from '@/lib/constants/email-notifications';
+import type { NotificationPreferences } from '@/lib/types/notifications.types';
+
+export interface EmailRecipientProfile {
+  id: string;
+  username: string;
+  notification_preferences: Partial<NotificationPreferences> | null;
+}
+
+export interface DigestRecipientProfile extends EmailRecipientProfile {
+  email_digest_last_sent_at: string | null;
+}
+
+export interface DigestActivity {
+  /** Delivered messages since the last digest */
+  newMessages: number;
+  /** Delivered messages not yet read, however old */
+  unreadMessages: number;
+  /** Profile visits since the last digest */
+  visits: number;
+  /** Latest new messages (only when asked for) */
+  previews: string[];
+}
+
+/**
+ * Get the address an account's emails go to (service role)
+ * @param userId - UUID of the account
+ * @returns Email address, or null if the account has none or on error
+ */
+export async function getAccountEmail(userId: string): Promise<string | null> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase.auth.admin.getUserById(userId);
+
+  if (error) {
+    console.error('Error fetching account email:', error);
+    return null;
+  }
+
+  return data.user?.email ?? null;
+}
+
+/**
+ * Claim the next new message alert for an account (service role). Only one
+ * alert goes out per window, so the claim succeeds for the first message
+ * and fails for the rest until the window ends - even when messages arrive
+ * at the same moment
+ * @param userId - UUID of the recipient
+ * @returns The recipient if an alert should be sent, null otherwise
+ */
+export async function claimEmailAlert(
+  userId: string
+): Promise<EmailRecipientProfile | null> {
+  const supabase = await createAdminClient();
+  const now = new Date();
+  const windowStart = new Date(
+    now.getTime() - EMAIL_ALERT_MIN_INTERVAL_MINUTES * 60 * 1000
+  );
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ email_alert_last_sent_at: now.toISOString() })
+    .eq('id', userId)
+    .eq('email_alerts_enabled', true)
+    .is('suspended_at', null)
+    .or(
+      `email_alert_last_sent_at.is.null,email_alert_last_sent_at.lt.${windowStart.toISOString()}`
+    )
+    .select('id, username, notification_preferences')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error claiming email alert:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * When a digest sent now should start counting from, if it's the first one
+ * @param frequency - Digest frequency
+ * @returns Start of one digest period before now
+ */
+export function getDigestPeriodStart(frequency: 'daily' | 'weekly'): Date {
+  return new Date(
+    Date.now() - EMAIL_DIGEST_PERIOD_DAYS[frequency] * 24 * 60 * 60 * 1000
+  );
+}
+
+/**
+ * Find accounts due a digest (service role)
+ * @param frequency - Digest frequency
+ * @param limit - Maximum accounts to return
+ * @returns Accounts due a digest, longest waiting first, or null on error
+ */
+export async function findAccountsDueForDigest(
+  frequency: 'daily' | 'weekly',
+  limit: number = EMAIL_DIGEST_BATCH_SIZE
+): Promise<DigestRecipientProfile[] | null> {
+  const supabase = await createAdminClient();
+
+  // An hour's slack, so a daily job that runs a little early still counts
+  const dueBefore = new Date(
+    getDigestPeriodStart(frequency).getTime() + 60 * 60 * 1000
+  );
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, username, notification_preferences, email_digest_last_sent_at')
+    .eq('email_digest_frequency', frequency)
+    .eq('is_active', true)
+    .is('suspended_at', null)
+    .or(
+      `email_digest_last_sent_at.is.null,email_digest_last_sent_at.lt.${dueBefore.toISOString()}`
+    )
+    .order('email_digest_last_sent_at', { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error finding accounts due for digest:', error);
+    return null;
+  }
+
+  return data || [];
+}
+
+/**
+ * Claim an account's digest (service role). Moves the last sent time on
+ * only if no other run got there first, so overlapping runs can't send
+ * the same digest twice
+ * @param userId - UUID of the account
+ * @param lastSentAt - Last sent time the account was found with
+ * @param sentAt - New last sent time
+ * @returns Whether this run should send the digest
+ */
+export async function claimDigest(
+  userId: string,
+  lastSentAt: string | null,
+  sentAt: Date
+): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  let query = supabase
+    .from('profiles')
+    .update({ email_digest_last_sent_at: sentAt.toISOString() })
+    .eq('id', userId);
+
+  query = lastSentAt
+    ? query.eq('email_digest_last_sent_at', lastSentAt)
+    : query.is('email_digest_last_sent_at', null);
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    console.error('Error claiming digest:', error);
+    return false;
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Count an account's messages and visits for a digest (service role).
+ * Held messages stay out until the recipient reviews them
+ * @param userId - UUID of the account
+ * @param since - Start of the digest period
+ * @param includePreviews - Whether to quote the latest messages
+ * @returns Activity, or null on error
+ */
+export async function getDigestActivity(
+  userId: string,
+  since: Date,
+  includePreviews: boolean
+): Promise<DigestActivity | null> {
+  const supabase = await createAdminClient();
+  const sinceIso = since.toISOString();
+
+  const [newMessages, unreadMessages, visits, previews] = await Promise.all([
+    supabase
+      .from('messages')
+      .select('*', { count: 'exact', head: true })
+      .eq('recipient_id', userId)
+      .eq('moderation_verdict', MODERATION_VERDICTS.DELIVER)
+      .gte('created_at', sinceIso),
+    supabase
+      .from('messages')
+      .select('*', { count: 'exact', head: true })
+      .eq('recipient_id', userId)
+      .eq('moderation_verdict', MODERATION_VERDICTS.DELIVER)
+      .eq('is_read', false),
+    supabase
+      .from('link_visits')
+      .select('*', { count: 'exact', head: true })
+      .eq('profile_id', userId)
+      .gte('created_at', sinceIso),
+    includePreviews
+      ? supabase
+          .from('messages')
+          .select('content')
+          .eq('recipient_id', userId)
+          .eq('moderation_verdict', MODERATION_VERDICTS.DELIVER)
+          .gte('created_at', sinceIso)
+          .order('created_at', { ascending: false })
+          .limit(EMAIL_DIGEST_PREVIEW_COUNT)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  const error =
+    newMessages.error || unreadMessages.error || visits.error || previews.error;
+
+  if (error) {
+    console.error('Error fetching digest activity:', error);
+    return null;
+  }
+
+  return {
+    newMessages: newMessages.count || 0,
+    unreadMessages: unreadMessages.count || 0,
+    visits: visits.count || 0,
+    previews: (previews.data || []).map(
+      (message: { content: string }) => message.content
+    ),
+  };
+}
+
+/**
+ * Turn off email notifications from an unsubscribe link (service role)
+ * @param userId - UUID of the account
+ * @param kind - What to turn off
+ * @returns Whether the preferences were updated
+ */
+export async function unsubscribeFromEmails(
+  userId: string,
+  kind: EmailUnsubscribeKind
+): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  const updates: Record<string, unknown> = {};
+  if (kind !== EMAIL_UNSUBSCRIBE_KINDS.DIGEST) {
+    updates.email_alerts_enabled = false;
+  }
+  if (kind !== EMAIL_UNSUBSCRIBE_KINDS.ALERTS) {
+    updates.email_digest_frequency = EMAIL_DIGEST_FREQUENCIES.OFF;
+  }
+
+  const { error } = await supabase
+    .from('profiles')
+    .update(updates)
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error unsubscribing from emails:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,58 @@
+/**
+ * Inbox Availability Database Utilities
+ * Server-side functions for the daily message cap. The send API runs as an
+ * anonymous sender, so these use the service role
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+
+/**
+ * Count the messages a recipient has received since a point in time
+ * @param recipientId - UUID of recipient
+ * @param since - Start of the period (e.g. the owner's local midnight)
+ * @returns Message count (0 on error - don't close an inbox on error)
+ */
+export async function countMessagesSince(
+  recipientId: string,
+  since: Date
+): Promise<number> {
+  const supabase = await createAdminClient();
+
+  const { count, error } = await supabase
+    .from('messages')
+    .select('*', { count: 'exact', head: true })
+    .eq('recipient_id', recipientId)
+    .gte('created_at', since.toISOString());
+
+  if (error) {
+    console.error('Error counting messages for daily cap:', error);
+    return 0;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Pause an inbox because its daily message cap was reached
+ * @param recipientId - UUID of recipient
+ * @param until - When the cap resets (the owner's next midnight)
+ * @returns true if successful
+ */
+export async function setInboxCapReached(
+  recipientId: string,
+  until: Date
+): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ inbox_cap_reached_until: until.toISOString() })
+    .eq('id', recipientId);
+
+  if (error) {
+    console.error('Error pausing inbox for daily cap:', error);
+    return false;
+  }
+
+  return true;
+}
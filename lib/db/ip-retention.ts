@@ -0,0 +1,75 @@
+/**
+ * IP Retention Database Utilities
+ * Server-side functions for the raw IP purge job, which clears the raw
+ * sender IPs stored with messages once they're older than the retention
+ * window (or all of them when raw IPs aren't stored at all). Runs without
+ * a signed-in user, so it works with the service role
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { getRawIPMode, getRawIPRetentionDays } from '@/lib/utils/ip-hash';
+import {
+  RAW_IP_MODES,
+  RAW_IP_PURGE_BATCH_SIZE,
+  RAW_IP_PURGE_MAX_BATCHES,
+} from '@/lib/constants/raw-ip';
+
+export interface RawIPPurgeSummary {
+  /** Messages whose raw IP was cleared */
+  cleared: number;
+  /** Raw IPs stored before this time were cleared */
+  cutoff: string;
+  /** Whether expired raw IPs were left for the next run */
+  hasMore: boolean;
+}
+
+/**
+ * Clear one batch of raw IPs stored before a cutoff (service role)
+ * @param before - Cutoff time
+ * @param limit - Maximum messages to clear
+ * @returns Messages cleared, or null on error
+ */
+export async function purgeRawIPs(
+  before: Date,
+  limit: number = RAW_IP_PURGE_BATCH_SIZE
+): Promise<number | null> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase.rpc('purge_raw_ips', {
+    p_before: before.toISOString(),
+    p_limit: limit,
+  });
+
+  if (error) {
+    console.error('Error purging raw IPs:', error);
+    return null;
+  }
+
+  return data ?? 0;
+}
+
+/**
+ * Clear every raw IP past the retention window, in batches
+ * @returns What the run cleared
+ */
+export async function runRawIPPurge(): Promise<RawIPPurgeSummary> {
+  // With raw IPs switched off, none should be left from before
+  const cutoff =
+    getRawIPMode() === RAW_IP_MODES.NONE
+      ? new Date()
+      : new Date(Date.now() - getRawIPRetentionDays() * 24 * 60 * 60 * 1000);
+
+  let cleared = 0;
+  let hasMore = false;
+
+  for (let batch = 0; batch < RAW_IP_PURGE_MAX_BATCHES; batch++) {
+    const count = await purgeRawIPs(cutoff, RAW_IP_PURGE_BATCH_SIZE);
+    if (!count) break;
+
+    cleared += count;
+    hasMore = count === RAW_IP_PURGE_BATCH_SIZE;
+    if (!hasMore) break;
+  }
+
+  return { cleared, cutoff: cutoff.toISOString(), hasMore };
+}
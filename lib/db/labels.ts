@@ -0,0 +1,287 @@
+/**
+ * Message Label Database Utilities
+ * Server-side functions for recipient-defined labels and folder counts
+ * RLS limits every query to the signed-in recipient's own labels
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import type { MessageLabel } from '@/lib/types/database.types';
+
+export type LabelWithCounts = Pick<MessageLabel, 'id' | 'name' | 'color'> & {
+  messageCount: number;
+  unreadCount: number;
+};
+
+export interface FolderCounts {
+  inbox: { total: number; unread: number };
+  archived: { total: number; unread: number };
+  held: { total: number; unread: number };
+}
+
+/**
+ * Get a recipient's labels (alphabetical) with message counts, plus the
+ * inbox, archive and held counts for the sidebar
+ * @param userId - UUID of recipient
+ * @returns Labels and folder counts, or null if error
+ */
+export async function getLabelsWithCounts(userId: string): Promise<{
+  labels: LabelWithCounts[];
+  folders: FolderCounts;
+} | null> {
+  const supabase = await createClient();
+
+  const [{ data: labels, error: labelsError }, { data: counts, error: countsError }] =
+    await Promise.all([
+      supabase
+        .from('message_labels')
+        .select('id, name, color')
+        .eq('user_id', userId)
+        .order('name', { ascending: true }),
+      supabase.rpc('get_message_folder_counts', { recipient_user_id: userId }),
+    ]);
+
+  if (labelsError || countsError) {
+    console.error('Error fetching labels:', labelsError || countsError);
+    return null;
+  }
+
+  const folders: FolderCounts = {
+    inbox: { total: 0, unread: 0 },
+    archived: { total: 0, unread: 0 },
+    held: { total: 0, unread: 0 },
+  };
+  const labelCounts = new Map<string, { total: number; unread: number }>();
+
+  for (const row of counts || []) {
+    const total = Number(row.message_count);
+    const unread = Number(row.unread_count);
+
+    if (row.folder === 'inbox' || row.folder === 'archived' || row.folder === 'held') {
+      folders[row.folder as keyof FolderCounts] = { total, unread };
+    } else if (row.label_id) {
+      labelCounts.set(row.label_id, { total, unread });
+    }
+  }
+
+  return {
+    labels: (labels || []).map((label: Pick<MessageLabel, 'id' | 'name' | 'color'>) => ({
+      ...label,
+      messageCount: labelCounts.get(label.id)?.total || 0,
+      unreadCount: labelCounts.get(label.id)?.unread || 0,
+    })),
+    folders,
+  };
+}
+
+/**
+ * Create a label
+ * @param userId - UUID of recipient
+ * @param name - Label name
+ * @param color - Palette color key
+ * @returns Created label, 'duplicate' if the name is taken, or null if error
+ */
+export async function createLabel(
+  userId: string,
+  name: string,
+  color: string
+): Promise<MessageLabel | 'duplicate' | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('message_labels')
+    .insert({
+      user_id: userId,
+      name: name.trim(),
+      color,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Unique violation on (user_id, lower(name))
+    if (error.code === '23505') return 'duplicate';
+    console.error('Error creating label:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Rename or recolor a label
+ * @param userId - UUID of recipient
+ * @param labelId - UUID of label
+ * @param updates - New name and/or color
+ * @returns Updated label, 'duplicate' if the name is taken, or null if error
+ */
+export async function updateLabel(
+  userId: string,
+  labelId: string,
+  updates: { name?: string; color?: string }
+): Promise<MessageLabel | 'duplicate' | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('message_labels')
+    .update({
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(updates.color !== undefined && { color: updates.color }),
+    })
+    .eq('id', labelId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return 'duplicate';
+    console.error('Error updating label:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Delete a label (messages keep their other labels)
+ * @param userId - UUID of recipient
+ * @param labelId - UUID of label
+ * @returns true if successful
+ */
+export async function deleteLabel(
+  userId: string,
+  labelId: string
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('message_labels')
+    .delete()
+    .eq('id', labelId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error deleting label:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Count a recipient's labels (for the MAX_LABELS limit)
+ * @param userId - UUID of recipient
+ * @returns Number of labels
+ */
+export async function countLabels(userId: string): Promise<number> {
+  const supabase = await createClient();
+
+  const { count, error } = await supabase
+    .from('message_labels')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error counting labels:', error);
+    return 0;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Replace the labels on a message
+ * @param messageId - UUID of message
+ * @param labelIds - Label UUIDs the message should carry (empty clears all)
+ * @returns true if successful
+ */
+export async function setMessageLabels(
+  messageId: string,
+  labelIds: string[]
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  let removal = supabase
+    .from('message_label_assignments')
+    .delete()
+    .eq('message_id', messageId);
+
+  if (labelIds.length > 0) {
+    removal = removal.not('label_id', 'in', `(${labelIds.join(',')})`);
+  }
+
+  const { error: removeError } = await removal;
+
+  if (removeError) {
+    console.error('Error removing message labels:', removeError);
+    return false;
+  }
+
+  if (labelIds.length === 0) return true;
+
+  const { error } = await supabase
+    .from('message_label_assignments')
+    .upsert(
+      labelIds.map((labelId) => ({ message_id: messageId, label_id: labelId })),
+      { onConflict: 'message_id,label_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error('Error adding message labels:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Add a label to several messages
+ * @param messageIds - Array of message UUIDs
+ * @param labelId - UUID of label
+ * @returns true if successful
+ */
+export async function addLabelToMessages(
+  messageIds: string[],
+  labelId: string
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('message_label_assignments')
+    .upsert(
+      messageIds.map((messageId) => ({ message_id: messageId, label_id: labelId })),
+      { onConflict: 'message_id,label_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error('Error labelling messages:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Remove a label from several messages
+ * @param messageIds - Array of message UUIDs
+ * @param labelId - UUID of label
+ * @returns true if successful
+ */
+export async function removeLabelFromMessages(
+  messageIds: string[],
+  labelId: string
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('message_label_assignments')
+    .delete()
+    .eq('label_id', labelId)
+    .in('message_id', messageIds);
+
+  if (error) {
+    console.error('Error unlabelling messages:', error);
+    return false;
+  }
+
+  return true;
+}
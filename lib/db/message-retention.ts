@@ -0,0 +1,175 @@
+/**
+ * Message Retention Database Utilities
+ * Server-side functions for the retention purge job. The job runs without a
+ * signed-in user, so it reads and deletes with the service role; users read
+ * their own purge log through RLS
+ */
+
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { deleteMessageAttachmentFiles } from '@/lib/db/attachments';
+import {
+  PURGE_BATCH_SIZE,
+  PURGE_MAX_BATCHES,
+  RETENTION_CATEGORIES,
+  type RetentionCategory,
+} from '@/lib/constants/message-retention';
+import type {
+  MessagePurgeLog,
+  MessagePurgeLogInsert,
+} from '@/lib/types/database.types';
+
+export interface ExpiredMessage {
+  message_id: string;
+  recipient_id: string;
+  category: RetentionCategory;
+}
+
+export interface MessagePurgeSummary {
+  /** Messages deleted */
+  purged: number;
+  /** Users who had messages deleted */
+  users: number;
+  /** Whether expired messages were left for the next run */
+  hasMore: boolean;
+}
+
+/**
+ * Find messages past their recipient's retention period (service role)
+ * @param limit - Maximum messages to return
+ * @returns Expired messages, or null on error
+ */
+export async function findExpiredMessages(
+  limit: number = PURGE_BATCH_SIZE
+): Promise<ExpiredMessage[] | null> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase.rpc('find_expired_messages', {
+    p_limit: limit,
+  });
+
+  if (error) {
+    console.error('Error finding expired messages:', error);
+    return null;
+  }
+
+  return data || [];
+}
+
+/**
+ * Delete messages and their attachment files (service role). The
+ * AFTER DELETE trigger on messages decrements each profile's message_count
+ * @param messageIds - Array of message UUIDs
+ * @returns true if successful
+ */
+export async function purgeMessages(messageIds: string[]): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  await deleteMessageAttachmentFiles(messageIds, true);
+
+  const { error } = await supabase
+    .from('messages')
+    .delete()
+    .in('id', messageIds);
+
+  if (error) {
+    console.error('Error purging messages:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Record how many messages a purge run deleted per user (service role)
+ * @param entries - One entry per user
+ * @returns true if successful
+ */
+export async function logMessagePurges(
+  entries: MessagePurgeLogInsert[]
+): Promise<boolean> {
+  if (entries.length === 0) return true;
+
+  const supabase = await createAdminClient();
+
+  const { error } = await supabase.from('message_purge_log').insert(entries);
+
+  if (error) {
+    console.error('Error logging message purges:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Delete every expired message, in batches
+ * @returns What the run deleted
+ */
+export async function runMessagePurge(): Promise<MessagePurgeSummary> {
+  const counts = new Map<string, MessagePurgeLogInsert>();
+  let purged = 0;
+  let hasMore = false;
+
+  for (let batch = 0; batch < PURGE_MAX_BATCHES; batch++) {
+    const expired = await findExpiredMessages(PURGE_BATCH_SIZE);
+    if (!expired || expired.length === 0) break;
+
+    if (!(await purgeMessages(expired.map((message) => message.message_id)))) {
+      break;
+    }
+
+    for (const message of expired) {
+      const entry = counts.get(message.recipient_id) || {
+        user_id: message.recipient_id,
+        read_count: 0,
+        unread_count: 0,
+        flagged_count: 0,
+      };
+
+      if (message.category === RETENTION_CATEGORIES.FLAGGED) {
+        entry.flagged_count = (entry.flagged_count || 0) + 1;
+      } else if (message.category === RETENTION_CATEGORIES.READ) {
+        entry.read_count = (entry.read_count || 0) + 1;
+      } else {
+        entry.unread_count = (entry.unread_count || 0) + 1;
+      }
+
+      counts.set(message.recipient_id, entry);
+    }
+
+    purged += expired.length;
+    hasMore = expired.length === PURGE_BATCH_SIZE;
+    if (!hasMore) break;
+  }
+
+  await logMessagePurges(Array.from(counts.values()));
+
+  return { purged, users: counts.size, hasMore };
+}
+
+/**
+ * Get a user's purge log (newest first)
+ * @param userId - UUID of user
+ * @param limit - Maximum entries
+ * @returns Log entries or [] if error
+ */
+export async function getMessagePurgeLog(
+  userId: string,
+  limit: number = 10
+): Promise<MessagePurgeLog[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('message_purge_log')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching purge log:', error);
+    return [];
+  }
+
+  return data || [];
+}
@@ -12,6 +12,16 @@ import type {
   MessageUpdate,
   MessageWithRecipient,
 } from '@/lib/types/database.types';
+import {
+  MESSAGE_READ_FILTERS,
+  MESSAGE_SORTS,
+  MESSAGE_PAGE_SIZE,
+  NO_PROMPT_FILTER,
+  type MessageReadFilter,
+  type MessageSort,
+} from '@/lib/constants/message-filters';
+import { MODERATION_VERDICTS } from '@/lib/moderation/constants';
+import { getSenderKey } from '@/lib/utils/ip-hash';
 
 /**
  * Hash IP address using SHA-256 for privacy
@@ -65,6 +75,349 @@ export async function getMessagesForRecipient(
   return data || [];
 }
 
+/**
+ * Columns read for the message list (no raw IPs or thread token hashes).
+ * sender_ip_hash is swapped for a sender key before rows are returned
+ */
+const MESSAGE_LIST_COLUMNS = `
+  id,
+  content,
+  is_read,
+  is_flagged,
+  created_at,
+  prompt_id,
+  link_id,
+  sender_ip_hash,
+  sender_device_type,
+  sender_browser,
+  sender_os,
+  sender_referrer_platform,
+  sender_utm_source,
+  labels:message_label_assignments(label_id),
+  attachments:message_attachments(count)
+`;
+
+export type MessageListItem = Pick<
+  Message,
+  | 'id'
+  | 'content'
+  | 'is_read'
+  | 'is_flagged'
+  | 'created_at'
+  | 'prompt_id'
+  | 'link_id'
+> & {
+  /** Groups one sender's messages for this recipient (see getSenderKey) */
+  sender_key: string;
+  sender_device_type: string | null;
+  sender_browser: string | null;
+  sender_os: string | null;
+  sender_referrer_platform: string | null;
+  sender_utm_source: string | null;
+  labels: Array<{ label_id: string }>;
+  attachments: Array<{ count: number }>;
+};
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Filters for searchMessages - all optional
+ */
+export interface MessageSearchOptions {
+  /** Full-text search on content (websearch syntax: "exact phrase", -exclude) */
+  query?: string;
+  readFilter?: MessageReadFilter;
+  flaggedOnly?: boolean;
+  /** Search the archive instead of the inbox */
+  archived?: boolean;
+  /** Search messages held by moderation (ignores archived) */
+  held?: boolean;
+  deviceType?: string;
+  referrerPlatform?: string;
+  utmSource?: string;
+  /** ISO timestamps, inclusive */
+  from?: string;
+  to?: string;
+  /** Prompt UUID, or NO_PROMPT_FILTER for messages without a prompt */
+  promptId?: string;
+  /** Label UUID */
+  labelId?: string;
+  sort?: MessageSort;
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * Encode a keyset cursor from the last message on a page
+ * @param message - Last message returned
+ * @returns Opaque base64url cursor
+ */
+export function encodeMessageCursor(message: {
+  created_at: string;
+  id: string;
+}): string {
+  return Buffer.from(`${message.created_at}|${message.id}`).toString('base64url');
+}
+
+/**
+ * Decode and validate a keyset cursor
+ * @param cursor - Cursor from the client
+ * @returns Position or null if malformed
+ */
+export function decodeMessageCursor(
+  cursor: string
+): { createdAt: string; id: string } | null {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+
+  // Both values end up in a PostgREST filter string - only accept exact shapes
+  if (!createdAt || Number.isNaN(Date.parse(createdAt)) || !UUID_PATTERN.test(id || '')) {
+    return null;
+  }
+
+  return { createdAt, id };
+}
+
+/**
+ * Build a recipient's messages query with search and filter options applied
+ * @param supabase - Supabase client
+ * @param recipientId - UUID of recipient
+ * @param columns - Columns to select
+ * @param options - Filters (sort and cursor are applied by the caller)
+ * @param withCount - Also count all matching rows
+ * @returns Filtered query
+ */
+function buildMessageSearchQuery<Columns extends string>(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  recipientId: string,
+  columns: Columns,
+  options: MessageSearchOptions,
+  withCount = false
+) {
+  const {
+    query: searchQuery,
+    readFilter = MESSAGE_READ_FILTERS.ALL,
+    flaggedOnly = false,
+    archived = false,
+    held = false,
+    deviceType,
+    referrerPlatform,
+    utmSource,
+    from,
+    to,
+    promptId,
+    labelId,
+  } = options;
+
+  // Inner-joined empty embed: keeps only messages carrying the label
+  const select = (
+    labelId ? `${columns}, label_filter:message_label_assignments!inner()` : columns
+  ) as Columns;
+
+  let filtered = supabase
+    .from('messages')
+    .select(select, withCount ? { count: 'exact' } : undefined)
+    .eq('recipient_id', recipientId);
+
+  // Held messages stay out of the inbox and archive until released
+  if (held) {
+    filtered = filtered.eq('moderation_verdict', MODERATION_VERDICTS.HOLD);
+  } else {
+    filtered = filtered
+      .eq('moderation_verdict', MODERATION_VERDICTS.DELIVER)
+      .eq('is_archived', archived);
+  }
+
+  if (searchQuery) {
+    filtered = filtered.textSearch('content_search', searchQuery, {
+      type: 'websearch',
+      config: 'simple',
+    });
+  }
+
+  if (readFilter === MESSAGE_READ_FILTERS.UNREAD) {
+    filtered = filtered.eq('is_read', false);
+  } else if (readFilter === MESSAGE_READ_FILTERS.READ) {
+    filtered = filtered.eq('is_read', true);
+  }
+
+  if (flaggedOnly) {
+    filtered = filtered.eq('is_flagged', true);
+  }
+
+  if (deviceType) {
+    filtered = filtered.eq('sender_device_type', deviceType);
+  }
+
+  if (referrerPlatform) {
+    filtered = filtered.eq('sender_referrer_platform', referrerPlatform);
+  }
+
+  if (utmSource) {
+    filtered = filtered.eq('sender_utm_source', utmSource);
+  }
+
+  if (from) {
+    filtered = filtered.gte('created_at', from);
+  }
+
+  if (to) {
+    filtered = filtered.lte('created_at', to);
+  }
+
+  if (promptId === NO_PROMPT_FILTER) {
+    filtered = filtered.is('prompt_id', null);
+  } else if (promptId) {
+    filtered = filtered.eq('prompt_id', promptId);
+  }
+
+  if (labelId) {
+    filtered = filtered.eq('label_filter.label_id', labelId);
+  }
+
+  return filtered;
+}
+
+/**
+ * Search, filter and paginate a recipient's messages with a keyset cursor
+ * @param recipientId - UUID of recipient
+ * @param options - Filters, sort and cursor
+ * @returns Page of messages, the cursor for the next page and (first page
+ * only) the number of matching messages, or null if error
+ */
+export async function searchMessages(
+  recipientId: string,
+  options: MessageSearchOptions = {}
+): Promise<{
+  messages: MessageListItem[];
+  nextCursor: string | null;
+  matchingCount?: number;
+} | null> {
+  const supabase = await createClient();
+  const { sort = MESSAGE_SORTS.NEWEST, cursor, limit = MESSAGE_PAGE_SIZE } = options;
+  const ascending = sort === MESSAGE_SORTS.OLDEST;
+
+  let query = buildMessageSearchQuery(
+    supabase,
+    recipientId,
+    MESSAGE_LIST_COLUMNS,
+    options,
+    !cursor
+  );
+
+  // Keyset pagination: rows strictly after (created_at, id) in sort order
+  if (cursor) {
+    const position = decodeMessageCursor(cursor);
+    if (!position) {
+      return null;
+    }
+
+    const op = ascending ? 'gt' : 'lt';
+    query = query.or(
+      `created_at.${op}."${position.createdAt}",and(created_at.eq."${position.createdAt}",id.${op}.${position.id})`
+    );
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const { data, error, count } = await query
+    .order('created_at', { ascending })
+    .order('id', { ascending })
+    .limit(limit + 1);
+
+  if (error) {
+    console.error('Error searching messages:', error);
+    return null;
+  }
+
+  const rows = data || [];
+  const hasMore = rows.length > limit;
+  const messages: MessageListItem[] = (hasMore ? rows.slice(0, limit) : rows).map(
+    ({ sender_ip_hash, ...row }) => ({
+      ...row,
+      sender_key: getSenderKey(recipientId, sender_ip_hash),
+    })
+  );
+
+  return {
+    messages,
+    nextCursor: hasMore ? encodeMessageCursor(messages[messages.length - 1]) : null,
+    ...(count !== null && { matchingCount: count }),
+  };
+}
+
+/**
+ * Get the IDs and sender hashes of every message matching a filter
+ * (for "select all matching" bulk actions)
+ * @param recipientId - UUID of recipient
+ * @param options - Filters
+ * @param max - Maximum number of messages to return
+ * @returns Matching messages (newest first) or null if error
+ */
+export async function getMatchingMessageIds(
+  recipientId: string,
+  options: MessageSearchOptions,
+  max: number
+): Promise<Array<{ id: string; sender_ip_hash: string; is_read: boolean }> | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await buildMessageSearchQuery(
+    supabase,
+    recipientId,
+    'id, sender_ip_hash, is_read',
+    options
+  )
+    .order('created_at', { ascending: false })
+    .limit(max);
+
+  if (error) {
+    console.error('Error fetching matching message IDs:', error);
+    return null;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get the distinct device types, referrer platforms and UTM sources that
+ * appear in a recipient's messages (for filter dropdowns)
+ * @param recipientId - UUID of recipient
+ * @returns Values with message counts, most common first
+ */
+export async function getMessageFilterOptions(recipientId: string): Promise<{
+  deviceTypes: Array<{ value: string; count: number }>;
+  referrerPlatforms: Array<{ value: string; count: number }>;
+  utmSources: Array<{ value: string; count: number }>;
+}> {
+  const supabase = await createClient();
+  const result = {
+    deviceTypes: [] as Array<{ value: string; count: number }>,
+    referrerPlatforms: [] as Array<{ value: string; count: number }>,
+    utmSources: [] as Array<{ value: string; count: number }>,
+  };
+
+  const { data, error } = await supabase.rpc('get_message_filter_options', {
+    recipient_user_id: recipientId,
+  });
+
+  if (error) {
+    console.error('Error fetching message filter options:', error);
+    return result;
+  }
+
+  (data || []).forEach(
+    (row: { field: string; value: string; message_count: number }) => {
+      const option = { value: row.value, count: Number(row.message_count) };
+
+      if (row.field === 'device_type') result.deviceTypes.push(option);
+      else if (row.field === 'referrer_platform') result.referrerPlatforms.push(option);
+      else if (row.field === 'utm_source') result.utmSources.push(option);
+    }
+  );
+
+  return result;
+}
+
 /**
  * Get single message by ID (with RLS check)
  * @param messageId - UUID of message
@@ -161,6 +514,30 @@ export async function markMessagesAsRead(messageIds: string[]): Promise<boolean>
   return true;
 }
 
+/**
+ * Mark multiple messages as unread
+ * @param messageIds - Array of message UUIDs
+ * @returns true if successful
+ */
+export async function markMessagesAsUnread(messageIds: string[]): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('messages')
+    .update({
+      is_read: false,
+      read_at: null,
+    })
+    .in('id', messageIds);
+
+  if (error) {
+    console.error('Error marking messages as unread:', error);
+    return false;
+  }
+
+  return true;
+}
+
 /**
  * Toggle flag status on message
  * @param messageId - UUID of message
@@ -210,20 +587,24 @@ export async function deleteMessage(messageId: string): Promise<boolean> {
 }
 
 /**
- * Delete multiple messages
+ * Set flag status on multiple messages
  * @param messageIds - Array of message UUIDs
+ * @param flagged - New flagged status
  * @returns true if successful
  */
-export async function deleteMessages(messageIds: string[]): Promise<boolean> {
+export async function setMessagesFlagged(
+  messageIds: string[],
+  flagged: boolean
+): Promise<boolean> {
   const supabase = await createClient();
 
   const { error } = await supabase
     .from('messages')
-    .delete()
+    .update({ is_flagged: flagged })
     .in('id', messageIds);
 
   if (error) {
-    console.error('Error deleting messages:', error);
+    console.error('Error updating message flags:', error);
     return false;
   }
 
@@ -231,64 +612,100 @@ export async function deleteMessages(messageIds: string[]): Promise<boolean> {
 }
 
 /**
- * Get unread message count for recipient
- * @param recipientId - UUID of recipient
- * @returns Number of unread messages
+ * Move multiple messages to or out of the archive
+ * @param messageIds - Array of message UUIDs
+ * @param archived - New archived status
+ * @returns true if successful
  */
-export async function getUnreadMessageCount(recipientId: string): Promise<number> {
+export async function setMessagesArchived(
+  messageIds: string[],
+  archived: boolean
+): Promise<boolean> {
   const supabase = await createClient();
 
-  const { count, error } = await supabase
+  const { error } = await supabase
     .from('messages')
-    .select('*', { count: 'exact', head: true })
-    .eq('recipient_id', recipientId)
-    .eq('is_read', false);
+    .update({
+      is_archived: archived,
+      archived_at: archived ? new Date().toISOString() : null,
+    })
+    .in('id', messageIds);
 
   if (error) {
-    console.error('Error counting unread messages:', error);
-    return 0;
+    console.error('Error archiving messages:', error);
+    return false;
   }
 
-  return count || 0;
+  return true;
 }
 
 /**
- * Check rate limit for IP address
- * @param ipHash - SHA-256 hash of IP address
- * @param recipientId - UUID of recipient (optional, for per-recipient rate limiting)
- * @param limitPerHour - Maximum messages allowed per hour (default 3)
- * @returns true if rate limit exceeded, false if allowed
+ * Release messages held by moderation into the inbox
+ * @param messageIds - Array of message UUIDs
+ * @returns true if successful
  */
-export async function checkRateLimit(
-  ipHash: string,
-  recipientId?: string,
-  limitPerHour: number = 3
-): Promise<boolean> {
+export async function releaseHeldMessages(messageIds: string[]): Promise<boolean> {
   const supabase = await createClient();
 
-  // Get messages from this IP in the last hour
-  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-
-  let query = supabase
+  const { error } = await supabase
     .from('messages')
-    .select('*', { count: 'exact', head: true })
-    .eq('sender_ip_hash', ipHash)
-    .gte('created_at', oneHourAgo);
+    .update({
+      moderation_verdict: MODERATION_VERDICTS.DELIVER,
+      moderated_at: new Date().toISOString(),
+    })
+    .in('id', messageIds)
+    .eq('moderation_verdict', MODERATION_VERDICTS.HOLD);
 
-  // Optionally filter by recipient
-  if (recipientId) {
-    query = query.eq('recipient_id', recipientId);
+  if (error) {
+    console.error('Error releasing held messages:', error);
+    return false;
   }
 
-  const { count, error } = await query;
+  return true;
+}
+
+/**
+ * Delete multiple messages
+ * @param messageIds - Array of message UUIDs
+ * @returns true if successful
+ */
+export async function deleteMessages(messageIds: string[]): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('messages')
+    .delete()
+    .in('id', messageIds);
 
   if (error) {
-    console.error('Error checking rate limit:', error);
-    // On error, allow (fail open) but log it
+    console.error('Error deleting messages:', error);
     return false;
   }
 
-  return (count || 0) >= limitPerHour;
+  return true;
+}
+
+/**
+ * Get unread message count for recipient
+ * @param recipientId - UUID of recipient
+ * @returns Number of unread messages
+ */
+export async function getUnreadMessageCount(recipientId: string): Promise<number> {
+  const supabase = await createClient();
+
+  const { count, error } = await supabase
+    .from('messages')
+    .select('*', { count: 'exact', head: true })
+    .eq('recipient_id', recipientId)
+    .eq('is_read', false)
+    .eq('moderation_verdict', MODERATION_VERDICTS.DELIVER);
+
+  if (error) {
+    console.error('Error counting unread messages:', error);
+    return 0;
+  }
+
+  return count || 0;
 }
 
 /**
@@ -343,7 +760,8 @@ export async function getMessageStats(recipientId: string): Promise<{
     .from('messages')
     .select('*', { count: 'exact', head: true })
     .eq('recipient_id', recipientId)
-    .eq('is_read', false);
+    .eq('is_read', false)
+    .eq('moderation_verdict', MODERATION_VERDICTS.DELIVER);
 
   // Get flagged count
   const { count: flagged } = await supabase
@@ -410,6 +828,104 @@ export async function blockIpAddress(
   return true;
 }
 
+/**
+ * Block the senders of several messages at once (senders that are already
+ * blocked are left as they are)
+ * @param recipientId - UUID of recipient
+ * @param senders - Message ID and sender IP hash pairs
+ * @param reason - Reason for blocking
+ * @param expiresAt - When the blocks lapse (omit to block until unblocked)
+ * @returns true if successful
+ */
+export async function blockMessageSenders(
+  recipientId: string,
+  senders: Array<{ id: string; sender_ip_hash: string }>,
+  reason: string,
+  expiresAt: string | null = null
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  // One block per sender, labelled with the first of their messages
+  const blocks = new Map<string, string>();
+  for (const sender of senders) {
+    if (!blocks.has(sender.sender_ip_hash)) {
+      blocks.set(sender.sender_ip_hash, sender.id);
+    }
+  }
+
+  const { error } = await supabase
+    .from('blocked_senders')
+    .upsert(
+      Array.from(blocks, ([ipHash, messageId]) => ({
+        user_id: recipientId,
+        blocked_ip_hash: ipHash,
+        reason,
+        blocked_identifier: `Message ${messageId.substring(0, 8)}`,
+        expires_at: expiresAt,
+      })),
+      { onConflict: 'user_id,blocked_ip_hash', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error('Error blocking message senders:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get the IDs of every message a sender has sent to a recipient
+ * @param recipientId - UUID of recipient
+ * @param ipHash - Sender's IP hash (resolved server-side from one of their messages)
+ * @returns Array of message UUIDs, or null on error
+ */
+export async function getSenderMessageIds(
+  recipientId: string,
+  ipHash: string
+): Promise<string[] | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id')
+    .eq('recipient_id', recipientId)
+    .eq('sender_ip_hash', ipHash);
+
+  if (error) {
+    console.error('Error fetching sender messages:', error);
+    return null;
+  }
+
+  return (data || []).map((message: { id: string }) => message.id);
+}
+
+/**
+ * Get the IDs of every message a device has sent to a recipient
+ * @param recipientId - UUID of recipient
+ * @param fingerprint - Sender's device fingerprint (resolved server-side from one of their messages)
+ * @returns Array of message UUIDs, or null on error
+ */
+export async function getDeviceMessageIds(
+  recipientId: string,
+  fingerprint: string
+): Promise<string[] | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id')
+    .eq('recipient_id', recipientId)
+    .eq('sender_fingerprint', fingerprint);
+
+  if (error) {
+    console.error('Error fetching device messages:', error);
+    return null;
+  }
+
+  return (data || []).map((message: { id: string }) => message.id);
+}
+
 /**
  * Unblock an IP address for recipient
  * @param recipientId - UUID of recipient
@@ -0,0 +1,137 @@
+/**
+ * Muted Word Database Utilities
+ * Server-side functions for recipient-defined muted words and phrases.
+ * RLS limits the recipient's own queries to their list; the send API reads
+ * a recipient's list with the service role
+ */
+
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import type { MutedWord } from '@/lib/types/database.types';
+import type { MutedWordRule } from '@/lib/types/moderation.types';
+
+/**
+ * Get a recipient's muted words (newest first)
+ * @param userId - UUID of recipient
+ * @returns Muted words or [] if error
+ */
+export async function getMutedWords(userId: string): Promise<MutedWord[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('muted_words')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching muted words:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Get a recipient's muted words for moderating an incoming message (service
+ * role - senders are anonymous and can't read other users' lists)
+ * @param recipientId - UUID of recipient
+ * @returns Muted word rules or [] if error
+ */
+export async function getMutedWordRules(
+  recipientId: string
+): Promise<MutedWordRule[]> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('muted_words')
+    .select('phrase, whole_word')
+    .eq('user_id', recipientId);
+
+  if (error) {
+    console.error('Error fetching muted word rules:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Add a muted word or phrase
+ * @param userId - UUID of recipient
+ * @param phrase - Word or phrase (* is a wildcard)
+ * @param wholeWord - Only match whole words
+ * @returns Created muted word, 'duplicate' if already muted, or null if error
+ */
+export async function createMutedWord(
+  userId: string,
+  phrase: string,
+  wholeWord: boolean
+): Promise<MutedWord | 'duplicate' | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('muted_words')
+    .insert({
+      user_id: userId,
+      phrase: phrase.trim(),
+      whole_word: wholeWord,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Unique violation on (user_id, lower(phrase))
+    if (error.code === '23505') return 'duplicate';
+    console.error('Error creating muted word:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Remove a muted word
+ * @param userId - UUID of recipient
+ * @param mutedWordId - UUID of muted word
+ * @returns true if successful
+ */
+export async function deleteMutedWord(
+  userId: string,
+  mutedWordId: string
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('muted_words')
+    .delete()
+    .eq('id', mutedWordId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error deleting muted word:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Count a recipient's muted words (for the MAX_MUTED_WORDS limit)
+ * @param userId - UUID of recipient
+ * @returns Number of muted words
+ */
+export async function countMutedWords(userId: string): Promise<number> {
+  const supabase = await createClient();
+
+  const { count, error } = await supabase
+    .from('muted_words')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error counting muted words:', error);
+    return 0;
+  }
+
+  return count || 0;
+}
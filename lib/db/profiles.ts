@@ -4,7 +4,8 @@
  * Use with Supabase server client in Server Components/Actions
  */
 
-import { createClient } from '@/lib/supabase/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { MODERATION_VERDICTS } from '@/lib/moderation/constants';
 import type {
   Profile,
   ProfileInsert,
@@ -100,7 +101,8 @@ export async function getProfileWithStats(
     .from('messages')
     .select('*', { count: 'exact', head: true })
     .eq('recipient_id', userId)
-    .eq('is_read', false);
+    .eq('is_read', false)
+    .eq('moderation_verdict', MODERATION_VERDICTS.DELIVER);
 
   return {
     ...profile,
@@ -184,20 +186,38 @@ export async function isUsernameAvailable(
     .eq('username', username.toLowerCase())
     .maybeSingle();
 
-  return data === null;
+  // Deactivated and suspended accounts keep their username but are hidden
+  // by RLS
+  return (
+    data === null &&
+    !(await isUsernameDeactivated(username)) &&
+    !(await isUsernameSuspended(username))
+  );
 }
 
 /**
- * Deactivate profile (soft delete)
- * @param userId - UUID of the user
+ * Deactivate profile (soft delete). The public page shows the account as
+ * unavailable and the send route rejects messages until it's restored.
+ * Written with the service role: owners can't change the deletion fields
+ * themselves, so the grace period can't be stretched from the browser
+ * @param userId - UUID of the user (already authenticated by the caller)
+ * @param deletionScheduledFor - When the account is permanently deleted
+ * (null to deactivate without scheduling deletion)
  * @returns true if successful, false otherwise
  */
-export async function deactivateProfile(userId: string): Promise<boolean> {
-  const supabase = await createClient();
+export async function deactivateProfile(
+  userId: string,
+  deletionScheduledFor: Date | null = null
+): Promise<boolean> {
+  const supabase = await createAdminClient();
 
   const { error } = await supabase
     .from('profiles')
-    .update({ is_active: false })
+    .update({
+      is_active: false,
+      deleted_at: deletionScheduledFor ? new Date().toISOString() : null,
+      deletion_scheduled_for: deletionScheduledFor?.toISOString() ?? null,
+    })
     .eq('id', userId);
 
   if (error) {
@@ -208,6 +228,68 @@ export async function deactivateProfile(userId: string): Promise<boolean> {
   return true;
 }
 
+/**
+ * Reactivate the signed-in user's profile pending deletion, as long as its
+ * grace period hasn't ended (checked by restore_profile in the database)
+ * @returns Restored profile or null if it can't be restored
+ */
+export async function restoreProfile(): Promise<Profile | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('restore_profile').maybeSingle();
+
+  if (error) {
+    console.error('Error restoring profile:', error);
+    return null;
+  }
+
+  return data as Profile | null;
+}
+
+/**
+ * Check whether a username belongs to a deactivated account - such
+ * profiles are hidden from everyone but their owner
+ * @param username - Username to check
+ * @returns true if the account exists but is deactivated
+ */
+export async function isUsernameDeactivated(
+  username: string
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('is_username_deactivated', {
+    p_username: username.toLowerCase(),
+  });
+
+  if (error) {
+    console.error('Error checking deactivated username:', error);
+    return false;
+  }
+
+  return data === true;
+}
+
+/**
+ * Check whether a username belongs to an account suspended by a platform
+ * admin - such profiles are hidden from everyone but their owner and admins
+ * @param username - Username to check
+ * @returns true if the account exists but is suspended
+ */
+export async function isUsernameSuspended(username: string): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('is_username_suspended', {
+    p_username: username.toLowerCase(),
+  });
+
+  if (error) {
+    console.error('Error checking suspended username:', error);
+    return false;
+  }
+
+  return data === true;
+}
+
 /**
  * Increment profile visit count
  * @param profileId - UUID of the profile
@@ -257,22 +339,30 @@ export async function incrementProfileVisits(
  * Search profiles by username (partial match)
  * @param searchTerm - Search string
  * @param limit - Maximum number of results (default 10)
+ * @param includeInactive - Also match deactivated and suspended profiles
+ * (only visible to platform admins, via RLS)
  * @returns Array of matching profiles
  */
 export async function searchProfiles(
   searchTerm: string,
-  limit: number = 10
+  limit: number = 10,
+  includeInactive: boolean = false
 ): Promise<Profile[]> {
   const supabase = await createClient();
 
-  const { data, error } = await supabase
+  let query = supabase
     .from('profiles')
     .select('*')
-    .eq('is_active', true)
     .ilike('username', `%${searchTerm.toLowerCase()}%`)
     .order('message_count', { ascending: false })
     .limit(limit);
 
+  if (!includeInactive) {
+    query = query.eq('is_active', true).is('suspended_at', null);
+  }
+
+  const { data, error } = await query;
+
   if (error) {
     console.error('Error searching profiles:', error);
     return [];
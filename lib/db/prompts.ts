@@ -0,0 +1,196 @@
+/**
+ * Prompt Database Utilities
+ * Server-side functions for owner-defined prompts
+ * Prompts are shown above the message form on the public profile
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import type { Prompt } from '@/lib/types/database.types';
+
+/**
+ * Maximum number of active prompts per profile
+ */
+export const MAX_ACTIVE_PROMPTS = 10;
+
+export type PublicPrompt = Pick<Prompt, 'id' | 'text'>;
+
+/**
+ * Get active prompts for a profile in display order (public, no auth required)
+ * @param profileId - UUID of the profile owner
+ * @returns Active prompts (id and text only)
+ */
+export async function getActivePrompts(
+  profileId: string
+): Promise<PublicPrompt[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('prompts')
+    .select('id, text')
+    .eq('profile_id', profileId)
+    .eq('is_active', true)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching active prompts:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Get all prompts for the owner, including retired ones
+ * @param profileId - UUID of the profile owner
+ * @returns Prompts ordered active first, then by position
+ */
+export async function getPromptsForOwner(profileId: string): Promise<Prompt[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('prompts')
+    .select('*')
+    .eq('profile_id', profileId)
+    .order('is_active', { ascending: false })
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching prompts:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Create a prompt at the end of the active list
+ * @param profileId - UUID of the profile owner
+ * @param text - Prompt text
+ * @returns Created prompt or null if error
+ */
+export async function createPrompt(
+  profileId: string,
+  text: string
+): Promise<Prompt | null> {
+  const supabase = await createClient();
+
+  const { data: last } = await supabase
+    .from('prompts')
+    .select('position')
+    .eq('profile_id', profileId)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await supabase
+    .from('prompts')
+    .insert({
+      profile_id: profileId,
+      text: text.trim(),
+      position: last ? last.position + 1 : 0,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating prompt:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Update prompt text or retire / reactivate it
+ * @param profileId - UUID of the profile owner
+ * @param promptId - UUID of prompt
+ * @param updates - New text and/or active state
+ * @returns Updated prompt or null if error
+ */
+export async function updatePrompt(
+  profileId: string,
+  promptId: string,
+  updates: { text?: string; is_active?: boolean }
+): Promise<Prompt | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('prompts')
+    .update({
+      ...(updates.text !== undefined && { text: updates.text.trim() }),
+      ...(updates.is_active !== undefined && {
+        is_active: updates.is_active,
+        retired_at: updates.is_active ? null : new Date().toISOString(),
+      }),
+    })
+    .eq('id', promptId)
+    .eq('profile_id', profileId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating prompt:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Reorder prompts - position follows the order of the given IDs
+ * @param profileId - UUID of the profile owner
+ * @param promptIds - Prompt UUIDs in their new display order
+ * @returns true if successful
+ */
+export async function reorderPrompts(
+  profileId: string,
+  promptIds: string[]
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  const results = await Promise.all(
+    promptIds.map((id, position) =>
+      supabase
+        .from('prompts')
+        .update({ position })
+        .eq('id', id)
+        .eq('profile_id', profileId)
+    )
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed) {
+    console.error('Error reordering prompts:', failed.error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Delete a prompt (messages keep their content, prompt_id is set to null)
+ * @param profileId - UUID of the profile owner
+ * @param promptId - UUID of prompt
+ * @returns true if successful
+ */
+export async function deletePrompt(
+  profileId: string,
+  promptId: string
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('prompts')
+    .delete()
+    .eq('id', promptId)
+    .eq('profile_id', profileId);
+
+  if (error) {
+    console.error('Error deleting prompt:', error);
+    return false;
+  }
+
+  return true;
+}
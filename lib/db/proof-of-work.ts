@@ -0,0 +1,33 @@
+/**
+ * Proof-of-Work Database Utilities
+ * Server-side single-use tracking for proof-of-work challenges. Written
+ * with the service role; senders are anonymous
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+
+/**
+ * Redeem a challenge nonce. Fails closed: the caller should refuse the
+ * request unless this returns true
+ * @param nonce - Nonce from a verified challenge
+ * @param expiresAt - When the challenge expires (epoch ms)
+ * @returns true if redeemed, 'duplicate' if already used, false on error
+ */
+export async function redeemProofOfWorkNonce(
+  nonce: string,
+  expiresAt: number
+): Promise<true | 'duplicate' | false> {
+  const supabase = await createAdminClient();
+
+  const { error } = await supabase
+    .from('redeemed_pow_nonces')
+    .insert({ nonce, expires_at: new Date(expiresAt).toISOString() });
+
+  if (error) {
+    if (error.code === '23505') return 'duplicate';
+    console.error('Error redeeming proof-of-work nonce:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,278 @@
+/**
+ * Report Database Utilities
+ * Server-side functions for message reports and the moderation queue.
+ * Recipients file reports on their own messages; platform admins read and
+ * triage every report through RLS. Actions on the reported message touch
+ * another user's inbox, so they run with the service role
+ */
+
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { deleteMessageAttachmentFiles } from '@/lib/db/attachments';
+import { deleteExpiredBlockRules } from '@/lib/db/blocked-senders';
+import {
+  REPORT_ACTIONS,
+  REPORT_STATUSES,
+  REPORTS_PAGE_SIZE,
+  type ReportAction,
+  type ReportStatus,
+} from '@/lib/constants/reports';
+import type { ReportReason } from '@/lib/constants/report-reasons';
+import type { Message, Report } from '@/lib/types/database.types';
+
+export type ReportListItem = Report & {
+  reporter: { username: string } | null;
+};
+
+export type ReportDetail = ReportListItem & {
+  reviewer: { username: string } | null;
+  /** The message as it is now (null once deleted) */
+  message: Pick<
+    Message,
+    'id' | 'content' | 'created_at' | 'is_flagged' | 'moderation_verdict'
+  > | null;
+  /** Reports against the same sender, this one included */
+  sender_report_count: number;
+};
+
+/**
+ * File a report on a message the reporter received
+ * @param reporterId - UUID of the reporting recipient
+ * @param message - The reported message (snapshotted into the report)
+ * @param reason - Report reason
+ * @param details - Optional details from the reporter
+ * @returns Created report, 'duplicate' if already reported, or null if error
+ */
+export async function createReport(
+  reporterId: string,
+  message: Pick<Message, 'id' | 'content' | 'created_at' | 'sender_ip_hash'>,
+  reason: ReportReason,
+  details: string | null
+): Promise<Report | 'duplicate' | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('reports')
+    .insert({
+      reporter_id: reporterId,
+      message_id: message.id,
+      reason,
+      details,
+      message_content: message.content,
+      message_created_at: message.created_at,
+      sender_ip_hash: message.sender_ip_hash,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Unique violation on (reporter_id, message_id)
+    if (error.code === '23505') return 'duplicate';
+    console.error('Error creating report:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * List reports for the moderation queue, oldest first (admins only, via RLS)
+ * @param status - Only reports with this status (all if omitted)
+ * @param page - 1-based page number
+ * @returns Page of reports and the total matching, or null if error
+ */
+export async function getReports(
+  status: ReportStatus | null,
+  page: number = 1
+): Promise<{ reports: ReportListItem[]; total: number } | null> {
+  const supabase = await createClient();
+  const from = (page - 1) * REPORTS_PAGE_SIZE;
+
+  let query = supabase
+    .from('reports')
+    .select('*, reporter:profiles!reports_reporter_id_fkey(username)', {
+      count: 'exact',
+    })
+    .order('created_at', { ascending: true })
+    .range(from, from + REPORTS_PAGE_SIZE - 1);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, count, error } = await query;
+
+  if (error) {
+    console.error('Error fetching reports:', error);
+    return null;
+  }
+
+  return { reports: data || [], total: count || 0 };
+}
+
+/**
+ * Count reports by status (admins only, via RLS)
+ * @returns Count per status
+ */
+export async function getReportStatusCounts(): Promise<Record<ReportStatus, number>> {
+  const supabase = await createClient();
+  const counts = {
+    open: 0,
+    under_review: 0,
+    actioned: 0,
+    dismissed: 0,
+  } satisfies Record<ReportStatus, number>;
+
+  for (const status of Object.values(REPORT_STATUSES)) {
+    const { count, error } = await supabase
+      .from('reports')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', status);
+
+    if (error) {
+      console.error('Error counting reports:', error);
+      continue;
+    }
+
+    counts[status] = count || 0;
+  }
+
+  return counts;
+}
+
+/**
+ * Get a report with the reported message and sender history (admins only)
+ * @param reportId - UUID of report
+ * @returns Report detail or null if not found
+ */
+export async function getReportDetail(
+  reportId: string
+): Promise<ReportDetail | null> {
+  const supabase = await createClient();
+
+  const { data: report, error } = await supabase
+    .from('reports')
+    .select(
+      '*, reporter:profiles!reports_reporter_id_fkey(username), reviewer:profiles!reports_reviewer_id_fkey(username)'
+    )
+    .eq('id', reportId)
+    .maybeSingle();
+
+  if (error || !report) {
+    if (error) console.error('Error fetching report:', error);
+    return null;
+  }
+
+  // The message belongs to the reporter, so only the service role can read it
+  const admin = await createAdminClient();
+  let message: ReportDetail['message'] = null;
+
+  if (report.message_id) {
+    const { data, error: messageError } = await admin
+      .from('messages')
+      .select('id, content, created_at, is_flagged, moderation_verdict')
+      .eq('id', report.message_id)
+      .maybeSingle();
+
+    if (messageError) {
+      console.error('Error fetching reported message:', messageError);
+    }
+
+    message = data;
+  }
+
+  const { count } = await supabase
+    .from('reports')
+    .select('id', { count: 'exact', head: true })
+    .eq('sender_ip_hash', report.sender_ip_hash);
+
+  return { ...report, message, sender_report_count: count || 1 };
+}
+
+/**
+ * Move a report through the triage workflow (admins only). The change and
+ * its audit log entry are written in one transaction (admin_update_report).
+ * The caller checks the transition is allowed
+ * @param reportId - UUID of report
+ * @param updates - New status, notes and the action taken (if any)
+ * @returns Updated report or null if error
+ */
+export async function updateReport(
+  reportId: string,
+  updates: {
+    status?: ReportStatus;
+    reviewer_notes?: string | null;
+    action_taken?: ReportAction | null;
+  }
+): Promise<Report | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .rpc('admin_update_report', {
+      p_report_id: reportId,
+      p_status: updates.status ?? null,
+      p_update_notes: updates.reviewer_notes !== undefined,
+      p_reviewer_notes: updates.reviewer_notes ?? null,
+      p_action: updates.action_taken ?? null,
+    })
+    .single();
+
+  if (error) {
+    console.error('Error updating report:', error);
+    return null;
+  }
+
+  return data as Report;
+}
+
+/**
+ * Act on a reported message (service role)
+ * @param report - The report
+ * @param action - Action to take
+ * @returns true if successful
+ */
+export async function takeReportAction(
+  report: Report,
+  action: ReportAction
+): Promise<boolean> {
+  const admin = await createAdminClient();
+
+  if (action === REPORT_ACTIONS.DELETE_MESSAGE) {
+    // Already gone
+    if (!report.message_id) return true;
+
+    await deleteMessageAttachmentFiles([report.message_id], true);
+
+    const { error } = await admin
+      .from('messages')
+      .delete()
+      .eq('id', report.message_id);
+
+    if (error) {
+      console.error('Error deleting reported message:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Block the sender's network for the reporter (an expired block of the
+  // same network would otherwise swallow the new one)
+  await deleteExpiredBlockRules(report.reporter_id);
+
+  const { error } = await admin.from('blocked_senders').upsert(
+    {
+      user_id: report.reporter_id,
+      blocked_ip_hash: report.sender_ip_hash,
+      reason: `Reported message (${report.reason})`,
+      blocked_identifier: `Report ${report.id.substring(0, 8)}`,
+    },
+    { onConflict: 'user_id,blocked_ip_hash', ignoreDuplicates: true }
+  );
+
+  if (error) {
+    console.error('Error blocking reported sender:', error);
+    return false;
+  }
+
+  return true;
+}
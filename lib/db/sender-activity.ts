@@ -0,0 +1,181 @@
+/**
+ * Sender Activity Database Utilities
+ * Server-side functions for automatic throttling of suspicious senders.
+ * The send API reads and writes with the service role (senders are
+ * anonymous); recipients review their log through RLS
+ */
+
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import {
+  BLOCK_REASONS,
+  COOLDOWN_ESCALATION_WINDOW_MS,
+  SENDER_ACTIVITY_ACTIONS,
+} from '@/lib/utils/blocking';
+import { deleteExpiredBlockRules } from '@/lib/db/blocked-senders';
+import type {
+  SenderActivityLog,
+  SenderActivityLogInsert,
+} from '@/lib/types/database.types';
+
+export interface SenderThrottleState {
+  /** The sender's messages to this recipient in the last hour */
+  recentMessages: Array<{ sender_ip_hash: string; created_at: string }>;
+  /** End of an active cooldown, or null */
+  cooldownUntil: string | null;
+  /** Cooldowns within the escalation window */
+  recentCooldowns: number;
+}
+
+/**
+ * Load what the send API needs to throttle a sender
+ * @param recipientId - UUID of recipient
+ * @param ipHash - Sender's IP hash
+ * @returns Throttle state (empty on error - never block on a failed lookup)
+ */
+export async function getSenderThrottleState(
+  recipientId: string,
+  ipHash: string
+): Promise<SenderThrottleState> {
+  const supabase = await createAdminClient();
+  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const escalationStart = new Date(
+    Date.now() - COOLDOWN_ESCALATION_WINDOW_MS
+  ).toISOString();
+
+  const [{ data: messages, error: messagesError }, { data: cooldowns, error: cooldownsError }] =
+    await Promise.all([
+      supabase
+        .from('messages')
+        .select('sender_ip_hash, created_at')
+        .eq('recipient_id', recipientId)
+        .eq('sender_ip_hash', ipHash)
+        .gte('created_at', oneHourAgo),
+      supabase
+        .from('sender_activity_log')
+        .select('cooldown_until')
+        .eq('recipient_id', recipientId)
+        .eq('sender_ip_hash', ipHash)
+        .eq('action', SENDER_ACTIVITY_ACTIONS.COOLDOWN)
+        .gte('created_at', escalationStart)
+        .order('cooldown_until', { ascending: false }),
+    ]);
+
+  if (messagesError || cooldownsError) {
+    console.error('Error loading sender throttle state:', messagesError || cooldownsError);
+    return { recentMessages: [], cooldownUntil: null, recentCooldowns: 0 };
+  }
+
+  const latest = cooldowns?.[0]?.cooldown_until ?? null;
+
+  return {
+    recentMessages: messages || [],
+    cooldownUntil: latest && new Date(latest).getTime() > Date.now() ? latest : null,
+    recentCooldowns: cooldowns?.length || 0,
+  };
+}
+
+/**
+ * Record automatic actions taken against a sender
+ * @param entries - Log entries
+ * @returns true if successful
+ */
+export async function logSenderActivity(
+  entries: SenderActivityLogInsert[]
+): Promise<boolean> {
+  if (entries.length === 0) return true;
+
+  const supabase = await createAdminClient();
+
+  const { error } = await supabase.from('sender_activity_log').insert(entries);
+
+  if (error) {
+    console.error('Error logging sender activity:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Block a flooding sender on the recipient's behalf
+ * @param recipientId - UUID of recipient
+ * @param ipHash - Sender's IP hash
+ * @param messageId - Message that triggered the block (for the identifier)
+ * @returns true if successful
+ */
+export async function autoBlockSender(
+  recipientId: string,
+  ipHash: string,
+  messageId: string
+): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  // An expired block would otherwise swallow the new one as a duplicate
+  await deleteExpiredBlockRules(recipientId);
+
+  const { error } = await supabase.from('blocked_senders').upsert(
+    {
+      user_id: recipientId,
+      blocked_ip_hash: ipHash,
+      reason: BLOCK_REASONS.SUSPICIOUS_ACTIVITY,
+      blocked_identifier: `Message ${messageId.substring(0, 8)}`,
+    },
+    { onConflict: 'user_id,blocked_ip_hash', ignoreDuplicates: true }
+  );
+
+  if (error) {
+    console.error('Error auto-blocking sender:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get a recipient's sender activity log (newest first)
+ * @param userId - UUID of recipient
+ * @param limit - Maximum entries
+ * @returns Log entries or [] if error
+ */
+export async function getSenderActivityLog(
+  userId: string,
+  limit = 50
+): Promise<SenderActivityLog[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('sender_activity_log')
+    .select('*')
+    .eq('recipient_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching sender activity log:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Clear a recipient's sender activity log. Active cooldowns end too, since
+ * they are read from the log
+ * @param userId - UUID of recipient
+ * @returns true if successful
+ */
+export async function clearSenderActivityLog(userId: string): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('sender_activity_log')
+    .delete()
+    .eq('recipient_id', userId);
+
+  if (error) {
+    console.error('Error clearing sender activity log:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,241 @@
+/**
+ * Message Thread Database Utilities
+ * Server-side functions for private two-way threads between a recipient
+ * and the anonymous sender holding the message's secret thread token
+ */
+
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { hashThreadToken } from '@/lib/utils/thread-token';
+import { getActiveBlockRules, getMessageSenderSignals } from '@/lib/db/blocked-senders';
+import { getMutedWordRules } from '@/lib/db/muted-words';
+import { findMatchingBlockRule } from '@/lib/utils/blocking';
+import { moderateMessage } from '@/lib/moderation/pipeline';
+import { MODERATION_VERDICTS } from '@/lib/moderation/constants';
+import type { MessageReply } from '@/lib/types/database.types';
+
+/**
+ * Maximum number of replies in a single thread (both sides combined)
+ */
+export const MAX_THREAD_REPLIES = 50;
+
+export type ThreadReplyAuthor = 'recipient' | 'sender';
+
+export type ThreadReply = Pick<MessageReply, 'id' | 'content' | 'created_at'> & {
+  author: ThreadReplyAuthor;
+};
+
+/**
+ * What the sender sees when opening their thread - never includes
+ * recipient-side tracking data
+ */
+export interface SenderThread {
+  message: {
+    id: string;
+    content: string;
+    created_at: string;
+  };
+  recipientUsername: string;
+  replies: ThreadReply[];
+}
+
+/**
+ * Get the replies on a message for its recipient
+ * @param messageId - UUID of message
+ * @returns Replies oldest first (RLS limits this to the recipient)
+ */
+export async function getRepliesForMessage(
+  messageId: string
+): Promise<ThreadReply[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('message_replies')
+    .select('id, author, content, created_at')
+    .eq('message_id', messageId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching message replies:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Add a reply from the recipient
+ * @param messageId - UUID of message
+ * @param content - Reply text
+ * @returns Created reply or null if error
+ */
+export async function createRecipientReply(
+  messageId: string,
+  content: string
+): Promise<ThreadReply | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('message_replies')
+    .insert({
+      message_id: messageId,
+      author: 'recipient',
+      content: content.trim(),
+    })
+    .select('id, author, content, created_at')
+    .single();
+
+  if (error) {
+    console.error('Error creating reply:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Resolve a raw thread token to its message (service role - the caller
+ * holds no session, the token is the credential)
+ * @param token - Raw thread token from the sender
+ * @returns Message ID, recipient and sender IP hash, or null if no match
+ */
+async function findMessageByToken(token: string): Promise<{
+  id: string;
+  content: string;
+  created_at: string;
+  recipient_id: string;
+  sender_ip_hash: string;
+  sender_fingerprint: string | null;
+  sender_timezone: string | null;
+  sender_referrer_platform: string | null;
+} | null> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select(
+      'id, content, created_at, recipient_id, sender_ip_hash, sender_fingerprint, sender_timezone, sender_referrer_platform'
+    )
+    .eq('thread_token_hash', hashThreadToken(token))
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error resolving thread token:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Get a thread for the sender holding its token
+ * @param token - Raw thread token
+ * @returns Thread or null if the token doesn't match a message
+ */
+export async function getThreadByToken(
+  token: string
+): Promise<SenderThread | null> {
+  const message = await findMessageByToken(token);
+  if (!message) return null;
+
+  const supabase = await createAdminClient();
+
+  const [{ data: recipient }, { data: replies, error }] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('username')
+      .eq('id', message.recipient_id)
+      .single(),
+    supabase
+      .from('message_replies')
+      .select('id, author, content, created_at')
+      .eq('message_id', message.id)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (error) {
+    console.error('Error fetching thread replies:', error);
+    return null;
+  }
+
+  return {
+    message: {
+      id: message.id,
+      content: message.content,
+      created_at: message.created_at,
+    },
+    recipientUsername: recipient?.username || 'someone',
+    replies: replies || [],
+  };
+}
+
+/**
+ * Add a follow-up from the sender holding the thread token. Follow-ups go
+ * through the same block rules and moderation pipeline (including the
+ * recipient's muted words) as first messages
+ * @param token - Raw thread token
+ * @param content - Follow-up text
+ * @param ipHash - IP hash of the sender posting the follow-up
+ * @returns Created reply, or an error code the API maps to a response
+ */
+export async function createSenderReply(
+  token: string,
+  content: string,
+  ipHash: string
+): Promise<
+  | { reply: ThreadReply }
+  | { error: 'not_found' | 'blocked' | 'rejected' | 'thread_full' | 'failed' }
+> {
+  const message = await findMessageByToken(token);
+  if (!message) return { error: 'not_found' };
+
+  const supabase = await createAdminClient();
+
+  // A block rule matching the original sender, or the network the
+  // follow-up comes from, closes the thread
+  const [rules, mutedWords] = await Promise.all([
+    getActiveBlockRules(message.recipient_id),
+    getMutedWordRules(message.recipient_id),
+  ]);
+  const originalSender = getMessageSenderSignals(message);
+
+  if (
+    findMatchingBlockRule(rules, originalSender) ||
+    findMatchingBlockRule(rules, { ...originalSender, ipHash })
+  ) {
+    return { error: 'blocked' };
+  }
+
+  // Replies have no Filtered folder, so anything that would hold a first
+  // message is refused
+  const moderation = moderateMessage(content, {
+    recipientId: message.recipient_id,
+    mutedWords,
+  });
+  if (moderation.verdict !== MODERATION_VERDICTS.DELIVER) {
+    return { error: 'rejected' };
+  }
+
+  const { count } = await supabase
+    .from('message_replies')
+    .select('id', { count: 'exact', head: true })
+    .eq('message_id', message.id);
+
+  if ((count || 0) >= MAX_THREAD_REPLIES) return { error: 'thread_full' };
+
+  const { data, error } = await supabase
+    .from('message_replies')
+    .insert({
+      message_id: message.id,
+      author: 'sender',
+      content: content.trim(),
+    })
+    .select('id, author, content, created_at')
+    .single();
+
+  if (error) {
+    console.error('Error creating sender reply:', error);
+    return { error: 'failed' };
+  }
+
+  return { reply: data };
+}
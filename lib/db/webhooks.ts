@@ -0,0 +1,598 @@
+/**
+ * Webhook Database Utilities
+ * Server-side functions for webhook endpoints and their delivery log.
+ * Owners manage endpoints with RLS limiting them to their own; events fire
+ * from anonymous requests and the retry job, so dispatch works with the
+ * service role
+ */
+
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { generateWebhookSecret } from '@/lib/webhooks/signature';
+import {
+  WEBHOOK_DELIVERIES_PAGE_SIZE,
+  WEBHOOK_DELIVERY_RETENTION_DAYS,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_RETRY_BATCH_SIZE,
+  WEBHOOK_SECRET_ROTATION_GRACE_HOURS,
+  getVisitMilestone,
+  type WebhookEvent,
+  type WebhookFormat,
+} from '@/lib/constants/webhooks';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryInsert,
+  WebhookEndpoint,
+} from '@/lib/types/database.types';
+
+export interface WebhookEndpointInput {
+  url: string;
+  description?: string | null;
+  format: WebhookFormat;
+  events: WebhookEvent[];
+}
+
+export interface WebhookAttemptResult {
+  status: WebhookDelivery['status'];
+  attemptCount: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+}
+
+// =====================================================
+// Endpoints (owner)
+// =====================================================
+
+/**
+ * Get a user's webhook endpoints (oldest first)
+ * @param userId - UUID of owner
+ * @returns Endpoints, or null if error
+ */
+export async function getWebhookEndpoints(
+  userId: string
+): Promise<WebhookEndpoint[] | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching webhook endpoints:', error);
+    return null;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get one of a user's webhook endpoints
+ * @param userId - UUID of owner
+ * @param endpointId - UUID of endpoint
+ * @returns Endpoint, or null if not found or error
+ */
+export async function getWebhookEndpoint(
+  userId: string,
+  endpointId: string
+): Promise<WebhookEndpoint | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('id', endpointId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching webhook endpoint:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Count a user's webhook endpoints
+ * @param userId - UUID of owner
+ * @returns Number of endpoints
+ */
+export async function countWebhookEndpoints(userId: string): Promise<number> {
+  const supabase = await createClient();
+
+  const { count, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error counting webhook endpoints:', error);
+    return 0;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Create a webhook endpoint with a new signing secret
+ * @param userId - UUID of owner
+ * @param input - URL, description, format and events
+ * @returns Created endpoint, or null if error
+ */
+export async function createWebhookEndpoint(
+  userId: string,
+  input: WebhookEndpointInput
+): Promise<WebhookEndpoint | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .insert({
+      user_id: userId,
+      url: input.url,
+      description: input.description?.trim() || null,
+      format: input.format,
+      events: input.events,
+      secret: generateWebhookSecret(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating webhook endpoint:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Update a webhook endpoint
+ * @param userId - UUID of owner
+ * @param endpointId - UUID of endpoint
+ * @param updates - Fields to change
+ * @returns Updated endpoint, or null if not found or error
+ */
+export async function updateWebhookEndpoint(
+  userId: string,
+  endpointId: string,
+  updates: Partial<WebhookEndpointInput> & { is_active?: boolean }
+): Promise<WebhookEndpoint | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .update({
+      ...updates,
+      ...(updates.description !== undefined && {
+        description: updates.description?.trim() || null,
+      }),
+    })
+    .eq('id', endpointId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating webhook endpoint:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Delete a webhook endpoint and its delivery log
+ * @param userId - UUID of owner
+ * @param endpointId - UUID of endpoint
+ * @returns true if deleted, false otherwise
+ */
+export async function deleteWebhookEndpoint(
+  userId: string,
+  endpointId: string
+): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', endpointId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    console.error('Error deleting webhook endpoint:', error);
+    return false;
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Replace an endpoint's signing secret. The old secret keeps signing
+ * deliveries for a grace period, so the receiver can switch over
+ * @param userId - UUID of owner
+ * @param endpoint - Endpoint as currently stored
+ * @returns Updated endpoint, or null if error
+ */
+export async function rotateWebhookSecret(
+  userId: string,
+  endpoint: WebhookEndpoint
+): Promise<WebhookEndpoint | null> {
+  const supabase = await createClient();
+  const graceEnds = new Date(
+    Date.now() + WEBHOOK_SECRET_ROTATION_GRACE_HOURS * 60 * 60 * 1000
+  );
+
+  // Only rotate from the secret we read, so two rotations can't race
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .update({
+      secret: generateWebhookSecret(),
+      previous_secret: endpoint.secret,
+      previous_secret_expires_at: graceEnds.toISOString(),
+    })
+    .eq('id', endpoint.id)
+    .eq('user_id', userId)
+    .eq('secret', endpoint.secret)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error rotating webhook secret:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Secrets a delivery should be signed with right now
+ * @param endpoint - Webhook endpoint
+ * @returns Current secret, plus the previous one during its grace period
+ */
+export function getActiveWebhookSecrets(endpoint: WebhookEndpoint): string[] {
+  const secrets = [endpoint.secret];
+
+  if (
+    endpoint.previous_secret &&
+    endpoint.previous_secret_expires_at &&
+    new Date(endpoint.previous_secret_expires_at) > new Date()
+  ) {
+    secrets.push(endpoint.previous_secret);
+  }
+
+  return secrets;
+}
+
+// =====================================================
+// Delivery Log (owner)
+// =====================================================
+
+/**
+ * Get a page of an endpoint's deliveries (newest first)
+ * @param userId - UUID of owner
+ * @param endpointId - UUID of endpoint
+ * @param page - 1-based page number
+ * @returns Deliveries and total count, or null if error
+ */
+export async function getWebhookDeliveries(
+  userId: string,
+  endpointId: string,
+  page: number = 1
+): Promise<{ deliveries: WebhookDelivery[]; total: number } | null> {
+  const supabase = await createClient();
+  const from = (page - 1) * WEBHOOK_DELIVERIES_PAGE_SIZE;
+
+  const { data, error, count } = await supabase
+    .from('webhook_deliveries')
+    .select('*', { count: 'exact' })
+    .eq('endpoint_id', endpointId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .range(from, from + WEBHOOK_DELIVERIES_PAGE_SIZE - 1);
+
+  if (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return null;
+  }
+
+  return { deliveries: data || [], total: count || 0 };
+}
+
+/**
+ * Get one of a user's deliveries
+ * @param userId - UUID of owner
+ * @param deliveryId - UUID of delivery
+ * @returns Delivery, or null if not found or error
+ */
+export async function getWebhookDelivery(
+  userId: string,
+  deliveryId: string
+): Promise<WebhookDelivery | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', deliveryId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching webhook delivery:', error);
+    return null;
+  }
+
+  return data;
+}
+
+// =====================================================
+// Dispatch (service role)
+// =====================================================
+
+/**
+ * Get a user's active endpoints subscribed to an event (service role)
+ * @param userId - UUID of owner
+ * @param event - Event type
+ * @returns Endpoints, or [] if none or error
+ */
+export async function getSubscribedWebhookEndpoints(
+  userId: string,
+  event: WebhookEvent
+): Promise<WebhookEndpoint[]> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .contains('events', [event]);
+
+  if (error) {
+    console.error('Error fetching subscribed webhook endpoints:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Get an endpoint by ID (service role)
+ * @param endpointId - UUID of endpoint
+ * @returns Endpoint, or null if not found or error
+ */
+export async function getWebhookEndpointById(
+  endpointId: string
+): Promise<WebhookEndpoint | null> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('id', endpointId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching webhook endpoint:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Log deliveries before attempting them (service role)
+ * @param deliveries - One row per endpoint
+ * @returns Created deliveries, or [] if error
+ */
+export async function createWebhookDeliveries(
+  deliveries: WebhookDeliveryInsert[]
+): Promise<WebhookDelivery[]> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .insert(deliveries)
+    .select();
+
+  if (error) {
+    console.error('Error creating webhook deliveries:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Record the outcome of a delivery attempt (service role)
+ * @param deliveryId - UUID of delivery
+ * @param result - Attempt outcome and, if it failed, when to retry
+ * @returns Updated delivery, or null if error
+ */
+export async function recordWebhookAttempt(
+  deliveryId: string,
+  result: WebhookAttemptResult
+): Promise<WebhookDelivery | null> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: result.status,
+      attempt_count: result.attemptCount,
+      next_attempt_at: result.nextAttemptAt,
+      last_attempt_at: new Date().toISOString(),
+      response_status: result.responseStatus,
+      response_body: result.responseBody,
+      error: result.error,
+    })
+    .eq('id', deliveryId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error recording webhook attempt:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Find pending deliveries whose retry is due (service role)
+ * @param limit - Maximum deliveries to return
+ * @returns Deliveries, longest waiting first, or null on error
+ */
+export async function findDueWebhookDeliveries(
+  limit: number = WEBHOOK_RETRY_BATCH_SIZE
+): Promise<WebhookDelivery[] | null> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('status', WEBHOOK_DELIVERY_STATUSES.PENDING)
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error finding due webhook deliveries:', error);
+    return null;
+  }
+
+  return data || [];
+}
+
+/**
+ * Claim a due delivery for one attempt (service role). Pushes its next
+ * attempt out by a lease, so overlapping runs skip it - and if this run
+ * dies mid-attempt, a later run picks it up once the lease ends
+ * @param delivery - Delivery as found
+ * @param leaseUntil - When another run may try it
+ * @returns Whether this run should attempt it
+ */
+export async function claimWebhookDelivery(
+  delivery: WebhookDelivery,
+  leaseUntil: Date
+): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  let query = supabase
+    .from('webhook_deliveries')
+    .update({ next_attempt_at: leaseUntil.toISOString() })
+    .eq('id', delivery.id)
+    .eq('status', WEBHOOK_DELIVERY_STATUSES.PENDING);
+
+  query = delivery.next_attempt_at
+    ? query.eq('next_attempt_at', delivery.next_attempt_at)
+    : query.is('next_attempt_at', null);
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    console.error('Error claiming webhook delivery:', error);
+    return false;
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Delete deliveries older than the log retention (service role)
+ * @returns Deliveries deleted
+ */
+export async function purgeOldWebhookDeliveries(): Promise<number> {
+  const supabase = await createAdminClient();
+  const cutoff = new Date(
+    Date.now() - WEBHOOK_DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .delete()
+    .lt('created_at', cutoff.toISOString())
+    .select('id');
+
+  if (error) {
+    console.error('Error purging webhook deliveries:', error);
+    return 0;
+  }
+
+  return data?.length ?? 0;
+}
+
+// =====================================================
+// Visit Milestones
+// =====================================================
+
+/**
+ * Count a profile's visits (service role)
+ * @param profileId - UUID of profile
+ * @returns Total visits, or null on error
+ */
+export async function countProfileVisits(
+  profileId: string
+): Promise<number | null> {
+  const supabase = await createAdminClient();
+
+  const { count, error } = await supabase
+    .from('link_visits')
+    .select('*', { count: 'exact', head: true })
+    .eq('profile_id', profileId);
+
+  if (error) {
+    console.error('Error counting profile visits:', error);
+    return null;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Claim a visit milestone so it's announced once, even when visits arrive
+ * together (service role)
+ * @param profileId - UUID of profile
+ * @param milestone - Milestone reached
+ * @returns Whether this request should announce it
+ */
+export async function claimVisitMilestone(
+  profileId: string,
+  milestone: number
+): Promise<boolean> {
+  const supabase = await createAdminClient();
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ last_visit_milestone: milestone })
+    .eq('id', profileId)
+    .lt('last_visit_milestone', milestone)
+    .select('id');
+
+  if (error) {
+    console.error('Error claiming visit milestone:', error);
+    return false;
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Mark milestones a profile already passed as announced, so subscribing
+ * to milestones doesn't announce an old one on the next visit (service role)
+ * @param profileId - UUID of profile
+ */
+export async function syncVisitMilestone(profileId: string): Promise<void> {
+  const visits = await countProfileVisits(profileId);
+  if (visits === null) return;
+
+  const milestone = getVisitMilestone(visits);
+  if (milestone > 0) {
+    await claimVisitMilestone(profileId, milestone);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * MIME Message Builder
+ *
+ * Builds the raw RFC 5322 message for an email with a plain text and an
+ * HTML version (multipart/alternative). Bodies are base64 encoded so any
+ * UTF-8 content - emoji included - survives every relay
+ */
+
+import crypto from 'crypto';
+import { getEnvelopeAddress } from './smtp';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Drop line breaks so a value can't start a new header
+ */
+function sanitizeHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word if it isn't plain ASCII
+ */
+export function encodeHeaderValue(value: string): string {
+  const sanitized = sanitizeHeaderValue(value);
+
+  // Printable ASCII goes as is
+  if (/^[\x20-\x7e]*$/.test(sanitized)) {
+    return sanitized;
+  }
+
+  return `=?UTF-8?B?${Buffer.from(sanitized, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Base64 encode a body, wrapped at 76 characters per line
+ */
+function encodeBody(body: string): string {
+  const encoded = Buffer.from(body, 'utf8').toString('base64');
+  return encoded.match(/.{1,76}/g)?.join('\r\n') ?? '';
+}
+
+/**
+ * Build the raw message, ready for SMTP DATA
+ *
+ * @param message - Sender, recipient, subject, bodies and extra headers
+ * @returns RFC 5322 message with CRLF line endings
+ */
+export function buildMimeMessage(message: EmailMessage): string {
+  const boundary = `nglfs-${crypto.randomBytes(12).toString('hex')}`;
+  const domain = getEnvelopeAddress(message.from).split('@')[1] || 'localhost';
+
+  const headers: Record<string, string> = {
+    From: sanitizeHeaderValue(message.from),
+    To: sanitizeHeaderValue(message.to),
+    Subject: encodeHeaderValue(message.subject),
+    Date: new Date().toUTCString(),
+    'Message-ID': `<${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version': '1.0',
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+  };
+
+  for (const [name, value] of Object.entries(message.headers ?? {})) {
+    headers[name] = sanitizeHeaderValue(value);
+  }
+
+  const lines = Object.entries(headers).map(
+    ([name, value]) => `${name}: ${value}`
+  );
+
+  lines.push(
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    ''
+  );
+
+  return lines.join('\r\n');
+}
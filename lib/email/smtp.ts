@@ -0,0 +1,316 @@
+/**
+ * Minimal SMTP Client
+ *
+ * Just enough SMTP to hand a message to a relay: EHLO, STARTTLS when the
+ * server offers it, AUTH PLAIN/LOGIN, then MAIL/RCPT/DATA. Works against
+ * hosted relays (port 587 with STARTTLS, 465 with implicit TLS) and local
+ * catchers like Mailpit or MailHog (port 1025, no TLS or auth)
+ * IMPORTANT: This file should only be imported server-side
+ */
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (port 465). Otherwise STARTTLS is used when offered */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Socket inactivity timeout */
+  timeoutMs?: number;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Error from the SMTP conversation, with the server's reply code if any
+ */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number | null = null
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/**
+ * One SMTP conversation over a socket, reading multi-line replies
+ * ("250-..." continues, "250 ..." ends the reply)
+ */
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private pending: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private failure: Error | null = null;
+
+  constructor(
+    socket: net.Socket,
+    private readonly timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+
+      this.replyLines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        this.replies.push({
+          code: parseInt(line.slice(0, 3), 10),
+          lines: this.replyLines,
+        });
+        this.replyLines = [];
+      }
+    }
+
+    this.flush();
+  };
+
+  private onError = (error: Error) => {
+    this.fail(error);
+  };
+
+  private onClose = () => {
+    this.fail(new SmtpError('SMTP connection closed unexpectedly'));
+  };
+
+  private onTimeout = () => {
+    this.fail(new SmtpError('SMTP server timed out'));
+    this.socket.destroy();
+  };
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+    socket.setTimeout(this.timeoutMs, this.onTimeout);
+  }
+
+  private detach(): net.Socket {
+    const socket = this.socket;
+    socket.removeListener('data', this.onData);
+    socket.removeListener('error', this.onError);
+    socket.removeListener('close', this.onClose);
+    socket.setTimeout(0);
+    return socket;
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.pending) {
+      this.pending.reject(this.failure);
+      this.pending = null;
+    }
+  }
+
+  private flush(): void {
+    if (this.pending && this.replies.length > 0) {
+      this.pending.resolve(this.replies.shift()!);
+      this.pending = null;
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.replies.length > 0) {
+      return Promise.resolve(this.replies.shift()!);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+
+  /**
+   * Read a reply and make sure it's one of the expected codes
+   */
+  async expect(expected: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.read();
+
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(
+        `SMTP ${step} failed: ${reply.code} ${reply.lines.join(' ')}`,
+        reply.code
+      );
+    }
+
+    return reply;
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  async command(
+    line: string,
+    expected: number[],
+    step = line.split(' ')[0]
+  ): Promise<SmtpReply> {
+    this.write(`${line}\r\n`);
+    return this.expect(expected, step);
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS
+   */
+  async upgrade(servername: string): Promise<void> {
+    const plain = this.detach();
+
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: plain, servername }, () =>
+        resolve(socket)
+      );
+      socket.once('error', reject);
+    });
+
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.detach().destroy();
+  }
+}
+
+/**
+ * The bare address from "Name <address>" or "address"
+ */
+export function getEnvelopeAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+/**
+ * Extensions advertised in an EHLO reply, e.g. { STARTTLS: '', AUTH: 'PLAIN LOGIN' }
+ */
+function parseExtensions(reply: SmtpReply): Map<string, string> {
+  const extensions = new Map<string, string>();
+
+  // The first line is the server greeting
+  for (const line of reply.lines.slice(1)) {
+    const [name, ...params] = line.trim().split(/\s+/);
+    extensions.set(name.toUpperCase(), params.join(' ').toUpperCase());
+  }
+
+  return extensions;
+}
+
+/**
+ * Escape lines starting with a dot and end the data with CRLF (RFC 5321 4.5.2)
+ */
+function toSmtpData(data: string): string {
+  const normalized = data.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return normalized.endsWith('\r\n') ? normalized : `${normalized}\r\n`;
+}
+
+/**
+ * Send one message over SMTP
+ *
+ * @param config - Server and credentials
+ * @param envelope - Envelope sender and recipients
+ * @param data - Complete RFC 5322 message (headers and body)
+ * @throws SmtpError if the server rejects the message or the connection fails
+ */
+export async function sendSmtpMail(
+  config: SmtpConfig,
+  envelope: SmtpEnvelope,
+  data: string
+): Promise<void> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+  const session = new SmtpSession(socket, timeoutMs);
+
+  try {
+    await session.expect([220], 'greeting');
+
+    const hostname = os.hostname() || 'localhost';
+    let extensions = parseExtensions(
+      await session.command(`EHLO ${hostname}`, [250])
+    );
+
+    if (!config.secure && extensions.has('STARTTLS')) {
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(config.host);
+      extensions = parseExtensions(
+        await session.command(`EHLO ${hostname}`, [250])
+      );
+    }
+
+    if (config.user) {
+      const mechanisms = extensions.get('AUTH')?.split(' ') ?? [];
+      const password = config.password ?? '';
+
+      if (mechanisms.includes('PLAIN')) {
+        const credentials = Buffer.from(
+          `\0${config.user}\0${password}`
+        ).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      } else if (mechanisms.includes('LOGIN')) {
+        await session.command('AUTH LOGIN', [334], 'AUTH');
+        await session.command(
+          Buffer.from(config.user).toString('base64'),
+          [334],
+          'AUTH'
+        );
+        await session.command(
+          Buffer.from(password).toString('base64'),
+          [235],
+          'AUTH'
+        );
+      } else {
+        throw new SmtpError('SMTP server offers no supported AUTH mechanism');
+      }
+    }
+
+    await session.command(
+      `MAIL FROM:<${getEnvelopeAddress(envelope.from)}>`,
+      [250],
+      'MAIL'
+    );
+    for (const recipient of envelope.to) {
+      await session.command(
+        `RCPT TO:<${getEnvelopeAddress(recipient)}>`,
+        [250, 251],
+        'RCPT'
+      );
+    }
+
+    await session.command('DATA', [354]);
+    session.write(`${toSmtpData(data)}.\r\n`);
+    await session.expect([250], 'DATA');
+
+    // The message is accepted - a failed goodbye doesn't matter
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
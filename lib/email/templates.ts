@@ -0,0 +1,175 @@
+/**
+ * Email Templates
+ *
+ * Subject, plain text and HTML for each notification email. Message
+ * content is sender-controlled, so everything interpolated into HTML is
+ * escaped
+ */
+
+import { getEmailDigestFrequencyText } from '@/lib/constants/email-notifications';
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MessageAlertEmailData {
+  username: string;
+  /** Message preview, or null when previews are off */
+  preview: string | null;
+  inboxUrl: string;
+  settingsUrl: string;
+  unsubscribeUrl: string;
+}
+
+export interface DigestEmailData {
+  username: string;
+  frequency: 'daily' | 'weekly';
+  newMessages: number;
+  unreadMessages: number;
+  visits: number;
+  /** Latest message previews, empty when previews are off */
+  previews: string[];
+  inboxUrl: string;
+  settingsUrl: string;
+  unsubscribeUrl: string;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Shared HTML layout: heading, body blocks, a button and the footer links
+ */
+function renderLayout(options: {
+  heading: string;
+  blocks: string[];
+  buttonLabel: string;
+  buttonUrl: string;
+  footer: string;
+  settingsUrl: string;
+  unsubscribeUrl: string;
+}): string {
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#0a0a0a;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#e5e7eb;">
+  <div style="max-width:480px;margin:0 auto;background:#111827;border-radius:12px;padding:32px;">
+    <h1 style="margin:0 0 16px;font-size:20px;color:#ffffff;">${escapeHtml(options.heading)}</h1>
+    ${options.blocks.join('\n    ')}
+    <p style="margin:24px 0;">
+      <a href="${escapeHtml(options.buttonUrl)}" style="display:inline-block;padding:12px 20px;border-radius:8px;background:#9333ea;color:#ffffff;text-decoration:none;font-weight:600;">${escapeHtml(options.buttonLabel)}</a>
+    </p>
+    <p style="margin:0;font-size:12px;color:#6b7280;">
+      ${escapeHtml(options.footer)}<br>
+      <a href="${escapeHtml(options.settingsUrl)}" style="color:#9ca3af;">Notification settings</a> ·
+      <a href="${escapeHtml(options.unsubscribeUrl)}" style="color:#9ca3af;">Unsubscribe</a>
+    </p>
+  </div>
+</body>
+</html>`;
+}
+
+function renderParagraph(text: string): string {
+  return `<p style="margin:0 0 12px;font-size:15px;line-height:1.5;">${escapeHtml(text)}</p>`;
+}
+
+function renderQuote(text: string): string {
+  return `<blockquote style="margin:0 0 12px;padding:12px 16px;border-left:3px solid #9333ea;background:#1f2937;border-radius:4px;font-size:15px;line-height:1.5;white-space:pre-wrap;">${escapeHtml(text)}</blockquote>`;
+}
+
+/**
+ * "You have a new message" email. Without a preview it says nothing about
+ * the message itself
+ */
+export function renderMessageAlertEmail(data: MessageAlertEmailData): EmailContent {
+  const footer = `You're getting this because new message emails are on for @${data.username}.`;
+  const intro = 'Someone sent you a new anonymous message.';
+
+  const text = [
+    intro,
+    ...(data.preview ? ['', `"${data.preview}"`] : []),
+    '',
+    `Read it: ${data.inboxUrl}`,
+    '',
+    '--',
+    footer,
+    `Notification settings: ${data.settingsUrl}`,
+    `Unsubscribe: ${data.unsubscribeUrl}`,
+  ].join('\n');
+
+  const html = renderLayout({
+    heading: 'New anonymous message',
+    blocks: [
+      renderParagraph(intro),
+      ...(data.preview ? [renderQuote(data.preview)] : []),
+    ],
+    buttonLabel: 'Read message',
+    buttonUrl: data.inboxUrl,
+    footer,
+    settingsUrl: data.settingsUrl,
+    unsubscribeUrl: data.unsubscribeUrl,
+  });
+
+  return { subject: 'You have a new anonymous message', text, html };
+}
+
+/**
+ * Daily or weekly summary of new messages and profile visits
+ */
+export function renderDigestEmail(data: DigestEmailData): EmailContent {
+  const period = data.frequency === 'daily' ? 'day' : 'week';
+  const footer = `You're getting this ${getEmailDigestFrequencyText(data.frequency).toLowerCase()} digest for @${data.username}.`;
+  const summary = [
+    `In the last ${period} you got ${plural(data.newMessages, 'new message')} and ${plural(data.visits, 'profile visit')}.`,
+    data.unreadMessages > 0
+      ? `${plural(data.unreadMessages, 'message')} still unread.`
+      : 'Your inbox is all caught up.',
+  ];
+
+  const text = [
+    ...summary,
+    ...(data.previews.length > 0
+      ? ['', 'Latest messages:', ...data.previews.map((preview) => `- "${preview}"`)]
+      : []),
+    '',
+    `Open your inbox: ${data.inboxUrl}`,
+    '',
+    '--',
+    footer,
+    `Notification settings: ${data.settingsUrl}`,
+    `Unsubscribe: ${data.unsubscribeUrl}`,
+  ].join('\n');
+
+  const html = renderLayout({
+    heading: `Your ${getEmailDigestFrequencyText(data.frequency).toLowerCase()} NGLFS digest`,
+    blocks: [
+      ...summary.map(renderParagraph),
+      ...data.previews.map(renderQuote),
+    ],
+    buttonLabel: 'Open inbox',
+    buttonUrl: data.inboxUrl,
+    footer,
+    settingsUrl: data.settingsUrl,
+    unsubscribeUrl: data.unsubscribeUrl,
+  });
+
+  return {
+    subject:
+      data.newMessages > 0
+        ? `${plural(data.newMessages, 'new message')} this ${period}`
+        : `Your ${period} on NGLFS`,
+    text,
+    html,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Email Transport
+ *
+ * Where outgoing email goes. With SMTP_HOST set, messages are relayed over
+ * SMTP - a hosted provider in production, or a local catcher like Mailpit
+ * in development (SMTP_HOST=localhost SMTP_PORT=1025). Without it, messages
+ * are logged to the server console instead of sent
+ * IMPORTANT: This file should only be imported server-side
+ */
+
+import { buildMimeMessage, type EmailMessage } from './mime';
+import { sendSmtpMail, type SmtpConfig } from './smtp';
+
+export type { EmailMessage } from './mime';
+
+export interface EmailTransport {
+  /** For logs, e.g. "smtp" */
+  readonly name: string;
+  /** Deliver one message. Throws if it can't be handed over */
+  send(message: EmailMessage): Promise<void>;
+}
+
+const DEFAULT_EMAIL_FROM = 'NGLFS <noreply@nglfs.com>';
+
+/**
+ * Sender address for every email (EMAIL_FROM)
+ */
+export function getEmailFrom(): string {
+  return process.env.EMAIL_FROM || DEFAULT_EMAIL_FROM;
+}
+
+/**
+ * SMTP settings from the environment, or null when SMTP isn't configured
+ */
+function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  const port = Number(process.env.SMTP_PORT) || (secure ? 465 : 587);
+
+  return {
+    host,
+    port,
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+  };
+}
+
+/**
+ * Relays messages to an SMTP server
+ */
+function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      await sendSmtpMail(
+        config,
+        { from: message.from, to: [message.to] },
+        buildMimeMessage(message)
+      );
+    },
+  };
+}
+
+/**
+ * Logs messages instead of sending them, for setups without SMTP
+ */
+function createLogTransport(): EmailTransport {
+  return {
+    name: 'log',
+    async send(message) {
+      console.log(
+        `[Email] (not sent - SMTP_HOST not configured) To: ${message.to} | Subject: ${message.subject}\n${message.text}`
+      );
+    },
+  };
+}
+
+/**
+ * Get the transport configured for this environment
+ */
+export function getEmailTransport(): EmailTransport {
+  const config = getSmtpConfig();
+  return config ? createSmtpTransport(config) : createLogTransport();
+}
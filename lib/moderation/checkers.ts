@@ -0,0 +1,358 @@
+/**
+ * Moderation Checkers
+ *
+ * Factories for the built-in checks. Each returns a ModerationChecker, so
+ * the pipeline can be assembled from any mix of built-in and custom checks
+ */
+
+import {
+  DEFAULT_MAX_REPEATED_CHARS,
+  DEFAULT_MAX_SINGLE_CHAR_RATIO,
+  MATCH_EXCERPT_MAX_LENGTH,
+  SINGLE_CHAR_RATIO_MIN_LENGTH,
+} from './constants';
+import { normalizeText } from './normalize';
+import type {
+  ModerationChecker,
+  ModerationMatch,
+  ModerationVerdict,
+  MutedWordRule,
+} from '@/lib/types/moderation.types';
+
+/**
+ * Trim matched text to a short excerpt for reviewers
+ */
+function toExcerpt(text: string): string {
+  return text.length > MATCH_EXCERPT_MAX_LENGTH
+    ? `${text.slice(0, MATCH_EXCERPT_MAX_LENGTH)}…`
+    : text;
+}
+
+/**
+ * Collapse runs of the same letter ("shiiiit" -> "shit")
+ */
+function collapseRepeats(word: string): string {
+  return word.replace(/(.)\1+/g, '$1');
+}
+
+// =====================================================
+// Lexicon
+// =====================================================
+
+export interface LexiconCheckerOptions {
+  /** Rule name recorded on matches (e.g. "profanity") */
+  rule: string;
+  /** Words in normalized form */
+  words: readonly string[];
+  verdict: ModerationVerdict;
+}
+
+/**
+ * Match whole words from a lexicon. Also catches stretched words
+ * ("fuuuck") and words spelled out letter by letter ("f u c k")
+ * @param options - Rule name, words and verdict
+ * @returns Checker
+ */
+export function createLexiconChecker({
+  rule,
+  words,
+  verdict,
+}: LexiconCheckerOptions): ModerationChecker {
+  const lexicon = new Set(words);
+  const collapsedLexicon = new Set(words.map(collapseRepeats));
+
+  return {
+    name: 'lexicon',
+    check({ tokens }) {
+      const found = new Set<string>();
+
+      // Join runs of single letters so spaced-out words become one token
+      const candidates: string[] = [];
+      let spelled = '';
+      for (const token of [...tokens, '']) {
+        if (token.length === 1) {
+          spelled += token;
+          continue;
+        }
+        if (spelled.length > 1) candidates.push(spelled);
+        spelled = '';
+        if (token) candidates.push(token);
+      }
+
+      for (const candidate of candidates) {
+        if (lexicon.has(candidate) || collapsedLexicon.has(collapseRepeats(candidate))) {
+          found.add(candidate);
+        }
+      }
+
+      return [...found].map((word) => ({
+        checker: 'lexicon',
+        rule,
+        verdict,
+        excerpt: toExcerpt(word),
+      }));
+    },
+  };
+}
+
+// =====================================================
+// Regex Rules
+// =====================================================
+
+export interface RegexRule {
+  /** Rule name recorded on matches */
+  rule: string;
+  pattern: RegExp;
+  verdict: ModerationVerdict;
+  /** Match against the normalized text instead of the raw text */
+  normalized?: boolean;
+}
+
+/**
+ * Match custom regular expressions
+ * @param rules - Patterns with their rule names and verdicts
+ * @returns Checker
+ */
+export function createRegexChecker(rules: RegexRule[]): ModerationChecker {
+  return {
+    name: 'regex',
+    check({ raw, normalized }) {
+      const matches: ModerationMatch[] = [];
+
+      for (const { rule, pattern, verdict, normalized: useNormalized } of rules) {
+        // Copy the pattern so a global flag's lastIndex never leaks between runs
+        const match = new RegExp(pattern.source, pattern.flags.replace('g', '')).exec(
+          useNormalized ? normalized : raw
+        );
+
+        if (match) {
+          matches.push({ checker: 'regex', rule, verdict, excerpt: toExcerpt(match[0]) });
+        }
+      }
+
+      return matches;
+    },
+  };
+}
+
+// =====================================================
+// Links
+// =====================================================
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>]+/gi;
+
+/**
+ * Bare domains like "example.com/path" - limited to common TLDs so
+ * sentences ending in "e.g." or "etc." don't match
+ */
+const BARE_DOMAIN_PATTERN =
+  /\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|co|me|ly|gg|xyz|app|dev|info|biz|ru|cn|tk|link|click|site|online|shop)\b(?:\/[^\s<>]*)?/gi;
+
+export interface LinkCheckerOptions {
+  verdict?: ModerationVerdict;
+  /** Domains that are always fine (subdomains included) */
+  allowedDomains?: string[];
+}
+
+/**
+ * Detect links - anonymous senders use them for phishing and spam
+ * @param options - Verdict (default hold) and allowed domains
+ * @returns Checker
+ */
+export function createLinkChecker({
+  verdict = 'hold',
+  allowedDomains = [],
+}: LinkCheckerOptions = {}): ModerationChecker {
+  const isAllowed = (link: string) => {
+    const host = link
+      .replace(/^https?:\/\//i, '')
+      .split(/[/?#:]/)[0]
+      .toLowerCase();
+    return allowedDomains.some(
+      (domain) => host === domain || host.endsWith(`.${domain}`)
+    );
+  };
+
+  return {
+    name: 'links',
+    check({ raw }) {
+      const links = [
+        ...(raw.match(URL_PATTERN) ?? []),
+        ...(raw.replace(URL_PATTERN, ' ').match(BARE_DOMAIN_PATTERN) ?? []),
+      ].filter((link) => !isAllowed(link));
+
+      return links.length > 0
+        ? [{ checker: 'links', rule: 'url', verdict, excerpt: toExcerpt(links[0]) }]
+        : [];
+    },
+  };
+}
+
+// =====================================================
+// Phone Numbers
+// =====================================================
+
+/**
+ * Digit runs with optional separators, e.g. "+1 (555) 123-4567"
+ */
+const PHONE_PATTERN = /(?:\+?\d[\s().-]*){9,15}/g;
+
+export interface PhoneCheckerOptions {
+  verdict?: ModerationVerdict;
+  /** Fewest digits counted as a phone number */
+  minDigits?: number;
+}
+
+/**
+ * Detect phone numbers - both doxxing and "text me at" spam
+ * @param options - Verdict (default hold) and minimum digit count
+ * @returns Checker
+ */
+export function createPhoneChecker({
+  verdict = 'hold',
+  minDigits = 9,
+}: PhoneCheckerOptions = {}): ModerationChecker {
+  return {
+    name: 'phone',
+    check({ raw }) {
+      const phone = (raw.match(PHONE_PATTERN) ?? []).find(
+        (candidate) => candidate.replace(/\D/g, '').length >= minDigits
+      );
+
+      return phone
+        ? [{ checker: 'phone', rule: 'phone_number', verdict, excerpt: toExcerpt(phone.trim()) }]
+        : [];
+    },
+  };
+}
+
+// =====================================================
+// Repeated Characters
+// =====================================================
+
+export interface RepeatedCharacterCheckerOptions {
+  verdict?: ModerationVerdict;
+  /** Longest allowed run of one character */
+  maxRun?: number;
+  /** Largest allowed share of one character among non-space characters */
+  maxRatio?: number;
+}
+
+/**
+ * Detect keyboard-mash spam ("aaaaaaaaaaaaaaaa", "!!!!!!!!!!!!!!")
+ * @param options - Verdict (default hold) and thresholds
+ * @returns Checker
+ */
+export function createRepeatedCharacterChecker({
+  verdict = 'hold',
+  maxRun = DEFAULT_MAX_REPEATED_CHARS,
+  maxRatio = DEFAULT_MAX_SINGLE_CHAR_RATIO,
+}: RepeatedCharacterCheckerOptions = {}): ModerationChecker {
+  const runPattern = new RegExp(`(.)\\1{${maxRun},}`, 'u');
+
+  return {
+    name: 'repeated_characters',
+    check({ raw }) {
+      const matches: ModerationMatch[] = [];
+
+      const run = runPattern.exec(raw);
+      if (run) {
+        matches.push({
+          checker: 'repeated_characters',
+          rule: 'character_run',
+          verdict,
+          excerpt: toExcerpt(run[0]),
+        });
+      }
+
+      const characters = [...raw.replace(/\s/g, '').toLowerCase()];
+      if (characters.length >= SINGLE_CHAR_RATIO_MIN_LENGTH) {
+        const counts = new Map<string, number>();
+        for (const char of characters) {
+          counts.set(char, (counts.get(char) ?? 0) + 1);
+        }
+
+        const [topChar, topCount] = [...counts].reduce((a, b) => (b[1] > a[1] ? b : a));
+        if (topCount / characters.length > maxRatio) {
+          matches.push({
+            checker: 'repeated_characters',
+            rule: 'character_ratio',
+            verdict,
+            excerpt: topChar,
+          });
+        }
+      }
+
+      return matches;
+    },
+  };
+}
+
+// =====================================================
+// Muted Words
+// =====================================================
+
+const WORD_CHARACTER = '[\\p{L}\\p{N}]';
+
+/**
+ * Compile a muted word into a pattern over normalized text. Both sides are
+ * normalized, so "b*tch" also catches "B!TCHES", and words in a phrase match
+ * across any spacing or punctuation
+ * @param rule - Phrase and whole-word option
+ * @returns Pattern, or null if the phrase has nothing to match
+ */
+export function compileMutedWord({ phrase, whole_word }: MutedWordRule): RegExp | null {
+  const words = phrase
+    .split(/\s+/)
+    .filter((word) => word.replace(/\*/g, ''))
+    .map((word) =>
+      normalizeText(word)
+        .split('*')
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join(`${WORD_CHARACTER}*`)
+    );
+
+  if (words.length === 0) {
+    return null;
+  }
+
+  const source = words.join(`[^\\p{L}\\p{N}]+`);
+
+  return whole_word
+    ? new RegExp(`(?<!${WORD_CHARACTER})${source}(?!${WORD_CHARACTER})`, 'u')
+    : new RegExp(source, 'u');
+}
+
+export interface MutedWordsCheckerOptions {
+  verdict?: ModerationVerdict;
+}
+
+/**
+ * Match the recipient's muted words (read from the context, since every
+ * recipient has their own list)
+ * @param options - Verdict (default hold - the Filtered folder)
+ * @returns Checker
+ */
+export function createMutedWordsChecker({
+  verdict = 'hold',
+}: MutedWordsCheckerOptions = {}): ModerationChecker {
+  return {
+    name: 'muted_words',
+    check({ normalized }, { mutedWords = [] }) {
+      const matches: ModerationMatch[] = [];
+
+      for (const rule of mutedWords) {
+        if (compileMutedWord(rule)?.test(normalized)) {
+          matches.push({
+            checker: 'muted_words',
+            rule: 'muted_word',
+            verdict,
+            excerpt: toExcerpt(rule.phrase),
+          });
+        }
+      }
+
+      return matches;
+    },
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Moderation Constants
+ *
+ * Verdicts and default thresholds for the incoming message moderation
+ * pipeline
+ */
+
+import type { ModerationVerdict } from '@/lib/types/moderation.types';
+
+// =====================================================
+// Verdicts
+// =====================================================
+
+export const MODERATION_VERDICTS = {
+  DELIVER: 'deliver',
+  HOLD: 'hold',
+  REJECT: 'reject',
+} as const satisfies Record<string, ModerationVerdict>;
+
+/**
+ * Verdict severity - the pipeline keeps the most severe verdict
+ */
+export const VERDICT_SEVERITY: Record<ModerationVerdict, number> = {
+  deliver: 0,
+  hold: 1,
+  reject: 2,
+};
+
+export function getModerationVerdictText(verdict: ModerationVerdict): string {
+  switch (verdict) {
+    case MODERATION_VERDICTS.DELIVER:
+      return 'Delivered';
+    case MODERATION_VERDICTS.HOLD:
+      return 'Held for review';
+    case MODERATION_VERDICTS.REJECT:
+      return 'Rejected';
+    default:
+      return 'Unknown';
+  }
+}
+
+// =====================================================
+// Checker Defaults
+// =====================================================
+
+/**
+ * Same character repeated this many times in a row counts as spam
+ * ("heyyyyyyyyyyyy")
+ */
+export const DEFAULT_MAX_REPEATED_CHARS = 10;
+
+/**
+ * Messages where one character makes up more than this share of all
+ * non-space characters count as spam
+ */
+export const DEFAULT_MAX_SINGLE_CHAR_RATIO = 0.6;
+
+/**
+ * Minimum length before the single-character ratio check applies
+ */
+export const SINGLE_CHAR_RATIO_MIN_LENGTH = 20;
+
+/**
+ * Longest excerpt stored with a match
+ */
+export const MATCH_EXCERPT_MAX_LENGTH = 40;
@@ -0,0 +1,64 @@
+/**
+ * Moderation Lexicons
+ *
+ * Built-in word lists, written in normalized form (lowercase, no accents,
+ * letters only - see normalize.ts). Words match whole tokens, so "class"
+ * never trips on "ass". Extend these lists or pass your own lexicon to
+ * createLexiconChecker
+ */
+
+/**
+ * Profanity - held for review rather than rejected, since plenty of
+ * friendly messages swear
+ */
+export const PROFANITY_LEXICON: readonly string[] = [
+  'arse',
+  'arsehole',
+  'ass',
+  'asshole',
+  'bastard',
+  'bitch',
+  'bollocks',
+  'bullshit',
+  'cock',
+  'crap',
+  'cunt',
+  'dick',
+  'dickhead',
+  'douche',
+  'fuck',
+  'fucked',
+  'fucker',
+  'fucking',
+  'motherfucker',
+  'piss',
+  'prick',
+  'pussy',
+  'shit',
+  'shitty',
+  'slut',
+  'twat',
+  'wanker',
+  'whore',
+];
+
+/**
+ * Slurs and hate speech - rejected outright
+ */
+export const SLUR_LEXICON: readonly string[] = [
+  'chink',
+  'coon',
+  'dyke',
+  'fag',
+  'faggot',
+  'gook',
+  'kike',
+  'nigga',
+  'nigger',
+  'paki',
+  'raghead',
+  'retard',
+  'spic',
+  'tranny',
+  'wetback',
+];
@@ -0,0 +1,82 @@
+/**
+ * Moderation Text Normalization
+ *
+ * Senders dodge word lists with accents, look-alike digits and symbols
+ * ("sh1t", "b@d", "$hit"). Checkers match against the normalized form so
+ * each lexicon entry only needs to be listed once
+ */
+
+import type { ModerationInput } from '@/lib/types/moderation.types';
+
+/**
+ * Common character substitutions mapped back to letters
+ */
+const LOOKALIKE_CHARACTERS: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '@': 'a',
+  '$': 's',
+  '!': 'i',
+  '|': 'l',
+  '€': 'e',
+};
+
+/**
+ * Runs of letters, digits and look-alike symbols - candidate words
+ */
+const WORD_RUN_PATTERN = /[\p{L}\p{N}@$!|€]+/gu;
+
+/**
+ * Lowercase, strip accents and map look-alike characters inside words.
+ * Plain numbers ("2024") and punctuation around words ("wow!!") are left
+ * alone
+ * @param content - Text as sent
+ * @returns Normalized text (same word boundaries as the input)
+ */
+export function normalizeText(content: string): string {
+  return content
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(WORD_RUN_PATTERN, (run) => {
+      if (!/\p{L}/u.test(run)) return run;
+
+      const [, leading, word, trailing] = /^([!|]*)(.*?)([!|]*)$/u.exec(run)!;
+      return (
+        leading +
+        word.replace(/[0-9@$!|€]/g, (char) => LOOKALIKE_CHARACTERS[char] ?? char) +
+        trailing
+      );
+    });
+}
+
+/**
+ * Split normalized text into words, dropping punctuation and separators
+ * used to break words up ("s.h.i.t" stays split - see lexicon checker)
+ * @param normalized - Output of normalizeText
+ * @returns Words
+ */
+export function tokenize(normalized: string): string[] {
+  return normalized.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Prepare content for the checkers
+ * @param content - Text as sent
+ * @returns Raw, normalized and tokenized forms
+ */
+export function prepareModerationInput(content: string): ModerationInput {
+  const raw = content.trim();
+  const normalized = normalizeText(raw);
+
+  return {
+    raw,
+    normalized,
+    tokens: tokenize(normalized),
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Moderation Pipeline
+ *
+ * Runs every checker over a message and settles on the strictest verdict.
+ * Checkers are pure functions of the text, so the whole pipeline runs
+ * offline - no database, network or environment access
+ *
+ * Adding a check:
+ *   const pipeline = createModerationPipeline([
+ *     ...getDefaultCheckers(),
+ *     createRegexChecker([{ rule: 'crypto', pattern: /bitcoin/i, verdict: 'hold' }]),
+ *   ]);
+ */
+
+import { MODERATION_VERDICTS, VERDICT_SEVERITY } from './constants';
+import {
+  createLexiconChecker,
+  createLinkChecker,
+  createMutedWordsChecker,
+  createPhoneChecker,
+  createRepeatedCharacterChecker,
+} from './checkers';
+import { PROFANITY_LEXICON, SLUR_LEXICON } from './lexicons';
+import { prepareModerationInput } from './normalize';
+import type {
+  ModerationChecker,
+  ModerationContext,
+  ModerationMatch,
+  ModerationResult,
+  ModerationVerdict,
+} from '@/lib/types/moderation.types';
+
+export interface ModerationPipeline {
+  checkers: readonly ModerationChecker[];
+  moderate(content: string, context?: ModerationContext): ModerationResult;
+}
+
+/**
+ * Pick the most severe of a set of verdicts
+ * @param verdicts - Verdicts to compare
+ * @returns Strictest verdict, or deliver if there are none
+ */
+export function strictestVerdict(verdicts: ModerationVerdict[]): ModerationVerdict {
+  return verdicts.reduce<ModerationVerdict>(
+    (strictest, verdict) =>
+      VERDICT_SEVERITY[verdict] > VERDICT_SEVERITY[strictest] ? verdict : strictest,
+    MODERATION_VERDICTS.DELIVER
+  );
+}
+
+/**
+ * Build a pipeline from a list of checkers
+ *
+ * A checker that throws is logged and skipped, so one faulty rule can't
+ * block every incoming message
+ * @param checkers - Checkers to run, in order
+ * @returns Pipeline
+ */
+export function createModerationPipeline(
+  checkers: ModerationChecker[]
+): ModerationPipeline {
+  return {
+    checkers,
+    moderate(content, context = {}) {
+      const input = prepareModerationInput(content);
+      const matches: ModerationMatch[] = [];
+
+      for (const checker of checkers) {
+        try {
+          matches.push(...checker.check(input, context));
+        } catch (error) {
+          console.error(`Moderation checker "${checker.name}" failed:`, error);
+        }
+      }
+
+      return {
+        verdict: strictestVerdict(matches.map((match) => match.verdict)),
+        matches,
+      };
+    },
+  };
+}
+
+/**
+ * The built-in checkers with their default verdicts
+ * @returns Fresh list of checkers (safe to extend)
+ */
+export function getDefaultCheckers(): ModerationChecker[] {
+  return [
+    createLexiconChecker({
+      rule: 'slur',
+      words: SLUR_LEXICON,
+      verdict: MODERATION_VERDICTS.REJECT,
+    }),
+    createLexiconChecker({
+      rule: 'profanity',
+      words: PROFANITY_LEXICON,
+      verdict: MODERATION_VERDICTS.HOLD,
+    }),
+    createLinkChecker(),
+    createPhoneChecker(),
+    createRepeatedCharacterChecker(),
+    createMutedWordsChecker(),
+  ];
+}
+
+const defaultPipeline = createModerationPipeline(getDefaultCheckers());
+
+/**
+ * Moderate an incoming message with the default pipeline
+ * @param content - Message text
+ * @param context - Optional extra information for checkers
+ * @returns Verdict and matched rules
+ */
+export function moderateMessage(
+  content: string,
+  context?: ModerationContext
+): ModerationResult {
+  return defaultPipeline.moderate(content, context);
+}
@@ -0,0 +1,219 @@
+/**
+ * Email Notification Library
+ *
+ * Sends new message alerts and daily/weekly digests by email, for users who
+ * never grant browser push permission (or want both). Previews follow the
+ * same show_preview setting as push notifications
+ * IMPORTANT: This file should only be imported in API routes (server-side)
+ */
+
+import { getEmailFrom, getEmailTransport } from '@/lib/email/transport';
+import {
+  renderDigestEmail,
+  renderMessageAlertEmail,
+  type EmailContent,
+} from '@/lib/email/templates';
+import {
+  claimDigest,
+  claimEmailAlert,
+  findAccountsDueForDigest,
+  getAccountEmail,
+  getDigestActivity,
+  getDigestPeriodStart,
+  type DigestRecipientProfile,
+} from '@/lib/db/email-notifications';
+import { createUnsubscribeToken } from '@/lib/utils/unsubscribe-token';
+import {
+  EMAIL_DIGEST_BATCH_SIZE,
+  EMAIL_DIGEST_MAX_BATCHES,
+  EMAIL_UNSUBSCRIBE_KINDS,
+  type EmailUnsubscribeKind,
+} from '@/lib/constants/email-notifications';
+import { NOTIFICATION_PREVIEW_MAX_LENGTH } from './constants';
+
+export interface EmailDigestSummary {
+  /** Digests emailed */
+  sent: number;
+  /** Accounts with no activity to report (their next digest starts now) */
+  skipped: number;
+  /** Digests that couldn't be sent */
+  failed: number;
+  /** Whether accounts due a digest were left for the next run */
+  hasMore: boolean;
+}
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+function truncatePreview(content: string): string {
+  return content.length > NOTIFICATION_PREVIEW_MAX_LENGTH
+    ? content.substring(0, NOTIFICATION_PREVIEW_MAX_LENGTH) + '...'
+    : content;
+}
+
+/**
+ * Email a notification with its unsubscribe links. The List-Unsubscribe
+ * headers let mail clients offer one-click unsubscribe (RFC 8058)
+ */
+async function sendNotificationEmail(
+  to: string,
+  userId: string,
+  kind: EmailUnsubscribeKind,
+  content: EmailContent
+): Promise<void> {
+  const token = createUnsubscribeToken(userId, kind);
+  const oneClickUrl = `${getAppUrl()}/api/notifications/email/unsubscribe?token=${token}`;
+
+  await getEmailTransport().send({
+    from: getEmailFrom(),
+    to,
+    ...content,
+    headers: {
+      'List-Unsubscribe': `<${oneClickUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  });
+}
+
+/**
+ * Unsubscribe page link for the email footer
+ */
+function getUnsubscribePageUrl(userId: string, kind: EmailUnsubscribeKind): string {
+  return `${getAppUrl()}/unsubscribe?token=${createUnsubscribeToken(userId, kind)}`;
+}
+
+// =====================================================
+// New Message Alerts
+// =====================================================
+
+/**
+ * Email a recipient about a new message, if they turned alerts on and
+ * haven't had one in the last few minutes
+ *
+ * @param userId - Recipient's user ID
+ * @param messageContent - The new message (only quoted when previews are on)
+ * @returns Whether an alert was sent
+ */
+export async function sendMessageEmailAlert(
+  userId: string,
+  messageContent: string
+): Promise<boolean> {
+  try {
+    const recipient = await claimEmailAlert(userId);
+    if (!recipient) return false;
+
+    const email = await getAccountEmail(userId);
+    if (!email) {
+      console.log('[Notifications] No email address for user:', userId);
+      return false;
+    }
+
+    const showPreview = recipient.notification_preferences?.show_preview === true;
+    const appUrl = getAppUrl();
+
+    await sendNotificationEmail(
+      email,
+      userId,
+      EMAIL_UNSUBSCRIBE_KINDS.ALERTS,
+      renderMessageAlertEmail({
+        username: recipient.username,
+        preview: showPreview ? truncatePreview(messageContent) : null,
+        inboxUrl: `${appUrl}/dashboard/messages`,
+        settingsUrl: `${appUrl}/dashboard/settings`,
+        unsubscribeUrl: getUnsubscribePageUrl(userId, EMAIL_UNSUBSCRIBE_KINDS.ALERTS),
+      })
+    );
+
+    console.log('[Notifications] Email alert sent to user:', userId);
+    return true;
+  } catch (error) {
+    console.error('[Notifications] Failed to send email alert:', error);
+    return false;
+  }
+}
+
+// =====================================================
+// Digests
+// =====================================================
+
+/**
+ * Send one account's digest, unless another run already did
+ * @returns 'sent', 'skipped' (nothing to report or claimed elsewhere) or 'failed'
+ */
+async function sendDigest(
+  profile: DigestRecipientProfile,
+  frequency: 'daily' | 'weekly'
+): Promise<'sent' | 'skipped' | 'failed'> {
+  const sentAt = new Date();
+  const since = profile.email_digest_last_sent_at
+    ? new Date(profile.email_digest_last_sent_at)
+    : getDigestPeriodStart(frequency);
+
+  // Claim first: a digest that fails to send isn't retried, the next one
+  // covers the period from now on
+  if (!(await claimDigest(profile.id, profile.email_digest_last_sent_at, sentAt))) {
+    return 'skipped';
+  }
+
+  try {
+    const showPreview = profile.notification_preferences?.show_preview === true;
+    const activity = await getDigestActivity(profile.id, since, showPreview);
+    if (!activity) return 'failed';
+
+    // Nothing happened - don't email just to say so
+    if (activity.newMessages === 0 && activity.visits === 0) {
+      return 'skipped';
+    }
+
+    const email = await getAccountEmail(profile.id);
+    if (!email) return 'skipped';
+
+    const appUrl = getAppUrl();
+
+    await sendNotificationEmail(
+      email,
+      profile.id,
+      EMAIL_UNSUBSCRIBE_KINDS.DIGEST,
+      renderDigestEmail({
+        username: profile.username,
+        frequency,
+        ...activity,
+        previews: activity.previews.map(truncatePreview),
+        inboxUrl: `${appUrl}/dashboard/messages`,
+        settingsUrl: `${appUrl}/dashboard/settings`,
+        unsubscribeUrl: getUnsubscribePageUrl(profile.id, EMAIL_UNSUBSCRIBE_KINDS.DIGEST),
+      })
+    );
+
+    return 'sent';
+  } catch (error) {
+    console.error('[Notifications] Failed to send digest:', error);
+    return 'failed';
+  }
+}
+
+/**
+ * Send every daily and weekly digest that's due, in batches
+ * @returns What the run sent
+ */
+export async function runEmailDigests(): Promise<EmailDigestSummary> {
+  const summary: EmailDigestSummary = { sent: 0, skipped: 0, failed: 0, hasMore: false };
+
+  for (const frequency of ['daily', 'weekly'] as const) {
+    for (let batch = 0; batch < EMAIL_DIGEST_MAX_BATCHES; batch++) {
+      const profiles = await findAccountsDueForDigest(frequency, EMAIL_DIGEST_BATCH_SIZE);
+      if (!profiles || profiles.length === 0) break;
+
+      for (const profile of profiles) {
+        summary[await sendDigest(profile, frequency)]++;
+      }
+
+      const full = profiles.length === EMAIL_DIGEST_BATCH_SIZE;
+      if (!full) break;
+      if (batch === EMAIL_DIGEST_MAX_BATCHES - 1) summary.hasMore = true;
+    }
+  }
+
+  return summary;
+}
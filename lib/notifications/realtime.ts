@@ -8,6 +8,7 @@
 import { createClient } from '@/lib/supabase/client';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 import { toast } from 'sonner';
+import { MODERATION_VERDICTS } from '@/lib/moderation/constants';
 
 // =====================================================
 // Types
@@ -19,6 +20,7 @@ interface NewMessagePayload {
   content: string;
   created_at: string;
   is_read: boolean;
+  moderation_verdict: string;
 }
 
 interface RealtimeNotificationOptions {
@@ -68,6 +70,11 @@ export function subscribeToMessageNotifications(
 
           const message = payload.new as NewMessagePayload;
 
+          // Filtered messages arrive silently
+          if (message.moderation_verdict === MODERATION_VERDICTS.HOLD) {
+            return;
+          }
+
           // Call callback
           if (onNewMessage) {
             onNewMessage(message);
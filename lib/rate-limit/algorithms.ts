@@ -0,0 +1,147 @@
+/**
+ * Rate Limit Algorithms
+ *
+ * Pure functions that apply one request to a key's state. The memory store
+ * calls these directly; the Postgres store runs the same state transitions
+ * in apply_rate_limit() and computes the result here from the state it
+ * started from, so every backend limits the same way
+ */
+
+import type {
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitState,
+  SlidingWindowPolicy,
+  SlidingWindowState,
+  TokenBucketPolicy,
+  TokenBucketState,
+} from '@/lib/types/rate-limit.types';
+
+// =====================================================
+// Token Bucket
+// =====================================================
+
+/**
+ * Token bucket: each request takes `cost` tokens, tokens refill continuously
+ * up to the capacity. A missing state is a full bucket
+ */
+export function applyTokenBucket(
+  policy: TokenBucketPolicy,
+  state: TokenBucketState | null,
+  now: number,
+  cost = 1
+): { state: TokenBucketState; result: RateLimitResult } {
+  const elapsedSeconds = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const available = state
+    ? Math.min(policy.capacity, state.tokens + elapsedSeconds * policy.refillPerSecond)
+    : policy.capacity;
+
+  const allowed = available >= cost;
+  const tokens = allowed ? available - cost : available;
+  const msPerToken = 1000 / policy.refillPerSecond;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: policy.capacity,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((policy.capacity - tokens) * msPerToken),
+      retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) * msPerToken),
+      policy,
+    },
+  };
+}
+
+// =====================================================
+// Sliding Window
+// =====================================================
+
+/**
+ * Sliding window counter: the previous fixed window's count is weighted by
+ * how much of it still overlaps the sliding window. Uses two counters per
+ * key instead of a timestamp per request
+ */
+export function applySlidingWindow(
+  policy: SlidingWindowPolicy,
+  state: SlidingWindowState | null,
+  now: number,
+  cost = 1
+): { state: SlidingWindowState; result: RateLimitResult } {
+  const { limit, windowMs } = policy;
+  const windowStart = now - (now % windowMs);
+
+  let count = 0;
+  let previousCount = 0;
+  if (state?.windowStart === windowStart) {
+    count = state.count;
+    previousCount = state.previousCount;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previousCount = state.count;
+  }
+
+  const untilWindowEnd = windowStart + windowMs - now;
+  const weight = untilWindowEnd / windowMs;
+  const allowed = previousCount * weight + count + cost <= limit;
+  if (allowed) count += cost;
+
+  let retryAfterMs = 0;
+  if (!allowed) {
+    if (count + cost <= limit && previousCount > 0) {
+      // Enough of the previous window slides out before this one ends
+      const headroom = (limit - count - cost) / previousCount;
+      retryAfterMs = untilWindowEnd - headroom * windowMs;
+    } else {
+      // Wait for the next window, where this window's count is weighted
+      const headroom = count > 0 ? Math.max(0, (limit - cost) / count) : 1;
+      retryAfterMs = untilWindowEnd + (1 - Math.min(1, headroom)) * windowMs;
+    }
+  }
+
+  return {
+    state: { windowStart, count, previousCount },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - previousCount * weight - count)),
+      resetMs:
+        count > 0 ? untilWindowEnd + windowMs : previousCount > 0 ? untilWindowEnd : 0,
+      retryAfterMs: allowed ? 0 : Math.max(1, Math.ceil(retryAfterMs)),
+      policy,
+    },
+  };
+}
+
+// =====================================================
+// Dispatch
+// =====================================================
+
+/**
+ * Apply one request to a key's state with the policy's algorithm
+ */
+export function applyRateLimit(
+  policy: RateLimitPolicy,
+  state: RateLimitState | null,
+  now: number,
+  cost = 1
+): { state: RateLimitState; result: RateLimitResult } {
+  switch (policy.algorithm) {
+    case 'token_bucket':
+      return applyTokenBucket(policy, state as TokenBucketState | null, now, cost);
+    case 'sliding_window':
+      return applySlidingWindow(policy, state as SlidingWindowState | null, now, cost);
+  }
+}
+
+/**
+ * How long a key's state matters. After this, a missing state behaves
+ * exactly like the stored one (full bucket / empty windows)
+ */
+export function getRateLimitTtlMs(policy: RateLimitPolicy): number {
+  switch (policy.algorithm) {
+    case 'token_bucket':
+      return Math.ceil((policy.capacity / policy.refillPerSecond) * 1000);
+    case 'sliding_window':
+      return policy.windowMs * 2;
+  }
+}
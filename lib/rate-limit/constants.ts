@@ -0,0 +1,114 @@
+/**
+ * Rate Limit Constants
+ *
+ * Algorithms, store names and the per-route policies used by API routes
+ */
+
+import type {
+  RateLimitAlgorithm,
+  RateLimitPolicy,
+} from '@/lib/types/rate-limit.types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// =====================================================
+// Algorithms and Stores
+// =====================================================
+
+export const RATE_LIMIT_ALGORITHMS = {
+  TOKEN_BUCKET: 'token_bucket',
+  SLIDING_WINDOW: 'sliding_window',
+} as const satisfies Record<string, RateLimitAlgorithm>;
+
+export const RATE_LIMIT_STORES = {
+  MEMORY: 'memory',
+  POSTGRES: 'postgres',
+} as const;
+
+export type RateLimitStoreName =
+  (typeof RATE_LIMIT_STORES)[keyof typeof RATE_LIMIT_STORES];
+
+/**
+ * Retry-After for a request refused because its key was too contended to
+ * lock in time (Postgres store)
+ */
+export const POSTGRES_STORE_CONTENDED_RETRY_MS = 1000;
+
+// =====================================================
+// Policies
+// =====================================================
+
+/**
+ * Per-route policies. Keys are hashed IPs, user ids, recipient ids or
+ * thread token hashes - never raw IPs or tokens
+ */
+export const RATE_LIMIT_POLICIES = {
+  /** Anonymous messages, per sender IP */
+  MESSAGE_SEND: {
+    name: 'message-send',
+    algorithm: RATE_LIMIT_ALGORITHMS.SLIDING_WINDOW,
+    limit: 10,
+    windowMs: HOUR_MS,
+    keyBy: ['ip'],
+  },
+  /** Anonymous follow-ups, per thread token */
+  THREAD_REPLY: {
+    name: 'thread-reply',
+    algorithm: RATE_LIMIT_ALGORITHMS.SLIDING_WINDOW,
+    limit: 10,
+    windowMs: HOUR_MS,
+    keyBy: ['thread'],
+  },
+  /** Username availability checks while typing - bursty by nature */
+  CHECK_USERNAME: {
+    name: 'check-username',
+    algorithm: RATE_LIMIT_ALGORITHMS.TOKEN_BUCKET,
+    capacity: 30,
+    refillPerSecond: 0.5,
+    keyBy: ['ip'],
+  },
+  /** Profile visits, per visitor and profile (keeps view counts honest) */
+  TRACK_VISIT: {
+    name: 'track-visit',
+    algorithm: RATE_LIMIT_ALGORITHMS.SLIDING_WINDOW,
+    limit: 20,
+    windowMs: HOUR_MS,
+    keyBy: ['ip', 'recipient'],
+  },
+  /** Password changes verify the current password - slow down guessing */
+  CHANGE_PASSWORD: {
+    name: 'change-password',
+    algorithm: RATE_LIMIT_ALGORITHMS.SLIDING_WINDOW,
+    limit: 5,
+    windowMs: 15 * MINUTE_MS,
+    keyBy: ['user'],
+  },
+  /** Abuse reports, per reporting user */
+  REPORT: {
+    name: 'report',
+    algorithm: RATE_LIMIT_ALGORITHMS.TOKEN_BUCKET,
+    capacity: 10,
+    refillPerSecond: 10 / (HOUR_MS / 1000),
+    keyBy: ['user'],
+  },
+  /** Account data exports - each one reads the whole account */
+  DATA_EXPORT: {
+    name: 'data-export',
+    algorithm: RATE_LIMIT_ALGORITHMS.SLIDING_WINDOW,
+    limit: 3,
+    windowMs: 24 * HOUR_MS,
+    keyBy: ['user'],
+  },
+  /**
+   * Requests an IP had refused by any other policy. Never blocks anything
+   * itself - the proof-of-work difficulty rises with the count
+   */
+  STRIKES: {
+    name: 'strikes',
+    algorithm: RATE_LIMIT_ALGORITHMS.SLIDING_WINDOW,
+    limit: 1000,
+    windowMs: HOUR_MS,
+    keyBy: ['ip'],
+  },
+} as const satisfies Record<string, RateLimitPolicy>;
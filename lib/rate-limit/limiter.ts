@@ -0,0 +1,127 @@
+/**
+ * Rate Limiter
+ *
+ * Shared entry point for API routes:
+ *
+ *   const limit = await rateLimit(RATE_LIMIT_POLICIES.REPORT, { user: user.id });
+ *   if (!limit.allowed) return rateLimitExceededResponse(limit);
+ *   ...
+ *   return NextResponse.json(data, { headers: getRateLimitHeaders(limit) });
+ *
+ * Headers follow the IETF RateLimit header fields draft (RateLimit-Limit,
+ * RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy) plus Retry-After
+ * on 429 responses
+ *
+ * Every refused request keyed by IP also counts as a strike against that IP
+ * (RATE_LIMIT_POLICIES.STRIKES), which raises its proof-of-work difficulty
+ */
+
+import { NextResponse } from 'next/server';
+import { getRateLimitTtlMs } from '@/lib/rate-limit/algorithms';
+import { getRateLimitStore } from '@/lib/rate-limit/stores';
+import { RATE_LIMIT_POLICIES } from '@/lib/rate-limit/constants';
+import type {
+  RateLimitIdentity,
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore,
+} from '@/lib/types/rate-limit.types';
+
+/**
+ * Build the store key for a policy, e.g. "track-visit:ip=ab12:recipient=uuid"
+ */
+export function getRateLimitKey(
+  policy: RateLimitPolicy,
+  identity: RateLimitIdentity
+): string {
+  const parts = policy.keyBy.map((part) => `${part}=${identity[part] || 'anonymous'}`);
+  return [policy.name, ...parts].join(':');
+}
+
+/**
+ * Count one request against a policy
+ * @param policy - Policy from RATE_LIMIT_POLICIES
+ * @param identity - Values for the policy's key parts
+ * @param options - cost (default 1) and store (default: configured store)
+ * @returns Limiter result; allowed if the store fails, so an outage never
+ *          locks out legitimate users. A key too contended to update is a
+ *          refusal, not an outage
+ */
+export async function rateLimit(
+  policy: RateLimitPolicy,
+  identity: RateLimitIdentity,
+  options: { cost?: number; store?: RateLimitStore } = {}
+): Promise<RateLimitResult> {
+  const { cost = 1, store = getRateLimitStore() } = options;
+
+  try {
+    const result = await store.update(getRateLimitKey(policy, identity), {
+      policy,
+      cost,
+      now: Date.now(),
+    });
+
+    if (!result.allowed && identity.ip && policy.name !== RATE_LIMIT_POLICIES.STRIKES.name) {
+      await rateLimit(RATE_LIMIT_POLICIES.STRIKES, { ip: identity.ip }, { store });
+    }
+
+    return result;
+  } catch (error) {
+    console.error(`Error checking rate limit (${policy.name}):`, error);
+    const limit = policy.algorithm === 'token_bucket' ? policy.capacity : policy.limit;
+    return { allowed: true, limit, remaining: limit, resetMs: 0, retryAfterMs: 0, policy };
+  }
+}
+
+/**
+ * Requests refused for an IP hash in the last hour, across all policies
+ * @param ipHash - Daily-salted IP hash
+ * @returns Weighted strike count (0 if the store is unavailable)
+ */
+export async function getRateLimitStrikes(ipHash: string): Promise<number> {
+  const result = await rateLimit(RATE_LIMIT_POLICIES.STRIKES, { ip: ipHash }, { cost: 0 });
+  return result.limit - result.remaining;
+}
+
+/**
+ * RateLimit-* headers for any response, plus Retry-After when blocked
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  // A token bucket's window is the time it takes to refill from empty
+  const policyWindow = Math.ceil(
+    (result.policy.algorithm === 'sliding_window'
+      ? result.policy.windowMs
+      : getRateLimitTtlMs(result.policy)) / 1000
+  );
+
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+    'RateLimit-Policy': `${result.limit};w=${policyWindow}`,
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.ceil(result.retryAfterMs / 1000));
+  }
+
+  return headers;
+}
+
+/**
+ * 429 response for a blocked request
+ * @param result - Blocked limiter result
+ * @param message - Error shown to the user
+ */
+export function rateLimitExceededResponse(
+  result: RateLimitResult,
+  message = 'Too many requests. Please try again later.'
+): NextResponse {
+  return NextResponse.json(
+    {
+      error: message,
+      resetAt: new Date(Date.now() + result.retryAfterMs),
+    },
+    { status: 429, headers: getRateLimitHeaders(result) }
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * Rate Limit Stores
+ *
+ * Backends that keep limiter state between requests:
+ * - memory: a per-process Map. Fine for local development, but every
+ *   serverless instance would get its own limits in production
+ * - postgres: the rate_limits table, shared by all instances. Updates run
+ *   in apply_rate_limit() under a row lock, so concurrent requests for the
+ *   same key can't both spend the last token
+ *
+ * RATE_LIMIT_STORE picks the backend; it defaults to postgres in production
+ * and memory everywhere else
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { applyRateLimit, getRateLimitTtlMs } from '@/lib/rate-limit/algorithms';
+import {
+  POSTGRES_STORE_CONTENDED_RETRY_MS,
+  RATE_LIMIT_STORES,
+  type RateLimitStoreName,
+} from '@/lib/rate-limit/constants';
+import type {
+  RateLimitRequest,
+  RateLimitState,
+  RateLimitStore,
+} from '@/lib/types/rate-limit.types';
+
+// =====================================================
+// Memory Store
+// =====================================================
+
+/**
+ * Expired entries are swept after this many updates
+ */
+const MEMORY_SWEEP_INTERVAL = 1000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, { state: RateLimitState; expiresAt: number }>();
+  let updatesSinceSweep = 0;
+
+  const sweep = (now: number) => {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) entries.delete(key);
+    }
+  };
+
+  return {
+    name: RATE_LIMIT_STORES.MEMORY,
+    async update(key: string, { policy, cost, now }: RateLimitRequest) {
+      if (++updatesSinceSweep >= MEMORY_SWEEP_INTERVAL) {
+        updatesSinceSweep = 0;
+        sweep(now);
+      }
+
+      const entry = entries.get(key);
+      const current = entry && entry.expiresAt > now ? entry.state : null;
+      const { state, result } = applyRateLimit(policy, current, now, cost);
+
+      entries.set(key, { state, expiresAt: now + getRateLimitTtlMs(policy) });
+      return result;
+    },
+  };
+}
+
+// =====================================================
+// Postgres Store
+// =====================================================
+
+/**
+ * lock_not_available - apply_rate_limit() couldn't lock the key in time
+ */
+const LOCK_NOT_AVAILABLE = '55P03';
+
+export function createPostgresRateLimitStore(): RateLimitStore {
+  return {
+    name: RATE_LIMIT_STORES.POSTGRES,
+    async update(key: string, { policy, cost, now }: RateLimitRequest) {
+      const supabase = await createAdminClient();
+
+      const { data: previous, error } = await supabase.rpc('apply_rate_limit', {
+        p_key: key,
+        p_policy: policy,
+        p_cost: cost,
+        p_now_ms: now,
+        p_ttl_ms: getRateLimitTtlMs(policy),
+      });
+
+      if (error?.code === LOCK_NOT_AVAILABLE) {
+        // Too many requests are queued on this key - refuse rather than
+        // letting the limiter treat it as an outage
+        const limit = policy.algorithm === 'token_bucket' ? policy.capacity : policy.limit;
+        return {
+          allowed: false,
+          limit,
+          remaining: 0,
+          resetMs: getRateLimitTtlMs(policy),
+          retryAfterMs: POSTGRES_STORE_CONTENDED_RETRY_MS,
+          policy,
+        };
+      }
+
+      if (error) throw error;
+
+      return applyRateLimit(policy, previous as RateLimitState | null, now, cost).result;
+    },
+  };
+}
+
+// =====================================================
+// Store Selection
+// =====================================================
+
+let defaultStore: RateLimitStore | null = null;
+
+function getConfiguredStoreName(): RateLimitStoreName {
+  const configured = process.env.RATE_LIMIT_STORE;
+  if (configured === RATE_LIMIT_STORES.MEMORY || configured === RATE_LIMIT_STORES.POSTGRES) {
+    return configured;
+  }
+
+  return process.env.NODE_ENV === 'production'
+    ? RATE_LIMIT_STORES.POSTGRES
+    : RATE_LIMIT_STORES.MEMORY;
+}
+
+/**
+ * Get the store configured for this process (created once)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!defaultStore) {
+    defaultStore =
+      getConfiguredStoreName() === RATE_LIMIT_STORES.POSTGRES
+        ? createPostgresRateLimitStore()
+        : createMemoryRateLimitStore();
+  }
+
+  return defaultStore;
+}
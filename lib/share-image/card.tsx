@@ -0,0 +1,290 @@
+/**
+ * Share Image Card
+ * JSX layout rendered to PNG by next/og (Satori) for message share images
+ *
+ * Branding mirrors scripts/generate-og-image.mjs (colors, NGL/FS wordmark)
+ * and the icon variant of components/ui/logo.tsx.
+ * Satori only supports inline styles and flexbox - every element with more
+ * than one child needs an explicit display: flex.
+ */
+
+import type {
+  ShareImageFormat,
+  ShareImageTemplate,
+  ShareImageTheme,
+} from '@/lib/constants/share-image';
+
+// Brand colors (see scripts/generate-og-image.mjs)
+const BRAND_PURPLE = '#8B5CF6';
+const BRAND_PINK = '#EC4899';
+const PROFILE_GRADIENT =
+  'linear-gradient(135deg, #FF006E 0%, #FF4B7A 50%, #FF8C42 100%)';
+
+interface Palette {
+  background: string;
+  cardBackground: string;
+  cardBorder: string;
+  headerBackground: string;
+  headerText: string;
+  text: string;
+  mutedText: string;
+  answerBackground: string;
+}
+
+const PALETTES: Record<ShareImageTemplate, Record<ShareImageTheme, Palette>> = {
+  brand: {
+    dark: {
+      background: 'linear-gradient(135deg, #0A0A0A 0%, #1A1A1A 50%, #0A0A0A 100%)',
+      cardBackground: '#1A1A1A',
+      cardBorder: 'rgba(139, 92, 246, 0.4)',
+      headerBackground: `linear-gradient(90deg, ${BRAND_PURPLE}, ${BRAND_PINK})`,
+      headerText: '#FFFFFF',
+      text: '#E5E5E5',
+      mutedText: '#A3A3A3',
+      answerBackground: 'rgba(139, 92, 246, 0.12)',
+    },
+    light: {
+      background: 'linear-gradient(135deg, #FAFAFA 0%, #F3E8FF 50%, #FCE7F3 100%)',
+      cardBackground: '#FFFFFF',
+      cardBorder: 'rgba(139, 92, 246, 0.3)',
+      headerBackground: `linear-gradient(90deg, ${BRAND_PURPLE}, ${BRAND_PINK})`,
+      headerText: '#FFFFFF',
+      text: '#0A0A0A',
+      mutedText: '#525252',
+      answerBackground: 'rgba(236, 72, 153, 0.08)',
+    },
+  },
+  sunset: {
+    dark: {
+      background: PROFILE_GRADIENT,
+      cardBackground: '#0A0A0A',
+      cardBorder: 'rgba(255, 255, 255, 0.15)',
+      headerBackground: PROFILE_GRADIENT,
+      headerText: '#FFFFFF',
+      text: '#FFFFFF',
+      mutedText: 'rgba(255, 255, 255, 0.85)',
+      answerBackground: 'rgba(255, 255, 255, 0.08)',
+    },
+    light: {
+      background: PROFILE_GRADIENT,
+      cardBackground: '#FFFFFF',
+      cardBorder: 'rgba(0, 0, 0, 0.05)',
+      headerBackground: PROFILE_GRADIENT,
+      headerText: '#FFFFFF',
+      text: '#000000',
+      mutedText: 'rgba(255, 255, 255, 0.9)',
+      answerBackground: '#F5F5F5',
+    },
+  },
+  minimal: {
+    dark: {
+      background: '#0A0A0A',
+      cardBackground: '#0A0A0A',
+      cardBorder: '#262626',
+      headerBackground: '#0A0A0A',
+      headerText: BRAND_PURPLE,
+      text: '#FFFFFF',
+      mutedText: '#737373',
+      answerBackground: '#171717',
+    },
+    light: {
+      background: '#FFFFFF',
+      cardBackground: '#FFFFFF',
+      cardBorder: '#E5E5E5',
+      headerBackground: '#FFFFFF',
+      headerText: BRAND_PURPLE,
+      text: '#0A0A0A',
+      mutedText: '#737373',
+      answerBackground: '#F5F5F5',
+    },
+  },
+};
+
+/**
+ * Scale font size down for longer content so it fits the card
+ */
+function getContentFontSize(length: number, format: ShareImageFormat): number {
+  const base = format === 'story' ? 64 : 52;
+
+  if (length > 350) return Math.round(base * 0.55);
+  if (length > 200) return Math.round(base * 0.7);
+  if (length > 100) return Math.round(base * 0.85);
+  return base;
+}
+
+/**
+ * Icon variant of components/ui/logo.tsx as raw SVG for Satori
+ */
+function LogoMark({ size }: { size: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 100 100" fill="none">
+      <defs>
+        <linearGradient id="logo-gradient" x1="0%" y1="0%" x2="100%" y2="100%">
+          <stop offset="0%" stopColor={BRAND_PURPLE} />
+          <stop offset="100%" stopColor={BRAND_PINK} />
+        </linearGradient>
+      </defs>
+      <circle cx="50" cy="50" r="45" fill="url(#logo-gradient)" opacity="0.15" />
+      <circle
+        cx="50"
+        cy="50"
+        r="45"
+        stroke="url(#logo-gradient)"
+        strokeWidth="2"
+        fill="none"
+        opacity="0.5"
+      />
+      <path
+        d="M 30 65 L 30 35 L 35 35 L 35 55 L 55 35 L 60 35 L 60 65 L 55 65 L 55 45 L 35 65 Z"
+        fill="url(#logo-gradient)"
+      />
+      <circle cx="70" cy="30" r="8" fill="url(#logo-gradient)" opacity="0.6" />
+      <circle cx="70" cy="30" r="4" fill={BRAND_PINK} />
+    </svg>
+  );
+}
+
+export interface ShareCardProps {
+  content: string;
+  answer?: string | null;
+  username: string;
+  profileUrl: string;
+  format: ShareImageFormat;
+  template: ShareImageTemplate;
+  theme: ShareImageTheme;
+}
+
+/**
+ * Message share card layout
+ */
+export function ShareCard({
+  content,
+  answer,
+  username,
+  profileUrl,
+  format,
+  template,
+  theme,
+}: ShareCardProps) {
+  const palette = PALETTES[template][theme];
+  const isStory = format === 'story';
+  const padding = isStory ? 96 : 72;
+  const contentFontSize = getContentFontSize(content.length, format);
+  const answerFontSize = Math.round(
+    getContentFontSize((answer || '').length, format) * 0.8
+  );
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        padding,
+        background: palette.background,
+        fontFamily: 'sans-serif',
+      }}
+    >
+      {/* Wordmark */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: 20 }}>
+        <LogoMark size={isStory ? 96 : 72} />
+        <div
+          style={{
+            display: 'flex',
+            fontSize: isStory ? 72 : 56,
+            fontWeight: 700,
+          }}
+        >
+          <span style={{ color: BRAND_PURPLE }}>NGL</span>
+          <span style={{ color: BRAND_PINK }}>FS</span>
+        </div>
+      </div>
+
+      {/* Message card */}
+      <div
+        style={{
+          width: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          borderRadius: 48,
+          overflow: 'hidden',
+          background: palette.cardBackground,
+          border: `3px solid ${palette.cardBorder}`,
+          boxShadow: '0 24px 64px rgba(0, 0, 0, 0.25)',
+        }}
+      >
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'center',
+            padding: '28px 40px',
+            background: palette.headerBackground,
+            color: palette.headerText,
+            fontSize: isStory ? 40 : 34,
+            fontWeight: 700,
+          }}
+        >
+          send me anonymous messages!
+        </div>
+        <div
+          style={{
+            display: 'flex',
+            padding: isStory ? '64px 56px' : '48px 48px',
+            color: palette.text,
+            fontSize: contentFontSize,
+            fontWeight: 700,
+            lineHeight: 1.3,
+            textAlign: 'center',
+            justifyContent: 'center',
+          }}
+        >
+          {content}
+        </div>
+        {answer && (
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              margin: '0 40px 40px',
+              padding: '32px 40px',
+              borderRadius: 32,
+              background: palette.answerBackground,
+              color: palette.text,
+            }}
+          >
+            <span
+              style={{
+                fontSize: isStory ? 28 : 24,
+                fontWeight: 700,
+                color: BRAND_PINK,
+                marginBottom: 12,
+              }}
+            >
+              @{username} answered
+            </span>
+            <span style={{ fontSize: answerFontSize, lineHeight: 1.35 }}>
+              {answer}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          color: palette.mutedText,
+          fontSize: isStory ? 36 : 30,
+        }}
+      >
+        <span style={{ fontWeight: 700 }}>@{username}</span>
+        <span>{profileUrl}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+
+/**
+ * Label with message counts (matches GET /api/labels)
+ */
+export interface MessageLabelWithCounts {
+  id: string;
+  name: string;
+  color: string;
+  messageCount: number;
+  unreadCount: number;
+}
+
+export type MessageFolder = "inbox" | "archived" | "held";
+
+interface FolderCount {
+  total: number;
+  unread: number;
+}
+
+/**
+ * Message folders store state interface
+ */
+interface MessageFoldersState {
+  labels: MessageLabelWithCounts[];
+  folderCounts: Record<MessageFolder, FolderCount>;
+  activeFolder: MessageFolder;
+  activeLabelId: string | null;
+
+  // Actions
+  setLabelsAndCounts: (
+    labels: MessageLabelWithCounts[],
+    folderCounts: Record<MessageFolder, FolderCount>
+  ) => void;
+  openFolder: (folder: MessageFolder) => void;
+  openLabel: (labelId: string | null) => void;
+}
+
+/**
+ * Message folders Zustand store
+ * Shares the selected folder / label and the sidebar counts between the
+ * sidebar and the messages page
+ */
+export const useMessageFoldersStore = create<MessageFoldersState>()(
+  devtools(
+    (set) => ({
+      labels: [],
+      folderCounts: {
+        inbox: { total: 0, unread: 0 },
+        archived: { total: 0, unread: 0 },
+        held: { total: 0, unread: 0 },
+      },
+      activeFolder: "inbox",
+      activeLabelId: null,
+
+      // Replace labels and counts after a fetch
+      setLabelsAndCounts: (labels, folderCounts) => {
+        set((state) => ({
+          labels,
+          folderCounts,
+          // Drop the label filter if the label was deleted
+          activeLabelId: labels.some((label) => label.id === state.activeLabelId)
+            ? state.activeLabelId
+            : null,
+        }));
+      },
+
+      // Switch folder (clears the label filter)
+      openFolder: (folder) => {
+        set({ activeFolder: folder, activeLabelId: null });
+      },
+
+      // Filter by label within the current folder
+      openLabel: (labelId) => {
+        set({ activeLabelId: labelId });
+      },
+    }),
+    {
+      name: "MessageFoldersStore",
+    }
+  )
+);
+
+/**
+ * Fetch labels and folder counts from API and update store
+ */
+export async function fetchMessageFolders(): Promise<void> {
+  try {
+    const response = await fetch("/api/labels");
+
+    if (!response.ok) {
+      throw new Error("Failed to fetch labels");
+    }
+
+    const data = await response.json();
+    useMessageFoldersStore
+      .getState()
+      .setLabelsAndCounts(data.labels || [], data.folders);
+  } catch (error) {
+    console.error("Error fetching labels:", error);
+  }
+}
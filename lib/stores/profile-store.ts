@@ -1,5 +1,7 @@
 import { create } from "zustand";
 import { devtools, persist } from "zustand/middleware";
+import type { InboxSchedule } from "@/lib/types/inbox-availability.types";
+import type { EmailDigestFrequency } from "@/lib/constants/email-notifications";
 
 /**
  * Profile interface matching database schema
@@ -12,6 +14,25 @@ export interface Profile {
   avatar_url: string | null;
   message_count?: number;
   total_visits?: number;
+  allow_image_attachments?: boolean;
+  auto_block_suspicious?: boolean;
+  inbox_paused?: boolean;
+  inbox_paused_until?: string | null;
+  inbox_schedule?: InboxSchedule | null;
+  inbox_timezone?: string | null;
+  inbox_closed_message?: string | null;
+  daily_message_cap?: number | null;
+  inbox_cap_reached_until?: string | null;
+  retention_read_days?: number | null;
+  retention_unread_days?: number | null;
+  retention_flagged_days?: number | null;
+  deleted_at?: string | null;
+  deletion_scheduled_for?: string | null;
+  suspended_at?: string | null;
+  suspended_reason?: string | null;
+  username_locked?: boolean;
+  email_alerts_enabled?: boolean;
+  email_digest_frequency?: EmailDigestFrequency;
   created_at?: string;
   updated_at?: string;
 }
@@ -32,6 +32,29 @@ export interface Database {
           is_active: boolean
           created_at: string
           updated_at: string
+          allow_image_attachments: boolean
+          auto_block_suspicious: boolean
+          inbox_paused: boolean
+          inbox_paused_until: string | null
+          inbox_schedule: Json | null
+          inbox_timezone: string | null
+          inbox_closed_message: string | null
+          daily_message_cap: number | null
+          inbox_cap_reached_until: string | null
+          retention_read_days: number | null
+          retention_unread_days: number | null
+          retention_flagged_days: number | null
+          deleted_at: string | null
+          deletion_scheduled_for: string | null
+          suspended_at: string | null
+          suspended_reason: string | null
+          suspended_by: string | null
+          username_locked: boolean
+          email_alerts_enabled: boolean
+          email_digest_frequency: string
+          email_alert_last_sent_at: string | null
+          email_digest_last_sent_at: string | null
+          last_visit_milestone: number
         }
         Insert: {
           id: string
@@ -44,6 +67,29 @@ export interface Database {
           is_active?: boolean
           created_at?: string
           updated_at?: string
+          allow_image_attachments?: boolean
+          auto_block_suspicious?: boolean
+          inbox_paused?: boolean
+          inbox_paused_until?: string | null
+          inbox_schedule?: Json | null
+          inbox_timezone?: string | null
+          inbox_closed_message?: string | null
+          daily_message_cap?: number | null
+          inbox_cap_reached_until?: string | null
+          retention_read_days?: number | null
+          retention_unread_days?: number | null
+          retention_flagged_days?: number | null
+          deleted_at?: string | null
+          deletion_scheduled_for?: string | null
+          suspended_at?: string | null
+          suspended_reason?: string | null
+          suspended_by?: string | null
+          username_locked?: boolean
+          email_alerts_enabled?: boolean
+          email_digest_frequency?: string
+          email_alert_last_sent_at?: string | null
+          email_digest_last_sent_at?: string | null
+          last_visit_milestone?: number
         }
         Update: {
           id?: string
@@ -56,6 +102,29 @@ export interface Database {
           is_active?: boolean
           created_at?: string
           updated_at?: string
+          allow_image_attachments?: boolean
+          auto_block_suspicious?: boolean
+          inbox_paused?: boolean
+          inbox_paused_until?: string | null
+          inbox_schedule?: Json | null
+          inbox_timezone?: string | null
+          inbox_closed_message?: string | null
+          daily_message_cap?: number | null
+          inbox_cap_reached_until?: string | null
+          retention_read_days?: number | null
+          retention_unread_days?: number | null
+          retention_flagged_days?: number | null
+          deleted_at?: string | null
+          deletion_scheduled_for?: string | null
+          suspended_at?: string | null
+          suspended_reason?: string | null
+          suspended_by?: string | null
+          username_locked?: boolean
+          email_alerts_enabled?: boolean
+          email_digest_frequency?: string
+          email_alert_last_sent_at?: string | null
+          email_digest_last_sent_at?: string | null
+          last_visit_milestone?: number
         }
         Relationships: [
           {
@@ -63,6 +132,12 @@ export interface Database {
             columns: ["id"]
             referencedRelation: "users"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_suspended_by_fkey"
+            columns: ["suspended_by"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
           }
         ]
       }
@@ -76,6 +151,15 @@ export interface Database {
           is_flagged: boolean
           created_at: string
           read_at: string | null
+          prompt_id: string | null
+          link_id: string | null
+          thread_token_hash: string | null
+          is_archived: boolean
+          archived_at: string | null
+          moderation_verdict: 'deliver' | 'hold'
+          moderation_matches: Json
+          moderated_at: string | null
+          sender_fingerprint: string | null
         }
         Insert: {
           id?: string
@@ -86,6 +170,15 @@ export interface Database {
           is_flagged?: boolean
           created_at?: string
           read_at?: string | null
+          prompt_id?: string | null
+          link_id?: string | null
+          thread_token_hash?: string | null
+          is_archived?: boolean
+          archived_at?: string | null
+          moderation_verdict?: 'deliver' | 'hold'
+          moderation_matches?: Json
+          moderated_at?: string | null
+          sender_fingerprint?: string | null
         }
         Update: {
           id?: string
@@ -96,6 +189,15 @@ export interface Database {
           is_flagged?: boolean
           created_at?: string
           read_at?: string | null
+          prompt_id?: string | null
+          link_id?: string | null
+          thread_token_hash?: string | null
+          is_archived?: boolean
+          archived_at?: string | null
+          moderation_verdict?: 'deliver' | 'hold'
+          moderation_matches?: Json
+          moderated_at?: string | null
+          sender_fingerprint?: string | null
         }
         Relationships: [
           {
@@ -154,6 +256,7 @@ export interface Database {
           referrer: string | null
           user_agent: string | null
           created_at: string
+          link_id: string | null
         }
         Insert: {
           id?: string
@@ -162,6 +265,7 @@ export interface Database {
           referrer?: string | null
           user_agent?: string | null
           created_at?: string
+          link_id?: string | null
         }
         Update: {
           id?: string
@@ -170,6 +274,7 @@ export interface Database {
           referrer?: string | null
           user_agent?: string | null
           created_at?: string
+          link_id?: string | null
         }
         Relationships: [
           {
@@ -184,21 +289,33 @@ export interface Database {
         Row: {
           id: string
           user_id: string
-          blocked_ip_hash: string
+          blocked_ip_hash: string | null
+          blocked_identifier: string | null
+          rule_type: 'ip' | 'fingerprint' | 'region' | 'referrer'
+          match_value: string | null
+          expires_at: string | null
           reason: string | null
           created_at: string
         }
         Insert: {
           id?: string
           user_id: string
-          blocked_ip_hash: string
+          blocked_ip_hash?: string | null
+          blocked_identifier?: string | null
+          rule_type?: 'ip' | 'fingerprint' | 'region' | 'referrer'
+          match_value?: string | null
+          expires_at?: string | null
           reason?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           user_id?: string
-          blocked_ip_hash?: string
+          blocked_ip_hash?: string | null
+          blocked_identifier?: string | null
+          rule_type?: 'ip' | 'fingerprint' | 'region' | 'referrer'
+          match_value?: string | null
+          expires_at?: string | null
           reason?: string | null
           created_at?: string
         }
@@ -211,6 +328,729 @@ export interface Database {
           }
         ]
       }
+      public_answers: {
+        Row: {
+          id: string
+          profile_id: string
+          message_id: string
+          question: string
+          answer: string
+          is_published: boolean
+          published_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          message_id: string
+          question: string
+          answer: string
+          is_published?: boolean
+          published_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          message_id?: string
+          question?: string
+          answer?: string
+          is_published?: boolean
+          published_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_answers_profile_id_fkey"
+            columns: ["profile_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "public_answers_message_id_fkey"
+            columns: ["message_id"]
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      prompts: {
+        Row: {
+          id: string
+          profile_id: string
+          text: string
+          position: number
+          is_active: boolean
+          retired_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          text: string
+          position?: number
+          is_active?: boolean
+          retired_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          text?: string
+          position?: number
+          is_active?: boolean
+          retired_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prompts_profile_id_fkey"
+            columns: ["profile_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      campaign_links: {
+        Row: {
+          id: string
+          profile_id: string
+          slug: string
+          name: string
+          prompt: string | null
+          is_open: boolean
+          expires_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          slug: string
+          name: string
+          prompt?: string | null
+          is_open?: boolean
+          expires_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          slug?: string
+          name?: string
+          prompt?: string | null
+          is_open?: boolean
+          expires_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_links_profile_id_fkey"
+            columns: ["profile_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      message_replies: {
+        Row: {
+          id: string
+          message_id: string
+          author: string
+          content: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          author: string
+          content: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          author?: string
+          content?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_replies_message_id_fkey"
+            columns: ["message_id"]
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      message_labels: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          color: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          color?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          color?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_labels_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      message_label_assignments: {
+        Row: {
+          message_id: string
+          label_id: string
+          created_at: string
+        }
+        Insert: {
+          message_id: string
+          label_id: string
+          created_at?: string
+        }
+        Update: {
+          message_id?: string
+          label_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_label_assignments_message_id_fkey"
+            columns: ["message_id"]
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_label_assignments_label_id_fkey"
+            columns: ["label_id"]
+            referencedRelation: "message_labels"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      message_attachments: {
+        Row: {
+          id: string
+          message_id: string
+          storage_path: string
+          content_type: string
+          size_bytes: number
+          width: number | null
+          height: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          storage_path: string
+          content_type: string
+          size_bytes: number
+          width?: number | null
+          height?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          storage_path?: string
+          content_type?: string
+          size_bytes?: number
+          width?: number | null
+          height?: number | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      muted_words: {
+        Row: {
+          id: string
+          user_id: string
+          phrase: string
+          whole_word: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          phrase: string
+          whole_word?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          phrase?: string
+          whole_word?: boolean
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "muted_words_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      sender_activity_log: {
+        Row: {
+          id: string
+          recipient_id: string
+          sender_ip_hash: string
+          action: 'auto_hold' | 'cooldown' | 'auto_block'
+          severity: 'low' | 'medium' | 'high'
+          reason: string
+          message_count: number
+          message_id: string | null
+          cooldown_until: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          recipient_id: string
+          sender_ip_hash: string
+          action: 'auto_hold' | 'cooldown' | 'auto_block'
+          severity: 'low' | 'medium' | 'high'
+          reason: string
+          message_count?: number
+          message_id?: string | null
+          cooldown_until?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          recipient_id?: string
+          sender_ip_hash?: string
+          action?: 'auto_hold' | 'cooldown' | 'auto_block'
+          severity?: 'low' | 'medium' | 'high'
+          reason?: string
+          message_count?: number
+          message_id?: string | null
+          cooldown_until?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sender_activity_log_recipient_id_fkey"
+            columns: ["recipient_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sender_activity_log_message_id_fkey"
+            columns: ["message_id"]
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      rate_limits: {
+        Row: {
+          key: string
+          state: Json
+          version: number
+          expires_at: string
+          updated_at: string
+        }
+        Insert: {
+          key: string
+          state: Json
+          version?: number
+          expires_at: string
+          updated_at?: string
+        }
+        Update: {
+          key?: string
+          state?: Json
+          version?: number
+          expires_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      redeemed_pow_nonces: {
+        Row: {
+          nonce: string
+          expires_at: string
+          redeemed_at: string
+        }
+        Insert: {
+          nonce: string
+          expires_at: string
+          redeemed_at?: string
+        }
+        Update: {
+          nonce?: string
+          expires_at?: string
+          redeemed_at?: string
+        }
+        Relationships: []
+      }
+      message_purge_log: {
+        Row: {
+          id: string
+          user_id: string
+          read_count: number
+          unread_count: number
+          flagged_count: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          read_count?: number
+          unread_count?: number
+          flagged_count?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          read_count?: number
+          unread_count?: number
+          flagged_count?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_purge_log_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      data_exports: {
+        Row: {
+          id: string
+          user_id: string
+          status: string
+          storage_path: string | null
+          file_size: number | null
+          error: string | null
+          created_at: string
+          completed_at: string | null
+          expires_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          status?: string
+          storage_path?: string | null
+          file_size?: number | null
+          error?: string | null
+          created_at?: string
+          completed_at?: string | null
+          expires_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          status?: string
+          storage_path?: string | null
+          file_size?: number | null
+          error?: string | null
+          created_at?: string
+          completed_at?: string | null
+          expires_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_exports_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      platform_admins: {
+        Row: {
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "platform_admins_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      reports: {
+        Row: {
+          id: string
+          reporter_id: string
+          message_id: string | null
+          reason: string
+          details: string | null
+          message_content: string
+          message_created_at: string
+          sender_ip_hash: string
+          status: string
+          action_taken: string | null
+          reviewer_id: string | null
+          reviewer_notes: string | null
+          created_at: string
+          updated_at: string
+          reviewed_at: string | null
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          reporter_id: string
+          message_id?: string | null
+          reason: string
+          details?: string | null
+          message_content: string
+          message_created_at: string
+          sender_ip_hash: string
+          status?: string
+          action_taken?: string | null
+          reviewer_id?: string | null
+          reviewer_notes?: string | null
+          created_at?: string
+          updated_at?: string
+          reviewed_at?: string | null
+          resolved_at?: string | null
+        }
+        Update: {
+          id?: string
+          reporter_id?: string
+          message_id?: string | null
+          reason?: string
+          details?: string | null
+          message_content?: string
+          message_created_at?: string
+          sender_ip_hash?: string
+          status?: string
+          action_taken?: string | null
+          reviewer_id?: string | null
+          reviewer_notes?: string | null
+          created_at?: string
+          updated_at?: string
+          reviewed_at?: string | null
+          resolved_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_message_id_fkey"
+            columns: ["message_id"]
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      admin_audit_log: {
+        Row: {
+          id: string
+          admin_id: string
+          action: string
+          target_user_id: string | null
+          target_report_id: string | null
+          details: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          admin_id: string
+          action: string
+          target_user_id?: string | null
+          target_report_id?: string | null
+          details?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          admin_id?: string
+          action?: string
+          target_user_id?: string | null
+          target_report_id?: string | null
+          details?: Json
+          created_at?: string
+        }
+        Relationships: []
+      }
+      webhook_endpoints: {
+        Row: {
+          id: string
+          user_id: string
+          url: string
+          description: string | null
+          format: string
+          events: string[]
+          secret: string
+          previous_secret: string | null
+          previous_secret_expires_at: string | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          url: string
+          description?: string | null
+          format?: string
+          events: string[]
+          secret: string
+          previous_secret?: string | null
+          previous_secret_expires_at?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          url?: string
+          description?: string | null
+          format?: string
+          events?: string[]
+          secret?: string
+          previous_secret?: string | null
+          previous_secret_expires_at?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_endpoints_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          endpoint_id: string
+          user_id: string
+          event_id: string
+          event: string
+          payload: Json
+          status: 'pending' | 'succeeded' | 'failed'
+          attempt_count: number
+          next_attempt_at: string | null
+          last_attempt_at: string | null
+          response_status: number | null
+          response_body: string | null
+          error: string | null
+          replay_of: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          endpoint_id: string
+          user_id: string
+          event_id: string
+          event: string
+          payload: Json
+          status?: 'pending' | 'succeeded' | 'failed'
+          attempt_count?: number
+          next_attempt_at?: string | null
+          last_attempt_at?: string | null
+          response_status?: number | null
+          response_body?: string | null
+          error?: string | null
+          replay_of?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          endpoint_id?: string
+          user_id?: string
+          event_id?: string
+          event?: string
+          payload?: Json
+          status?: 'pending' | 'succeeded' | 'failed'
+          attempt_count?: number
+          next_attempt_at?: string | null
+          last_attempt_at?: string | null
+          response_status?: number | null
+          response_body?: string | null
+          error?: string | null
+          replay_of?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_replay_of_fkey"
+            columns: ["replay_of"]
+            referencedRelation: "webhook_deliveries"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -255,6 +1095,78 @@ export type BlockedSender = Tables<'blocked_senders'>
 export type BlockedSenderInsert = Inserts<'blocked_senders'>
 export type BlockedSenderUpdate = Updates<'blocked_senders'>
 
+export type PublicAnswer = Tables<'public_answers'>
+export type PublicAnswerInsert = Inserts<'public_answers'>
+export type PublicAnswerUpdate = Updates<'public_answers'>
+
+export type Prompt = Tables<'prompts'>
+export type PromptInsert = Inserts<'prompts'>
+export type PromptUpdate = Updates<'prompts'>
+
+export type CampaignLink = Tables<'campaign_links'>
+export type CampaignLinkInsert = Inserts<'campaign_links'>
+export type CampaignLinkUpdate = Updates<'campaign_links'>
+
+export type MessageReply = Tables<'message_replies'>
+export type MessageReplyInsert = Inserts<'message_replies'>
+export type MessageReplyUpdate = Updates<'message_replies'>
+
+export type MessageLabel = Tables<'message_labels'>
+export type MessageLabelInsert = Inserts<'message_labels'>
+export type MessageLabelUpdate = Updates<'message_labels'>
+
+export type MessageLabelAssignment = Tables<'message_label_assignments'>
+export type MessageLabelAssignmentInsert = Inserts<'message_label_assignments'>
+export type MessageLabelAssignmentUpdate = Updates<'message_label_assignments'>
+
+export type MessageAttachment = Tables<'message_attachments'>
+export type MessageAttachmentInsert = Inserts<'message_attachments'>
+export type MessageAttachmentUpdate = Updates<'message_attachments'>
+
+export type MutedWord = Tables<'muted_words'>
+export type MutedWordInsert = Inserts<'muted_words'>
+export type MutedWordUpdate = Updates<'muted_words'>
+
+export type SenderActivityLog = Tables<'sender_activity_log'>
+export type SenderActivityLogInsert = Inserts<'sender_activity_log'>
+export type SenderActivityLogUpdate = Updates<'sender_activity_log'>
+
+export type RateLimitEntry = Tables<'rate_limits'>
+export type RateLimitEntryInsert = Inserts<'rate_limits'>
+export type RateLimitEntryUpdate = Updates<'rate_limits'>
+
+export type RedeemedPowNonce = Tables<'redeemed_pow_nonces'>
+export type RedeemedPowNonceInsert = Inserts<'redeemed_pow_nonces'>
+export type RedeemedPowNonceUpdate = Updates<'redeemed_pow_nonces'>
+
+export type MessagePurgeLog = Tables<'message_purge_log'>
+export type MessagePurgeLogInsert = Inserts<'message_purge_log'>
+export type MessagePurgeLogUpdate = Updates<'message_purge_log'>
+
+export type DataExport = Tables<'data_exports'>
+export type DataExportInsert = Inserts<'data_exports'>
+export type DataExportUpdate = Updates<'data_exports'>
+
+export type PlatformAdmin = Tables<'platform_admins'>
+export type PlatformAdminInsert = Inserts<'platform_admins'>
+export type PlatformAdminUpdate = Updates<'platform_admins'>
+
+export type Report = Tables<'reports'>
+export type ReportInsert = Inserts<'reports'>
+export type ReportUpdate = Updates<'reports'>
+
+export type AdminAuditLogEntry = Tables<'admin_audit_log'>
+export type AdminAuditLogEntryInsert = Inserts<'admin_audit_log'>
+export type AdminAuditLogEntryUpdate = Updates<'admin_audit_log'>
+
+export type WebhookEndpoint = Tables<'webhook_endpoints'>
+export type WebhookEndpointInsert = Inserts<'webhook_endpoints'>
+export type WebhookEndpointUpdate = Updates<'webhook_endpoints'>
+
+export type WebhookDelivery = Tables<'webhook_deliveries'>
+export type WebhookDeliveryInsert = Inserts<'webhook_deliveries'>
+export type WebhookDeliveryUpdate = Updates<'webhook_deliveries'>
+
 // Event types enum
 export type AnalyticsEventType =
   | 'message_received'
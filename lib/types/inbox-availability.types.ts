@@ -0,0 +1,63 @@
+/**
+ * Inbox Availability Types and Interfaces
+ *
+ * Type definitions for closing an inbox:
+ * - Manual pauses (indefinite or until a date)
+ * - Weekly open hours in the owner's timezone
+ * - The daily message cap that pauses the inbox until the owner's midnight
+ */
+
+// =====================================================
+// Settings
+// =====================================================
+
+/**
+ * One block of open hours on a weekday, in the owner's local time
+ */
+export interface InboxScheduleWindow {
+  /** 0 = Sunday ... 6 = Saturday */
+  day: number;
+  /** "HH:MM", inclusive */
+  start: string;
+  /** "HH:MM", exclusive ("24:00" = end of day) */
+  end: string;
+}
+
+/**
+ * Weekly open hours - the inbox is closed outside every window
+ */
+export interface InboxSchedule {
+  windows: InboxScheduleWindow[];
+}
+
+/**
+ * The profile columns that decide whether an inbox is open
+ */
+export interface InboxAvailabilitySettings {
+  inbox_paused: boolean;
+  inbox_paused_until: string | null;
+  inbox_schedule: InboxSchedule | null;
+  inbox_timezone: string | null;
+  inbox_closed_message: string | null;
+  daily_message_cap: number | null;
+  inbox_cap_reached_until: string | null;
+}
+
+// =====================================================
+// Status
+// =====================================================
+
+/**
+ * Why an inbox is closed
+ * - paused: the owner paused it (indefinitely or until a date)
+ * - schedule: outside the owner's open hours
+ * - daily_cap: the daily message cap was reached
+ */
+export type InboxClosedReason = 'paused' | 'schedule' | 'daily_cap';
+
+export interface InboxStatus {
+  open: boolean;
+  reason: InboxClosedReason | null;
+  /** When the inbox opens again (null if open, or paused indefinitely) */
+  reopensAt: string | null;
+}
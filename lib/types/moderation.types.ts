@@ -0,0 +1,85 @@
+/**
+ * Moderation Types and Interfaces
+ *
+ * Type definitions for the incoming message moderation pipeline:
+ * - Verdicts and rule matches recorded on each message
+ * - The checker interface new checks implement
+ */
+
+// =====================================================
+// Verdicts
+// =====================================================
+
+/**
+ * What happens to a message after moderation
+ * - deliver: lands in the inbox as normal
+ * - hold: stored but kept out of the inbox until reviewed
+ * - reject: never stored, the sender gets an error
+ */
+export type ModerationVerdict = 'deliver' | 'hold' | 'reject';
+
+/**
+ * A single rule that matched the message
+ */
+export interface ModerationMatch {
+  /** Checker that produced the match (e.g. "lexicon", "links") */
+  checker: string;
+  /** Rule within the checker (e.g. "profanity", "url") */
+  rule: string;
+  /** Verdict this rule asks for */
+  verdict: ModerationVerdict;
+  /** Short excerpt of the matched text, for reviewers */
+  excerpt?: string;
+}
+
+/**
+ * Pipeline result - the strictest verdict across all matches
+ */
+export interface ModerationResult {
+  verdict: ModerationVerdict;
+  matches: ModerationMatch[];
+}
+
+// =====================================================
+// Checkers
+// =====================================================
+
+/**
+ * A recipient's muted word or phrase
+ */
+export interface MutedWordRule {
+  /** Word or phrase; * matches any run of letters or digits */
+  phrase: string;
+  /** Only match whole words */
+  whole_word: boolean;
+}
+
+/**
+ * Extra information checkers may use besides the content
+ */
+export interface ModerationContext {
+  recipientId?: string;
+  /** Recipient's muted words (loaded by the caller) */
+  mutedWords?: MutedWordRule[];
+}
+
+/**
+ * Prepared forms of the message content, computed once per run
+ */
+export interface ModerationInput {
+  /** Content as sent (trimmed) */
+  raw: string;
+  /** Lowercased, accents removed, common look-alike characters mapped */
+  normalized: string;
+  /** Normalized words (letters and digits only) */
+  tokens: string[];
+}
+
+/**
+ * A moderation check. Checkers are pure and synchronous: no network or
+ * database access, so the pipeline runs offline and in tests
+ */
+export interface ModerationChecker {
+  name: string;
+  check(input: ModerationInput, context: ModerationContext): ModerationMatch[];
+}
@@ -0,0 +1,117 @@
+/**
+ * Rate Limit Types and Interfaces
+ *
+ * Type definitions for the shared rate limiter:
+ * - Per-route policies and the algorithms they use
+ * - Limiter results used to build RateLimit-* headers
+ * - The store interface the in-memory and Postgres backends implement
+ */
+
+// =====================================================
+// Policies
+// =====================================================
+
+/**
+ * Limiting algorithm
+ * - token_bucket: allows short bursts up to the capacity, then refills at a
+ *   steady rate
+ * - sliding_window: at most `limit` requests in any `windowMs` span
+ *   (weighted across the current and previous fixed window)
+ */
+export type RateLimitAlgorithm = 'token_bucket' | 'sliding_window';
+
+/**
+ * What a policy counts requests against
+ * - ip: daily-salted IP hash of the caller
+ * - user: signed-in user id
+ * - recipient: profile the request is aimed at
+ * - thread: hash of an anonymous sender's thread token
+ */
+export type RateLimitKeyPart = 'ip' | 'user' | 'recipient' | 'thread';
+
+interface BaseRateLimitPolicy {
+  /** Unique name, used as the key prefix (e.g. "message-send") */
+  name: string;
+  /** Key parts combined into the bucket key, in order */
+  keyBy: readonly RateLimitKeyPart[];
+}
+
+export interface TokenBucketPolicy extends BaseRateLimitPolicy {
+  algorithm: 'token_bucket';
+  /** Bucket size - the largest burst allowed */
+  capacity: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+}
+
+export interface SlidingWindowPolicy extends BaseRateLimitPolicy {
+  algorithm: 'sliding_window';
+  /** Requests allowed per window */
+  limit: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+export type RateLimitPolicy = TokenBucketPolicy | SlidingWindowPolicy;
+
+/**
+ * Values for the policy's key parts; missing parts fall back to "anonymous"
+ */
+export type RateLimitIdentity = Partial<Record<RateLimitKeyPart, string | null>>;
+
+// =====================================================
+// Results
+// =====================================================
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Requests allowed in a full window / bucket */
+  limit: number;
+  /** Requests left right now (after this one, if allowed) */
+  remaining: number;
+  /** Milliseconds until the limit is fully reset */
+  resetMs: number;
+  /** Milliseconds until the next request would be allowed (0 if allowed) */
+  retryAfterMs: number;
+  /** Policy that produced the result, for the RateLimit-Policy header */
+  policy: RateLimitPolicy;
+}
+
+// =====================================================
+// Algorithm State and Stores
+// =====================================================
+
+export interface TokenBucketState {
+  tokens: number;
+  /** Epoch ms of the last refill */
+  updatedAt: number;
+}
+
+export interface SlidingWindowState {
+  /** Epoch ms the current fixed window started */
+  windowStart: number;
+  count: number;
+  previousCount: number;
+}
+
+export type RateLimitState = TokenBucketState | SlidingWindowState;
+
+/**
+ * One request to apply to a key's state
+ */
+export interface RateLimitRequest {
+  policy: RateLimitPolicy;
+  /** Tokens / requests the request costs */
+  cost: number;
+  /** Epoch ms the request is applied at */
+  now: number;
+}
+
+/**
+ * Backend that keeps limiter state. Each update must apply the request
+ * atomically per key, so concurrent requests can't both spend the last token
+ */
+export interface RateLimitStore {
+  name: string;
+  update(key: string, request: RateLimitRequest): Promise<RateLimitResult>;
+}
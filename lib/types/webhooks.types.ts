@@ -0,0 +1,83 @@
+/**
+ * Webhook Types and Interfaces
+ *
+ * Type definitions for the events sent to webhook endpoints:
+ * - The envelope every event is wrapped in
+ * - The data carried by each event type
+ */
+
+import type { WebhookEvent } from '@/lib/constants/webhooks';
+
+// =====================================================
+// Event Data
+// =====================================================
+
+/**
+ * The account the event is about
+ */
+export interface WebhookProfileData {
+  username: string;
+  /** Public profile page */
+  url: string;
+}
+
+/**
+ * message.received - a message was delivered to the inbox (like push
+ * notifications, not sent for messages held by moderation)
+ */
+export interface MessageReceivedEventData {
+  profile: WebhookProfileData;
+  message: {
+    id: string;
+    content: string;
+    created_at: string;
+    /** Message in the dashboard */
+    url: string;
+  };
+}
+
+/**
+ * message.reported - the owner reported a message
+ */
+export interface MessageReportedEventData {
+  profile: WebhookProfileData;
+  message: {
+    id: string;
+    content: string;
+    created_at: string;
+  };
+  report: {
+    id: string;
+    reason: string;
+  };
+}
+
+/**
+ * profile.visited_milestone - the profile passed a visit milestone
+ */
+export interface ProfileVisitedMilestoneEventData {
+  profile: WebhookProfileData;
+  milestone: number;
+  total_visits: number;
+}
+
+export interface WebhookEventDataMap {
+  'message.received': MessageReceivedEventData;
+  'message.reported': MessageReportedEventData;
+  'profile.visited_milestone': ProfileVisitedMilestoneEventData;
+}
+
+// =====================================================
+// Envelope
+// =====================================================
+
+/**
+ * What a "json" endpoint receives. Replays keep the event id, so receivers
+ * can use it to ignore duplicates
+ */
+export interface WebhookEnvelope<E extends WebhookEvent = WebhookEvent> {
+  id: string;
+  type: E;
+  created_at: string;
+  data: WebhookEventDataMap[E];
+}
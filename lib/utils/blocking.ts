@@ -3,6 +3,7 @@
  */
 
 import { createHash } from "crypto";
+import { getCountryFromTimezone } from "@/lib/utils/timezone-mapper";
 
 /**
  * Hash an IP address for privacy
@@ -23,20 +24,15 @@ export interface SuspiciousActivityResult {
 
 /**
  * Analyze message patterns to detect suspicious activity
+ * @param messages - Messages from a single sender
  */
 export function detectSuspiciousActivity(
-  messages: Array<{
-    sender_ip_hash: string;
-    created_at: string;
-  }>,
-  ipHash: string
+  messages: Array<{ created_at: string }>
 ): SuspiciousActivityResult {
-  // Get messages from this IP in the last hour
+  // Get messages from this sender in the last hour
   const oneHourAgo = Date.now() - 60 * 60 * 1000;
   const recentMessages = messages.filter(
-    (msg) =>
-      msg.sender_ip_hash === ipHash &&
-      new Date(msg.created_at).getTime() > oneHourAgo
+    (msg) => new Date(msg.created_at).getTime() > oneHourAgo
   );
 
   // Check for rapid messaging (>5 messages in 1 hour)
@@ -52,9 +48,7 @@ export function detectSuspiciousActivity(
   // Check for very rapid messaging (>3 messages in 10 minutes)
   const tenMinutesAgo = Date.now() - 10 * 60 * 1000;
   const veryRecentMessages = messages.filter(
-    (msg) =>
-      msg.sender_ip_hash === ipHash &&
-      new Date(msg.created_at).getTime() > tenMinutesAgo
+    (msg) => new Date(msg.created_at).getTime() > tenMinutesAgo
   );
 
   if (veryRecentMessages.length > 3) {
@@ -82,12 +76,95 @@ export function detectSuspiciousActivity(
   };
 }
 
+/**
+ * Automatic actions the send API takes against suspicious senders
+ */
+export const SENDER_ACTIVITY_ACTIONS = {
+  AUTO_HOLD: "auto_hold",
+  COOLDOWN: "cooldown",
+  AUTO_BLOCK: "auto_block",
+} as const;
+
+export type SenderActivityAction =
+  (typeof SENDER_ACTIVITY_ACTIONS)[keyof typeof SENDER_ACTIVITY_ACTIONS];
+
+/**
+ * Get user-friendly sender activity action text
+ */
+export function getSenderActivityActionText(action: SenderActivityAction): string {
+  switch (action) {
+    case SENDER_ACTIVITY_ACTIONS.AUTO_HOLD:
+      return "Message filtered";
+    case SENDER_ACTIVITY_ACTIONS.COOLDOWN:
+      return "Sender paused";
+    case SENDER_ACTIVITY_ACTIONS.AUTO_BLOCK:
+      return "Sender blocked";
+    default:
+      return "Unknown";
+  }
+}
+
+/**
+ * Cooldown lengths in minutes for flooding senders. Each further cooldown
+ * for the same sender within COOLDOWN_ESCALATION_WINDOW_MS moves one step up
+ */
+export const COOLDOWN_STEPS_MINUTES = [5, 15, 60, 240] as const;
+export const COOLDOWN_ESCALATION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What the send API does with an incoming message
+ */
+export interface ThrottleDecision {
+  analysis: SuspiciousActivityResult;
+  /** Send the message to the Filtered folder */
+  hold: boolean;
+  /** Pause the sender for this many minutes (null = no cooldown) */
+  cooldownMinutes: number | null;
+  /** Block the sender */
+  block: boolean;
+}
+
+/**
+ * Apply detectSuspiciousActivity to an incoming message - the same analysis
+ * the dashboard alert shows, enforced before the message is stored
+ * - medium severity: the message is held
+ * - high severity: the message is held and the sender gets an escalating
+ *   cooldown, plus a block if the recipient turned on auto-block
+ */
+export function getThrottleDecision(
+  recentMessages: Array<{ created_at: string }>,
+  options: { recentCooldowns: number; autoBlock: boolean }
+): ThrottleDecision {
+  // Count the incoming message too
+  const analysis = detectSuspiciousActivity([
+    ...recentMessages,
+    { created_at: new Date().toISOString() },
+  ]);
+
+  if (!analysis.isSuspicious) {
+    return { analysis, hold: false, cooldownMinutes: null, block: false };
+  }
+
+  if (analysis.severity !== "high") {
+    return { analysis, hold: true, cooldownMinutes: null, block: false };
+  }
+
+  const step = Math.min(options.recentCooldowns, COOLDOWN_STEPS_MINUTES.length - 1);
+
+  return {
+    analysis,
+    hold: true,
+    cooldownMinutes: COOLDOWN_STEPS_MINUTES[step],
+    block: options.autoBlock && !!analysis.suggestBlock,
+  };
+}
+
 /**
  * Get a user-friendly identifier for blocked sender
- * (Since we only have IP hash, we'll use a truncated version)
+ * (Since we only have an IP hash or sender key, we'll use a truncated version)
  */
-export function getSenderIdentifier(ipHash: string): string {
-  return `Sender-${ipHash.substring(0, 8)}`;
+export function getSenderIdentifier(senderKey: string): string {
+  return `Sender-${senderKey.substring(0, 8)}`;
 }
 
 /**
@@ -122,3 +199,162 @@ export function getBlockReasonText(reason: BlockReason): string {
       return "Unknown";
   }
 }
+
+/**
+ * What a block rule matches on
+ * - ip: the sender's (daily-salted) IP hash
+ * - fingerprint: the sender's device fingerprint (survives network changes)
+ * - region: the country/region inferred from the sender's timezone
+ * - referrer: the platform the sender arrived from (e.g. "tiktok")
+ */
+export const BLOCK_RULE_TYPES = {
+  IP: "ip",
+  FINGERPRINT: "fingerprint",
+  REGION: "region",
+  REFERRER: "referrer",
+} as const;
+
+export type BlockRuleType =
+  (typeof BLOCK_RULE_TYPES)[keyof typeof BLOCK_RULE_TYPES];
+
+/**
+ * Get user-friendly block rule type text
+ */
+export function getBlockRuleTypeText(type: BlockRuleType): string {
+  switch (type) {
+    case BLOCK_RULE_TYPES.IP:
+      return "Network";
+    case BLOCK_RULE_TYPES.FINGERPRINT:
+      return "Device";
+    case BLOCK_RULE_TYPES.REGION:
+      return "Region";
+    case BLOCK_RULE_TYPES.REFERRER:
+      return "Referrer";
+    default:
+      return "Unknown";
+  }
+}
+
+/**
+ * Block lengths offered when blocking (null = until unblocked)
+ */
+export const BLOCK_DURATION_DAYS = [null, 1, 7, 30] as const;
+
+export type BlockDurationDays = (typeof BLOCK_DURATION_DAYS)[number];
+
+/**
+ * Get user-friendly block duration text
+ */
+export function getBlockDurationText(days: BlockDurationDays): string {
+  switch (days) {
+    case null:
+      return "Permanently";
+    case 1:
+      return "For 24 hours";
+    default:
+      return `For ${days} days`;
+  }
+}
+
+/**
+ * Expiry timestamp for a block duration
+ */
+export function getBlockExpiry(days: BlockDurationDays): string | null {
+  return days === null
+    ? null
+    : new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * The parts of a blocked_senders row used for matching
+ */
+export interface BlockRule {
+  rule_type: BlockRuleType;
+  blocked_ip_hash: string | null;
+  match_value: string | null;
+  expires_at: string | null;
+}
+
+/**
+ * What the server knows about a sender
+ */
+export interface SenderSignals {
+  ipHash: string;
+  fingerprint: string | null;
+  region: string | null;
+  referrerPlatform: string | null;
+}
+
+/**
+ * Region value block rules match against, from the sender's timezone
+ */
+export function getSenderRegion(timezone: string | null | undefined): string | null {
+  return getCountryFromTimezone(timezone)?.country || null;
+}
+
+/**
+ * Check whether a block rule is still in force
+ */
+export function isBlockRuleActive(rule: BlockRule, now: number = Date.now()): boolean {
+  return !rule.expires_at || new Date(rule.expires_at).getTime() > now;
+}
+
+/**
+ * Find the first active rule that matches a sender
+ * @returns The matching rule, or null if the sender isn't blocked
+ */
+export function findMatchingBlockRule<T extends BlockRule>(
+  rules: T[],
+  signals: SenderSignals,
+  now: number = Date.now()
+): T | null {
+  return (
+    rules.find((rule) => {
+      if (!isBlockRuleActive(rule, now)) return false;
+
+      switch (rule.rule_type) {
+        case BLOCK_RULE_TYPES.IP:
+          return rule.blocked_ip_hash === signals.ipHash;
+        case BLOCK_RULE_TYPES.FINGERPRINT:
+          return !!signals.fingerprint && rule.match_value === signals.fingerprint;
+        case BLOCK_RULE_TYPES.REGION:
+          return (
+            !!signals.region &&
+            rule.match_value?.toLowerCase() === signals.region.toLowerCase()
+          );
+        case BLOCK_RULE_TYPES.REFERRER:
+          return (
+            !!signals.referrerPlatform &&
+            rule.match_value === signals.referrerPlatform
+          );
+        default:
+          return false;
+      }
+    }) || null
+  );
+}
+
+/**
+ * The value a rule of the given type would block for a sender
+ * @returns The value, or null if the sender has nothing to match on (e.g.
+ *          no client tracking data, or no referrer)
+ */
+export function getBlockRuleValue(
+  type: BlockRuleType,
+  signals: SenderSignals
+): string | null {
+  switch (type) {
+    case BLOCK_RULE_TYPES.IP:
+      return signals.ipHash;
+    case BLOCK_RULE_TYPES.FINGERPRINT:
+      return signals.fingerprint;
+    case BLOCK_RULE_TYPES.REGION:
+      return signals.region;
+    case BLOCK_RULE_TYPES.REFERRER:
+      return signals.referrerPlatform && signals.referrerPlatform !== "direct"
+        ? signals.referrerPlatform
+        : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * CSV Utilities
+ * RFC 4180 CSV for data exports - every field quoted when it needs to be,
+ * objects serialized as JSON
+ */
+
+/**
+ * Format one value as a CSV field
+ */
+export function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  // Leading =, +, - or @ would be evaluated as a formula by spreadsheets
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Build a CSV document
+ * @param columns - Column names, in order (also the header row)
+ * @param rows - Records to write
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(
+  columns: string[],
+  rows: Array<Record<string, unknown>>
+): string {
+  const lines = [columns.map(toCsvField).join(',')];
+
+  for (const row of rows) {
+    lines.push(columns.map((column) => toCsvField(row[column])).join(','));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
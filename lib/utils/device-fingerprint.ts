@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import type { ParsedUserAgent } from '@/lib/utils/user-agent-parser';
+
+/**
+ * Device Fingerprint
+ *
+ * A coarse, server-computed fingerprint of the sender's device, built from
+ * the tracking fields already stored with each message. Unlike the IP hash
+ * it survives switching networks, so recipients can block a device.
+ *
+ * Privacy:
+ * 1. Only stable traits are used (no versions, viewport or connection type)
+ * 2. The recipient's id is part of the hash, so the same device gets a
+ *    different fingerprint for every recipient and can't be followed
+ *    across profiles
+ * 3. HMAC with a server secret - the fingerprint can't be recomputed from
+ *    the stored tracking fields
+ */
+
+/**
+ * Client-side traits the message form reports (all optional)
+ */
+export interface FingerprintClientData {
+  timezone?: string;
+  language?: string;
+  screenResolution?: string;
+  colorDepth?: number;
+  pixelRatio?: number;
+  touchSupport?: boolean;
+}
+
+/**
+ * Computes the sender's device fingerprint for one recipient
+ *
+ * @param recipientId - UUID of the recipient (scopes the fingerprint)
+ * @param userAgent - Parsed User-Agent of the request
+ * @param clientData - Traits reported by the browser
+ * @returns 64-char hex fingerprint, or null without client traits (the
+ *          User-Agent alone matches far too many devices)
+ */
+export function getDeviceFingerprint(
+  recipientId: string,
+  userAgent: ParsedUserAgent,
+  clientData?: FingerprintClientData
+): string | null {
+  if (!clientData?.screenResolution || !clientData.timezone) return null;
+
+  const traits = [
+    userAgent.device.type,
+    userAgent.os.name || '',
+    userAgent.browser.name || '',
+    clientData.screenResolution,
+    clientData.timezone,
+    clientData.language || '',
+    clientData.colorDepth ?? '',
+    clientData.pixelRatio ?? '',
+    clientData.touchSupport ? '1' : '0',
+  ].join('|');
+
+  const secret = process.env.IP_SALT_SECRET || 'default-secret-change-in-production';
+
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${recipientId}|${traits}`)
+    .digest('hex');
+}
@@ -0,0 +1,105 @@
+import sharp from 'sharp';
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  type AttachmentType,
+} from '@/lib/constants/attachments';
+
+/**
+ * Image Sanitizer
+ *
+ * Sender-uploaded images can carry EXIF data (GPS location, device serial
+ * numbers, timestamps) that would de-anonymize the sender. Every attachment
+ * is decoded and re-encoded, which:
+ * 1. Verifies the bytes really are a JPEG, PNG or WebP (the declared MIME
+ *    type is never trusted)
+ * 2. Drops all metadata - sharp only copies EXIF/XMP/ICC when asked to
+ * 3. Applies the EXIF orientation first, so photos still display upright
+ */
+
+/**
+ * Longest side of a stored attachment - larger images are scaled down
+ */
+const MAX_DIMENSION = 2048;
+
+/**
+ * Reject decompression bombs before decoding (about 40 megapixels)
+ */
+const MAX_INPUT_PIXELS = 40_000_000;
+
+const FORMAT_TYPES: Record<string, AttachmentType> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+export interface SanitizedImage {
+  buffer: Buffer;
+  contentType: AttachmentType;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decodes a base64 image, validates it and strips its metadata
+ *
+ * @param base64 - Image bytes as base64 (a data: URL prefix is allowed)
+ * @returns Sanitized image, or an error message for the sender
+ */
+export async function sanitizeImage(
+  base64: string
+): Promise<{ image: SanitizedImage } | { error: string }> {
+  const input = Buffer.from(base64.replace(/^data:[^,]*,/, ''), 'base64');
+
+  if (input.length === 0) {
+    return { error: 'Image is empty' };
+  }
+
+  if (input.length > MAX_ATTACHMENT_BYTES) {
+    return {
+      error: `Each image must be smaller than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)}MB`,
+    };
+  }
+
+  try {
+    const pipeline = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS });
+    const { format } = await pipeline.metadata();
+    const contentType = format ? FORMAT_TYPES[format] : undefined;
+
+    if (!contentType || !ALLOWED_ATTACHMENT_TYPES.includes(contentType)) {
+      return { error: 'Only JPEG, PNG, and WebP images are allowed' };
+    }
+
+    const resized = pipeline
+      .rotate()
+      .resize(MAX_DIMENSION, MAX_DIMENSION, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      });
+
+    // Re-encode in the original format; no withMetadata() call, so nothing
+    // from the source file's metadata survives
+    const encoded =
+      format === 'png'
+        ? resized.png()
+        : format === 'webp'
+          ? resized.webp({ quality: 85 })
+          : resized.jpeg({ quality: 85, mozjpeg: true });
+
+    const { data, info } = await encoded.toBuffer({ resolveWithObject: true });
+
+    return {
+      image: {
+        buffer: data,
+        contentType,
+        extension: format === 'jpeg' ? 'jpg' : format!,
+        width: info.width,
+        height: info.height,
+      },
+    };
+  } catch (error) {
+    console.error('Error sanitizing image:', error);
+    return { error: 'Could not read image' };
+  }
+}
@@ -0,0 +1,200 @@
+import { INBOX_CLOSED_REASONS } from "@/lib/constants/inbox-availability";
+import type {
+  InboxAvailabilitySettings,
+  InboxSchedule,
+  InboxStatus,
+} from "@/lib/types/inbox-availability.types";
+
+/**
+ * Inbox Availability Utilities
+ *
+ * Decides whether an inbox accepts messages right now. Shared by the send
+ * API (enforcement) and the public profile page (closed message), so both
+ * always agree.
+ *
+ * Schedules and the daily cap use the owner's timezone. Times are worked
+ * out on the local wall clock, so a DST change inside the next week can
+ * shift a predicted reopening time by an hour - the open/closed decision
+ * itself is always exact.
+ */
+
+const MINUTES_PER_DAY = 24 * 60;
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+/**
+ * Check whether a string is an IANA timezone the runtime knows
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Minutes since midnight for an "HH:MM" time ("24:00" = 1440)
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Weekday and minute of the day on the local wall clock of a timezone
+ */
+export function getLocalTime(
+  timezone: string,
+  now: Date = new Date()
+): { weekday: number; minuteOfDay: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+
+  const part = (type: string) =>
+    parts.find((p) => p.type === type)?.value || "";
+
+  return {
+    weekday: WEEKDAY_INDEX[part("weekday")] ?? 0,
+    minuteOfDay: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+/**
+ * A time the given number of local minutes from now (start of the minute)
+ */
+function addLocalMinutes(now: Date, minutes: number): Date {
+  const startOfMinute = Math.floor(now.getTime() / 60000) * 60000;
+  return new Date(startOfMinute + minutes * 60000);
+}
+
+/**
+ * Start of the current day in a timezone
+ */
+export function getStartOfLocalDay(timezone: string, now: Date = new Date()): Date {
+  return addLocalMinutes(now, -getLocalTime(timezone, now).minuteOfDay);
+}
+
+/**
+ * Next midnight in a timezone
+ */
+export function getNextLocalMidnight(timezone: string, now: Date = new Date()): Date {
+  return addLocalMinutes(
+    now,
+    MINUTES_PER_DAY - getLocalTime(timezone, now).minuteOfDay
+  );
+}
+
+/**
+ * Check a weekly schedule of open hours
+ * @returns Whether the inbox is inside open hours, and if not, when the
+ *          next window starts (null if the schedule has no windows)
+ */
+export function getScheduleStatus(
+  schedule: InboxSchedule,
+  timezone: string,
+  now: Date = new Date()
+): { open: boolean; reopensAt: Date | null } {
+  const { weekday, minuteOfDay } = getLocalTime(timezone, now);
+
+  const open = schedule.windows.some(
+    (window) =>
+      window.day === weekday &&
+      parseTimeOfDay(window.start) <= minuteOfDay &&
+      minuteOfDay < parseTimeOfDay(window.end)
+  );
+
+  if (open) return { open, reopensAt: null };
+
+  // Minutes until the soonest window start, looking one week ahead
+  let soonest: number | null = null;
+  for (const window of schedule.windows) {
+    const daysAhead = (window.day - weekday + 7) % 7;
+    let minutesAhead =
+      daysAhead * MINUTES_PER_DAY + parseTimeOfDay(window.start) - minuteOfDay;
+    if (minutesAhead <= 0) minutesAhead += 7 * MINUTES_PER_DAY;
+
+    if (soonest === null || minutesAhead < soonest) soonest = minutesAhead;
+  }
+
+  return {
+    open,
+    reopensAt: soonest === null ? null : addLocalMinutes(now, soonest),
+  };
+}
+
+/**
+ * Check whether the owner's manual pause is in effect
+ */
+export function isInboxPaused(
+  settings: Pick<InboxAvailabilitySettings, "inbox_paused" | "inbox_paused_until">,
+  now: Date = new Date()
+): boolean {
+  return (
+    settings.inbox_paused &&
+    (!settings.inbox_paused_until ||
+      new Date(settings.inbox_paused_until).getTime() > now.getTime())
+  );
+}
+
+/**
+ * Decide whether an inbox accepts messages right now
+ * @param settings - The owner's availability settings
+ * @param now - Current time
+ * @returns Open/closed, why, and when it reopens
+ */
+export function getInboxStatus(
+  settings: InboxAvailabilitySettings,
+  now: Date = new Date()
+): InboxStatus {
+  if (isInboxPaused(settings, now)) {
+    return {
+      open: false,
+      reason: INBOX_CLOSED_REASONS.PAUSED,
+      reopensAt: settings.inbox_paused_until,
+    };
+  }
+
+  if (
+    settings.daily_message_cap !== null &&
+    settings.inbox_cap_reached_until &&
+    new Date(settings.inbox_cap_reached_until).getTime() > now.getTime()
+  ) {
+    return {
+      open: false,
+      reason: INBOX_CLOSED_REASONS.DAILY_CAP,
+      reopensAt: settings.inbox_cap_reached_until,
+    };
+  }
+
+  if (settings.inbox_schedule) {
+    const schedule = getScheduleStatus(
+      settings.inbox_schedule,
+      settings.inbox_timezone || "UTC",
+      now
+    );
+
+    if (!schedule.open) {
+      return {
+        open: false,
+        reason: INBOX_CLOSED_REASONS.SCHEDULE,
+        reopensAt: schedule.reopensAt?.toISOString() || null,
+      };
+    }
+  }
+
+  return { open: true, reason: null, reopensAt: null };
+}
@@ -1,4 +1,11 @@
 import crypto from 'crypto';
+import {
+  RAW_IP_MODES,
+  DEFAULT_RAW_IP_MODE,
+  DEFAULT_RAW_IP_RETENTION_DAYS,
+  MAX_RAW_IP_RETENTION_DAYS,
+  type RawIPMode,
+} from '@/lib/constants/raw-ip';
 
 /**
  * GDPR/CCPA Compliant IP Hashing Utilities
@@ -135,3 +142,74 @@ export function getHashedIP(headers: Headers): string {
   const clientIP = getClientIP(headers);
   return hashIPPrivacyCompliant(clientIP);
 }
+
+/**
+ * Opaque key that groups a sender's messages for one recipient
+ *
+ * The IP hash itself never reaches the browser: an HMAC keyed with
+ * IP_SALT_SECRET can't be matched against hashes seen elsewhere, and the
+ * recipient ID in the input gives each recipient different keys for the
+ * same sender
+ *
+ * @param recipientId - UUID of the recipient viewing the messages
+ * @param ipHash - Sender IP hash stored with the message
+ * @returns 16-character hex key
+ */
+export function getSenderKey(recipientId: string, ipHash: string): string {
+  const secret = process.env.IP_SALT_SECRET || 'default-secret-change-in-production';
+
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${recipientId}:${ipHash}`)
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * How much of a sender's raw IP is stored (RAW_IP_MODE, falling back to
+ * truncated when unset or invalid)
+ *
+ * @returns Configured raw IP mode
+ */
+export function getRawIPMode(): RawIPMode {
+  const configured = process.env.RAW_IP_MODE;
+  const modes: string[] = Object.values(RAW_IP_MODES);
+
+  return configured && modes.includes(configured)
+    ? (configured as RawIPMode)
+    : DEFAULT_RAW_IP_MODE;
+}
+
+/**
+ * Days a stored raw IP is kept (RAW_IP_RETENTION_DAYS, falling back to the
+ * default when unset or invalid)
+ *
+ * @returns Retention window in days
+ */
+export function getRawIPRetentionDays(): number {
+  const configured = Number(process.env.RAW_IP_RETENTION_DAYS);
+
+  return Number.isInteger(configured) &&
+    configured >= 1 &&
+    configured <= MAX_RAW_IP_RETENTION_DAYS
+    ? configured
+    : DEFAULT_RAW_IP_RETENTION_DAYS;
+}
+
+/**
+ * The form of a sender's IP that may be stored with their message
+ *
+ * @param ip - Raw IP address from request
+ * @returns Full or truncated IP depending on RAW_IP_MODE, or null when raw
+ * IPs aren't stored
+ */
+export function getStorableIP(ip: string): string | null {
+  switch (getRawIPMode()) {
+    case RAW_IP_MODES.FULL:
+      return ip;
+    case RAW_IP_MODES.TRUNCATED:
+      return anonymizeIP(ip);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  countLeadingZeroBits,
+  getProofOfWorkInput,
+} from '@/lib/constants/proof-of-work';
+
+/**
+ * Proof-of-Work Solver
+ *
+ * Browser-side counterpart of lib/utils/proof-of-work.ts. Uses Web Crypto
+ * only, so it runs in a Web Worker (lib/workers/proof-of-work.worker.ts) or,
+ * as a fallback, on the main thread
+ */
+
+/**
+ * Finds a counter whose hash meets the difficulty
+ *
+ * @param challenge - Challenge string from /api/messages/challenge
+ * @param difficulty - Leading zero bits required
+ * @returns Solution to send with the message
+ */
+export async function solveProofOfWork(
+  challenge: string,
+  difficulty: number
+): Promise<string> {
+  const encoder = new TextEncoder();
+
+  for (let counter = 0; ; counter++) {
+    const solution = String(counter);
+    const digest = await crypto.subtle.digest(
+      'SHA-256',
+      encoder.encode(getProofOfWorkInput(challenge, solution))
+    );
+
+    if (countLeadingZeroBits(new Uint8Array(digest)) >= difficulty) {
+      return solution;
+    }
+  }
+}
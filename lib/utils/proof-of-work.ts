@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import {
+  POW_BASE_DIFFICULTY,
+  POW_CHALLENGE_TTL_MS,
+  POW_DIFFICULTY_PER_STRIKE,
+  POW_MAX_DIFFICULTY,
+  POW_MAX_SOLUTION_LENGTH,
+  countLeadingZeroBits,
+  getProofOfWorkInput,
+} from '@/lib/constants/proof-of-work';
+
+/**
+ * Proof-of-Work Challenge Utilities
+ *
+ * Anonymous senders solve a small hashcash-style puzzle before each message,
+ * which costs a real browser a moment but makes scripted flooding expensive:
+ * 1. Challenges are stateless - a random nonce, difficulty and expiry,
+ *    signed with HMAC. The signature also covers the requester's IP hash,
+ *    so a challenge only works from the IP that fetched it
+ * 2. The IP hash itself never appears in the challenge
+ * 3. Redemption is single use (the send API records each nonce in
+ *    redeemed_pow_nonces)
+ */
+
+export interface ProofOfWorkChallenge {
+  challenge: string;
+  difficulty: number;
+  expiresAt: string;
+}
+
+interface ChallengePayload {
+  /** Random nonce */
+  n: string;
+  /** Difficulty in leading zero bits */
+  d: number;
+  /** Expiry (epoch ms) */
+  e: number;
+}
+
+function getChallengeSecret(): string {
+  return process.env.POW_SECRET || 'default-secret-change-in-production';
+}
+
+function signPayload(encodedPayload: string, ipHash: string): string {
+  return crypto
+    .createHmac('sha256', getChallengeSecret())
+    .update(`${encodedPayload}.${ipHash}`)
+    .digest('base64url');
+}
+
+/**
+ * Difficulty for a sender, rising with their recent rate limit strikes
+ *
+ * @param strikes - Refused requests for the IP hash in the last hour
+ * @returns Leading zero bits required
+ */
+export function getProofOfWorkDifficulty(strikes: number): number {
+  return Math.min(
+    POW_MAX_DIFFICULTY,
+    POW_BASE_DIFFICULTY + Math.max(0, strikes) * POW_DIFFICULTY_PER_STRIKE
+  );
+}
+
+/**
+ * Issues a signed challenge
+ *
+ * @param ipHash - Requester's IP hash (bound into the signature)
+ * @param difficulty - Leading zero bits required
+ * @returns Challenge string for the client and its parameters
+ */
+export function createProofOfWorkChallenge(
+  ipHash: string,
+  difficulty: number
+): ProofOfWorkChallenge {
+  const expiresAt = Date.now() + POW_CHALLENGE_TTL_MS;
+  const payload: ChallengePayload = {
+    n: crypto.randomBytes(16).toString('base64url'),
+    d: difficulty,
+    e: expiresAt,
+  };
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return {
+    challenge: `${encodedPayload}.${signPayload(encodedPayload, ipHash)}`,
+    difficulty,
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+}
+
+/**
+ * Verifies a solved challenge: signature, expiry and the work itself. Does
+ * not check single use - the caller redeems the returned nonce
+ *
+ * @param challenge - Challenge string as issued
+ * @param solution - Counter found by the client
+ * @param ipHash - Requester's IP hash
+ * @returns The challenge nonce and expiry (epoch ms) if valid, or an error
+ *          message for the sender
+ */
+export function verifyProofOfWork(
+  challenge: string,
+  solution: string,
+  ipHash: string
+): { nonce: string; expiresAt: number } | { error: string } {
+  const [encodedPayload, signature, ...rest] = challenge.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return { error: 'Invalid verification challenge' };
+  }
+
+  const expected = Buffer.from(signPayload(encodedPayload, ipHash));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { error: 'Invalid verification challenge' };
+  }
+
+  let payload: ChallengePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return { error: 'Invalid verification challenge' };
+  }
+
+  if (typeof payload.e !== 'number' || payload.e < Date.now()) {
+    return { error: 'Verification expired. Please try again.' };
+  }
+
+  if (solution.length > POW_MAX_SOLUTION_LENGTH || !/^\d+$/.test(solution)) {
+    return { error: 'Invalid verification solution' };
+  }
+
+  const digest = crypto
+    .createHash('sha256')
+    .update(getProofOfWorkInput(challenge, solution))
+    .digest();
+
+  if (countLeadingZeroBits(digest) < payload.d) {
+    return { error: 'Invalid verification solution' };
+  }
+
+  return { nonce: payload.n, expiresAt: payload.e };
+}
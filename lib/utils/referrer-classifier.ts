@@ -201,6 +201,32 @@ export function getTopSocialPlatforms(): string[] {
   ];
 }
 
+/**
+ * Gets every platform identifier classifyReferrer can produce for a
+ * referred visit (social, search, then 'other' for any other website)
+ *
+ * @returns Array of platform identifiers
+ */
+export function getReferrerPlatforms(): string[] {
+  return Array.from(
+    new Set([
+      ...Object.values(SOCIAL_PLATFORMS),
+      ...Object.values(SEARCH_ENGINES),
+      'other',
+    ])
+  );
+}
+
+/**
+ * Gets the display name for a platform identifier
+ *
+ * @param platform - Platform identifier (e.g., 'tiktok')
+ * @returns Display-friendly name
+ */
+export function getPlatformDisplayName(platform: string): string {
+  return DISPLAY_NAMES[platform] || platform;
+}
+
 /**
  * Checks if a referrer is from a social media platform
  *
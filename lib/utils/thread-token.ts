@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+
+/**
+ * Secret Thread Token Utilities
+ *
+ * Anonymous senders get a random token when they send a message. Holding the
+ * token is the only way to open the thread, so:
+ * 1. Tokens carry 256 bits of randomness (unguessable)
+ * 2. Only a SHA-256 hash is stored - a database leak can't open threads
+ * 3. The token travels in the URL fragment (/thread#token), which browsers
+ *    never send to the server or leak through the Referer header
+ */
+
+/**
+ * Header the thread API reads the token from
+ */
+export const THREAD_TOKEN_HEADER = 'x-thread-token';
+
+/**
+ * Hashes a thread token for storage and lookup
+ *
+ * @param token - Raw thread token
+ * @returns SHA-256 hex digest
+ */
+export function hashThreadToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generates a new thread token and its hash
+ *
+ * @returns Raw token (give to the sender once) and hash (store on the message)
+ */
+export function generateThreadToken(): { token: string; hash: string } {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, hash: hashThreadToken(token) };
+}
+
+/**
+ * Checks the shape of a token before hashing it (43 base64url chars)
+ *
+ * @param token - Value from the request
+ * @returns true if it could be a token we issued
+ */
+export function isValidThreadTokenFormat(token: string | null): token is string {
+  return !!token && /^[A-Za-z0-9_-]{43}$/.test(token);
+}
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import {
+  EMAIL_UNSUBSCRIBE_KINDS,
+  type EmailUnsubscribeKind,
+} from '@/lib/constants/email-notifications';
+
+/**
+ * Email Unsubscribe Token Utilities
+ *
+ * Every notification email links to an unsubscribe page that works without
+ * signing in, so the link carries the account and what to turn off, signed
+ * with an HMAC:
+ * 1. Tokens can't be forged or pointed at another account
+ * 2. Nothing is stored - the signature is the proof
+ * 3. Tokens don't expire, so links in old emails keep working
+ */
+
+/**
+ * Secret for signing tokens (EMAIL_UNSUBSCRIBE_SECRET)
+ */
+function getUnsubscribeSecret(): string {
+  return (
+    process.env.EMAIL_UNSUBSCRIBE_SECRET ||
+    process.env.IP_SALT_SECRET ||
+    'default-secret-change-in-production'
+  );
+}
+
+function sign(payload: string): string {
+  return crypto
+    .createHmac('sha256', getUnsubscribeSecret())
+    .update(payload)
+    .digest('base64url');
+}
+
+/**
+ * Creates an unsubscribe token for an account
+ *
+ * @param userId - Account the email goes to
+ * @param kind - What the link turns off
+ * @returns URL-safe token
+ */
+export function createUnsubscribeToken(
+  userId: string,
+  kind: EmailUnsubscribeKind
+): string {
+  const payload = `${userId}.${kind}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Checks an unsubscribe token's signature
+ *
+ * @param token - Token from an unsubscribe link
+ * @returns The account and what to turn off, or null if the token is invalid
+ */
+export function verifyUnsubscribeToken(
+  token: string
+): { userId: string; kind: EmailUnsubscribeKind } | null {
+  const [userId, kind, signature, ...rest] = token.split('.');
+
+  if (!userId || !kind || !signature || rest.length > 0) {
+    return null;
+  }
+
+  if (
+    !Object.values(EMAIL_UNSUBSCRIBE_KINDS).includes(
+      kind as EmailUnsubscribeKind
+    )
+  ) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${userId}.${kind}`));
+  const actual = Buffer.from(signature);
+
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  return { userId, kind: kind as EmailUnsubscribeKind };
+}
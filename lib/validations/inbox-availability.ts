@@ -0,0 +1,70 @@
+import { z } from "zod";
+import {
+  MAX_CLOSED_MESSAGE_LENGTH,
+  MAX_DAILY_MESSAGE_CAP,
+  MAX_SCHEDULE_WINDOWS,
+} from "@/lib/constants/inbox-availability";
+import { isValidTimezone, parseTimeOfDay } from "@/lib/utils/inbox-availability";
+
+/**
+ * "HH:MM" on a 24-hour clock, plus "24:00" for the end of the day
+ */
+const timeOfDaySchema = z
+  .string()
+  .regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, "Use HH:MM (24-hour)");
+
+/**
+ * Weekly open hours
+ */
+export const inboxScheduleSchema = z.object({
+  windows: z
+    .array(
+      z
+        .object({
+          day: z.number().int().min(0).max(6),
+          start: timeOfDaySchema,
+          end: timeOfDaySchema,
+        })
+        .refine(
+          (window) => parseTimeOfDay(window.start) < parseTimeOfDay(window.end),
+          { message: "Open hours must end after they start", path: ["end"] }
+        )
+    )
+    .min(1, "Add at least one block of open hours")
+    .max(MAX_SCHEDULE_WINDOWS),
+});
+
+/**
+ * Inbox availability fields of a profile update (all optional)
+ */
+export const inboxAvailabilitySchema = z.object({
+  inbox_paused: z.boolean().optional(),
+  inbox_paused_until: z
+    .string()
+    .datetime({ offset: true })
+    .refine((value) => new Date(value).getTime() > Date.now(), {
+      message: "Pause end must be in the future",
+    })
+    .nullable()
+    .optional(),
+  inbox_schedule: inboxScheduleSchema.nullable().optional(),
+  inbox_timezone: z
+    .string()
+    .max(64)
+    .refine(isValidTimezone, { message: "Unknown timezone" })
+    .nullable()
+    .optional(),
+  inbox_closed_message: z
+    .string()
+    .trim()
+    .max(MAX_CLOSED_MESSAGE_LENGTH)
+    .nullable()
+    .optional(),
+  daily_message_cap: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_DAILY_MESSAGE_CAP)
+    .nullable()
+    .optional(),
+});
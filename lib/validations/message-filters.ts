@@ -0,0 +1,55 @@
+import { z } from "zod";
+import {
+  MESSAGE_READ_FILTERS,
+  NO_PROMPT_FILTER,
+} from "@/lib/constants/message-filters";
+import type { MessageSearchOptions } from "@/lib/db/messages";
+
+/**
+ * Message filter schema - shared by the list API (query params) and the
+ * bulk API ("select all matching filter")
+ */
+export const messageFiltersSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  status: z
+    .enum([
+      MESSAGE_READ_FILTERS.ALL,
+      MESSAGE_READ_FILTERS.UNREAD,
+      MESSAGE_READ_FILTERS.READ,
+    ])
+    .default(MESSAGE_READ_FILTERS.ALL),
+  flagged: z.enum(["0", "1"]).default("0"),
+  archived: z.enum(["0", "1"]).default("0"),
+  held: z.enum(["0", "1"]).default("0"),
+  device: z.string().max(50).optional(),
+  platform: z.string().max(50).optional(),
+  utm_source: z.string().max(100).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  prompt: z.union([z.string().uuid(), z.literal(NO_PROMPT_FILTER)]).optional(),
+  label: z.string().uuid().optional(),
+});
+
+export type MessageFilters = z.infer<typeof messageFiltersSchema>;
+
+/**
+ * Map validated filters to searchMessages options
+ */
+export function toMessageSearchOptions(
+  filters: MessageFilters
+): MessageSearchOptions {
+  return {
+    query: filters.q || undefined,
+    readFilter: filters.status,
+    flaggedOnly: filters.flagged === "1",
+    archived: filters.archived === "1",
+    held: filters.held === "1",
+    deviceType: filters.device,
+    referrerPlatform: filters.platform,
+    utmSource: filters.utm_source,
+    from: filters.from,
+    to: filters.to,
+    promptId: filters.prompt,
+    labelId: filters.label,
+  };
+}
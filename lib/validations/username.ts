@@ -26,6 +26,8 @@ export const RESERVED_USERNAMES = new Set([
   "admin",
   "user",
   "users",
+  "thread",
+  "unsubscribe",
 
   // Reserved words
   "help",
@@ -0,0 +1,65 @@
+import { z } from "zod";
+import {
+  MAX_WEBHOOK_DESCRIPTION_LENGTH,
+  MAX_WEBHOOK_URL_LENGTH,
+  WEBHOOK_EVENTS,
+  WEBHOOK_FORMATS,
+} from "@/lib/constants/webhooks";
+import { getWebhookUrlError } from "@/lib/webhooks/url";
+
+/**
+ * Endpoint URL: http(s), no credentials, not on a private network
+ */
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .max(MAX_WEBHOOK_URL_LENGTH)
+  .superRefine((value, ctx) => {
+    const error = getWebhookUrlError(value);
+    if (error) {
+      ctx.addIssue({ code: "custom", message: error });
+    }
+  });
+
+/**
+ * Subscribed events (at least one, duplicates dropped)
+ */
+const webhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENTS))
+  .min(1, "Pick at least one event")
+  .transform((events) => Array.from(new Set(events)));
+
+/**
+ * New webhook endpoint
+ */
+export const webhookCreateSchema = z.object({
+  url: webhookUrlSchema,
+  description: z
+    .string()
+    .trim()
+    .max(MAX_WEBHOOK_DESCRIPTION_LENGTH)
+    .nullable()
+    .optional(),
+  format: z.enum(WEBHOOK_FORMATS).default(WEBHOOK_FORMATS.JSON),
+  events: webhookEventsSchema,
+});
+
+/**
+ * Webhook endpoint changes (at least one field)
+ */
+export const webhookUpdateSchema = z
+  .object({
+    url: webhookUrlSchema.optional(),
+    description: z
+      .string()
+      .trim()
+      .max(MAX_WEBHOOK_DESCRIPTION_LENGTH)
+      .nullable()
+      .optional(),
+    format: z.enum(WEBHOOK_FORMATS).optional(),
+    events: webhookEventsSchema.optional(),
+    is_active: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
@@ -0,0 +1,379 @@
+/**
+ * Webhook Delivery
+ *
+ * Sends events to webhook endpoints: logs a delivery per endpoint, posts
+ * the signed (and, for Discord or Slack, formatted) payload, and schedules
+ * a retry with exponential backoff when the endpoint doesn't answer 2xx.
+ * The retry job picks up due retries; owners can replay any delivery
+ * IMPORTANT: This file should only be imported in API routes (server-side)
+ */
+
+import crypto from 'crypto';
+import {
+  claimVisitMilestone,
+  claimWebhookDelivery,
+  countProfileVisits,
+  createWebhookDeliveries,
+  findDueWebhookDeliveries,
+  getActiveWebhookSecrets,
+  getSubscribedWebhookEndpoints,
+  getWebhookEndpointById,
+  purgeOldWebhookDeliveries,
+  recordWebhookAttempt,
+  type WebhookAttemptResult,
+} from '@/lib/db/webhooks';
+import { formatWebhookPayload } from './formats';
+import { buildWebhookSignatureHeader } from './signature';
+import { resolvesToPublicAddress } from './url';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_SECONDS,
+  WEBHOOK_RETRY_BATCH_SIZE,
+  WEBHOOK_RETRY_MAX_BATCHES,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMEOUT_MS,
+  getVisitMilestone,
+  type WebhookEvent,
+  type WebhookFormat,
+} from '@/lib/constants/webhooks';
+import type {
+  WebhookDelivery,
+  WebhookEndpoint,
+} from '@/lib/types/database.types';
+import type {
+  WebhookEnvelope,
+  WebhookEventDataMap,
+  WebhookProfileData,
+} from '@/lib/types/webhooks.types';
+
+export interface WebhookRetrySummary {
+  /** Deliveries attempted */
+  attempted: number;
+  /** Attempts the endpoint accepted */
+  succeeded: number;
+  /** Deliveries out of retries */
+  failed: number;
+  /** Whether due retries were left for the next run */
+  hasMore: boolean;
+  /** Old deliveries removed from the log */
+  purged: number;
+}
+
+/** Longest response body kept in the log */
+const RESPONSE_BODY_MAX_LENGTH = 1000;
+
+/** Longest error kept in the log */
+const ERROR_MAX_LENGTH = 500;
+
+/**
+ * How long a delivery being attempted is hidden from the retry job
+ */
+function getLeaseEnd(): Date {
+  return new Date(Date.now() + WEBHOOK_TIMEOUT_MS * 3);
+}
+
+/**
+ * When to retry after a failed attempt: 1, 4, 16, 64, 256 minutes...
+ */
+function getRetryDelaySeconds(attemptCount: number): number {
+  return WEBHOOK_RETRY_BASE_SECONDS * 4 ** (attemptCount - 1);
+}
+
+export function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+/**
+ * The profile part of event data
+ *
+ * @param username - Username of the account the event is about
+ */
+export function getWebhookProfileData(username: string): WebhookProfileData {
+  return { username, url: `${getAppUrl()}/${username}` };
+}
+
+/**
+ * Post a delivery to its endpoint once and record the outcome
+ *
+ * @param delivery - Delivery to attempt (already claimed)
+ * @param endpoint - Its endpoint
+ * @returns Delivery with the attempt recorded, or null if it couldn't be saved
+ */
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint
+): Promise<WebhookDelivery | null> {
+  const envelope = delivery.payload as unknown as WebhookEnvelope;
+  const body = JSON.stringify(
+    formatWebhookPayload(endpoint.format as WebhookFormat, envelope)
+  );
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    if (!(await resolvesToPublicAddress(endpoint.url))) {
+      throw new Error('URL does not resolve to a public address');
+    }
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'NGLFS-Webhooks/1.0',
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: buildWebhookSignatureHeader(
+          getActiveWebhookSecrets(endpoint),
+          timestamp,
+          body
+        ),
+      },
+      body,
+      // A redirect could point anywhere, including the private network
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    responseStatus = response.status;
+    responseBody =
+      (await response.text().catch(() => '')).slice(0, RESPONSE_BODY_MAX_LENGTH) ||
+      null;
+
+    if (!response.ok) {
+      error = `Endpoint responded with ${response.status}`;
+    }
+  } catch (err) {
+    error = (err instanceof Error ? err.message : 'Request failed').slice(
+      0,
+      ERROR_MAX_LENGTH
+    );
+  }
+
+  const attemptCount = delivery.attempt_count + 1;
+  let result: WebhookAttemptResult;
+
+  if (!error) {
+    result = {
+      status: WEBHOOK_DELIVERY_STATUSES.SUCCEEDED,
+      attemptCount,
+      nextAttemptAt: null,
+      responseStatus,
+      responseBody,
+      error: null,
+    };
+  } else if (attemptCount >= WEBHOOK_MAX_ATTEMPTS) {
+    result = {
+      status: WEBHOOK_DELIVERY_STATUSES.FAILED,
+      attemptCount,
+      nextAttemptAt: null,
+      responseStatus,
+      responseBody,
+      error,
+    };
+  } else {
+    result = {
+      status: WEBHOOK_DELIVERY_STATUSES.PENDING,
+      attemptCount,
+      nextAttemptAt: new Date(
+        Date.now() + getRetryDelaySeconds(attemptCount) * 1000
+      ).toISOString(),
+      responseStatus,
+      responseBody,
+      error,
+    };
+  }
+
+  if (error) {
+    console.error(
+      `[Webhooks] Delivery ${delivery.id} failed (attempt ${attemptCount}):`,
+      error
+    );
+  }
+
+  return recordWebhookAttempt(delivery.id, result);
+}
+
+/**
+ * Log deliveries of an event to endpoints and attempt each right away
+ */
+async function deliverToEndpoints(
+  endpoints: WebhookEndpoint[],
+  envelope: WebhookEnvelope,
+  replayOf: string | null = null
+): Promise<(WebhookDelivery | null)[]> {
+  const deliveries = await createWebhookDeliveries(
+    endpoints.map((endpoint) => ({
+      endpoint_id: endpoint.id,
+      user_id: endpoint.user_id,
+      event_id: envelope.id,
+      event: envelope.type,
+      payload: JSON.parse(JSON.stringify(envelope)),
+      next_attempt_at: getLeaseEnd().toISOString(),
+      replay_of: replayOf,
+    }))
+  );
+
+  const endpointsById = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint]));
+
+  return Promise.all(
+    deliveries.map((delivery) =>
+      attemptDelivery(delivery, endpointsById.get(delivery.endpoint_id)!)
+    )
+  );
+}
+
+/**
+ * Send an event to every active endpoint of a user subscribed to it.
+ * Meant to run after the response (see next/server after())
+ *
+ * @param userId - Account the event belongs to
+ * @param event - Event type
+ * @param data - Event data
+ */
+export async function dispatchWebhookEvent<E extends WebhookEvent>(
+  userId: string,
+  event: E,
+  data: WebhookEventDataMap[E]
+): Promise<void> {
+  try {
+    const endpoints = await getSubscribedWebhookEndpoints(userId, event);
+    if (endpoints.length === 0) return;
+
+    await deliverToEndpoints(endpoints, {
+      id: crypto.randomUUID(),
+      type: event,
+      created_at: new Date().toISOString(),
+      data,
+    });
+  } catch (error) {
+    console.error('[Webhooks] Failed to dispatch event:', error);
+  }
+}
+
+/**
+ * Send a delivery's event to its endpoint again, as a new delivery with
+ * the same event id
+ *
+ * @param delivery - Delivery to replay (already checked to be the owner's)
+ * @returns The new delivery after its first attempt, or null on error
+ */
+export async function replayWebhookDelivery(
+  delivery: WebhookDelivery
+): Promise<WebhookDelivery | null> {
+  const endpoint = await getWebhookEndpointById(delivery.endpoint_id);
+  if (!endpoint) return null;
+
+  const [replayed] = await deliverToEndpoints(
+    [endpoint],
+    delivery.payload as unknown as WebhookEnvelope,
+    delivery.id
+  );
+
+  return replayed ?? null;
+}
+
+/**
+ * Announce a profile visit milestone, if the profile just passed one and
+ * the owner has an endpoint subscribed to milestones
+ *
+ * @param profileId - Profile that was visited
+ * @param username - Its username
+ */
+export async function announceVisitMilestone(
+  profileId: string,
+  username: string
+): Promise<void> {
+  try {
+    const endpoints = await getSubscribedWebhookEndpoints(
+      profileId,
+      WEBHOOK_EVENTS.PROFILE_VISITED_MILESTONE
+    );
+    if (endpoints.length === 0) return;
+
+    const visits = await countProfileVisits(profileId);
+    if (visits === null) return;
+
+    const milestone = getVisitMilestone(visits);
+    if (milestone === 0 || !(await claimVisitMilestone(profileId, milestone))) {
+      return;
+    }
+
+    await deliverToEndpoints(endpoints, {
+      id: crypto.randomUUID(),
+      type: WEBHOOK_EVENTS.PROFILE_VISITED_MILESTONE,
+      created_at: new Date().toISOString(),
+      data: {
+        profile: getWebhookProfileData(username),
+        milestone,
+        total_visits: visits,
+      },
+    });
+  } catch (error) {
+    console.error('[Webhooks] Failed to announce visit milestone:', error);
+  }
+}
+
+/**
+ * Retry every delivery that's due, in batches, then clear old deliveries
+ * from the log
+ * @returns What the run did
+ */
+export async function runWebhookRetries(): Promise<WebhookRetrySummary> {
+  const summary: WebhookRetrySummary = {
+    attempted: 0,
+    succeeded: 0,
+    failed: 0,
+    hasMore: false,
+    purged: 0,
+  };
+
+  for (let batch = 0; batch < WEBHOOK_RETRY_MAX_BATCHES; batch++) {
+    const due = await findDueWebhookDeliveries(WEBHOOK_RETRY_BATCH_SIZE);
+    if (!due || due.length === 0) break;
+
+    for (const delivery of due) {
+      if (!(await claimWebhookDelivery(delivery, getLeaseEnd()))) continue;
+
+      const endpoint = await getWebhookEndpointById(delivery.endpoint_id);
+      if (!endpoint) continue;
+
+      // Paused endpoints get nothing, retries included
+      if (!endpoint.is_active) {
+        await recordWebhookAttempt(delivery.id, {
+          status: WEBHOOK_DELIVERY_STATUSES.FAILED,
+          attemptCount: delivery.attempt_count,
+          nextAttemptAt: null,
+          responseStatus: delivery.response_status,
+          responseBody: delivery.response_body,
+          error: 'Endpoint was paused',
+        });
+        summary.failed++;
+        continue;
+      }
+
+      const attempted = await attemptDelivery(delivery, endpoint);
+      summary.attempted++;
+
+      if (attempted?.status === WEBHOOK_DELIVERY_STATUSES.SUCCEEDED) {
+        summary.succeeded++;
+      } else if (attempted?.status === WEBHOOK_DELIVERY_STATUSES.FAILED) {
+        summary.failed++;
+      }
+    }
+
+    const full = due.length === WEBHOOK_RETRY_BATCH_SIZE;
+    if (!full) break;
+    if (batch === WEBHOOK_RETRY_MAX_BATCHES - 1) summary.hasMore = true;
+  }
+
+  summary.purged = await purgeOldWebhookDeliveries();
+
+  return summary;
+}
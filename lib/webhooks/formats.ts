@@ -0,0 +1,185 @@
+/**
+ * Webhook Payload Formats
+ *
+ * "json" endpoints get the event envelope as is. Discord and Slack
+ * endpoints get a chat message in their incoming-webhook format, so a
+ * channel webhook URL can be pasted in with no bot in between
+ */
+
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_FORMATS,
+  type WebhookFormat,
+} from '@/lib/constants/webhooks';
+import {
+  getReportReasonText,
+  type ReportReason,
+} from '@/lib/constants/report-reasons';
+import type { WebhookEnvelope } from '@/lib/types/webhooks.types';
+
+/** Purple accent, as a Discord embed color */
+const DISCORD_EMBED_COLOR = 0x9333ea;
+
+/** Discord's limit for an embed description */
+const DISCORD_DESCRIPTION_MAX_LENGTH = 4096;
+
+interface ChatMessage {
+  title: string;
+  /** Quoted text, e.g. the message */
+  quote: string | null;
+  /** Plain line under the quote */
+  detail: string | null;
+  url: string;
+  username: string;
+}
+
+/**
+ * Title, quote and link for an event, shared by the chat formats
+ */
+function describeEvent(envelope: WebhookEnvelope): ChatMessage {
+  switch (envelope.type) {
+    case WEBHOOK_EVENTS.MESSAGE_RECEIVED: {
+      const data = envelope.data as WebhookEnvelope<'message.received'>['data'];
+      return {
+        title: 'New anonymous message',
+        quote: data.message.content,
+        detail: null,
+        url: data.message.url,
+        username: data.profile.username,
+      };
+    }
+
+    case WEBHOOK_EVENTS.MESSAGE_REPORTED: {
+      const data = envelope.data as WebhookEnvelope<'message.reported'>['data'];
+      return {
+        title: 'Message reported',
+        quote: data.message.content,
+        detail: `Reported as ${getReportReasonText(
+          data.report.reason as ReportReason
+        ).toLowerCase()}`,
+        url: data.profile.url,
+        username: data.profile.username,
+      };
+    }
+
+    case WEBHOOK_EVENTS.PROFILE_VISITED_MILESTONE: {
+      const data =
+        envelope.data as WebhookEnvelope<'profile.visited_milestone'>['data'];
+      return {
+        title: `Your profile reached ${data.milestone.toLocaleString('en-US')} visits`,
+        quote: null,
+        detail: `${data.total_visits.toLocaleString('en-US')} visits so far`,
+        url: data.profile.url,
+        username: data.profile.username,
+      };
+    }
+
+    default:
+      return {
+        title: envelope.type,
+        quote: null,
+        detail: null,
+        url: '',
+        username: '',
+      };
+  }
+}
+
+/**
+ * Discord incoming webhook message. Mentions are disabled so message text
+ * like "@everyone" can't ping the channel
+ */
+function toDiscordPayload(envelope: WebhookEnvelope): Record<string, unknown> {
+  const message = describeEvent(envelope);
+  const description = [message.quote, message.detail]
+    .filter(Boolean)
+    .join('\n\n')
+    .slice(0, DISCORD_DESCRIPTION_MAX_LENGTH);
+
+  return {
+    username: 'NGLFS',
+    allowed_mentions: { parse: [] },
+    embeds: [
+      {
+        title: message.title,
+        ...(description && { description }),
+        ...(message.url && { url: message.url }),
+        color: DISCORD_EMBED_COLOR,
+        timestamp: envelope.created_at,
+        footer: { text: `@${message.username}` },
+      },
+    ],
+  };
+}
+
+/**
+ * Escape text for Slack mrkdwn, so message text can't form links or mentions
+ */
+function escapeSlackText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Slack incoming webhook message (Block Kit, with a plain text fallback)
+ */
+function toSlackPayload(envelope: WebhookEnvelope): Record<string, unknown> {
+  const message = describeEvent(envelope);
+  const lines = [`*${escapeSlackText(message.title)}*`];
+
+  if (message.quote) {
+    lines.push(
+      escapeSlackText(message.quote)
+        .split('\n')
+        .map((line) => `>${line}`)
+        .join('\n')
+    );
+  }
+  if (message.detail) {
+    lines.push(escapeSlackText(message.detail));
+  }
+
+  return {
+    text: message.title,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: lines.join('\n') },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: message.url
+              ? `@${escapeSlackText(message.username)} · <${message.url}|Open in NGLFS>`
+              : `@${escapeSlackText(message.username)}`,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Format an event for an endpoint
+ *
+ * @param format - Endpoint payload format
+ * @param envelope - The event
+ * @returns Request body (before JSON encoding)
+ */
+export function formatWebhookPayload(
+  format: WebhookFormat,
+  envelope: WebhookEnvelope
+): unknown {
+  switch (format) {
+    case WEBHOOK_FORMATS.DISCORD:
+      return toDiscordPayload(envelope);
+    case WEBHOOK_FORMATS.SLACK:
+      return toSlackPayload(envelope);
+    default:
+      return envelope;
+  }
+}
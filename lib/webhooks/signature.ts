@@ -0,0 +1,61 @@
+/**
+ * Webhook Signatures
+ *
+ * Each delivery is signed with HMAC-SHA256 over "<timestamp>.<body>", so a
+ * receiver can check it came from us and reject old replays by timestamp.
+ * The header carries one "v1" signature per valid secret - two while a
+ * rotated-out secret is still in its grace period:
+ *
+ *   X-NGLFS-Signature: t=1700000000,v1=5257a8...,v1=9f86d0...
+ */
+
+import crypto from 'crypto';
+
+const SECRET_PREFIX = 'whsec_';
+
+/**
+ * Generates a new endpoint signing secret
+ *
+ * @returns Secret like "whsec_<43 base64url chars>"
+ */
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Signs a delivery body
+ *
+ * @param secret - Endpoint signing secret
+ * @param timestamp - Unix time in seconds, sent alongside the signature
+ * @param body - Exact request body
+ * @returns Hex HMAC-SHA256 digest
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/**
+ * Builds the signature header value
+ *
+ * @param secrets - Every secret currently valid for the endpoint
+ * @param timestamp - Unix time in seconds
+ * @param body - Exact request body
+ * @returns "t=<timestamp>,v1=<hex>[,v1=<hex>]"
+ */
+export function buildWebhookSignatureHeader(
+  secrets: string[],
+  timestamp: number,
+  body: string
+): string {
+  return [
+    `t=${timestamp}`,
+    ...secrets.map((secret) => `v1=${signWebhookPayload(secret, timestamp, body)}`),
+  ].join(',');
+}
@@ -0,0 +1,198 @@
+/**
+ * Webhook URL Safety
+ *
+ * Webhook URLs are user-supplied and fetched by the server, so they must
+ * not reach the server's own network (localhost, private ranges, cloud
+ * metadata endpoints). Checked when an endpoint is saved and again before
+ * every delivery, since DNS can change in between. Outside production,
+ * local URLs are allowed for testing against a local receiver
+ */
+
+import dns from 'dns/promises';
+import net from 'net';
+
+function allowsLocalUrls(): boolean {
+  return process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * IPv4 ranges that aren't on the public internet (RFC 6890 special-purpose
+ * registry: this network, private, shared, loopback, link-local, protocol
+ * assignments, documentation, benchmarking, multicast and reserved)
+ */
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+/**
+ * IPv6 ranges that aren't on the public internet. IPv4-compatible, mapped
+ * and translated addresses are refused outright - a public receiver has no
+ * reason to use them, and they can reach IPv4 hosts on the server's network
+ */
+const PRIVATE_IPV6_RANGES: Array<[string, number]> = [
+  ['::', 96], // Unspecified, loopback and IPv4-compatible
+  ['::ffff:0:0', 96], // IPv4-mapped
+  ['::ffff:0:0:0', 96], // IPv4-translated
+  ['64:ff9b:1::', 48], // Local-use IPv4/IPv6 translation
+  ['100::', 64], // Discard-only
+  ['2001::', 23], // IETF protocol assignments (Teredo, ORCHID, ...)
+  ['2001:db8::', 32], // Documentation
+  ['3fff::', 20], // Documentation
+  ['5f00::', 16], // Segment routing
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['fec0::', 10], // Site-local (deprecated)
+  ['ff00::', 8], // Multicast
+];
+
+// Separate lists: a BlockList also matches IPv4 addresses against its
+// ::ffff:0:0/96 rule
+const privateIPv4Addresses = new net.BlockList();
+const privateIPv6Addresses = new net.BlockList();
+
+for (const [network, prefix] of PRIVATE_IPV4_RANGES) {
+  privateIPv4Addresses.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of PRIVATE_IPV6_RANGES) {
+  privateIPv6Addresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups
+ * @param address - Valid IPv6 address without a zone id
+ */
+function getIPv6Groups(address: string): number[] {
+  let value = address.toLowerCase();
+
+  // A trailing dotted IPv4 (::ffff:127.0.0.1) is the last two groups
+  const dotted = value.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    value = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = value.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeros = Array(8 - headGroups.length - tailGroups.length).fill('0');
+
+  return [...headGroups, ...zeros, ...tailGroups].map((group) => parseInt(group, 16));
+}
+
+/**
+ * IPv4 address carried in two IPv6 groups
+ */
+function getEmbeddedIPv4(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise
+ * not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    return privateIPv4Addresses.check(address, 'ipv4');
+  }
+
+  if (net.isIPv6(address)) {
+    const unzoned = address.split('%')[0];
+    const groups = getIPv6Groups(unzoned);
+
+    // NAT64 (64:ff9b::/96) reaches the IPv4 address in its last 32 bits
+    if (
+      groups[0] === 0x64 &&
+      groups[1] === 0xff9b &&
+      groups.slice(2, 6).every((group) => group === 0)
+    ) {
+      return isPrivateAddress(getEmbeddedIPv4(groups[6], groups[7]));
+    }
+
+    // 6to4 (2002::/16) carries an IPv4 address in bits 16-47
+    if (groups[0] === 0x2002) {
+      return isPrivateAddress(getEmbeddedIPv4(groups[1], groups[2]));
+    }
+
+    return privateIPv6Addresses.check(unzoned, 'ipv6');
+  }
+
+  return true;
+}
+
+/**
+ * Checks a URL's shape: http(s) only (https in production), no embedded
+ * credentials, and no local or private host
+ *
+ * @param value - URL to check
+ * @returns Error message, or null if the URL is allowed
+ */
+export function getWebhookUrlError(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Enter a valid URL';
+  }
+
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && allowsLocalUrls())) {
+    return 'Webhook URLs must use https';
+  }
+
+  if (url.username || url.password) {
+    return "Webhook URLs can't contain a username or password";
+  }
+
+  if (allowsLocalUrls()) return null;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (
+    hostname === 'localhost' ||
+    hostname.endsWith('.localhost') ||
+    hostname.endsWith('.local') ||
+    hostname.endsWith('.internal') ||
+    (net.isIP(hostname) !== 0 && isPrivateAddress(hostname))
+  ) {
+    return 'Webhook URLs must point to a public address';
+  }
+
+  return null;
+}
+
+/**
+ * Checks that a URL's host resolves only to public addresses, right before
+ * delivering to it
+ *
+ * @param value - Webhook URL
+ * @returns Whether the URL is safe to fetch
+ */
+export async function resolvesToPublicAddress(value: string): Promise<boolean> {
+  if (getWebhookUrlError(value)) return false;
+  if (allowsLocalUrls()) return true;
+
+  const hostname = new URL(value).hostname.replace(/^\[|\]$/g, '');
+
+  try {
+    const addresses = await dns.lookup(hostname, { all: true });
+    return (
+      addresses.length > 0 &&
+      addresses.every(({ address }) => !isPrivateAddress(address))
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,17 @@
+import { solveProofOfWork } from '@/lib/utils/proof-of-work-solver';
+
+/**
+ * Proof-of-Work Web Worker
+ *
+ * Solves a challenge off the main thread so typing stays smooth while the
+ * message form prepares its proof.
+ *
+ * Receives: { challenge: string, difficulty: number }
+ * Posts:    { solution: string }
+ */
+
+self.onmessage = async (event: MessageEvent<{ challenge: string; difficulty: number }>) => {
+  const { challenge, difficulty } = event.data;
+  const solution = await solveProofOfWork(challenge, difficulty);
+  self.postMessage({ solution });
+};
@@ -39,7 +39,12 @@ export async function proxy(request: NextRequest) {
   const pathname = request.nextUrl.pathname;
 
   // Protected routes that require authentication
-  const protectedRoutes = ["/dashboard", "/onboarding", "/settings"];
+  const protectedRoutes = [
+    "/dashboard",
+    "/onboarding",
+    "/settings",
+    "/restore-account",
+  ];
   const isProtectedRoute = protectedRoutes.some((route) =>
     pathname.startsWith(route)
   );
@@ -55,12 +60,35 @@ export async function proxy(request: NextRequest) {
     return NextResponse.redirect(redirectUrl);
   }
 
+  // Admin console and API are for platform admins only
+  const isAdminApiRoute = pathname.startsWith("/api/admin");
+  if (pathname.startsWith("/dashboard/admin") || isAdminApiRoute) {
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized - Please log in" },
+        { status: 401 }
+      );
+    }
+
+    const { data: admin } = await supabase
+      .from("platform_admins")
+      .select("user_id")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!admin) {
+      return isAdminApiRoute
+        ? NextResponse.json({ error: "Forbidden" }, { status: 403 })
+        : NextResponse.redirect(new URL("/dashboard", request.url));
+    }
+  }
+
   // If user is authenticated and trying to access auth routes
   if (user && isAuthRoute) {
     // Check if user has a profile by querying the database
     const { data: profile } = await supabase
       .from("profiles")
-      .select("username")
+      .select("username, is_active")
       .eq("id", user.id)
       .single();
 
@@ -68,6 +96,9 @@ export async function proxy(request: NextRequest) {
     if (!profile) {
       return NextResponse.redirect(new URL("/onboarding", request.url));
     }
+    if (!profile.is_active) {
+      return NextResponse.redirect(new URL("/restore-account", request.url));
+    }
     return NextResponse.redirect(new URL("/dashboard", request.url));
   }
 
@@ -75,7 +106,7 @@ export async function proxy(request: NextRequest) {
   if (user && pathname.startsWith("/dashboard")) {
     const { data: profile } = await supabase
       .from("profiles")
-      .select("username")
+      .select("username, is_active")
       .eq("id", user.id)
       .single();
 
@@ -83,6 +114,11 @@ export async function proxy(request: NextRequest) {
     if (!profile) {
       return NextResponse.redirect(new URL("/onboarding", request.url));
     }
+
+    // Accounts pending deletion can only be restored
+    if (!profile.is_active) {
+      return NextResponse.redirect(new URL("/restore-account", request.url));
+    }
   }
 
   // If user is authenticated, has profile, and trying to access onboarding
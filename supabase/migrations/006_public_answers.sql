@@ -0,0 +1,127 @@
+-- Public Answers Migration
+-- Lets profile owners answer a received message and publish the
+-- question + answer pair to the public Q&A wall on /[username]
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. CREATE public_answers TABLE
+-- ============================================================================
+
+-- The question text is copied from the message when the answer is first saved.
+-- Public pages read only from this table, so anonymous visitors never need
+-- SELECT access to messages (and its sender tracking columns).
+CREATE TABLE IF NOT EXISTS public.public_answers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    is_published BOOLEAN DEFAULT false NOT NULL,
+    published_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT question_length CHECK (char_length(question) <= 500),
+    CONSTRAINT answer_not_empty CHECK (char_length(trim(answer)) > 0),
+    CONSTRAINT answer_length CHECK (char_length(answer) <= 1000),
+
+    -- One answer per message
+    UNIQUE(message_id)
+);
+
+-- Indexes for public_answers
+CREATE INDEX IF NOT EXISTS idx_public_answers_profile_published
+    ON public.public_answers(profile_id, published_at DESC)
+    WHERE is_published = true;
+CREATE INDEX IF NOT EXISTS idx_public_answers_profile_id ON public.public_answers(profile_id);
+
+-- Comments
+COMMENT ON TABLE public.public_answers IS 'Owner answers to received messages, optionally published on the public profile';
+COMMENT ON COLUMN public.public_answers.question IS 'Snapshot of the message content at the time it was answered';
+COMMENT ON COLUMN public.public_answers.is_published IS 'Whether the pair is visible on the public Q&A wall';
+COMMENT ON COLUMN public.public_answers.published_at IS 'When the pair was (last) published - used for ordering the wall';
+
+-- ============================================================================
+-- 2. TRIGGERS
+-- ============================================================================
+
+-- Keep updated_at current (reuses function from initial schema)
+DROP TRIGGER IF EXISTS update_public_answers_updated_at ON public.public_answers;
+CREATE TRIGGER update_public_answers_updated_at
+    BEFORE UPDATE ON public.public_answers
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.public_answers ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read published answers of active profiles
+CREATE POLICY "Published answers are viewable by everyone"
+    ON public.public_answers
+    FOR SELECT
+    USING (
+        is_published = true
+        AND EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = public_answers.profile_id
+            AND profiles.is_active = true
+        )
+    );
+
+-- Owners can view all of their answers (including drafts)
+CREATE POLICY "Users can view their own answers"
+    ON public.public_answers
+    FOR SELECT
+    USING (auth.uid() = profile_id);
+
+-- Owners can only answer messages they received
+CREATE POLICY "Users can answer their own messages"
+    ON public.public_answers
+    FOR INSERT
+    WITH CHECK (
+        auth.uid() = profile_id
+        AND EXISTS (
+            SELECT 1 FROM public.messages
+            WHERE messages.id = public_answers.message_id
+            AND messages.recipient_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update their own answers"
+    ON public.public_answers
+    FOR UPDATE
+    USING (auth.uid() = profile_id)
+    WITH CHECK (auth.uid() = profile_id);
+
+CREATE POLICY "Users can delete their own answers"
+    ON public.public_answers
+    FOR DELETE
+    USING (auth.uid() = profile_id);
+
+-- ============================================================================
+-- 4. CLOSE PUBLIC READ ACCESS TO messages
+-- ============================================================================
+
+-- allow_anon_select (FIX_ANONYMOUS_MESSAGE_SELECT.sql) let anyone read every
+-- message row, tracking columns included. Public pages read answers from
+-- the table above, and the send API doesn't read the row back as anon
+DROP POLICY IF EXISTS "allow_anon_select" ON public.messages;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Public Answers Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Table Created: public_answers';
+  RAISE NOTICE 'RLS: anon can read published pairs only, owners manage their own';
+  RAISE NOTICE 'Policy Dropped: allow_anon_select on messages';
+  RAISE NOTICE '==========================================================';
+END $$;
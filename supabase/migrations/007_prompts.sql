@@ -0,0 +1,111 @@
+-- Profile Prompts Migration
+-- Owner-defined prompts ("rate my outfit", "confess something") shown above
+-- the message form on /[username]; each message records the prompt it answers
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. CREATE prompts TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.prompts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    text TEXT NOT NULL,
+    position INTEGER DEFAULT 0 NOT NULL,
+    is_active BOOLEAN DEFAULT true NOT NULL,
+    retired_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT prompt_text_not_empty CHECK (char_length(trim(text)) > 0),
+    CONSTRAINT prompt_text_length CHECK (char_length(text) <= 100),
+    CONSTRAINT prompt_position_positive CHECK (position >= 0)
+);
+
+-- Indexes for prompts
+CREATE INDEX IF NOT EXISTS idx_prompts_profile_position
+    ON public.prompts(profile_id, position);
+CREATE INDEX IF NOT EXISTS idx_prompts_profile_active
+    ON public.prompts(profile_id, position)
+    WHERE is_active = true;
+
+-- Comments
+COMMENT ON TABLE public.prompts IS 'Owner-defined prompts that senders answer on the public profile';
+COMMENT ON COLUMN public.prompts.position IS 'Display order (lowest first); the first active prompt is shown by default';
+COMMENT ON COLUMN public.prompts.is_active IS 'False once the prompt has been retired - kept so old messages stay grouped';
+COMMENT ON COLUMN public.prompts.retired_at IS 'When the prompt was retired';
+
+-- Keep updated_at current (reuses function from initial schema)
+DROP TRIGGER IF EXISTS update_prompts_updated_at ON public.prompts;
+CREATE TRIGGER update_prompts_updated_at
+    BEFORE UPDATE ON public.prompts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. ADD prompt_id TO messages
+-- ============================================================================
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS prompt_id UUID REFERENCES public.prompts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_prompt_id
+    ON messages(recipient_id, prompt_id, created_at DESC);
+
+COMMENT ON COLUMN messages.prompt_id IS 'Prompt the sender was answering (null for free-form messages)';
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.prompts ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read active prompts of active profiles (public profile page)
+CREATE POLICY "Active prompts are viewable by everyone"
+    ON public.prompts
+    FOR SELECT
+    USING (
+        is_active = true
+        AND EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = prompts.profile_id
+            AND profiles.is_active = true
+        )
+    );
+
+-- Owners can view all of their prompts (including retired)
+CREATE POLICY "Users can view their own prompts"
+    ON public.prompts
+    FOR SELECT
+    USING (auth.uid() = profile_id);
+
+CREATE POLICY "Users can insert their own prompts"
+    ON public.prompts
+    FOR INSERT
+    WITH CHECK (auth.uid() = profile_id);
+
+CREATE POLICY "Users can update their own prompts"
+    ON public.prompts
+    FOR UPDATE
+    USING (auth.uid() = profile_id)
+    WITH CHECK (auth.uid() = profile_id);
+
+CREATE POLICY "Users can delete their own prompts"
+    ON public.prompts
+    FOR DELETE
+    USING (auth.uid() = profile_id);
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Profile Prompts Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Table Created: prompts';
+  RAISE NOTICE 'Column Added: messages.prompt_id (UUID, nullable)';
+  RAISE NOTICE '==========================================================';
+END $$;
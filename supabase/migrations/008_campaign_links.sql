@@ -0,0 +1,129 @@
+-- Campaign Links Migration
+-- Named sub-links (/[username]/q/[slug]) that carry their own prompt,
+-- open/closed state and expiry; visits and messages record the link they came through
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. CREATE campaign_links TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.campaign_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    slug TEXT NOT NULL,
+    name TEXT NOT NULL,
+    prompt TEXT,
+    is_open BOOLEAN DEFAULT true NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT campaign_link_slug_format CHECK (slug ~ '^[a-z0-9][a-z0-9-]{0,39}$'),
+    CONSTRAINT campaign_link_name_not_empty CHECK (char_length(trim(name)) > 0),
+    CONSTRAINT campaign_link_name_length CHECK (char_length(name) <= 50),
+    CONSTRAINT campaign_link_prompt_length CHECK (prompt IS NULL OR char_length(prompt) <= 100),
+    CONSTRAINT campaign_link_unique_slug UNIQUE (profile_id, slug)
+);
+
+-- Indexes for campaign_links
+CREATE INDEX IF NOT EXISTS idx_campaign_links_profile_created
+    ON public.campaign_links(profile_id, created_at DESC);
+
+-- Comments
+COMMENT ON TABLE public.campaign_links IS 'Named inbox links shared in specific stories or posts for per-link attribution';
+COMMENT ON COLUMN public.campaign_links.slug IS 'URL segment in /[username]/q/[slug], unique per profile';
+COMMENT ON COLUMN public.campaign_links.prompt IS 'Prompt shown above the message form on this link (null for none)';
+COMMENT ON COLUMN public.campaign_links.is_open IS 'False once the owner closes the link - it stops accepting messages';
+COMMENT ON COLUMN public.campaign_links.expires_at IS 'Link stops accepting messages after this time (null for never)';
+
+-- Keep updated_at current (reuses function from initial schema)
+DROP TRIGGER IF EXISTS update_campaign_links_updated_at ON public.campaign_links;
+CREATE TRIGGER update_campaign_links_updated_at
+    BEFORE UPDATE ON public.campaign_links
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. ADD link_id TO link_visits AND messages
+-- ============================================================================
+
+ALTER TABLE link_visits
+ADD COLUMN IF NOT EXISTS link_id UUID REFERENCES public.campaign_links(id) ON DELETE SET NULL;
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS link_id UUID REFERENCES public.campaign_links(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_link_visits_link_id
+    ON link_visits(profile_id, link_id);
+CREATE INDEX IF NOT EXISTS idx_messages_link_id
+    ON messages(recipient_id, link_id);
+
+COMMENT ON COLUMN link_visits.link_id IS 'Campaign link the visit came through (null for the main profile URL)';
+COMMENT ON COLUMN messages.link_id IS 'Campaign link the message was sent through (null for the main profile URL)';
+
+-- De-duplicate visits per link rather than per profile, so opening a campaign
+-- link after the main profile within the same hour still counts for the link
+DROP INDEX IF EXISTS public.idx_visits_unique_hourly;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_visits_unique_hourly
+    ON public.link_visits(
+        profile_id,
+        visitor_ip_hash,
+        created_at_hour,
+        COALESCE(link_id, '00000000-0000-0000-0000-000000000000'::uuid)
+    );
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.campaign_links ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read links of active profiles (closed links render a closed state)
+CREATE POLICY "Campaign links are viewable by everyone"
+    ON public.campaign_links
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = campaign_links.profile_id
+            AND profiles.is_active = true
+        )
+    );
+
+CREATE POLICY "Users can view their own campaign links"
+    ON public.campaign_links
+    FOR SELECT
+    USING (auth.uid() = profile_id);
+
+CREATE POLICY "Users can insert their own campaign links"
+    ON public.campaign_links
+    FOR INSERT
+    WITH CHECK (auth.uid() = profile_id);
+
+CREATE POLICY "Users can update their own campaign links"
+    ON public.campaign_links
+    FOR UPDATE
+    USING (auth.uid() = profile_id)
+    WITH CHECK (auth.uid() = profile_id);
+
+CREATE POLICY "Users can delete their own campaign links"
+    ON public.campaign_links
+    FOR DELETE
+    USING (auth.uid() = profile_id);
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Campaign Links Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Table Created: campaign_links';
+  RAISE NOTICE 'Column Added: link_visits.link_id (UUID, nullable)';
+  RAISE NOTICE 'Column Added: messages.link_id (UUID, nullable)';
+  RAISE NOTICE 'Index Rebuilt: idx_visits_unique_hourly (now per link)';
+  RAISE NOTICE '==========================================================';
+END $$;
@@ -0,0 +1,102 @@
+-- Message Threads Migration
+-- Private two-way threads between a recipient and an anonymous sender.
+-- The sender receives a secret thread token when sending; only its SHA-256
+-- hash is stored, and the thread API verifies it server-side
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. ADD thread_token_hash TO messages
+-- ============================================================================
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS thread_token_hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_thread_token_hash
+    ON messages(thread_token_hash)
+    WHERE thread_token_hash IS NOT NULL;
+
+COMMENT ON COLUMN messages.thread_token_hash IS 'SHA-256 hash of the sender''s secret thread token (the token itself is never stored)';
+
+-- ============================================================================
+-- 2. CREATE message_replies TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.message_replies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    author TEXT NOT NULL,
+    content TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT reply_author_valid CHECK (author IN ('recipient', 'sender')),
+    CONSTRAINT reply_content_not_empty CHECK (char_length(trim(content)) > 0),
+    CONSTRAINT reply_content_length CHECK (char_length(content) <= 1000)
+);
+
+-- Indexes for message_replies
+CREATE INDEX IF NOT EXISTS idx_message_replies_message_created
+    ON public.message_replies(message_id, created_at);
+
+-- Comments
+COMMENT ON TABLE public.message_replies IS 'Private follow-ups on a message between the recipient and the anonymous sender';
+COMMENT ON COLUMN public.message_replies.author IS 'Who wrote the reply: recipient (profile owner) or sender (thread token holder)';
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.message_replies ENABLE ROW LEVEL SECURITY;
+
+-- Recipients can read the whole thread on their own messages
+CREATE POLICY "Users can view replies on their own messages"
+    ON public.message_replies
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.messages
+            WHERE messages.id = message_replies.message_id
+            AND messages.recipient_id = auth.uid()
+        )
+    );
+
+-- Recipients can only reply as the recipient
+CREATE POLICY "Users can reply to their own messages"
+    ON public.message_replies
+    FOR INSERT
+    WITH CHECK (
+        author = 'recipient'
+        AND EXISTS (
+            SELECT 1 FROM public.messages
+            WHERE messages.id = message_replies.message_id
+            AND messages.recipient_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can delete replies on their own messages"
+    ON public.message_replies
+    FOR DELETE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.messages
+            WHERE messages.id = message_replies.message_id
+            AND messages.recipient_id = auth.uid()
+        )
+    );
+
+-- Sender access has no policy: the thread API verifies the token hash and
+-- uses the service role, so anonymous clients can never list threads
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Message Threads Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Table Created: message_replies';
+  RAISE NOTICE 'Column Added: messages.thread_token_hash (TEXT, nullable)';
+  RAISE NOTICE '==========================================================';
+END $$;
@@ -0,0 +1,95 @@
+-- Message Search Migration
+-- Full-text search, filter indexes and keyset pagination support for
+-- GET /api/messages/list (previously returned every message unfiltered)
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. FULL-TEXT SEARCH ON CONTENT
+-- ============================================================================
+
+-- 'simple' config: no stemming or stop words - messages are short, informal
+-- and multilingual, so exact-word (and prefix) matching works best
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS content_search TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('simple', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_content_search
+    ON messages USING GIN(content_search);
+
+COMMENT ON COLUMN messages.content_search IS 'Generated full-text search vector over content (simple config)';
+
+-- ============================================================================
+-- 2. KEYSET PAGINATION INDEXES
+-- ============================================================================
+
+-- Cursor is (created_at, id); id breaks ties between same-timestamp messages
+CREATE INDEX IF NOT EXISTS idx_messages_recipient_cursor
+    ON messages(recipient_id, created_at DESC, id DESC);
+
+-- ============================================================================
+-- 3. FILTER INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_messages_recipient_read_cursor
+    ON messages(recipient_id, is_read, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_messages_recipient_flagged_cursor
+    ON messages(recipient_id, created_at DESC, id DESC)
+    WHERE is_flagged = true;
+
+CREATE INDEX IF NOT EXISTS idx_messages_recipient_device
+    ON messages(recipient_id, sender_device_type, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_messages_recipient_referrer_platform
+    ON messages(recipient_id, sender_referrer_platform, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_messages_recipient_utm_source
+    ON messages(recipient_id, sender_utm_source, created_at DESC)
+    WHERE sender_utm_source IS NOT NULL;
+
+-- ============================================================================
+-- 4. FILTER OPTIONS FUNCTION
+-- ============================================================================
+
+-- Function: Distinct filter values (with counts) for a recipient's messages
+-- Runs as the caller, so RLS limits it to the caller's own messages
+CREATE OR REPLACE FUNCTION get_message_filter_options(
+  recipient_user_id UUID
+)
+RETURNS TABLE (
+  field TEXT,
+  value TEXT,
+  message_count BIGINT
+) AS $$
+  SELECT 'device_type', sender_device_type, COUNT(*)
+  FROM messages
+  WHERE recipient_id = recipient_user_id AND sender_device_type IS NOT NULL
+  GROUP BY sender_device_type
+  UNION ALL
+  SELECT 'referrer_platform', sender_referrer_platform, COUNT(*)
+  FROM messages
+  WHERE recipient_id = recipient_user_id AND sender_referrer_platform IS NOT NULL
+  GROUP BY sender_referrer_platform
+  UNION ALL
+  SELECT 'utm_source', sender_utm_source, COUNT(*)
+  FROM messages
+  WHERE recipient_id = recipient_user_id AND sender_utm_source IS NOT NULL
+  GROUP BY sender_utm_source
+  ORDER BY 1, 3 DESC;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Message Search Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Column Added: messages.content_search (TSVECTOR, generated)';
+  RAISE NOTICE 'Indexes Created: content search (GIN), cursor, read, flagged,';
+  RAISE NOTICE '                 device, referrer platform, UTM source';
+  RAISE NOTICE 'Function Created: get_message_filter_options()';
+  RAISE NOTICE '==========================================================';
+END $$;
@@ -0,0 +1,37 @@
+-- Message Archive Migration
+-- Adds an archived state so recipients can clear their inbox (individually or
+-- in bulk) without deleting messages
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. ADD ARCHIVE COLUMNS TO messages
+-- ============================================================================
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS is_archived BOOLEAN DEFAULT false NOT NULL,
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN messages.is_archived IS 'Hidden from the inbox but kept (shown in the archive view)';
+COMMENT ON COLUMN messages.archived_at IS 'When the message was archived';
+
+-- ============================================================================
+-- 2. INDEXES
+-- ============================================================================
+
+-- Inbox and archive views both page by (created_at, id)
+CREATE INDEX IF NOT EXISTS idx_messages_recipient_archived_cursor
+    ON messages(recipient_id, is_archived, created_at DESC, id DESC);
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Message Archive Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Column Added: messages.is_archived (BOOLEAN, default false)';
+  RAISE NOTICE 'Column Added: messages.archived_at (TIMESTAMPTZ, nullable)';
+  RAISE NOTICE '==========================================================';
+END $$;
@@ -0,0 +1,175 @@
+-- Message Labels Migration
+-- User-created colored labels for received messages. A message can carry
+-- several labels; labels and assignments are only visible to the recipient
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. CREATE message_labels TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.message_labels (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    color TEXT NOT NULL DEFAULT 'purple',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT label_name_not_empty CHECK (char_length(trim(name)) > 0),
+    CONSTRAINT label_name_length CHECK (char_length(name) <= 30),
+    CONSTRAINT label_color_valid CHECK (
+        color IN ('purple', 'pink', 'red', 'orange', 'yellow', 'green', 'blue', 'gray')
+    )
+);
+
+-- Label names are unique per user, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_labels_user_name
+    ON public.message_labels(user_id, lower(name));
+
+-- Trigger for updated_at
+CREATE TRIGGER update_message_labels_updated_at
+    BEFORE UPDATE ON public.message_labels
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments
+COMMENT ON TABLE public.message_labels IS 'Recipient-defined labels for organizing received messages';
+COMMENT ON COLUMN public.message_labels.color IS 'Color key from the label palette (purple, pink, red, orange, yellow, green, blue, gray)';
+
+-- ============================================================================
+-- 2. CREATE message_label_assignments TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.message_label_assignments (
+    message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    label_id UUID NOT NULL REFERENCES public.message_labels(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    PRIMARY KEY (message_id, label_id)
+);
+
+-- Label filter and label counts look up by label
+CREATE INDEX IF NOT EXISTS idx_message_label_assignments_label
+    ON public.message_label_assignments(label_id, message_id);
+
+-- Comments
+COMMENT ON TABLE public.message_label_assignments IS 'Labels applied to messages (many-to-many)';
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.message_labels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_label_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own labels"
+    ON public.message_labels
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own labels"
+    ON public.message_labels
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own labels"
+    ON public.message_labels
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own labels"
+    ON public.message_labels
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Assignments: both the message and the label must belong to the caller
+CREATE POLICY "Users can view labels on their own messages"
+    ON public.message_label_assignments
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.messages
+            WHERE messages.id = message_label_assignments.message_id
+            AND messages.recipient_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can label their own messages"
+    ON public.message_label_assignments
+    FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.messages
+            WHERE messages.id = message_label_assignments.message_id
+            AND messages.recipient_id = auth.uid()
+        )
+        AND EXISTS (
+            SELECT 1 FROM public.message_labels
+            WHERE message_labels.id = message_label_assignments.label_id
+            AND message_labels.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can unlabel their own messages"
+    ON public.message_label_assignments
+    FOR DELETE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.messages
+            WHERE messages.id = message_label_assignments.message_id
+            AND messages.recipient_id = auth.uid()
+        )
+    );
+
+-- ============================================================================
+-- 4. FOLDER AND LABEL COUNTS FUNCTION
+-- ============================================================================
+
+-- Function: Message and unread counts per folder (inbox, archived) and label
+-- Runs as the caller, so RLS limits it to the caller's own messages
+CREATE OR REPLACE FUNCTION get_message_folder_counts(
+  recipient_user_id UUID
+)
+RETURNS TABLE (
+  folder TEXT,
+  label_id UUID,
+  message_count BIGINT,
+  unread_count BIGINT
+) AS $$
+  SELECT
+    CASE WHEN is_archived THEN 'archived' ELSE 'inbox' END,
+    NULL::UUID,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE NOT is_read)
+  FROM messages
+  WHERE recipient_id = recipient_user_id
+  GROUP BY is_archived
+  UNION ALL
+  SELECT
+    'label',
+    l.id,
+    COUNT(m.id),
+    COUNT(m.id) FILTER (WHERE NOT m.is_read)
+  FROM message_labels l
+  LEFT JOIN message_label_assignments a ON a.label_id = l.id
+  LEFT JOIN messages m ON m.id = a.message_id
+  WHERE l.user_id = recipient_user_id
+  GROUP BY l.id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Message Labels Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Tables Created: message_labels, message_label_assignments';
+  RAISE NOTICE 'RLS Policies: Recipient-only access to labels and assignments';
+  RAISE NOTICE 'Function Created: get_message_folder_counts()';
+  RAISE NOTICE '==========================================================';
+END $$;
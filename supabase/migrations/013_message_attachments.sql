@@ -0,0 +1,109 @@
+-- Message Attachments Migration
+-- Lets senders attach images to anonymous messages when the recipient opts
+-- in. Images are re-encoded server-side (EXIF and other metadata stripped)
+-- and stored in a private bucket; recipients view them via signed URLs
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. ADD OPT-IN SETTING TO profiles
+-- ============================================================================
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS allow_image_attachments BOOLEAN DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN profiles.allow_image_attachments IS 'Whether senders may attach images to messages (off by default)';
+
+-- ============================================================================
+-- 2. CREATE message_attachments TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.message_attachments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    storage_path TEXT NOT NULL UNIQUE,
+    content_type TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    width INTEGER,
+    height INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT attachment_content_type_valid CHECK (
+        content_type IN ('image/jpeg', 'image/png', 'image/webp')
+    ),
+    CONSTRAINT attachment_size_positive CHECK (size_bytes > 0)
+);
+
+-- Indexes for message_attachments
+CREATE INDEX IF NOT EXISTS idx_message_attachments_message
+    ON public.message_attachments(message_id);
+
+-- Comments
+COMMENT ON TABLE public.message_attachments IS 'Images attached to messages (files live in the private message-attachments bucket)';
+COMMENT ON COLUMN public.message_attachments.storage_path IS 'Object path: <recipient_id>/<message_id>/<uuid>.<ext>';
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.message_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Only the recipient can see attachment records; senders upload through the
+-- send API, which writes with the service role
+CREATE POLICY "Users can view attachments on their own messages"
+    ON public.message_attachments
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.messages
+            WHERE messages.id = message_attachments.message_id
+            AND messages.recipient_id = auth.uid()
+        )
+    );
+
+-- ============================================================================
+-- 4. PRIVATE STORAGE BUCKET
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'message-attachments',
+    'message-attachments',
+    false,
+    5242880, -- 5MB
+    ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Recipients can read (sign URLs for) and delete files in their own folder
+CREATE POLICY "Users can view their own message attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'message-attachments' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own message attachments"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'message-attachments' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Message Attachments Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Column Added: profiles.allow_image_attachments (BOOLEAN)';
+  RAISE NOTICE 'Table Created: message_attachments';
+  RAISE NOTICE 'Bucket Created: message-attachments (private)';
+  RAISE NOTICE 'RLS Policies: Recipient-only access to attachments';
+  RAISE NOTICE '==========================================================';
+END $$;
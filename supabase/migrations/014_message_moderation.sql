@@ -0,0 +1,91 @@
+-- Message Moderation Migration
+-- Records the moderation verdict and matched rules on each message. Messages
+-- the pipeline rejects are never stored; held messages are kept out of the
+-- inbox until the recipient releases them
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. ADD MODERATION COLUMNS TO messages
+-- ============================================================================
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS moderation_verdict TEXT DEFAULT 'deliver' NOT NULL,
+ADD COLUMN IF NOT EXISTS moderation_matches JSONB DEFAULT '[]'::jsonb NOT NULL,
+ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE messages
+DROP CONSTRAINT IF EXISTS messages_moderation_verdict_valid;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_moderation_verdict_valid CHECK (
+    moderation_verdict IN ('deliver', 'hold')
+);
+
+COMMENT ON COLUMN messages.moderation_verdict IS 'deliver (in the inbox) or hold (awaiting review) - rejected messages are never stored';
+COMMENT ON COLUMN messages.moderation_matches IS 'Rules that matched: [{checker, rule, verdict, excerpt?}]';
+COMMENT ON COLUMN messages.moderated_at IS 'When the pipeline ran, or when a held message was released';
+
+-- ============================================================================
+-- 2. INDEXES
+-- ============================================================================
+
+-- Held messages are listed separately from the inbox and archive
+CREATE INDEX IF NOT EXISTS idx_messages_recipient_held
+    ON messages(recipient_id, created_at DESC, id DESC)
+    WHERE moderation_verdict = 'hold';
+
+-- ============================================================================
+-- 3. FOLDER COUNTS
+-- ============================================================================
+
+-- Held messages get their own folder and no longer count towards the inbox
+-- or archive
+CREATE OR REPLACE FUNCTION get_message_folder_counts(
+  recipient_user_id UUID
+)
+RETURNS TABLE (
+  folder TEXT,
+  label_id UUID,
+  message_count BIGINT,
+  unread_count BIGINT
+) AS $$
+  SELECT
+    CASE
+      WHEN moderation_verdict = 'hold' THEN 'held'
+      WHEN is_archived THEN 'archived'
+      ELSE 'inbox'
+    END,
+    NULL::UUID,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE NOT is_read)
+  FROM messages
+  WHERE recipient_id = recipient_user_id
+  GROUP BY 1
+  UNION ALL
+  SELECT
+    'label',
+    l.id,
+    COUNT(m.id),
+    COUNT(m.id) FILTER (WHERE NOT m.is_read)
+  FROM message_labels l
+  LEFT JOIN message_label_assignments a ON a.label_id = l.id
+  LEFT JOIN messages m ON m.id = a.message_id AND m.moderation_verdict = 'deliver'
+  WHERE l.user_id = recipient_user_id
+  GROUP BY l.id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Message Moderation Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Column Added: messages.moderation_verdict (TEXT, default deliver)';
+  RAISE NOTICE 'Column Added: messages.moderation_matches (JSONB, default [])';
+  RAISE NOTICE 'Column Added: messages.moderated_at (TIMESTAMPTZ, nullable)';
+  RAISE NOTICE 'Function Updated: get_message_folder_counts() (adds held folder)';
+  RAISE NOTICE '==========================================================';
+END $$;
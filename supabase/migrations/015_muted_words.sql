@@ -0,0 +1,111 @@
+-- Muted Words Migration
+-- Recipient-defined words and phrases that route matching messages into the
+-- Filtered folder (moderation_verdict = 'hold') at send time. Filtered
+-- messages don't count as unread and don't trigger notifications
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. CREATE muted_words TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.muted_words (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    phrase TEXT NOT NULL,
+    whole_word BOOLEAN DEFAULT true NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT muted_word_phrase_not_empty CHECK (char_length(trim(phrase)) > 0),
+    CONSTRAINT muted_word_phrase_length CHECK (char_length(phrase) <= 100)
+);
+
+-- Phrases are unique per user, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_muted_words_user_phrase
+    ON public.muted_words(user_id, lower(phrase));
+
+-- Comments
+COMMENT ON TABLE public.muted_words IS 'Words and phrases a recipient has muted - matching messages go to the Filtered folder';
+COMMENT ON COLUMN public.muted_words.phrase IS 'Word or phrase; * matches any run of letters or digits (e.g. idiot*)';
+COMMENT ON COLUMN public.muted_words.whole_word IS 'Only match whole words (false matches anywhere, e.g. inside longer words)';
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.muted_words ENABLE ROW LEVEL SECURITY;
+
+-- Owner-only; the send API reads a recipient's list with the service role
+CREATE POLICY "Users can view their own muted words"
+    ON public.muted_words
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own muted words"
+    ON public.muted_words
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own muted words"
+    ON public.muted_words
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- 3. FOLDER COUNTS
+-- ============================================================================
+
+-- Filtered (held) messages never count as unread
+CREATE OR REPLACE FUNCTION get_message_folder_counts(
+  recipient_user_id UUID
+)
+RETURNS TABLE (
+  folder TEXT,
+  label_id UUID,
+  message_count BIGINT,
+  unread_count BIGINT
+) AS $$
+  SELECT
+    CASE
+      WHEN moderation_verdict = 'hold' THEN 'held'
+      WHEN is_archived THEN 'archived'
+      ELSE 'inbox'
+    END,
+    NULL::UUID,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE NOT is_read AND moderation_verdict = 'deliver')
+  FROM messages
+  WHERE recipient_id = recipient_user_id
+  GROUP BY 1
+  UNION ALL
+  SELECT
+    'label',
+    l.id,
+    COUNT(m.id),
+    COUNT(m.id) FILTER (WHERE NOT m.is_read)
+  FROM message_labels l
+  LEFT JOIN message_label_assignments a ON a.label_id = l.id
+  LEFT JOIN messages m ON m.id = a.message_id AND m.moderation_verdict = 'deliver'
+  WHERE l.user_id = recipient_user_id
+  GROUP BY l.id;
+$$ LANGUAGE sql STABLE;
+
+-- Unread badge and push counts skip filtered messages
+CREATE INDEX IF NOT EXISTS idx_messages_recipient_unread_delivered
+    ON messages(recipient_id)
+    WHERE is_read = false AND moderation_verdict = 'deliver';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Muted Words Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Table Created: muted_words';
+  RAISE NOTICE 'RLS Enabled: muted_words (owner only)';
+  RAISE NOTICE 'Function Updated: get_message_folder_counts() (filtered never unread)';
+  RAISE NOTICE '==========================================================';
+END $$;
@@ -0,0 +1,90 @@
+-- Sender Activity Log Migration
+-- Server-side enforcement of suspicious activity detection: the send API
+-- holds messages from busy senders, puts flooding senders on escalating
+-- cooldowns and (if the recipient opts in) blocks them automatically.
+-- Every action is logged for the recipient to review
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. ADD AUTO-BLOCK SETTING TO profiles
+-- ============================================================================
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS auto_block_suspicious BOOLEAN DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN profiles.auto_block_suspicious IS 'Automatically block senders flagged for flooding (off by default)';
+
+-- ============================================================================
+-- 2. CREATE sender_activity_log TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.sender_activity_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    recipient_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    sender_ip_hash TEXT NOT NULL,
+    action TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    message_count INTEGER NOT NULL DEFAULT 0,
+    message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+    cooldown_until TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT sender_activity_action_valid CHECK (
+        action IN ('auto_hold', 'cooldown', 'auto_block')
+    ),
+    CONSTRAINT sender_activity_severity_valid CHECK (
+        severity IN ('low', 'medium', 'high')
+    ),
+    CONSTRAINT sender_activity_cooldown_required CHECK (
+        action <> 'cooldown' OR cooldown_until IS NOT NULL
+    )
+);
+
+-- Send API: active cooldowns and recent escalations per sender
+CREATE INDEX IF NOT EXISTS idx_sender_activity_recipient_sender
+    ON public.sender_activity_log(recipient_id, sender_ip_hash, created_at DESC);
+
+-- Owner review: newest first
+CREATE INDEX IF NOT EXISTS idx_sender_activity_recipient_created
+    ON public.sender_activity_log(recipient_id, created_at DESC);
+
+-- Comments
+COMMENT ON TABLE public.sender_activity_log IS 'Automatic throttling actions taken against senders, per recipient';
+COMMENT ON COLUMN public.sender_activity_log.action IS 'auto_hold (message filtered), cooldown (sender paused), auto_block (sender blocked)';
+COMMENT ON COLUMN public.sender_activity_log.message_count IS 'Messages from the sender in the last hour, including the one that triggered the action';
+COMMENT ON COLUMN public.sender_activity_log.cooldown_until IS 'End of the cooldown (cooldown actions only)';
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.sender_activity_log ENABLE ROW LEVEL SECURITY;
+
+-- Recipients can review and clear their log; entries are written by the
+-- send API with the service role
+CREATE POLICY "Users can view their own sender activity"
+    ON public.sender_activity_log
+    FOR SELECT
+    USING (auth.uid() = recipient_id);
+
+CREATE POLICY "Users can delete their own sender activity"
+    ON public.sender_activity_log
+    FOR DELETE
+    USING (auth.uid() = recipient_id);
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Sender Activity Log Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Column Added: profiles.auto_block_suspicious (BOOLEAN, default false)';
+  RAISE NOTICE 'Table Created: sender_activity_log';
+  RAISE NOTICE 'RLS Enabled: sender_activity_log (owner read/delete)';
+  RAISE NOTICE '==========================================================';
+END $$;
@@ -0,0 +1,199 @@
+-- Rate Limits Migration
+-- Shared state for the API rate limiter (lib/rate-limit) when it runs with
+-- the postgres store. One row per limiter key holding the algorithm state
+-- (token bucket or sliding window counters); rows are updated by
+-- apply_rate_limit() under a row lock, so concurrent requests for a key
+-- apply one at a time
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. CREATE rate_limits TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.rate_limits (
+    key TEXT PRIMARY KEY,
+    state JSONB NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT rate_limits_key_length CHECK (char_length(key) <= 300),
+    CONSTRAINT rate_limits_version_positive CHECK (version > 0)
+);
+
+-- Cleanup of expired keys
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires_at
+    ON public.rate_limits(expires_at);
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS update_rate_limits_updated_at ON public.rate_limits;
+CREATE TRIGGER update_rate_limits_updated_at
+    BEFORE UPDATE ON public.rate_limits
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments
+COMMENT ON TABLE public.rate_limits IS 'API rate limiter state per key (policy name plus hashed IP, user or recipient)';
+COMMENT ON COLUMN public.rate_limits.key IS 'Policy name and key parts, e.g. message-send:ip=<hash> - never a raw IP';
+COMMENT ON COLUMN public.rate_limits.state IS 'Token bucket {tokens, updatedAt} or sliding window {windowStart, count, previousCount}';
+COMMENT ON COLUMN public.rate_limits.version IS 'Incremented on every update';
+COMMENT ON COLUMN public.rate_limits.expires_at IS 'After this the key behaves as if it had never been seen';
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Only the service role (which bypasses RLS) reads or writes limiter state
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 3. APPLY FUNCTION
+-- ============================================================================
+
+-- Applies one request to a key's state in a single transaction: locks the
+-- row (creating it if needed), runs the policy's algorithm and stores the
+-- new state. Mirrors the state transitions in lib/rate-limit/algorithms.ts,
+-- which computes the result from the returned previous state. Returns the
+-- state before the request (null if the key had none or it expired).
+-- A request that can't get the lock in time fails with lock_not_available
+-- (55P03), which the limiter treats as refused
+CREATE OR REPLACE FUNCTION public.apply_rate_limit(
+    p_key TEXT,
+    p_policy JSONB,
+    p_cost DOUBLE PRECISION,
+    p_now_ms BIGINT,
+    p_ttl_ms BIGINT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET lock_timeout = '2s'
+AS $$
+DECLARE
+    v_row public.rate_limits;
+    v_previous JSONB;
+    v_state JSONB;
+    v_capacity DOUBLE PRECISION;
+    v_tokens DOUBLE PRECISION;
+    v_window_ms BIGINT;
+    v_window_start BIGINT;
+    v_count DOUBLE PRECISION := 0;
+    v_previous_count DOUBLE PRECISION := 0;
+    v_weight DOUBLE PRECISION;
+BEGIN
+    -- A new key starts as an expired row, i.e. no state
+    INSERT INTO public.rate_limits (key, state, expires_at)
+    VALUES (p_key, 'null'::jsonb, to_timestamp(0))
+    ON CONFLICT (key) DO NOTHING;
+
+    SELECT * INTO v_row
+    FROM public.rate_limits
+    WHERE key = p_key
+    FOR UPDATE;
+
+    IF v_row.expires_at > to_timestamp(p_now_ms / 1000.0) THEN
+        v_previous := v_row.state;
+    END IF;
+
+    CASE p_policy->>'algorithm'
+        WHEN 'token_bucket' THEN
+            v_capacity := (p_policy->>'capacity')::DOUBLE PRECISION;
+
+            IF v_previous IS NULL THEN
+                v_tokens := v_capacity;
+            ELSE
+                v_tokens := LEAST(
+                    v_capacity,
+                    (v_previous->>'tokens')::DOUBLE PRECISION
+                        + GREATEST(0, p_now_ms - (v_previous->>'updatedAt')::BIGINT)::DOUBLE PRECISION / 1000
+                        * (p_policy->>'refillPerSecond')::DOUBLE PRECISION
+                );
+            END IF;
+
+            IF v_tokens >= p_cost THEN
+                v_tokens := v_tokens - p_cost;
+            END IF;
+
+            v_state := jsonb_build_object('tokens', v_tokens, 'updatedAt', p_now_ms);
+
+        WHEN 'sliding_window' THEN
+            v_window_ms := (p_policy->>'windowMs')::BIGINT;
+            v_window_start := p_now_ms - (p_now_ms % v_window_ms);
+
+            IF (v_previous->>'windowStart')::BIGINT = v_window_start THEN
+                v_count := (v_previous->>'count')::DOUBLE PRECISION;
+                v_previous_count := (v_previous->>'previousCount')::DOUBLE PRECISION;
+            ELSIF (v_previous->>'windowStart')::BIGINT = v_window_start - v_window_ms THEN
+                v_previous_count := (v_previous->>'count')::DOUBLE PRECISION;
+            END IF;
+
+            v_weight := (v_window_start + v_window_ms - p_now_ms)::DOUBLE PRECISION / v_window_ms;
+
+            IF v_previous_count * v_weight + v_count + p_cost <= (p_policy->>'limit')::DOUBLE PRECISION THEN
+                v_count := v_count + p_cost;
+            END IF;
+
+            v_state := jsonb_build_object(
+                'windowStart', v_window_start,
+                'count', v_count,
+                'previousCount', v_previous_count
+            );
+
+        ELSE
+            RAISE EXCEPTION 'Unknown rate limit algorithm: %', p_policy->>'algorithm'
+                USING ERRCODE = '22023';
+    END CASE;
+
+    UPDATE public.rate_limits
+    SET state = v_state,
+        version = version + 1,
+        expires_at = to_timestamp((p_now_ms + p_ttl_ms) / 1000.0)
+    WHERE key = p_key;
+
+    RETURN v_previous;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_rate_limit(TEXT, JSONB, DOUBLE PRECISION, BIGINT, BIGINT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.apply_rate_limit IS 'Apply one request to a rate limiter key under a row lock; returns the previous state';
+
+-- ============================================================================
+-- 4. CLEANUP FUNCTION
+-- ============================================================================
+
+-- Expired rows are harmless (the limiter ignores them) but accumulate;
+-- run periodically, e.g. with pg_cron:
+--   SELECT cron.schedule('purge-rate-limits', '*/15 * * * *',
+--     'SELECT public.purge_expired_rate_limits()');
+CREATE OR REPLACE FUNCTION public.purge_expired_rate_limits()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    deleted_count INTEGER;
+BEGIN
+    DELETE FROM public.rate_limits WHERE expires_at < NOW();
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    RETURN deleted_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.purge_expired_rate_limits() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.purge_expired_rate_limits IS 'Delete expired rate limiter keys; returns the number removed';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Rate Limits Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Table Created: rate_limits';
+  RAISE NOTICE 'Functions Created: apply_rate_limit(...), purge_expired_rate_limits()';
+  RAISE NOTICE 'RLS Enabled: rate_limits (service role only)';
+  RAISE NOTICE '==========================================================';
+END $$;
@@ -0,0 +1,107 @@
+-- Block Rules Migration
+-- Extends blocked_senders from exact IP hashes to rule types that survive
+-- switching networks: device fingerprint, timezone-derived region and
+-- referrer platform. Any rule can expire automatically.
+-- Also stores a per-recipient device fingerprint on every message so
+-- recipients can block a device from one of its messages
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. ADD sender_fingerprint TO messages
+-- ============================================================================
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS sender_fingerprint TEXT;
+
+ALTER TABLE messages
+DROP CONSTRAINT IF EXISTS messages_sender_fingerprint_length;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_sender_fingerprint_length CHECK (
+    sender_fingerprint IS NULL OR char_length(sender_fingerprint) = 64
+);
+
+-- Deleting everything from a blocked device
+CREATE INDEX IF NOT EXISTS idx_messages_recipient_fingerprint
+    ON messages(recipient_id, sender_fingerprint)
+    WHERE sender_fingerprint IS NOT NULL;
+
+COMMENT ON COLUMN messages.sender_fingerprint IS 'HMAC of stable device traits scoped to the recipient (null without client tracking data)';
+
+-- ============================================================================
+-- 2. EXTEND blocked_senders WITH RULE TYPES
+-- ============================================================================
+
+-- Written by the block APIs since the blocking feature shipped, but never
+-- created by a migration
+ALTER TABLE public.blocked_senders
+ADD COLUMN IF NOT EXISTS blocked_identifier TEXT;
+
+ALTER TABLE public.blocked_senders
+ADD COLUMN IF NOT EXISTS rule_type TEXT DEFAULT 'ip' NOT NULL;
+
+ALTER TABLE public.blocked_senders
+ADD COLUMN IF NOT EXISTS match_value TEXT;
+
+ALTER TABLE public.blocked_senders
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Only IP rules carry an IP hash. The existing UNIQUE(user_id,
+-- blocked_ip_hash) still de-duplicates IP rules (NULLs never collide)
+ALTER TABLE public.blocked_senders
+ALTER COLUMN blocked_ip_hash DROP NOT NULL;
+
+ALTER TABLE public.blocked_senders
+DROP CONSTRAINT IF EXISTS blocked_senders_rule_type_valid;
+
+ALTER TABLE public.blocked_senders
+ADD CONSTRAINT blocked_senders_rule_type_valid CHECK (
+    rule_type IN ('ip', 'fingerprint', 'region', 'referrer')
+);
+
+ALTER TABLE public.blocked_senders
+DROP CONSTRAINT IF EXISTS blocked_senders_rule_value_required;
+
+ALTER TABLE public.blocked_senders
+ADD CONSTRAINT blocked_senders_rule_value_required CHECK (
+    (rule_type = 'ip' AND blocked_ip_hash IS NOT NULL)
+    OR (rule_type <> 'ip' AND match_value IS NOT NULL)
+);
+
+ALTER TABLE public.blocked_senders
+DROP CONSTRAINT IF EXISTS blocked_senders_match_value_length;
+
+ALTER TABLE public.blocked_senders
+ADD CONSTRAINT blocked_senders_match_value_length CHECK (
+    char_length(match_value) <= 100
+);
+
+-- One rule per type and value (case-insensitive for regions)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_blocked_senders_user_rule_unique
+    ON public.blocked_senders(user_id, rule_type, lower(match_value))
+    WHERE rule_type <> 'ip';
+
+-- Cleanup of expired rules
+CREATE INDEX IF NOT EXISTS idx_blocked_senders_expires_at
+    ON public.blocked_senders(expires_at)
+    WHERE expires_at IS NOT NULL;
+
+COMMENT ON COLUMN public.blocked_senders.blocked_identifier IS 'Display label for the block (e.g. "Message 1a2b3c4d")';
+COMMENT ON COLUMN public.blocked_senders.rule_type IS 'ip (blocked_ip_hash), fingerprint, region or referrer (match_value)';
+COMMENT ON COLUMN public.blocked_senders.match_value IS 'Device fingerprint, region name or referrer platform for non-IP rules';
+COMMENT ON COLUMN public.blocked_senders.expires_at IS 'Rule stops applying after this time (null = until removed)';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Block Rules Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Column Added: messages.sender_fingerprint (TEXT)';
+  RAISE NOTICE 'Columns Added: blocked_senders.blocked_identifier, rule_type, match_value, expires_at';
+  RAISE NOTICE 'Column Changed: blocked_senders.blocked_ip_hash now nullable (non-IP rules)';
+  RAISE NOTICE '==========================================================';
+END $$;
@@ -0,0 +1,89 @@
+-- Inbox Availability Migration
+-- Lets users close their inbox: pause it now or until a date, open it only
+-- during weekly hours in their own timezone, and cap how many messages
+-- arrive per day (reaching the cap pauses the inbox until midnight).
+-- The public profile shows a custom closed message while it's closed
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. ADD AVAILABILITY SETTINGS TO profiles
+-- ============================================================================
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS inbox_paused BOOLEAN DEFAULT false NOT NULL;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS inbox_paused_until TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS inbox_schedule JSONB;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS inbox_timezone TEXT;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS inbox_closed_message TEXT;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS daily_message_cap INTEGER;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS inbox_cap_reached_until TIMESTAMP WITH TIME ZONE;
+
+-- ============================================================================
+-- 2. CONSTRAINTS
+-- ============================================================================
+
+ALTER TABLE profiles
+DROP CONSTRAINT IF EXISTS profiles_inbox_schedule_object;
+
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_inbox_schedule_object CHECK (
+    inbox_schedule IS NULL OR jsonb_typeof(inbox_schedule) = 'object'
+);
+
+ALTER TABLE profiles
+DROP CONSTRAINT IF EXISTS profiles_inbox_timezone_length;
+
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_inbox_timezone_length CHECK (
+    char_length(inbox_timezone) <= 64
+);
+
+ALTER TABLE profiles
+DROP CONSTRAINT IF EXISTS profiles_inbox_closed_message_length;
+
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_inbox_closed_message_length CHECK (
+    char_length(inbox_closed_message) <= 200
+);
+
+ALTER TABLE profiles
+DROP CONSTRAINT IF EXISTS profiles_daily_message_cap_range;
+
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_daily_message_cap_range CHECK (
+    daily_message_cap IS NULL OR daily_message_cap BETWEEN 1 AND 1000
+);
+
+COMMENT ON COLUMN profiles.inbox_paused IS 'Owner paused the inbox (until inbox_paused_until, or until resumed if null)';
+COMMENT ON COLUMN profiles.inbox_paused_until IS 'When a pause ends on its own (null = paused until resumed)';
+COMMENT ON COLUMN profiles.inbox_schedule IS 'Weekly open hours {"windows": [{"day": 0-6, "start": "HH:MM", "end": "HH:MM"}]} - closed outside them (null = always open)';
+COMMENT ON COLUMN profiles.inbox_timezone IS 'IANA timezone for the schedule and the daily cap (null = UTC)';
+COMMENT ON COLUMN profiles.inbox_closed_message IS 'Shown on the public profile while the inbox is closed';
+COMMENT ON COLUMN profiles.daily_message_cap IS 'Messages accepted per day before the inbox pauses itself (null = no cap)';
+COMMENT ON COLUMN profiles.inbox_cap_reached_until IS 'Set by the send API when the daily cap is reached - the owner''s next midnight';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Inbox Availability Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Columns Added: profiles.inbox_paused, inbox_paused_until, inbox_schedule,';
+  RAISE NOTICE '  inbox_timezone, inbox_closed_message, daily_message_cap, inbox_cap_reached_until';
+  RAISE NOTICE '==========================================================';
+END $$;
@@ -0,0 +1,140 @@
+-- Message Retention Migration
+-- Per-user retention periods for read, unread and flagged messages, and
+-- the purge job's lookup of expired messages. The job (GET
+-- /api/cron/purge-messages) deletes them with the service role, so the
+-- existing AFTER DELETE trigger keeps profiles.message_count in step, and
+-- records how many it removed per user in message_purge_log
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. ADD RETENTION SETTINGS TO profiles
+-- ============================================================================
+
+-- NULL = keep forever (the default, so nothing changes for existing users)
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS retention_read_days INTEGER;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS retention_unread_days INTEGER;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS retention_flagged_days INTEGER;
+
+ALTER TABLE profiles
+DROP CONSTRAINT IF EXISTS profiles_retention_periods_valid;
+
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_retention_periods_valid CHECK (
+    (retention_read_days IS NULL OR retention_read_days IN (7, 30, 90, 365))
+    AND (retention_unread_days IS NULL OR retention_unread_days IN (7, 30, 90, 365))
+    AND (retention_flagged_days IS NULL OR retention_flagged_days IN (7, 30, 90, 365))
+);
+
+-- The purge job only looks at users who opted into a retention period
+CREATE INDEX IF NOT EXISTS idx_profiles_retention
+    ON profiles(id)
+    WHERE retention_read_days IS NOT NULL
+       OR retention_unread_days IS NOT NULL
+       OR retention_flagged_days IS NOT NULL;
+
+COMMENT ON COLUMN profiles.retention_read_days IS 'Delete read, unflagged messages this many days after they arrive (null = forever)';
+COMMENT ON COLUMN profiles.retention_unread_days IS 'Delete unread, unflagged messages this many days after they arrive (null = forever)';
+COMMENT ON COLUMN profiles.retention_flagged_days IS 'Delete flagged messages this many days after they arrive (null = forever)';
+
+-- ============================================================================
+-- 2. CREATE message_purge_log TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.message_purge_log (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    read_count INTEGER DEFAULT 0 NOT NULL,
+    unread_count INTEGER DEFAULT 0 NOT NULL,
+    flagged_count INTEGER DEFAULT 0 NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    CONSTRAINT message_purge_log_counts_positive CHECK (
+        read_count >= 0 AND unread_count >= 0 AND flagged_count >= 0
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_purge_log_user_created
+    ON public.message_purge_log(user_id, created_at DESC);
+
+COMMENT ON TABLE public.message_purge_log IS 'One row per user per purge run that deleted expired messages';
+COMMENT ON COLUMN public.message_purge_log.read_count IS 'Read messages deleted by the run';
+COMMENT ON COLUMN public.message_purge_log.unread_count IS 'Unread messages deleted by the run';
+COMMENT ON COLUMN public.message_purge_log.flagged_count IS 'Flagged messages deleted by the run';
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Users read their own log; only the purge job (service role) writes it
+ALTER TABLE public.message_purge_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own purge log" ON public.message_purge_log;
+CREATE POLICY "Users can view own purge log"
+ON public.message_purge_log FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- 4. EXPIRED MESSAGE LOOKUP
+-- ============================================================================
+
+-- Flagged messages follow the flagged period whether or not they're read;
+-- the others follow the read or unread period. Ages count from arrival
+CREATE OR REPLACE FUNCTION public.find_expired_messages(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (
+    message_id UUID,
+    recipient_id UUID,
+    category TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        m.id,
+        m.recipient_id,
+        CASE
+            WHEN m.is_flagged THEN 'flagged'
+            WHEN m.is_read THEN 'read'
+            ELSE 'unread'
+        END
+    FROM public.profiles p
+    JOIN public.messages m ON m.recipient_id = p.id
+    WHERE (
+            p.retention_read_days IS NOT NULL
+            OR p.retention_unread_days IS NOT NULL
+            OR p.retention_flagged_days IS NOT NULL
+        )
+        AND CASE
+            WHEN m.is_flagged THEN
+                m.created_at < NOW() - make_interval(days => p.retention_flagged_days)
+            WHEN m.is_read THEN
+                m.created_at < NOW() - make_interval(days => p.retention_read_days)
+            ELSE
+                m.created_at < NOW() - make_interval(days => p.retention_unread_days)
+        END
+    LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION public.find_expired_messages(INTEGER) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.find_expired_messages IS 'Messages past their recipient''s retention period (read by the purge job)';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Message Retention Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Columns Added: profiles.retention_read_days, retention_unread_days, retention_flagged_days';
+  RAISE NOTICE 'Table Created: message_purge_log';
+  RAISE NOTICE 'Function Created: find_expired_messages(limit)';
+  RAISE NOTICE '==========================================================';
+END $$;
@@ -0,0 +1,92 @@
+-- Data Exports Migration
+-- Users can download everything the app stores about them as a ZIP
+-- archive. Exports are built by the server (in the background for big
+-- accounts), stored in a private bucket and deleted after a week
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. CREATE data_exports TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.data_exports (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    status TEXT DEFAULT 'pending' NOT NULL,
+    storage_path TEXT,
+    file_size BIGINT,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+
+    CONSTRAINT data_exports_status_valid CHECK (
+        status IN ('pending', 'processing', 'ready', 'failed', 'expired')
+    ),
+    CONSTRAINT data_exports_ready_has_file CHECK (
+        status <> 'ready' OR storage_path IS NOT NULL
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_exports_user_created
+    ON public.data_exports(user_id, created_at DESC);
+
+-- Cleanup of expired archives
+CREATE INDEX IF NOT EXISTS idx_data_exports_expires_at
+    ON public.data_exports(expires_at)
+    WHERE status = 'ready';
+
+COMMENT ON TABLE public.data_exports IS 'Account data export requests and their archives';
+COMMENT ON COLUMN public.data_exports.status IS 'pending -> processing -> ready (or failed); ready -> expired once the archive is deleted';
+COMMENT ON COLUMN public.data_exports.storage_path IS 'Object path in the data-exports bucket: <user_id>/<export_id>.zip';
+COMMENT ON COLUMN public.data_exports.expires_at IS 'The archive is deleted after this time';
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Users read their own exports; the server builds them with the service role
+ALTER TABLE public.data_exports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own data exports" ON public.data_exports;
+CREATE POLICY "Users can view own data exports"
+ON public.data_exports FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- 3. PRIVATE STORAGE BUCKET
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'data-exports',
+    'data-exports',
+    false,
+    524288000, -- 500MB
+    ARRAY['application/zip']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Users can read (sign download URLs for) archives in their own folder
+DROP POLICY IF EXISTS "Users can view their own data exports" ON storage.objects;
+CREATE POLICY "Users can view their own data exports"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'data-exports' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Data Exports Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Table Created: data_exports';
+  RAISE NOTICE 'Bucket Created: data-exports (private, 500MB limit)';
+  RAISE NOTICE '==========================================================';
+END $$;
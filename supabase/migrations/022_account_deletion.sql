@@ -0,0 +1,165 @@
+-- Account Deletion Migration
+-- Deleting an account first deactivates it: the public page shows the
+-- account as unavailable and no messages are accepted, but nothing is
+-- removed until the grace period ends and the scheduled purge hard-deletes
+-- it. Until then the owner can sign in and restore the account
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. ADD DELETION COLUMNS TO profiles
+-- ============================================================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS deletion_scheduled_for TIMESTAMP WITH TIME ZONE;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'profiles_deletion_deactivated'
+    ) THEN
+        ALTER TABLE public.profiles
+        ADD CONSTRAINT profiles_deletion_deactivated CHECK (
+            deletion_scheduled_for IS NULL OR is_active = false
+        );
+    END IF;
+END $$;
+
+-- Purge job: accounts whose grace period is over
+CREATE INDEX IF NOT EXISTS idx_profiles_deletion_scheduled_for
+    ON public.profiles(deletion_scheduled_for)
+    WHERE deletion_scheduled_for IS NOT NULL;
+
+COMMENT ON COLUMN public.profiles.deleted_at IS 'When the owner deleted the account (null unless pending deletion)';
+COMMENT ON COLUMN public.profiles.deletion_scheduled_for IS 'When the account and its data are permanently deleted; the owner can restore it until then';
+
+-- ============================================================================
+-- 2. OWNERS CAN READ THEIR DEACTIVATED PROFILE
+-- ============================================================================
+
+-- "Profiles are viewable by everyone" only covers active profiles
+DROP POLICY IF EXISTS "Users can view their own profile" ON public.profiles;
+CREATE POLICY "Users can view their own profile"
+ON public.profiles FOR SELECT
+TO authenticated
+USING (auth.uid() = id);
+
+-- ============================================================================
+-- 3. DEACTIVATED USERNAME LOOKUP
+-- ============================================================================
+
+-- Tells a deactivated account apart from one that never existed (public
+-- page, send route, username availability) without exposing the profile
+CREATE OR REPLACE FUNCTION public.is_username_deactivated(p_username TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE username = lower(p_username)
+        AND is_active = false
+    );
+$$;
+
+COMMENT ON FUNCTION public.is_username_deactivated IS 'Whether a username belongs to a deactivated account (e.g. one pending deletion)';
+
+GRANT EXECUTE ON FUNCTION public.is_username_deactivated(TEXT) TO anon, authenticated;
+
+-- ============================================================================
+-- 4. PROTECT DELETION COLUMNS
+-- ============================================================================
+
+-- Users can update their own profile row, so without this an owner could
+-- reactivate their account after the grace period or push the deletion
+-- date back. Deletion is scheduled by the server (service role, which knows
+-- the grace period) and undone only by restore_profile(), which sets
+-- app.account_restore for its own transaction
+CREATE OR REPLACE FUNCTION public.protect_profile_deletion_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.role() = 'service_role'
+        OR current_setting('app.account_restore', true) = 'on'
+    THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.is_active IS DISTINCT FROM OLD.is_active
+        OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+        OR NEW.deletion_scheduled_for IS DISTINCT FROM OLD.deletion_scheduled_for
+    THEN
+        RAISE EXCEPTION 'Account deletion fields can only be changed by the server'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_deletion_columns ON public.profiles;
+CREATE TRIGGER protect_profile_deletion_columns
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_profile_deletion_columns();
+
+-- ============================================================================
+-- 5. RESTORE FUNCTION
+-- ============================================================================
+
+-- Reactivates the signed-in user's account if its grace period hasn't
+-- ended. Returns the restored profile, or no row if there's nothing to
+-- restore (not pending deletion, or too late)
+CREATE OR REPLACE FUNCTION public.restore_profile()
+RETURNS SETOF public.profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+    END IF;
+
+    -- Lets the update below past protect_profile_deletion_columns
+    PERFORM set_config('app.account_restore', 'on', true);
+
+    RETURN QUERY
+    UPDATE public.profiles
+    SET is_active = true,
+        deleted_at = NULL,
+        deletion_scheduled_for = NULL
+    WHERE id = auth.uid()
+    AND is_active = false
+    AND deletion_scheduled_for > NOW()
+    RETURNING *;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.restore_profile() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_profile() TO authenticated;
+
+COMMENT ON FUNCTION public.restore_profile IS 'Restore the signed-in user''s account pending deletion, before its grace period ends';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Account Deletion Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Columns Added: profiles.deleted_at, deletion_scheduled_for';
+  RAISE NOTICE 'Policy Added: Users can view their own profile';
+  RAISE NOTICE 'Function Created: is_username_deactivated(username)';
+  RAISE NOTICE 'Trigger Created: deletion fields are changed only by the server or restore_profile()';
+  RAISE NOTICE 'Function Created: restore_profile() (checks the grace period)';
+  RAISE NOTICE '==========================================================';
+END $$;
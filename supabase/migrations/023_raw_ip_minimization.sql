@@ -0,0 +1,99 @@
+-- Raw IP Minimization Migration
+-- messages.sender_ip_raw (005) kept every sender's full IP forever. The
+-- send route now stores it full, truncated or not at all (RAW_IP_MODE),
+-- and a scheduled job clears stored IPs after RAW_IP_RETENTION_DAYS.
+-- Abuse tooling only ever needed the salted sender_ip_hash, so the
+-- admin IP pattern view moves onto the hash
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. REPLACE RAW IP INDEX
+-- ============================================================================
+
+-- Nothing looks messages up by raw IP; the purge job finds them by age
+DROP INDEX IF EXISTS public.idx_messages_sender_ip_raw;
+
+CREATE INDEX IF NOT EXISTS idx_messages_sender_ip_raw_created_at
+    ON public.messages(created_at)
+    WHERE sender_ip_raw IS NOT NULL;
+
+COMMENT ON COLUMN public.messages.sender_ip_raw IS 'Sender IP shown to the recipient - full, truncated (host part zeroed) or null depending on RAW_IP_MODE; cleared after RAW_IP_RETENTION_DAYS. PII under GDPR/CCPA';
+
+-- ============================================================================
+-- 2. ABUSE PATTERNS BY IP HASH
+-- ============================================================================
+
+DROP VIEW IF EXISTS public.analytics_ip_patterns;
+
+CREATE VIEW public.analytics_ip_patterns AS
+SELECT
+  sender_ip_hash,
+  COUNT(*) AS message_count,
+  COUNT(DISTINCT recipient_id) AS unique_recipients,
+  MIN(created_at) AS first_message_at,
+  MAX(created_at) AS last_message_at,
+  COUNT(*) FILTER (WHERE is_flagged = true) AS flagged_count,
+  -- Check if sender is using multiple devices/browsers from same network
+  COUNT(DISTINCT sender_device_type) AS device_types_used,
+  COUNT(DISTINCT sender_browser) AS browsers_used,
+  -- Average time between messages
+  CASE
+    WHEN COUNT(*) > 1 THEN
+      EXTRACT(EPOCH FROM (MAX(created_at) - MIN(created_at))) / NULLIF(COUNT(*) - 1, 0)
+    ELSE NULL
+  END AS avg_seconds_between_messages
+FROM public.messages
+GROUP BY sender_ip_hash
+ORDER BY message_count DESC;
+
+COMMENT ON VIEW public.analytics_ip_patterns IS 'Sender network patterns by salted IP hash for abuse detection. Admin only';
+
+REVOKE ALL ON public.analytics_ip_patterns FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 3. RAW IP PURGE FUNCTION
+-- ============================================================================
+
+-- Clears one batch of raw IPs stored before p_before; returns how many
+CREATE OR REPLACE FUNCTION public.purge_raw_ips(
+    p_before TIMESTAMP WITH TIME ZONE,
+    p_limit INTEGER DEFAULT 1000
+)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    WITH expired AS (
+        SELECT id FROM public.messages
+        WHERE sender_ip_raw IS NOT NULL
+        AND created_at < p_before
+        LIMIT p_limit
+    ),
+    cleared AS (
+        UPDATE public.messages m
+        SET sender_ip_raw = NULL
+        FROM expired
+        WHERE m.id = expired.id
+        RETURNING 1
+    )
+    SELECT COUNT(*)::INTEGER FROM cleared;
+$$;
+
+REVOKE ALL ON FUNCTION public.purge_raw_ips(TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.purge_raw_ips IS 'Clear raw sender IPs stored before a cutoff, one batch at a time (run by the purge job)';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Raw IP Minimization Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Index Replaced: idx_messages_sender_ip_raw_created_at';
+  RAISE NOTICE 'View Rebuilt: analytics_ip_patterns (by sender_ip_hash)';
+  RAISE NOTICE 'Function Created: purge_raw_ips(before, limit)';
+  RAISE NOTICE 'Schedule GET /api/cron/purge-ips to clear old raw IPs';
+  RAISE NOTICE '==========================================================';
+END $$;
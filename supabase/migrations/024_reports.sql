@@ -0,0 +1,161 @@
+-- Reports Migration
+-- Message reports used to be written to message_analytics with an
+-- event_type the table rejects, so they were lost. Reports now get their
+-- own table with a triage workflow (open -> under review -> actioned or
+-- dismissed), worked through by platform admins in the moderation queue
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. CREATE platform_admins TABLE
+-- ============================================================================
+
+-- Kept out of profiles: users can update their own profile row
+CREATE TABLE IF NOT EXISTS public.platform_admins (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE public.platform_admins IS 'Users who can moderate the platform. Granted by hand: INSERT INTO platform_admins (user_id) VALUES (...)';
+
+ALTER TABLE public.platform_admins ENABLE ROW LEVEL SECURITY;
+
+-- Users can see whether they're an admin; nobody can grant it through the API
+DROP POLICY IF EXISTS "Users can view own admin status" ON public.platform_admins;
+CREATE POLICY "Users can view own admin status"
+ON public.platform_admins FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- For RLS policies: whether the signed-in user is a platform admin
+CREATE OR REPLACE FUNCTION public.is_platform_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.platform_admins
+        WHERE user_id = auth.uid()
+    );
+$$;
+
+COMMENT ON FUNCTION public.is_platform_admin IS 'Whether the signed-in user is a platform admin';
+
+-- ============================================================================
+-- 2. CREATE reports TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.reports (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    -- Null once the message is deleted; the snapshot below stays
+    message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+    reason TEXT NOT NULL,
+    details TEXT,
+    message_content TEXT NOT NULL,
+    message_created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    sender_ip_hash TEXT NOT NULL,
+    status TEXT DEFAULT 'open' NOT NULL,
+    action_taken TEXT,
+    reviewer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    reviewer_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+
+    CONSTRAINT reports_reason_valid CHECK (
+        reason IN ('spam', 'harassment', 'inappropriate_content', 'threats', 'hate_speech', 'other')
+    ),
+    CONSTRAINT reports_details_length CHECK (char_length(details) <= 1000),
+    CONSTRAINT reports_status_valid CHECK (
+        status IN ('open', 'under_review', 'actioned', 'dismissed')
+    ),
+    CONSTRAINT reports_action_valid CHECK (
+        action_taken IS NULL OR action_taken IN ('delete_message', 'block_sender')
+    ),
+    CONSTRAINT reports_action_when_actioned CHECK (
+        action_taken IS NULL OR status = 'actioned'
+    ),
+    CONSTRAINT reports_reviewer_notes_length CHECK (char_length(reviewer_notes) <= 2000),
+    CONSTRAINT reports_one_per_message UNIQUE (reporter_id, message_id)
+);
+
+-- Moderation queue (oldest open reports first)
+CREATE INDEX IF NOT EXISTS idx_reports_status_created
+    ON public.reports(status, created_at);
+
+-- Earlier reports against the same sender
+CREATE INDEX IF NOT EXISTS idx_reports_sender_ip_hash
+    ON public.reports(sender_ip_hash);
+
+CREATE INDEX IF NOT EXISTS idx_reports_message_id
+    ON public.reports(message_id);
+
+COMMENT ON TABLE public.reports IS 'Messages reported by their recipients, triaged by platform admins';
+COMMENT ON COLUMN public.reports.message_content IS 'Message text when it was reported - kept if the message is deleted';
+COMMENT ON COLUMN public.reports.sender_ip_hash IS 'Salted IP hash of the message sender, for spotting repeat senders';
+COMMENT ON COLUMN public.reports.status IS 'open -> under_review -> actioned | dismissed';
+COMMENT ON COLUMN public.reports.action_taken IS 'What the reviewer did: delete_message or block_sender (actioned reports only)';
+
+DROP TRIGGER IF EXISTS update_reports_updated_at ON public.reports;
+CREATE TRIGGER update_reports_updated_at
+    BEFORE UPDATE ON public.reports
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own reports" ON public.reports;
+CREATE POLICY "Users can view own reports"
+ON public.reports FOR SELECT
+TO authenticated
+USING (auth.uid() = reporter_id);
+
+-- Only the recipient of a message can report it
+DROP POLICY IF EXISTS "Users can report own messages" ON public.reports;
+CREATE POLICY "Users can report own messages"
+ON public.reports FOR INSERT
+TO authenticated
+WITH CHECK (
+    auth.uid() = reporter_id
+    AND status = 'open'
+    AND EXISTS (
+        SELECT 1 FROM public.messages
+        WHERE messages.id = message_id
+        AND messages.recipient_id = auth.uid()
+    )
+);
+
+DROP POLICY IF EXISTS "Admins can view all reports" ON public.reports;
+CREATE POLICY "Admins can view all reports"
+ON public.reports FOR SELECT
+TO authenticated
+USING (public.is_platform_admin());
+
+DROP POLICY IF EXISTS "Admins can update reports" ON public.reports;
+CREATE POLICY "Admins can update reports"
+ON public.reports FOR UPDATE
+TO authenticated
+USING (public.is_platform_admin())
+WITH CHECK (public.is_platform_admin());
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Reports Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Tables Created: platform_admins, reports';
+  RAISE NOTICE 'Function Created: is_platform_admin()';
+  RAISE NOTICE 'Grant admin: INSERT INTO platform_admins (user_id) VALUES (...)';
+  RAISE NOTICE '==========================================================';
+END $$;
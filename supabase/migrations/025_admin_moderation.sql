@@ -0,0 +1,450 @@
+-- Admin Moderation Migration
+-- Platform admins (024) can now act on profiles: suspend and unsuspend
+-- accounts, force-rename usernames (e.g. one impersonating someone) and
+-- remove avatars and bios. Suspended profiles are hidden from everyone but
+-- their owner and admins, and take no messages. Every admin action is
+-- written to an append-only audit log
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. ADD MODERATION COLUMNS TO profiles
+-- ============================================================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS suspended_reason TEXT,
+ADD COLUMN IF NOT EXISTS suspended_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS username_locked BOOLEAN DEFAULT false NOT NULL;
+
+ALTER TABLE public.profiles
+DROP CONSTRAINT IF EXISTS profiles_suspended_reason_length;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_suspended_reason_length
+CHECK (char_length(suspended_reason) <= 500);
+
+CREATE INDEX IF NOT EXISTS idx_profiles_suspended_at
+    ON public.profiles(suspended_at)
+    WHERE suspended_at IS NOT NULL;
+
+COMMENT ON COLUMN public.profiles.suspended_at IS 'When a platform admin suspended the account (null if not suspended). Suspended profiles are hidden and take no messages';
+COMMENT ON COLUMN public.profiles.suspended_reason IS 'Why the account was suspended, shown to the owner';
+COMMENT ON COLUMN public.profiles.username_locked IS 'Set when a platform admin renames the account - the owner can no longer change the username';
+
+-- ============================================================================
+-- 2. PROTECT MODERATION COLUMNS
+-- ============================================================================
+
+-- Users can update their own profile row, so only admin_moderate_profile
+-- (which sets app.admin_action for its own transaction) or the service role
+-- may touch the moderation columns or a locked username. Being an admin is
+-- not enough on its own: every admin change has to go through the audit log
+CREATE OR REPLACE FUNCTION public.protect_profile_moderation_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.role() = 'service_role'
+        OR current_setting('app.admin_action', true) = 'on'
+    THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+        OR NEW.suspended_reason IS DISTINCT FROM OLD.suspended_reason
+        OR NEW.suspended_by IS DISTINCT FROM OLD.suspended_by
+        OR NEW.username_locked IS DISTINCT FROM OLD.username_locked
+        OR (OLD.username_locked AND NEW.username IS DISTINCT FROM OLD.username)
+    THEN
+        RAISE EXCEPTION 'Only platform admins can change moderation fields'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_moderation_columns ON public.profiles;
+CREATE TRIGGER protect_profile_moderation_columns
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_profile_moderation_columns();
+
+-- ============================================================================
+-- 3. PROFILE RLS: HIDE SUSPENDED PROFILES, LET ADMINS VIEW THEM
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Profiles are viewable by everyone" ON public.profiles;
+CREATE POLICY "Profiles are viewable by everyone"
+    ON public.profiles
+    FOR SELECT
+    USING (is_active = true AND suspended_at IS NULL);
+
+-- Answers of suspended accounts come off their public page too (the
+-- policy from 006_public_answers.sql predates suspended_at)
+DROP POLICY IF EXISTS "Published answers are viewable by everyone" ON public.public_answers;
+CREATE POLICY "Published answers are viewable by everyone"
+    ON public.public_answers
+    FOR SELECT
+    USING (
+        is_published = true
+        AND EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = public_answers.profile_id
+            AND profiles.is_active = true
+            AND profiles.suspended_at IS NULL
+        )
+    );
+
+DROP POLICY IF EXISTS "Admins can view all profiles" ON public.profiles;
+CREATE POLICY "Admins can view all profiles"
+ON public.profiles FOR SELECT
+TO authenticated
+USING (public.is_platform_admin());
+
+-- Admins change profiles and reports only through the audited functions
+-- below, never with plain updates
+DROP POLICY IF EXISTS "Admins can update profiles" ON public.profiles;
+DROP POLICY IF EXISTS "Admins can update reports" ON public.reports;
+
+-- Whether an account is suspended. SECURITY DEFINER: suspended profiles
+-- are hidden from the sender by the policy above
+CREATE OR REPLACE FUNCTION public.is_profile_suspended(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = p_user_id
+        AND suspended_at IS NOT NULL
+    );
+$$;
+
+COMMENT ON FUNCTION public.is_profile_suspended IS 'Whether an account is suspended by a platform admin';
+
+-- Suspended accounts take no messages, whichever client inserts them. A
+-- trigger rather than an INSERT policy: permissive policies are OR'd, so
+-- any other insert policy on messages (e.g. allow_anon_insert) would let
+-- the message through
+CREATE OR REPLACE FUNCTION public.reject_messages_to_suspended_profiles()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF public.is_profile_suspended(NEW.recipient_id) THEN
+        RAISE EXCEPTION 'This account is suspended and cannot receive messages'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reject_messages_to_suspended_profiles ON public.messages;
+CREATE TRIGGER reject_messages_to_suspended_profiles
+    BEFORE INSERT ON public.messages
+    FOR EACH ROW
+    EXECUTE FUNCTION public.reject_messages_to_suspended_profiles();
+
+-- Tells a suspended account apart from one that never existed (public
+-- page, send route, username availability) without exposing the profile
+CREATE OR REPLACE FUNCTION public.is_username_suspended(p_username TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE username = lower(p_username)
+        AND suspended_at IS NOT NULL
+    );
+$$;
+
+COMMENT ON FUNCTION public.is_username_suspended IS 'Whether a username belongs to an account suspended by a platform admin';
+
+GRANT EXECUTE ON FUNCTION public.is_username_suspended(TEXT) TO anon, authenticated;
+
+-- ============================================================================
+-- 4. CREATE admin_audit_log TABLE
+-- ============================================================================
+
+-- No foreign keys: entries outlive the admins and accounts they mention
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    admin_id UUID NOT NULL,
+    action TEXT NOT NULL,
+    target_user_id UUID,
+    target_report_id UUID,
+    details JSONB DEFAULT '{}'::jsonb NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    CONSTRAINT admin_audit_log_action_valid CHECK (
+        action IN (
+            'suspend',
+            'unsuspend',
+            'rename_username',
+            'remove_avatar',
+            'remove_bio',
+            'update_report'
+        )
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at
+    ON public.admin_audit_log(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target_user_id
+    ON public.admin_audit_log(target_user_id, created_at DESC)
+    WHERE target_user_id IS NOT NULL;
+
+COMMENT ON TABLE public.admin_audit_log IS 'Append-only record of every platform admin action';
+COMMENT ON COLUMN public.admin_audit_log.details IS 'Action specifics, e.g. old and new username or the suspension reason';
+
+-- Entries can't be changed or removed, not even by the service role
+CREATE OR REPLACE FUNCTION public.prevent_admin_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION 'admin_audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS admin_audit_log_immutable ON public.admin_audit_log;
+CREATE TRIGGER admin_audit_log_immutable
+    BEFORE UPDATE OR DELETE ON public.admin_audit_log
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_admin_audit_log_changes();
+
+DROP TRIGGER IF EXISTS admin_audit_log_no_truncate ON public.admin_audit_log;
+CREATE TRIGGER admin_audit_log_no_truncate
+    BEFORE TRUNCATE ON public.admin_audit_log
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION public.prevent_admin_audit_log_changes();
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view the audit log" ON public.admin_audit_log;
+CREATE POLICY "Admins can view the audit log"
+ON public.admin_audit_log FOR SELECT
+TO authenticated
+USING (public.is_platform_admin());
+
+-- No INSERT policy: entries are only written by the admin action
+-- functions below, in the same transaction as the action itself
+DROP POLICY IF EXISTS "Admins can record their actions" ON public.admin_audit_log;
+
+-- ============================================================================
+-- 5. ADMIN ACTION FUNCTIONS
+-- ============================================================================
+
+-- Takes an admin action on a profile and records it in the audit log, in
+-- one transaction - the action doesn't happen unless it's logged. Returns
+-- the updated profile. A taken username raises unique_violation (23505)
+CREATE OR REPLACE FUNCTION public.admin_moderate_profile(
+    p_user_id UUID,
+    p_action TEXT,
+    p_reason TEXT DEFAULT NULL,
+    p_username TEXT DEFAULT NULL
+)
+RETURNS public.profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admin_id UUID := auth.uid();
+    v_old public.profiles;
+    v_new public.profiles;
+    v_details JSONB;
+BEGIN
+    IF v_admin_id IS NULL OR NOT public.is_platform_admin() THEN
+        RAISE EXCEPTION 'Only platform admins can moderate profiles'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_old FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Profile not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Lets the update below past protect_profile_moderation_columns. Local
+    -- to this transaction, which also writes the audit entry
+    PERFORM set_config('app.admin_action', 'on', true);
+
+    CASE p_action
+        WHEN 'suspend' THEN
+            UPDATE public.profiles
+            SET suspended_at = NOW(),
+                suspended_reason = p_reason,
+                suspended_by = v_admin_id
+            WHERE id = p_user_id
+            RETURNING * INTO v_new;
+
+            v_details := jsonb_build_object(
+                'username', v_old.username,
+                'reason', p_reason
+            );
+
+        WHEN 'unsuspend' THEN
+            UPDATE public.profiles
+            SET suspended_at = NULL,
+                suspended_reason = NULL,
+                suspended_by = NULL
+            WHERE id = p_user_id
+            RETURNING * INTO v_new;
+
+            v_details := jsonb_build_object(
+                'username', v_old.username,
+                'previous_reason', v_old.suspended_reason
+            );
+
+        WHEN 'rename_username' THEN
+            UPDATE public.profiles
+            SET username = lower(p_username),
+                username_locked = true
+            WHERE id = p_user_id
+            RETURNING * INTO v_new;
+
+            v_details := jsonb_build_object(
+                'old_username', v_old.username,
+                'new_username', v_new.username
+            );
+
+        WHEN 'remove_avatar' THEN
+            UPDATE public.profiles
+            SET avatar_url = NULL
+            WHERE id = p_user_id
+            RETURNING * INTO v_new;
+
+            v_details := jsonb_build_object(
+                'username', v_old.username,
+                'avatar_url', v_old.avatar_url
+            );
+
+        WHEN 'remove_bio' THEN
+            UPDATE public.profiles
+            SET bio = NULL
+            WHERE id = p_user_id
+            RETURNING * INTO v_new;
+
+            v_details := jsonb_build_object(
+                'username', v_old.username,
+                'bio', v_old.bio
+            );
+
+        ELSE
+            RAISE EXCEPTION 'Unknown admin action: %', p_action
+                USING ERRCODE = '22023';
+    END CASE;
+
+    INSERT INTO public.admin_audit_log (admin_id, action, target_user_id, details)
+    VALUES (v_admin_id, p_action, p_user_id, v_details);
+
+    RETURN v_new;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.admin_moderate_profile(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_moderate_profile(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.admin_moderate_profile IS 'Suspend, unsuspend, rename or strip a profile as the signed-in admin, recording it in the audit log';
+
+-- Triages a report and records it in the audit log, in one transaction.
+-- p_status NULL keeps the status; p_update_notes says whether
+-- p_reviewer_notes replaces the notes. Returns the updated report
+CREATE OR REPLACE FUNCTION public.admin_update_report(
+    p_report_id UUID,
+    p_status TEXT DEFAULT NULL,
+    p_update_notes BOOLEAN DEFAULT false,
+    p_reviewer_notes TEXT DEFAULT NULL,
+    p_action TEXT DEFAULT NULL
+)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_admin_id UUID := auth.uid();
+    v_old public.reports;
+    v_new public.reports;
+BEGIN
+    IF v_admin_id IS NULL OR NOT public.is_platform_admin() THEN
+        RAISE EXCEPTION 'Only platform admins can update reports'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_old FROM public.reports WHERE id = p_report_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Report not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    UPDATE public.reports
+    SET status = COALESCE(p_status, status),
+        reviewer_notes = CASE WHEN p_update_notes THEN p_reviewer_notes ELSE reviewer_notes END,
+        -- Reopened reports start over
+        action_taken = CASE
+            WHEN p_status = 'open' THEN NULL
+            ELSE COALESCE(p_action, action_taken)
+        END,
+        reviewer_id = v_admin_id,
+        reviewed_at = CASE WHEN p_status = 'under_review' THEN NOW() ELSE reviewed_at END,
+        resolved_at = CASE
+            WHEN p_status IS NULL THEN resolved_at
+            WHEN p_status IN ('actioned', 'dismissed') THEN NOW()
+            ELSE NULL
+        END
+    WHERE id = p_report_id
+    RETURNING * INTO v_new;
+
+    INSERT INTO public.admin_audit_log (admin_id, action, target_report_id, details)
+    VALUES (
+        v_admin_id,
+        'update_report',
+        p_report_id,
+        jsonb_build_object(
+            'from_status', v_old.status,
+            'to_status', v_new.status,
+            'action', p_action
+        )
+    );
+
+    RETURN v_new;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.admin_update_report(UUID, TEXT, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_update_report(UUID, TEXT, BOOLEAN, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.admin_update_report IS 'Triage a report as the signed-in admin, recording it in the audit log';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Admin Moderation Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Columns Added: profiles.suspended_at, suspended_reason, suspended_by, username_locked';
+  RAISE NOTICE 'Policies Updated: public profiles and published answers exclude suspended accounts';
+  RAISE NOTICE 'Policies Dropped: admin updates of profiles and reports outside the audited functions';
+  RAISE NOTICE 'Trigger Created: messages to suspended accounts are rejected';
+  RAISE NOTICE 'Functions Created: is_profile_suspended(user_id), is_username_suspended(username)';
+  RAISE NOTICE 'Table Created: admin_audit_log (append-only)';
+  RAISE NOTICE 'Functions Created: admin_moderate_profile, admin_update_report (action + audit entry in one transaction)';
+  RAISE NOTICE '==========================================================';
+END $$;
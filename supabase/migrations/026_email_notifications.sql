@@ -0,0 +1,52 @@
+-- Email Notifications Migration
+-- Push is the only notification channel so far, and it never reaches users
+-- who don't grant browser permission. Adds opt-in email preferences: instant
+-- "new message" alerts and a daily or weekly digest of messages and visits,
+-- plus the bookkeeping that keeps alerts throttled and digests on schedule
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. ADD EMAIL NOTIFICATION COLUMNS TO profiles
+-- ============================================================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS email_alerts_enabled BOOLEAN DEFAULT false NOT NULL,
+ADD COLUMN IF NOT EXISTS email_digest_frequency TEXT DEFAULT 'off' NOT NULL,
+ADD COLUMN IF NOT EXISTS email_alert_last_sent_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS email_digest_last_sent_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.profiles
+DROP CONSTRAINT IF EXISTS profiles_email_digest_frequency_valid;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_email_digest_frequency_valid
+CHECK (email_digest_frequency IN ('off', 'daily', 'weekly'));
+
+COMMENT ON COLUMN public.profiles.email_alerts_enabled IS 'Whether to email the owner when a new message arrives (throttled, honours the push show_preview setting)';
+COMMENT ON COLUMN public.profiles.email_digest_frequency IS 'How often to email a summary of new messages and visits: off, daily or weekly';
+COMMENT ON COLUMN public.profiles.email_alert_last_sent_at IS 'When the last new message alert was emailed, used to throttle alerts';
+COMMENT ON COLUMN public.profiles.email_digest_last_sent_at IS 'When the last digest was sent (or skipped for lack of activity) - the next digest covers everything since';
+
+-- ============================================================================
+-- 2. INDEX FOR THE DIGEST JOB
+-- ============================================================================
+
+-- The digest job only ever looks at accounts that opted in
+CREATE INDEX IF NOT EXISTS idx_profiles_email_digest_due
+    ON public.profiles(email_digest_frequency, email_digest_last_sent_at)
+    WHERE email_digest_frequency <> 'off';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Email Notifications Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Columns Added: profiles.email_alerts_enabled, email_digest_frequency,';
+  RAISE NOTICE '               email_alert_last_sent_at, email_digest_last_sent_at';
+  RAISE NOTICE 'Index Created: idx_profiles_email_digest_due';
+  RAISE NOTICE '==========================================================';
+END $$;
@@ -0,0 +1,163 @@
+-- Webhooks Migration
+-- Users can register webhook endpoints that receive message and profile
+-- events (message.received, message.reported, profile.visited_milestone),
+-- signed with a per-endpoint secret and formatted as plain JSON or for
+-- Discord and Slack incoming webhooks. Every delivery attempt is logged so
+-- failures are retried with backoff and deliveries can be replayed
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. CREATE webhook_endpoints TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    description TEXT,
+    format TEXT DEFAULT 'json' NOT NULL,
+    events TEXT[] NOT NULL,
+    secret TEXT NOT NULL,
+    previous_secret TEXT,
+    previous_secret_expires_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN DEFAULT true NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    CONSTRAINT webhook_endpoints_url_length CHECK (char_length(url) <= 2048),
+    CONSTRAINT webhook_endpoints_url_scheme CHECK (url ~ '^https?://'),
+    CONSTRAINT webhook_endpoints_description_length CHECK (char_length(description) <= 100),
+    CONSTRAINT webhook_endpoints_format_valid CHECK (
+        format IN ('json', 'discord', 'slack')
+    ),
+    CONSTRAINT webhook_endpoints_events_valid CHECK (
+        cardinality(events) > 0
+        AND events <@ ARRAY['message.received', 'message.reported', 'profile.visited_milestone']
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id
+    ON public.webhook_endpoints(user_id);
+
+COMMENT ON TABLE public.webhook_endpoints IS 'User-registered URLs that receive message and profile events';
+COMMENT ON COLUMN public.webhook_endpoints.format IS 'Payload shape: json (signed event envelope), discord or slack (incoming webhook messages)';
+COMMENT ON COLUMN public.webhook_endpoints.events IS 'Event types the endpoint is subscribed to';
+COMMENT ON COLUMN public.webhook_endpoints.secret IS 'HMAC-SHA256 signing secret';
+COMMENT ON COLUMN public.webhook_endpoints.previous_secret IS 'Secret replaced by the last rotation - deliveries are signed with both until previous_secret_expires_at';
+
+DROP TRIGGER IF EXISTS update_webhook_endpoints_updated_at ON public.webhook_endpoints;
+CREATE TRIGGER update_webhook_endpoints_updated_at
+    BEFORE UPDATE ON public.webhook_endpoints
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- 2. CREATE webhook_deliveries TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    -- Shared by replays of the same event, so receivers can de-duplicate
+    event_id UUID NOT NULL,
+    event TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT DEFAULT 'pending' NOT NULL,
+    attempt_count INTEGER DEFAULT 0 NOT NULL,
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    response_status INTEGER,
+    response_body TEXT,
+    error TEXT,
+    replay_of UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    CONSTRAINT webhook_deliveries_status_valid CHECK (
+        status IN ('pending', 'succeeded', 'failed')
+    ),
+    CONSTRAINT webhook_deliveries_attempt_count_positive CHECK (attempt_count >= 0),
+    CONSTRAINT webhook_deliveries_response_body_length CHECK (char_length(response_body) <= 1000),
+    CONSTRAINT webhook_deliveries_error_length CHECK (char_length(error) <= 500)
+);
+
+-- Delivery log per endpoint (newest first)
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_created
+    ON public.webhook_deliveries(endpoint_id, created_at DESC);
+
+-- Retry job: pending deliveries that are due
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending
+    ON public.webhook_deliveries(next_attempt_at)
+    WHERE status = 'pending';
+
+-- Log cleanup
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created_at
+    ON public.webhook_deliveries(created_at);
+
+COMMENT ON TABLE public.webhook_deliveries IS 'Every webhook event sent to an endpoint, with its latest attempt';
+COMMENT ON COLUMN public.webhook_deliveries.payload IS 'Event envelope (id, type, created_at, data) before formatting for the endpoint';
+COMMENT ON COLUMN public.webhook_deliveries.status IS 'pending (first attempt or retry due at next_attempt_at) -> succeeded | failed (retries used up)';
+COMMENT ON COLUMN public.webhook_deliveries.replay_of IS 'Delivery this one replays, if it was replayed by the owner';
+
+-- ============================================================================
+-- 3. TRACK VISIT MILESTONES
+-- ============================================================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS last_visit_milestone INTEGER DEFAULT 0 NOT NULL;
+
+COMMENT ON COLUMN public.profiles.last_visit_milestone IS 'Highest profile visit milestone announced to webhooks, so each is sent once';
+
+-- ============================================================================
+-- 4. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own webhook endpoints" ON public.webhook_endpoints;
+CREATE POLICY "Users can view own webhook endpoints"
+ON public.webhook_endpoints FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create own webhook endpoints" ON public.webhook_endpoints;
+CREATE POLICY "Users can create own webhook endpoints"
+ON public.webhook_endpoints FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own webhook endpoints" ON public.webhook_endpoints;
+CREATE POLICY "Users can update own webhook endpoints"
+ON public.webhook_endpoints FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own webhook endpoints" ON public.webhook_endpoints;
+CREATE POLICY "Users can delete own webhook endpoints"
+ON public.webhook_endpoints FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Deliveries are written by the server (service role) only
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own webhook deliveries" ON public.webhook_deliveries;
+CREATE POLICY "Users can view own webhook deliveries"
+ON public.webhook_deliveries FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Webhooks Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Tables Created: webhook_endpoints, webhook_deliveries';
+  RAISE NOTICE 'Column Added: profiles.last_visit_milestone';
+  RAISE NOTICE '==========================================================';
+END $$;
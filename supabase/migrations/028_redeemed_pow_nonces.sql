@@ -0,0 +1,72 @@
+-- Redeemed Proof-of-Work Nonces Migration
+-- Proof-of-work challenges (lib/utils/proof-of-work.ts) are stateless, so
+-- single use is enforced here: the send API inserts a challenge's nonce
+-- before accepting the message, and the primary key rejects a replay.
+-- Rows are kept until the challenge itself has expired
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. CREATE redeemed_pow_nonces TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.redeemed_pow_nonces (
+    nonce TEXT PRIMARY KEY,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    redeemed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraints
+    CONSTRAINT redeemed_pow_nonces_nonce_length CHECK (char_length(nonce) <= 100)
+);
+
+-- Cleanup of expired nonces
+CREATE INDEX IF NOT EXISTS idx_redeemed_pow_nonces_expires_at
+    ON public.redeemed_pow_nonces(expires_at);
+
+COMMENT ON TABLE public.redeemed_pow_nonces IS 'Nonces of proof-of-work challenges already used to send a message';
+COMMENT ON COLUMN public.redeemed_pow_nonces.expires_at IS 'When the challenge expires; after this it is refused anyway';
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Only the service role (which bypasses RLS) reads or writes nonces
+ALTER TABLE public.redeemed_pow_nonces ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 3. CLEANUP FUNCTION
+-- ============================================================================
+
+-- Run periodically, e.g. with pg_cron:
+--   SELECT cron.schedule('purge-pow-nonces', '*/15 * * * *',
+--     'SELECT public.purge_expired_pow_nonces()');
+CREATE OR REPLACE FUNCTION public.purge_expired_pow_nonces()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    deleted_count INTEGER;
+BEGIN
+    DELETE FROM public.redeemed_pow_nonces WHERE expires_at < NOW();
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    RETURN deleted_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.purge_expired_pow_nonces() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.purge_expired_pow_nonces IS 'Delete nonces of expired challenges; returns the number removed';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Redeemed Proof-of-Work Nonces Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Table Created: redeemed_pow_nonces';
+  RAISE NOTICE 'Function Created: purge_expired_pow_nonces()';
+  RAISE NOTICE 'RLS Enabled: redeemed_pow_nonces (service role only)';
+  RAISE NOTICE '==========================================================';
+END $$;
@@ -0,0 +1,59 @@
+-- Server-Only Message Inserts Migration
+-- Messages are only created by the send API (app/api/messages/send), which
+-- checks the proof of work, rate limits, block rules, inbox availability
+-- and moderation before inserting with the service role. Any INSERT policy
+-- open to anon or public let clients POST to /rest/v1/messages with the
+-- public anon key and skip all of that (and set columns such as
+-- moderation_verdict or thread_token_hash themselves)
+-- Part of NGLFS anonymous messaging platform
+
+-- ============================================================================
+-- 1. DROP CLIENT INSERT POLICIES ON messages
+-- ============================================================================
+
+-- Known policies from 00001_initial_schema.sql and
+-- FIX_ANONYMOUS_MESSAGE_SELECT.sql
+DROP POLICY IF EXISTS "Anyone can insert messages" ON public.messages;
+DROP POLICY IF EXISTS "allow_anon_insert" ON public.messages;
+DROP POLICY IF EXISTS "allow_all_insert" ON public.messages;
+
+-- Plus any other INSERT (or ALL) policy open to anon or public, e.g. one
+-- added by hand in the dashboard
+DO $$
+DECLARE
+    v_policy RECORD;
+BEGIN
+    FOR v_policy IN
+        SELECT policyname
+        FROM pg_policies
+        WHERE schemaname = 'public'
+        AND tablename = 'messages'
+        AND cmd IN ('INSERT', 'ALL')
+        AND roles && ARRAY['anon', 'public']::name[]
+    LOOP
+        EXECUTE format('DROP POLICY %I ON public.messages', v_policy.policyname);
+        RAISE NOTICE 'Dropped policy: %', v_policy.policyname;
+    END LOOP;
+END $$;
+
+-- ============================================================================
+-- 2. REVOKE CLIENT INSERTS
+-- ============================================================================
+
+-- Without the privilege a policy added later still can't open inserts up.
+-- The service role keeps its own grants
+REVOKE INSERT ON public.messages FROM anon, authenticated;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+
+DO $$
+BEGIN
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Server-Only Message Inserts Migration Complete';
+  RAISE NOTICE '==========================================================';
+  RAISE NOTICE 'Policies Dropped: anon/public INSERT policies on messages';
+  RAISE NOTICE 'Privilege Revoked: INSERT on messages from anon, authenticated';
+  RAISE NOTICE '==========================================================';
+END $$;
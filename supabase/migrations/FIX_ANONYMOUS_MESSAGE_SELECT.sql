@@ -3,6 +3,10 @@
 -- ============================================================================
 -- This allows anonymous users to SELECT their inserted message (for .select().single())
 -- Run this in Supabase SQL Editor
+--
+-- SUPERSEDED - do not run. The send API inserts messages with the service
+-- role, and 029_server_only_message_inserts.sql drops allow_anon_insert.
+-- allow_anon_select exposed every message; 006_public_answers.sql drops it
 -- ============================================================================
 
 -- Step 1: Disable RLS temporarily